@@ -0,0 +1,3 @@
+export * from "./queries";
+export * from "./rewards";
+export * from "./server";
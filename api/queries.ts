@@ -0,0 +1,164 @@
+import { CurrentStatus, getCurrentStatus } from "../sdk/types";
+import {
+  IndexedPool,
+  IndexedProject,
+  IndexerState,
+  Participant,
+} from "../indexer/types";
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export interface PageOptions {
+  offset?: number;
+  limit?: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+  offset: number;
+  limit: number;
+}
+
+export interface Filters {
+  // Any of these statuses, as returned by getProjectStatus
+  status?: CurrentStatus[];
+  owner?: string;
+  rewardToken?: string;
+  stakedToken?: string;
+  projectId?: number;
+}
+
+export interface ProjectView extends IndexedProject {
+  currentStatus: CurrentStatus;
+}
+
+// totalStaked is the pool's TVL in staked token units
+export interface PoolView extends IndexedPool {
+  rewardToken: string;
+  owner: string;
+  currentStatus: CurrentStatus;
+}
+
+export interface PositionView extends Participant {
+  projectId: number;
+  stakedToken: string;
+  rewardToken: string;
+  currentStatus: CurrentStatus;
+  pendingReward: bigint;
+}
+
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+export function paginate<T>(items: T[], options: PageOptions = {}): Page<T> {
+  const offset = options.offset ?? 0;
+  const limit = Math.min(options.limit ?? DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+  return {
+    items: items.slice(offset, offset + limit),
+    total: items.length,
+    offset,
+    limit,
+  };
+}
+
+export function toProjectView(
+  project: IndexedProject,
+  now: number
+): ProjectView {
+  return {
+    ...project,
+    currentStatus: getCurrentStatus(
+      project.status,
+      project.startTime,
+      project.endTime,
+      now
+    ),
+  };
+}
+
+export function toPoolView(
+  state: IndexerState,
+  pool: IndexedPool,
+  now: number
+): PoolView {
+  const project = toProjectView(state.projects[pool.projectId], now);
+  return {
+    ...pool,
+    rewardToken: project.rewardToken,
+    owner: project.owner,
+    currentStatus: project.currentStatus,
+  };
+}
+
+function matchesProject(
+  state: IndexerState,
+  project: ProjectView,
+  filters: Filters
+): boolean {
+  return (
+    (filters.projectId === undefined ||
+      project.projectId === filters.projectId) &&
+    (!filters.status || filters.status.includes(project.currentStatus)) &&
+    (!filters.owner || sameAddress(project.owner, filters.owner)) &&
+    (!filters.rewardToken ||
+      sameAddress(project.rewardToken, filters.rewardToken)) &&
+    (!filters.stakedToken ||
+      project.pools.some((address) =>
+        sameAddress(
+          state.pools[address.toLowerCase()].stakedToken,
+          filters.stakedToken!
+        )
+      ))
+  );
+}
+
+// Projects by id, a stakedToken filter keeps projects with such a pool
+export function listProjects(
+  state: IndexerState,
+  filters: Filters,
+  now: number
+): ProjectView[] {
+  return Object.values(state.projects)
+    .map((project) => toProjectView(project, now))
+    .filter((project) => matchesProject(state, project, filters))
+    .sort((a, b) => a.projectId - b.projectId);
+}
+
+export function listPools(
+  state: IndexerState,
+  filters: Filters,
+  now: number
+): PoolView[] {
+  return listProjects(
+    state,
+    { ...filters, stakedToken: undefined },
+    now
+  ).flatMap((project) =>
+    project.pools
+      .map((address) =>
+        toPoolView(state, state.pools[address.toLowerCase()], now)
+      )
+      .filter(
+        (pool) =>
+          !filters.stakedToken ||
+          sameAddress(pool.stakedToken, filters.stakedToken)
+      )
+  );
+}
+
+// Every pool `wallet` took part in, including the ones it already left
+export function listParticipations(
+  state: IndexerState,
+  wallet: string,
+  filters: Filters,
+  now: number
+): { pool: PoolView; participant: Participant }[] {
+  return listPools(state, filters, now).flatMap((pool) => {
+    const participant =
+      state.participants[pool.address.toLowerCase()][wallet.toLowerCase()];
+    return participant ? [{ pool, participant }] : [];
+  });
+}
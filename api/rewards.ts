@@ -0,0 +1,59 @@
+import type { Provider } from "ethers";
+import { LaunchPoolClient } from "../sdk/LaunchPoolClient";
+import { PoolState, pendingReward } from "../sdk/rewards";
+import { LockPosition, UserInfo } from "../sdk/types";
+import { IndexerState, Participant } from "../indexer/types";
+
+// Failed reads are dropped so the next request retries them
+function cached<T>(
+  cache: Map<string, Promise<T>>,
+  key: string,
+  read: () => Promise<T>
+): Promise<T> {
+  let value = cache.get(key);
+  if (!value) {
+    value = read();
+    value.catch(() => cache.delete(key));
+    cache.set(key, value);
+  }
+  return value;
+}
+
+// Computes pending rewards with the reward engine from the pool and user
+// state at the indexed block, so only the first request after each sync
+// reads from the chain and later ones keep accruing up to `now`
+export class PendingRewardReader {
+  private block?: number;
+  private pools = new Map<string, Promise<PoolState>>();
+  private users = new Map<string, Promise<UserInfo>>();
+  private locks = new Map<string, Promise<LockPosition[]>>();
+
+  constructor(readonly provider: Provider) {}
+
+  async pendingReward(
+    state: IndexerState,
+    participant: Participant,
+    now: number
+  ): Promise<bigint> {
+    const blockTag = state.block.number;
+    if (this.block !== blockTag) {
+      this.block = blockTag;
+      this.pools.clear();
+      this.users.clear();
+      this.locks.clear();
+    }
+    const client = new LaunchPoolClient(participant.pool, this.provider);
+    const poolKey = participant.pool.toLowerCase();
+    const userKey = `${poolKey}:${participant.user.toLowerCase()}`;
+    return pendingReward(
+      await cached(this.pools, poolKey, () => client.poolState(blockTag)),
+      await cached(this.users, userKey, () =>
+        client.userInfo(participant.user, blockTag)
+      ),
+      now,
+      await cached(this.locks, userKey, () =>
+        client.lockPositions(participant.user, blockTag)
+      )
+    );
+  }
+}
@@ -0,0 +1,219 @@
+import http from "http";
+import { isAddress } from "ethers";
+import type { Provider } from "ethers";
+import { ETH_ADDRESS, parseCurrentStatus } from "../sdk/types";
+import { Indexer } from "../indexer/Indexer";
+import { IndexerState } from "../indexer/types";
+import {
+  Filters,
+  PageOptions,
+  PositionView,
+  listParticipations,
+  listPools,
+  listProjects,
+  paginate,
+  toPoolView,
+  toProjectView,
+} from "./queries";
+import { PendingRewardReader } from "./rewards";
+
+export interface ApiServerOptions {
+  provider: Provider;
+  // Synced by the caller, the server only reads its latest state
+  indexer: Indexer;
+}
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+interface RequestContext {
+  state: IndexerState;
+  // Timestamp of the latest block, what getProjectStatus and pendingReward
+  // would see on chain
+  now: number;
+  params: string[];
+  query: URLSearchParams;
+}
+
+type Handler = (context: RequestContext) => Promise<unknown> | unknown;
+
+function parseAddress(name: string, value: string): string {
+  if (name === "stakedToken" && value.toUpperCase() === "ETH") {
+    return ETH_ADDRESS;
+  }
+  if (!isAddress(value)) {
+    throw new HttpError(400, `${name} is not an address: ${value}`);
+  }
+  return value;
+}
+
+function parseInteger(name: string, value: string | null): number | undefined {
+  if (value === null) {
+    return undefined;
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new HttpError(400, `${name} must be a non-negative integer`);
+  }
+  return Number(value);
+}
+
+function parseFilters(query: URLSearchParams): Filters {
+  const filters: Filters = {
+    projectId: parseInteger("projectId", query.get("projectId")),
+  };
+  const status = query.get("status");
+  if (status) {
+    try {
+      filters.status = status
+        .split(",")
+        .map((value) => parseCurrentStatus(value.trim().toUpperCase()));
+    } catch (error: any) {
+      throw new HttpError(400, error.message);
+    }
+  }
+  for (const name of ["owner", "rewardToken", "stakedToken"] as const) {
+    const value = query.get(name);
+    if (value) {
+      filters[name] = parseAddress(name, value);
+    }
+  }
+  return filters;
+}
+
+function parsePage(query: URLSearchParams): PageOptions {
+  return {
+    offset: parseInteger("offset", query.get("offset")),
+    limit: parseInteger("limit", query.get("limit")),
+  };
+}
+
+function getProject({ state, now, params }: RequestContext) {
+  const project = state.projects[Number(params[0])];
+  if (!project) {
+    throw new HttpError(404, `Project ${params[0]} not found`);
+  }
+  return toProjectView(project, now);
+}
+
+export function createApiServer({
+  provider,
+  indexer,
+}: ApiServerOptions): http.Server {
+  const rewards = new PendingRewardReader(provider);
+
+  const routes: [RegExp, Handler][] = [
+    [
+      /^\/status$/,
+      ({ state, now }) => ({
+        chainId: state.chainId,
+        factory: state.factory,
+        block: state.block,
+        confirmedBlock: indexer.snapshot!.confirmed.block,
+        timestamp: now,
+      }),
+    ],
+    [
+      /^\/projects$/,
+      ({ state, now, query }) =>
+        paginate(
+          listProjects(state, parseFilters(query), now),
+          parsePage(query)
+        ),
+    ],
+    [/^\/projects\/(\d+)$/, getProject],
+    [
+      /^\/projects\/(\d+)\/pools$/,
+      (context) => {
+        const { state, now, query } = context;
+        const { projectId } = getProject(context);
+        return paginate(
+          listPools(state, { ...parseFilters(query), projectId }, now),
+          parsePage(query)
+        );
+      },
+    ],
+    [
+      /^\/pools$/,
+      ({ state, now, query }) =>
+        paginate(listPools(state, parseFilters(query), now), parsePage(query)),
+    ],
+    [
+      /^\/pools\/(0x[0-9a-fA-F]{40})$/,
+      ({ state, now, params }) => {
+        const pool = state.pools[params[0].toLowerCase()];
+        if (!pool) {
+          throw new HttpError(404, `Pool ${params[0]} not found`);
+        }
+        return toPoolView(state, pool, now);
+      },
+    ],
+    [
+      /^\/wallets\/([^/]+)\/positions$/,
+      async ({ state, now, params, query }) => {
+        const wallet = parseAddress("wallet", params[0]);
+        const page = paginate(
+          listParticipations(state, wallet, parseFilters(query), now),
+          parsePage(query)
+        );
+        // Only the returned page needs pending rewards
+        const items: PositionView[] = await Promise.all(
+          page.items.map(async ({ pool, participant }) => ({
+            ...participant,
+            projectId: pool.projectId,
+            stakedToken: pool.stakedToken,
+            rewardToken: pool.rewardToken,
+            currentStatus: pool.currentStatus,
+            pendingReward: await rewards.pendingReward(state, participant, now),
+          }))
+        );
+        return { ...page, items };
+      },
+    ],
+  ];
+
+  async function handle(request: http.IncomingMessage): Promise<unknown> {
+    if (request.method !== "GET") {
+      throw new HttpError(405, `${request.method} is not supported`);
+    }
+    const url = new URL(request.url ?? "/", "http://localhost");
+    for (const [pattern, handler] of routes) {
+      const match = url.pathname.replace(/\/$/, "").match(pattern);
+      if (!match) {
+        continue;
+      }
+      const state = indexer.state;
+      if (!state) {
+        throw new HttpError(503, "The index hasn't been synced yet");
+      }
+      const latest = await provider.getBlock("latest");
+      return handler({
+        state,
+        now: latest!.timestamp,
+        params: match.slice(1),
+        query: url.searchParams,
+      });
+    }
+    throw new HttpError(404, `No route for ${url.pathname}`);
+  }
+
+  return http.createServer((request, response) => {
+    handle(request)
+      .then((body) => ({ status: 200, body }))
+      .catch((error) => ({
+        status: error instanceof HttpError ? error.status : 500,
+        body: { error: error.message },
+      }))
+      .then(({ status, body }) => {
+        response.writeHead(status, { "content-type": "application/json" });
+        // Amounts are sent as decimal strings, JSON numbers can't hold them
+        response.end(
+          JSON.stringify(body, (_, value) =>
+            typeof value === "bigint" ? value.toString() : value
+          )
+        );
+      });
+  });
+}
@@ -7,9 +7,11 @@ import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "./LaunchPoolFactoryUpgradeable.sol";
 import "./libraries/PoolLib.sol";
+import "./libraries/UnlockLib.sol";
 
 contract LaunchPool is ReentrancyGuard {
     using SafeERC20 for IERC20;
+    using UnlockLib for uint32[];
 
     // Status constants
     bytes32 internal constant ACTIVE = keccak256(bytes("ACTIVE"));
@@ -17,6 +19,11 @@ contract LaunchPool is ReentrancyGuard {
     bytes32 internal constant ENDED = keccak256(bytes("ENDED"));
     bytes32 internal constant DELISTED = keccak256(bytes("DELISTED"));
     bytes32 internal constant READY = keccak256(bytes("READY"));
+    bytes32 internal constant STAGING = keccak256(bytes("STAGING"));
+
+    // Boosts are in basis points of the locked amount, 1x to 5x
+    uint256 internal constant BASE_BOOST_BPS = 10000;
+    uint256 public constant MAX_BOOST_BPS = 50000;
 
     // The ID of the project this pool belongs to
     uint32 public projectId;
@@ -57,6 +64,12 @@ contract LaunchPool is ReentrancyGuard {
     // Total staked amount for all pools (ETH and ERC20)
     uint256 public totalStaked;
 
+    // Rewards paid out by claimReward
+    uint256 public totalRewardsClaimed;
+
+    // Rewards paid out to each user, part of what vested
+    mapping(address => uint256) public rewardsClaimed;
+
     // Info of each user that stakes tokens (stakedToken)
     mapping(address => UserInfo) public userInfo;
 
@@ -64,16 +77,71 @@ contract LaunchPool is ReentrancyGuard {
         uint256 amount; // How many staked tokens the user has provided
         uint256 rewardDebt; // Reward debt
         uint256 pendingRewards; // Accumulated rewards pending claim
+        uint256 weight; // Amount plus lock boosts, what rewards accrue on
+    }
+
+    // Reward tokens the project distributes next to rewardToken. Each one
+    // accrues over the same stakes and times at its own rate.
+    struct ExtraReward {
+        IERC20 token;
+        uint256 poolRewardAmount;
+        uint256 rewardPerSecond;
+        uint256 precisionFactor;
+        uint256 accTokenPerShare;
+        uint256 totalClaimed;
+    }
+
+    struct ExtraUserInfo {
+        uint256 rewardDebt;
+        uint256 pendingRewards;
+        uint256 claimed;
+    }
+
+    ExtraReward[] public extraRewards;
+
+    // User to extraRewards index to their rewards of that token
+    mapping(address => mapping(uint256 => ExtraUserInfo)) public extraUserInfo;
+
+    // The pool's own window within the project's, 0 for the project's times
+    uint32 public poolStartTime;
+    uint32 public poolEndTime;
+
+    // A deposit locked by depositLocked, which can't be withdrawn before
+    // unlockTime while the pool is READY or ACTIVE. It keeps its boosted
+    // weight until then and counts 1x like the rest of the stake after, from
+    // the next pool update on but accounted from unlockTime.
+    struct LockPosition {
+        uint256 amount;
+        uint256 weight;
+        uint32 unlockTime;
     }
 
+    // Boost of a lock over the pool's whole window, 0 when locking is disabled
+    uint256 public maxBoostBps;
+
+    // Sum of every user's weight, rewards are shared over it
+    uint256 public totalWeight;
+
+    mapping(address => LockPosition[]) internal lockPositions;
+
+    // Unlock times _updatePool hasn't reached yet, as a min-heap, and for each
+    // the boost weight its locks take out of totalWeight and who holds them
+    uint32[] internal unlockTimes;
+    mapping(uint32 => uint256) public expiringWeight;
+    mapping(uint32 => address[]) internal unlockingUsers;
+
     event AdminTokenRecovery(address tokenRecovered, uint256 amount);
     event Deposit(address indexed user, uint256 amount);
     event EmergencyWithdraw(address indexed user, uint256 amount);
     event NewStartAndEndTimes(uint32 startTime, uint32 endTime);
     event NewPoolLimit(uint256 poolLimitPerUser);
     event NewMinStakeAmount(uint256 minStakeAmount);
+    event NewMaxBoost(uint256 maxBoostBps);
+    event Locked(address indexed user, uint256 amount, uint256 weight, uint32 unlockTime);
+    event Unlocked(address indexed user, uint256 amount, uint256 weight);
     event Withdraw(address indexed user, uint256 amount);
     event RewardClaimed(address indexed user, uint256 amount);
+    event ExtraRewardClaimed(address indexed user, address indexed rewardToken, uint256 amount);
 
     modifier onlyProjectOwner() {
         require(factory.isProjectOwner(projectId, msg.sender), "Not project owner");
@@ -87,7 +155,9 @@ contract LaunchPool is ReentrancyGuard {
         uint256 _poolRewardAmount,
         uint256 _poolLimitPerUser,
         uint256 _minStakeAmount,
-        uint32 _projectId
+        uint32 _projectId,
+        uint32 _startTime,
+        uint32 _endTime
     ) external virtual {
         require(!isInitialized, "Already initialized");
         
@@ -103,16 +173,48 @@ contract LaunchPool is ReentrancyGuard {
             poolLimitPerUser = _poolLimitPerUser;
         }
 
-        rewardPerSecond = factory.calculateRewardPerSecond(projectId, _poolRewardAmount);
+        _setPoolTimes(_startTime, _endTime);
+        rewardPerSecond = calculateRewardPerSecond(_poolRewardAmount);
 
         uint256 decimalsRewardToken = IERC20Metadata(address(rewardToken())).decimals();
         require(decimalsRewardToken < 36, "Must be inferior to 36");
         PRECISION_FACTOR = 10**(uint256(36) - decimalsRewardToken);
 
-        (uint32 startTime,) = getProjectTimes();
+        (uint32 startTime,) = getPoolTimes();
         lastRewardTime = startTime;
     }
 
+    function _setPoolTimes(uint32 _startTime, uint32 _endTime) internal {
+        (uint32 projectStartTime, uint32 projectEndTime) = getProjectTimes();
+        require(_startTime == 0 || _startTime >= projectStartTime, "Pool starts before project");
+        require(_endTime <= projectEndTime, "Pool ends after project");
+        poolStartTime = _startTime;
+        poolEndTime = _endTime;
+        (uint32 startTime, uint32 endTime) = getPoolTimes();
+        require(startTime < endTime, "Pool must start before it ends");
+    }
+
+    // Called by the factory while the project is in staging, before anyone can stake
+    function addExtraReward(IERC20 _rewardToken, uint256 _poolRewardAmount) external {
+        require(msg.sender == address(factory), "Only factory");
+        require(address(_rewardToken) != address(stakedToken), "Tokens must be different");
+
+        uint256 decimalsRewardToken = IERC20Metadata(address(_rewardToken)).decimals();
+        require(decimalsRewardToken < 36, "Must be inferior to 36");
+        extraRewards.push(ExtraReward({
+            token: _rewardToken,
+            poolRewardAmount: _poolRewardAmount,
+            rewardPerSecond: calculateRewardPerSecond(_poolRewardAmount),
+            precisionFactor: 10**(uint256(36) - decimalsRewardToken),
+            accTokenPerShare: 0,
+            totalClaimed: 0
+        }));
+    }
+
+    function extraRewardCount() external view returns (uint256) {
+        return extraRewards.length;
+    }
+
     function owner() external view returns (address) {
         return factory.getProjectOwner(projectId);
     }
@@ -125,14 +227,75 @@ contract LaunchPool is ReentrancyGuard {
         return factory.getProjectTimes(projectId);
     }
 
+    // The window the pool emits rewards in. It never ends after the project,
+    // so endProject ends every pool, and starts at the latest when it ends.
+    function getPoolTimes() public view returns (uint32 startTime, uint32 endTime) {
+        (startTime, endTime) = getProjectTimes();
+        if (poolEndTime != 0 && poolEndTime < endTime) {
+            endTime = poolEndTime;
+        }
+        if (poolStartTime != 0) {
+            startTime = poolStartTime;
+        }
+        if (startTime > endTime) {
+            startTime = endTime;
+        }
+        return (startTime, endTime);
+    }
+
+    // The project's status, with READY, ACTIVE and ENDED following the pool's
+    // own window
+    function getPoolStatus() public view returns (string memory status) {
+        status = factory.getProjectStatus(projectId);
+        bytes32 statusHash = keccak256(bytes(status));
+        if (statusHash != READY && statusHash != ACTIVE && statusHash != ENDED) {
+            return status;
+        }
+        (uint32 startTime, uint32 endTime) = getPoolTimes();
+        if (block.timestamp >= endTime) {
+            return "ENDED";
+        }
+        if (block.timestamp >= startTime) {
+            return "ACTIVE";
+        }
+        return "READY";
+    }
+
+    // Whether the project's claim policy lets stakers claim at the pool's status
+    function isClaimOpen() public view returns (bool) {
+        return PoolLib.isClaimOpen(
+            keccak256(bytes(getPoolStatus())),
+            factory.getClaimSettings(projectId),
+            block.timestamp
+        );
+    }
+
+    // Rate at which the pool emits `_poolRewardAmount` over its window
+    function calculateRewardPerSecond(uint256 _poolRewardAmount) public view returns (uint256) {
+        (uint32 startTime, uint32 endTime) = getPoolTimes();
+        return PoolLib.calculateRewardPerSecond(_poolRewardAmount, startTime, endTime);
+    }
+
     address constant internal ETH = 0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE;
 
     function deposit(uint256 _amount) external virtual payable nonReentrant {
+        _deposit(_amount, 0);
+    }
+
+    // Stakes `_amount` locked for `_lockDuration` seconds, or until the pool
+    // ends if that's sooner, boosted as getLockBoost says
+    function depositLocked(uint256 _amount, uint32 _lockDuration) external payable nonReentrant {
+        require(maxBoostBps > 0, "Locking disabled");
+        require(_amount > 0 && _lockDuration > 0, "Nothing to lock");
+        _deposit(_amount, _lockDuration);
+    }
+
+    function _deposit(uint256 _amount, uint32 _lockDuration) internal {
         UserInfo storage user = userInfo[msg.sender];
         uint256 currentAmount = user.amount;
         uint256 currentAccTokenPerShare = accTokenPerShare;
 
-        bytes32 statusHash = keccak256(bytes(factory.getProjectStatus(projectId)));
+        bytes32 statusHash = keccak256(bytes(getPoolStatus()));
         require(statusHash == ACTIVE || statusHash == READY, "Pool must be active or ready");
 
         if (_amount > 0) {
@@ -144,17 +307,23 @@ contract LaunchPool is ReentrancyGuard {
 
         _updatePool();
         currentAccTokenPerShare = accTokenPerShare;
+        // Read after the update, which can drop the user's locks to 1x
+        uint256 currentWeight = user.weight;
 
-        if (currentAmount > 0) {
-            uint256 pending = currentAmount * currentAccTokenPerShare / PRECISION_FACTOR - user.rewardDebt;
+        if (currentWeight > 0) {
+            uint256 pending = currentWeight * currentAccTokenPerShare / PRECISION_FACTOR - user.rewardDebt;
             if (pending > 0) {
                 user.pendingRewards = user.pendingRewards + pending;
             }
         }
+        _accrueExtraRewards(msg.sender, currentWeight);
 
         if (_amount > 0) {
+            uint256 weight = _lockDuration > 0 ? _lock(msg.sender, _amount, _lockDuration) : _amount;
             currentAmount = currentAmount + _amount;
+            currentWeight = currentWeight + weight;
             totalStaked += _amount;
+            totalWeight += weight;
             if (address(stakedToken) == ETH) {
                 require(msg.value == _amount, "Invalid ETH amount");
             } else {
@@ -163,7 +332,9 @@ contract LaunchPool is ReentrancyGuard {
         }
 
         user.amount = currentAmount;
-        user.rewardDebt = currentAmount * currentAccTokenPerShare / PRECISION_FACTOR;
+        user.weight = currentWeight;
+        user.rewardDebt = currentWeight * currentAccTokenPerShare / PRECISION_FACTOR;
+        _resetExtraRewardDebts(msg.sender, currentWeight);
 
         emit Deposit(msg.sender, _amount);
     }
@@ -173,7 +344,7 @@ contract LaunchPool is ReentrancyGuard {
         uint256 currentAmount = user.amount;
         uint256 currentAccTokenPerShare = accTokenPerShare;
 
-        bytes32 statusHash = keccak256(bytes(factory.getProjectStatus(projectId)));
+        bytes32 statusHash = keccak256(bytes(getPoolStatus()));
         require(
             statusHash == ACTIVE || 
             statusHash == ENDED || 
@@ -186,15 +357,22 @@ contract LaunchPool is ReentrancyGuard {
 
         _updatePool();
         currentAccTokenPerShare = accTokenPerShare;
+        uint256 currentWeight = user.weight;
 
-        uint256 pending = currentAmount * currentAccTokenPerShare / PRECISION_FACTOR - user.rewardDebt;
+        uint256 pending = currentWeight * currentAccTokenPerShare / PRECISION_FACTOR - user.rewardDebt;
         if (pending > 0) {
             user.pendingRewards = user.pendingRewards + pending;
         }
+        _accrueExtraRewards(msg.sender, currentWeight);
 
         if (_amount > 0) {
+            // Locks don't hold while the project is paused or delisted, or
+            // once the pool has ended, even early through endProject
+            uint256 weight = _release(msg.sender, _amount, statusHash != ACTIVE && statusHash != READY);
             currentAmount = currentAmount - _amount;
+            currentWeight = currentWeight - weight;
             totalStaked -= _amount;
+            totalWeight -= weight;
             if (address(stakedToken) == ETH) {
                 (bool success, ) = msg.sender.call{value: _amount}("");
                 require(success, "ETH transfer failed");
@@ -204,42 +382,67 @@ contract LaunchPool is ReentrancyGuard {
         }
 
         user.amount = currentAmount;
-        user.rewardDebt = currentAmount * currentAccTokenPerShare / PRECISION_FACTOR;
+        user.weight = currentWeight;
+        user.rewardDebt = currentWeight * currentAccTokenPerShare / PRECISION_FACTOR;
+        _resetExtraRewardDebts(msg.sender, currentWeight);
 
         emit Withdraw(msg.sender, _amount);
     }
 
     function claimReward() external nonReentrant {
-        bytes32 statusHash = keccak256(bytes(factory.getProjectStatus(projectId)));
-        require(statusHash == ENDED, "Pool not ended");
+        LaunchPoolFactoryUpgradeable.ClaimSettings memory claimSettings = factory.getClaimSettings(projectId);
+        require(
+            isClaimOpen(),
+            claimSettings.policy == LaunchPoolFactoryUpgradeable.ClaimPolicy.AT_END ? "Pool not ended" : "Rewards locked"
+        );
         
         UserInfo storage user = userInfo[msg.sender];
-        uint256 currentAmount = user.amount;
-        uint256 currentAccTokenPerShare = accTokenPerShare;
 
         _updatePool();
-        currentAccTokenPerShare = accTokenPerShare;
+        uint256 currentWeight = user.weight;
+        uint256 currentAccTokenPerShare = accTokenPerShare;
 
-        uint256 pending = currentAmount * currentAccTokenPerShare / PRECISION_FACTOR - user.rewardDebt;
+        uint256 pending = currentWeight * currentAccTokenPerShare / PRECISION_FACTOR - user.rewardDebt;
         uint256 totalPending = pending + user.pendingRewards;
-        require(totalPending > 0, "No rewards to claim");
-
-        user.pendingRewards = 0;
-        user.rewardDebt = currentAmount * currentAccTokenPerShare / PRECISION_FACTOR;
-
-        rewardToken().safeTransfer(msg.sender, totalPending);
-
-        emit RewardClaimed(msg.sender, totalPending);
+        uint256 releasable = _releasable(rewardsClaimed[msg.sender], totalPending, claimSettings);
+        _accrueExtraRewards(msg.sender, currentWeight);
+        _resetExtraRewardDebts(msg.sender, currentWeight);
+        bool extraClaimed = _claimExtraRewards(msg.sender, claimSettings);
+        require(releasable > 0 || extraClaimed, "No rewards to claim");
+
+        // Unvested rewards stay pending until a later claim
+        user.pendingRewards = totalPending - releasable;
+        user.rewardDebt = currentWeight * currentAccTokenPerShare / PRECISION_FACTOR;
+        if (releasable > 0) {
+            rewardsClaimed[msg.sender] += releasable;
+            totalRewardsClaimed += releasable;
+
+            rewardToken().safeTransfer(msg.sender, releasable);
+
+            emit RewardClaimed(msg.sender, releasable);
+        }
     }
 
     function emergencyWithdraw() external nonReentrant {
-        bytes32 statusHash = keccak256(bytes(factory.getProjectStatus(projectId)));
+        bytes32 statusHash = keccak256(bytes(getPoolStatus()));
         require(statusHash == PAUSED || statusHash == DELISTED, "Pool must be paused or delisted");
         UserInfo storage user = userInfo[msg.sender];
         uint256 amountToTransfer = user.amount;
+        totalWeight -= user.weight;
+        LockPosition[] storage positions = lockPositions[msg.sender];
+        for (uint256 i = 0; i < positions.length; i++) {
+            expiringWeight[positions[i].unlockTime] -= positions[i].weight - positions[i].amount;
+        }
         user.amount = 0;
+        user.weight = 0;
         user.rewardDebt = 0;
         user.pendingRewards = 0;
+        delete lockPositions[msg.sender];
+        for (uint256 i = 0; i < extraRewards.length; i++) {
+            ExtraUserInfo storage extraUser = extraUserInfo[msg.sender][i];
+            extraUser.rewardDebt = 0;
+            extraUser.pendingRewards = 0;
+        }
 
         if (amountToTransfer > 0) {
             totalStaked -= amountToTransfer;
@@ -263,14 +466,23 @@ contract LaunchPool is ReentrancyGuard {
     }
 
     function emergencyRewardWithdraw(uint256 _amount) external onlyProjectOwner {
-        bytes32 statusHash = keccak256(bytes(factory.getProjectStatus(projectId)));
+        bytes32 statusHash = keccak256(bytes(getPoolStatus()));
         require(statusHash == PAUSED || statusHash == DELISTED, "Pool must be paused or delisted");
         rewardToken().safeTransfer(msg.sender, _amount);
     }
 
+    function emergencyExtraRewardWithdraw(uint256 _index, uint256 _amount) external onlyProjectOwner {
+        bytes32 statusHash = keccak256(bytes(getPoolStatus()));
+        require(statusHash == PAUSED || statusHash == DELISTED, "Pool must be paused or delisted");
+        extraRewards[_index].token.safeTransfer(msg.sender, _amount);
+    }
+
     function recoverWrongTokens(address _tokenAddress, uint256 _tokenAmount) external onlyProjectOwner {
         require(_tokenAddress != address(stakedToken), "Cannot be staked token");
         require(_tokenAddress != address(rewardToken()), "Cannot be reward token");
+        for (uint256 i = 0; i < extraRewards.length; i++) {
+            require(_tokenAddress != address(extraRewards[i].token), "Cannot be reward token");
+        }
         require(_tokenAmount > 0, "Amount must be positive");
         require(_tokenAmount <= IERC20(_tokenAddress).balanceOf(address(this)), "Insufficient balance");
 
@@ -295,56 +507,457 @@ contract LaunchPool is ReentrancyGuard {
         emit NewMinStakeAmount(_minStakeAmount);
     }
 
+    // Only before anyone can stake, so every lock in the pool is boosted alike
+    function updateMaxBoost(uint256 _maxBoostBps) external onlyProjectOwner {
+        require(keccak256(bytes(getPoolStatus())) == STAGING, "Project not in staging");
+        require(
+            _maxBoostBps == 0 || (_maxBoostBps >= BASE_BOOST_BPS && _maxBoostBps <= MAX_BOOST_BPS),
+            "Invalid boost"
+        );
+        maxBoostBps = _maxBoostBps;
+        emit NewMaxBoost(_maxBoostBps);
+    }
+
+    // Boost and unlock time of a lock of `_lockDuration` seconds made now. The
+    // boost grows linearly with the share of the pool's window the lock
+    // covers, from 1x to maxBoostBps for all of it.
+    function getLockBoost(uint32 _lockDuration) public view returns (uint256 boostBps, uint32 unlockTime) {
+        (uint32 startTime, uint32 endTime) = getPoolTimes();
+        unlockTime = block.timestamp + _lockDuration < endTime ? uint32(block.timestamp + _lockDuration) : endTime;
+        boostBps = BASE_BOOST_BPS;
+        uint256 lockedFrom = block.timestamp > startTime ? block.timestamp : startTime;
+        if (maxBoostBps > BASE_BOOST_BPS && unlockTime > lockedFrom) {
+            boostBps += (maxBoostBps - BASE_BOOST_BPS) * (unlockTime - lockedFrom) / (endTime - startTime);
+        }
+        return (boostBps, unlockTime);
+    }
+
+    function getLockPositions(address _user) external view returns (LockPosition[] memory) {
+        return lockPositions[_user];
+    }
+
+    // Part of the user's stake withdraw can't return yet
+    function lockedAmount(address _user) external view returns (uint256 amount) {
+        bytes32 statusHash = keccak256(bytes(getPoolStatus()));
+        if (statusHash != ACTIVE && statusHash != READY) {
+            return 0;
+        }
+        LockPosition[] storage positions = lockPositions[_user];
+        for (uint256 i = 0; i < positions.length; i++) {
+            if (positions[i].unlockTime > block.timestamp) {
+                amount += positions[i].amount;
+            }
+        }
+        return amount;
+    }
+
+    function _lock(address _user, uint256 _amount, uint32 _lockDuration) internal returns (uint256 weight) {
+        (uint256 boostBps, uint32 unlockTime) = getLockBoost(_lockDuration);
+        weight = _amount * boostBps / BASE_BOOST_BPS;
+        lockPositions[_user].push(LockPosition(_amount, weight, unlockTime));
+        if (unlockingUsers[unlockTime].length == 0) {
+            unlockTimes.insert(unlockTime);
+        }
+        unlockingUsers[unlockTime].push(_user);
+        expiringWeight[unlockTime] += weight - _amount;
+        emit Locked(_user, _amount, weight, unlockTime);
+        return weight;
+    }
+
+    // Updates the pool, which drops every lock that is over to 1x, and moves
+    // what the user earned into pendingRewards. Locks stop boosting at their
+    // unlock time either way, this only writes it down.
+    function poke(address _user) external nonReentrant {
+        UserInfo storage user = userInfo[_user];
+
+        _updatePool();
+        uint256 currentWeight = user.weight;
+
+        user.pendingRewards += currentWeight * accTokenPerShare / PRECISION_FACTOR - user.rewardDebt;
+        _accrueExtraRewards(_user, currentWeight);
+
+        user.rewardDebt = currentWeight * accTokenPerShare / PRECISION_FACTOR;
+        _resetExtraRewardDebts(_user, currentWeight);
+    }
+
+    // Drops the locks unlocking at `_unlockTime` to 1x, once the pool accrued
+    // up to it. Their holders earn at the boosted weight until then.
+    function _unlock(uint32 _unlockTime) internal {
+        address[] storage users = unlockingUsers[_unlockTime];
+        for (uint256 i = 0; i < users.length; i++) {
+            address account = users[i];
+            // Users holding several of these locks are listed once per lock
+            uint256 boost = _settleLocks(account, _unlockTime);
+            if (boost == 0) {
+                continue;
+            }
+            UserInfo storage user = userInfo[account];
+            uint256 currentWeight = user.weight;
+            user.pendingRewards += currentWeight * accTokenPerShare / PRECISION_FACTOR - user.rewardDebt;
+            _accrueExtraRewards(account, currentWeight);
+            currentWeight -= boost;
+            user.weight = currentWeight;
+            user.rewardDebt = currentWeight * accTokenPerShare / PRECISION_FACTOR;
+            _resetExtraRewardDebts(account, currentWeight);
+        }
+        totalWeight -= expiringWeight[_unlockTime];
+        delete expiringWeight[_unlockTime];
+        delete unlockingUsers[_unlockTime];
+    }
+
+    // Removes the user's locks unlocking at `_unlockTime`, so they count as
+    // unlocked stake, and returns the boost weight they had
+    function _settleLocks(address _user, uint32 _unlockTime) internal returns (uint256 boost) {
+        LockPosition[] storage positions = lockPositions[_user];
+        for (uint256 i = positions.length; i > 0; i--) {
+            LockPosition storage position = positions[i - 1];
+            if (position.unlockTime == _unlockTime) {
+                boost += position.weight - position.amount;
+                emit Unlocked(_user, position.amount, position.weight);
+                // The last position was already visited
+                positions[i - 1] = positions[positions.length - 1];
+                positions.pop();
+            }
+        }
+        return boost;
+    }
+
+    // Takes `_amount` out of the user's stake, unlocked deposits first, then
+    // the newest locks that are over or `_ignoreLocks`, and returns the weight
+    // it carried. Locks that are over are settled by _updatePool first, so
+    // every lock it takes boosts until its unlock time.
+    function _release(address _user, uint256 _amount, bool _ignoreLocks) internal returns (uint256 weight) {
+        LockPosition[] storage positions = lockPositions[_user];
+        uint256 unlocked = userInfo[_user].amount;
+        for (uint256 i = 0; i < positions.length; i++) {
+            unlocked -= positions[i].amount;
+        }
+        if (_amount <= unlocked) {
+            return _amount;
+        }
+
+        weight = unlocked;
+        uint256 remaining = _amount - unlocked;
+        for (uint256 i = positions.length; i > 0 && remaining > 0; i--) {
+            LockPosition storage position = positions[i - 1];
+            if (!_ignoreLocks && position.unlockTime > block.timestamp) {
+                continue;
+            }
+            if (remaining < position.amount) {
+                uint256 partWeight = position.weight * remaining / position.amount;
+                expiringWeight[position.unlockTime] -= partWeight - remaining;
+                position.amount -= remaining;
+                position.weight -= partWeight;
+                weight += partWeight;
+                remaining = 0;
+            } else {
+                remaining -= position.amount;
+                weight += position.weight;
+                expiringWeight[position.unlockTime] -= position.weight - position.amount;
+                // The last position was already visited
+                positions[i - 1] = positions[positions.length - 1];
+                positions.pop();
+            }
+        }
+        require(remaining == 0, "Amount is locked");
+        return weight;
+    }
+
     function getTotalDistributedRewards() public view returns (uint256) {
-        (uint32 startTime, uint32 endTime) = getProjectTimes();
+        return _distributedRewards(rewardPerSecond);
+    }
+
+    function _distributedRewards(uint256 _rewardPerSecond) internal view returns (uint256) {
+        (uint32 startTime, uint32 endTime) = getPoolTimes();
         uint256 duration = endTime - startTime;
-        return duration * rewardPerSecond;
+        return duration * _rewardPerSecond;
+    }
+
+    // Reward tokens held plus those already claimed, matches poolRewardAmount
+    // until the project owner takes rewards back
+    function rewardFunding() public view returns (uint256) {
+        return rewardToken().balanceOf(address(this)) + totalRewardsClaimed;
+    }
+
+    function _extraRewardFunding(ExtraReward storage _reward) internal view returns (uint256) {
+        return _reward.token.balanceOf(address(this)) + _reward.totalClaimed;
+    }
+
+    // Whether the pool holds, or paid out, its allocation of every reward token
+    function isRewardFunded() external view returns (bool) {
+        if (rewardFunding() < poolRewardAmount) {
+            return false;
+        }
+        for (uint256 i = 0; i < extraRewards.length; i++) {
+            if (_extraRewardFunding(extraRewards[i]) < extraRewards[i].poolRewardAmount) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    // Every reward token of the pool, rewardToken first
+    function getPoolRewards() external view returns (LaunchPoolFactoryUpgradeable.PoolReward[] memory rewards) {
+        rewards = new LaunchPoolFactoryUpgradeable.PoolReward[](extraRewards.length + 1);
+        rewards[0] = LaunchPoolFactoryUpgradeable.PoolReward(address(rewardToken()), poolRewardAmount, rewardPerSecond);
+        for (uint256 i = 0; i < extraRewards.length; i++) {
+            ExtraReward storage reward = extraRewards[i];
+            rewards[i + 1] = LaunchPoolFactoryUpgradeable.PoolReward(
+                address(reward.token),
+                reward.poolRewardAmount,
+                reward.rewardPerSecond
+            );
+        }
+        return rewards;
     }
 
     function withdrawRemainingRewards() external onlyProjectOwner {
-        bytes32 statusHash = keccak256(bytes(factory.getProjectStatus(projectId)));
+        bytes32 statusHash = keccak256(bytes(getPoolStatus()));
         require(statusHash == ENDED, "Pool must be ended");
+        bool withdrawn = false;
         
         uint256 distributedRewards = getTotalDistributedRewards();
-        uint256 balance = rewardToken().balanceOf(address(this));
-        require(balance > distributedRewards, "No rewards to withdraw");
-        
-        uint256 remainingRewards = balance - distributedRewards;
-        rewardToken().safeTransfer(msg.sender, remainingRewards);
-        emit Events.RemainingRewardsWithdrawn(msg.sender, remainingRewards);
+        uint256 funding = rewardFunding();
+        if (funding > distributedRewards) {
+            uint256 remainingRewards = funding - distributedRewards;
+            rewardToken().safeTransfer(msg.sender, remainingRewards);
+            emit Events.RemainingRewardsWithdrawn(msg.sender, remainingRewards);
+            withdrawn = true;
+        }
+
+        for (uint256 i = 0; i < extraRewards.length; i++) {
+            ExtraReward storage reward = extraRewards[i];
+            distributedRewards = _distributedRewards(reward.rewardPerSecond);
+            funding = _extraRewardFunding(reward);
+            if (funding > distributedRewards) {
+                uint256 remainingRewards = funding - distributedRewards;
+                reward.token.safeTransfer(msg.sender, remainingRewards);
+                emit Events.RemainingExtraRewardsWithdrawn(msg.sender, address(reward.token), remainingRewards);
+                withdrawn = true;
+            }
+        }
+        require(withdrawn, "No rewards to withdraw");
     }
 
     function pendingReward(address _user) external view returns (uint256) {
+        return _pendingReward(_user);
+    }
+
+    // Pending rewards of every reward token, rewardToken first
+    function getPendingRewards(address _user)
+        external
+        view
+        returns (address[] memory rewardTokens, uint256[] memory amounts)
+    {
+        rewardTokens = new address[](extraRewards.length + 1);
+        amounts = _pendingRewards(_user);
+        rewardTokens[0] = address(rewardToken());
+        for (uint256 i = 0; i < extraRewards.length; i++) {
+            rewardTokens[i + 1] = address(extraRewards[i].token);
+        }
+        return (rewardTokens, amounts);
+    }
+
+    // Splits pendingReward by whether the project's claim policy lets the user
+    // claim it now
+    function claimableReward(address _user) external view returns (uint256 claimable, uint256 locked) {
+        uint256 pending = _pendingReward(_user);
+        if (isClaimOpen()) {
+            claimable = _releasable(rewardsClaimed[_user], pending, factory.getClaimSettings(projectId));
+        }
+        return (claimable, pending - claimable);
+    }
+
+    // What the user earned that has vested, including what they claimed, and
+    // what is still locked. Without a vesting schedule everything earned so
+    // far counts as vested.
+    function vestingInfo(address _user) external view returns (uint256 vested, uint256 claimed, uint256 locked) {
+        claimed = rewardsClaimed[_user];
+        uint256 earned = _pendingReward(_user) + claimed;
+        (, uint32 endTime) = getPoolTimes();
+        vested = PoolLib.calculateVestedAmount(earned, endTime, factory.getClaimSettings(projectId), block.timestamp);
+        return (vested, claimed, earned - vested);
+    }
+
+    // Part of a user's pending rewards that has vested and not been claimed
+    function _releasable(
+        uint256 _claimed,
+        uint256 _pending,
+        LaunchPoolFactoryUpgradeable.ClaimSettings memory _claimSettings
+    ) internal view returns (uint256) {
+        (, uint32 endTime) = getPoolTimes();
+        uint256 vested = PoolLib.calculateVestedAmount(_pending + _claimed, endTime, _claimSettings, block.timestamp);
+        return vested > _claimed ? vested - _claimed : 0;
+    }
+
+    // Moves what the user earned of each extra reward since their last
+    // action into pendingRewards, after _updatePool
+    function _accrueExtraRewards(address _user, uint256 _amount) internal {
+        for (uint256 i = 0; i < extraRewards.length; i++) {
+            ExtraUserInfo storage extraUser = extraUserInfo[_user][i];
+            extraUser.pendingRewards += _amount * extraRewards[i].accTokenPerShare / extraRewards[i].precisionFactor
+                - extraUser.rewardDebt;
+        }
+    }
+
+    function _resetExtraRewardDebts(address _user, uint256 _amount) internal {
+        for (uint256 i = 0; i < extraRewards.length; i++) {
+            extraUserInfo[_user][i].rewardDebt =
+                _amount * extraRewards[i].accTokenPerShare / extraRewards[i].precisionFactor;
+        }
+    }
+
+    // Pays out the vested part of each extra reward, returns whether any was,
+    // after _accrueExtraRewards
+    function _claimExtraRewards(
+        address _user,
+        LaunchPoolFactoryUpgradeable.ClaimSettings memory _claimSettings
+    ) internal returns (bool claimed) {
+        for (uint256 i = 0; i < extraRewards.length; i++) {
+            ExtraReward storage reward = extraRewards[i];
+            ExtraUserInfo storage extraUser = extraUserInfo[_user][i];
+            uint256 releasable = _releasable(extraUser.claimed, extraUser.pendingRewards, _claimSettings);
+            if (releasable > 0) {
+                extraUser.pendingRewards -= releasable;
+                extraUser.claimed += releasable;
+                reward.totalClaimed += releasable;
+
+                reward.token.safeTransfer(_user, releasable);
+
+                emit ExtraRewardClaimed(_user, address(reward.token), releasable);
+                claimed = true;
+            }
+        }
+        return claimed;
+    }
+
+    function _pendingReward(address _user) internal view returns (uint256) {
+        return _pendingRewards(_user)[0];
+    }
+
+    // What the user has pending of each reward token, rewardToken first, as
+    // of now. It replays _updatePool, which accrues up to each unlock time it
+    // passes and drops the locks unlocking then to 1x.
+    function _pendingRewards(address _user) internal view returns (uint256[] memory pending) {
+        uint256 count = extraRewards.length + 1;
+        uint256[] memory accs = new uint256[](count);
+        uint256[] memory rates = new uint256[](count);
+        uint256[] memory precisions = new uint256[](count);
+        uint256[] memory debts = new uint256[](count);
+        pending = new uint256[](count);
         UserInfo storage user = userInfo[_user];
-        uint256 stakedTokenSupply = totalStaked;
-        (uint32 startTime, uint32 endTime) = getProjectTimes();
-        
-        return PoolLib.calculatePendingRewards(
-            accTokenPerShare,
-            rewardPerSecond,
-            PRECISION_FACTOR,
-            stakedTokenSupply,
-            lastRewardTime,
-            startTime,
-            endTime,
-            user.amount,
-            user.rewardDebt,
-            user.pendingRewards
-        );
+        (accs[0], rates[0], precisions[0]) = (accTokenPerShare, rewardPerSecond, PRECISION_FACTOR);
+        (debts[0], pending[0]) = (user.rewardDebt, user.pendingRewards);
+        for (uint256 i = 1; i < count; i++) {
+            ExtraReward storage reward = extraRewards[i - 1];
+            ExtraUserInfo storage extraUser = extraUserInfo[_user][i - 1];
+            (accs[i], rates[i], precisions[i]) = (reward.accTokenPerShare, reward.rewardPerSecond, reward.precisionFactor);
+            (debts[i], pending[i]) = (extraUser.rewardDebt, extraUser.pendingRewards);
+        }
+
+        (uint32 startTime, uint32 endTime) = getPoolTimes();
+        uint256 weight = user.weight;
+        uint256 poolWeight = totalWeight;
+        uint32 lastTime = lastRewardTime;
+        uint32[] memory heap = unlockTimes;
+        uint256 size = heap.length;
+        while (true) {
+            bool unlocking = size > 0 && heap[0] <= block.timestamp;
+            uint256 timestamp = unlocking ? heap[0] : block.timestamp;
+            uint32 nextLastTime;
+            for (uint256 i = 0; i < count; i++) {
+                (accs[i], nextLastTime) = PoolLib.updatePool(
+                    accs[i],
+                    lastTime,
+                    rates[i],
+                    startTime,
+                    endTime,
+                    precisions[i],
+                    poolWeight,
+                    timestamp
+                );
+            }
+            lastTime = nextLastTime;
+
+            uint256 boost;
+            if (unlocking) {
+                boost = _lockBoost(_user, heap[0]);
+                poolWeight -= expiringWeight[heap[0]];
+                size = heap.popMin(size);
+            }
+            if (boost > 0 || !unlocking) {
+                for (uint256 i = 0; i < count; i++) {
+                    pending[i] += weight * accs[i] / precisions[i] - debts[i];
+                    debts[i] = (weight - boost) * accs[i] / precisions[i];
+                }
+                weight -= boost;
+            }
+            if (!unlocking) {
+                return pending;
+            }
+        }
     }
 
+    // Boost weight of the user's locks unlocking at `_unlockTime`
+    function _lockBoost(address _user, uint32 _unlockTime) internal view returns (uint256 boost) {
+        LockPosition[] storage positions = lockPositions[_user];
+        for (uint256 i = 0; i < positions.length; i++) {
+            if (positions[i].unlockTime == _unlockTime) {
+                boost += positions[i].weight - positions[i].amount;
+            }
+        }
+        return boost;
+    }
+
+    // Unlock times the pool hasn't reached yet, in no particular order, with
+    // the boost weight totalWeight loses at each
+    function getPendingUnlocks() external view returns (uint32[] memory times, uint256[] memory weights) {
+        times = unlockTimes;
+        weights = new uint256[](times.length);
+        for (uint256 i = 0; i < times.length; i++) {
+            weights[i] = expiringWeight[times[i]];
+        }
+        return (times, weights);
+    }
+
+    // Accrues rewards up to now. Locks stop boosting at their unlock time, so
+    // it first accrues up to each unlock time it passes and drops the locks
+    // unlocking then to 1x, whoever sends the transaction.
     function _updatePool() internal {
-        (uint32 startTime, uint32 endTime) = getProjectTimes();
+        (uint32 startTime, uint32 endTime) = getPoolTimes();
+        while (unlockTimes.length > 0 && unlockTimes[0] <= block.timestamp) {
+            uint32 unlockTime = unlockTimes.popMin();
+            _accruePool(startTime, endTime, unlockTime);
+            _unlock(unlockTime);
+        }
+        _accruePool(startTime, endTime, block.timestamp);
+    }
+
+    function _accruePool(uint32 _startTime, uint32 _endTime, uint256 _timestamp) internal {
+        // Extra rewards first, they accrue from the same lastRewardTime
+        for (uint256 i = 0; i < extraRewards.length; i++) {
+            ExtraReward storage reward = extraRewards[i];
+            (reward.accTokenPerShare,) = PoolLib.updatePool(
+                reward.accTokenPerShare,
+                lastRewardTime,
+                reward.rewardPerSecond,
+                _startTime,
+                _endTime,
+                reward.precisionFactor,
+                totalWeight,
+                _timestamp
+            );
+        }
         
         (uint256 newAccTokenPerShare, uint32 newLastRewardTime) = PoolLib.updatePool(
             accTokenPerShare,
             lastRewardTime,
             rewardPerSecond,
-            startTime,
-            endTime,
+            _startTime,
+            _endTime,
             PRECISION_FACTOR,
-            stakedToken,
-            payable(address(this))
+            totalWeight,
+            _timestamp
         );
 
         accTokenPerShare = newAccTokenPerShare;
@@ -24,7 +24,9 @@ contract LaunchPoolFactoryUpgradeable is Initializable, OwnableUpgradeable, UUPS
     event OwnershipTransferCanceled(address indexed previousOwner, address indexed pendingOwner);
 
     // Version management
-    uint256 public constant CURRENT_VERSION = 1;
+    // Version 2 pools have their own windows and extra rewards, see
+    // PoolLib.LEGACY_POOL_VERSION
+    uint256 public constant CURRENT_VERSION = 2;
     mapping(address => uint256) public poolVersions;
     
     struct PoolMetadata {
@@ -44,6 +46,30 @@ contract LaunchPoolFactoryUpgradeable is Initializable, OwnableUpgradeable, UUPS
         PAUSED
     }
 
+    // When stakers may claim accrued rewards
+    enum ClaimPolicy {
+        AT_END,
+        ANYTIME,
+        AFTER_UNLOCK
+    }
+
+    // Rewards earned by the end of an AT_END project can vest afterwards: the
+    // TGE share unlocks at endTime, the rest linearly over vestingDuration
+    // once vestingCliff has passed
+    struct ClaimSettings {
+        ClaimPolicy policy;
+        uint32 unlockTime; // Only set for AFTER_UNLOCK
+        uint32 vestingCliff;
+        uint32 vestingDuration;
+        uint16 tgeShareBps;
+    }
+
+    // A reward token and how much of it the project distributes
+    struct RewardTokenInfo {
+        IERC20 rewardToken;
+        uint256 totalRewardAmount;
+    }
+
     struct ProjectToken {
         IERC20 rewardToken;
         uint256 totalRewardAmount;
@@ -56,6 +82,8 @@ contract LaunchPoolFactoryUpgradeable is Initializable, OwnableUpgradeable, UUPS
         PoolMetadata metadata;
         address owner;
         address pendingOwner;
+        ClaimSettings claimSettings;
+        RewardTokenInfo[] extraRewardTokens;
     }
 
     // Storage variables
@@ -85,6 +113,15 @@ contract LaunchPoolFactoryUpgradeable is Initializable, OwnableUpgradeable, UUPS
         launchPoolImplementation = _launchPoolImplementation;
     }
 
+    // Proxies initialized before version 2 still point at the version 1
+    // LaunchPool, whose initialize takes no pool window. Call this with the
+    // upgrade so new pools are cloned from the current LaunchPool
+    function initializeV2(address _launchPoolImplementation) external reinitializer(2) onlyOwner {
+        require(_launchPoolImplementation != address(0), "Invalid implementation");
+        launchPoolImplementation = _launchPoolImplementation;
+        emit Events.LaunchPoolImplementationUpdated(_launchPoolImplementation);
+    }
+
     // Required authorization check for UUPS
     function _authorizeUpgrade(address newImplementation) internal override onlyOwner {
         VersionLib.authorizeUpgrade(newImplementation);
@@ -105,7 +142,9 @@ contract LaunchPoolFactoryUpgradeable is Initializable, OwnableUpgradeable, UUPS
         IERC20 _stakedToken,
         uint256 _poolRewardAmount,
         uint256 _poolLimitPerUser,
-        uint256 _minStakeAmount
+        uint256 _minStakeAmount,
+        uint32 _startTime,
+        uint32 _endTime
     ) internal virtual returns (address) {
         ProjectToken storage project = projects[_projectId];
         
@@ -129,7 +168,9 @@ contract LaunchPoolFactoryUpgradeable is Initializable, OwnableUpgradeable, UUPS
             _poolRewardAmount,
             _poolLimitPerUser,
             _minStakeAmount,
-            _projectId
+            _projectId,
+            _startTime,
+            _endTime
         );
 
         // Record pool version
@@ -153,6 +194,9 @@ contract LaunchPoolFactoryUpgradeable is Initializable, OwnableUpgradeable, UUPS
         PoolInfo[] poolInfos;
         string currentStatus;
         bool isActive;
+        ClaimSettings claimSettings;
+        bool isClaimOpen;
+        RewardTokenInfo[] rewardTokens; // rewardToken first, then the extra ones
     }
 
     // Get complete project information
@@ -171,9 +215,12 @@ contract LaunchPoolFactoryUpgradeable is Initializable, OwnableUpgradeable, UUPS
             pools: project.pools,
             metadata: project.metadata,
             owner: project.owner,
-            poolInfos: projects.getProjectPools(_projectId),
+            poolInfos: getProjectPools(_projectId),
             currentStatus: currentStatus,
-            isActive: isActive
+            isActive: isActive,
+            claimSettings: project.claimSettings,
+            isClaimOpen: _isClaimOpen(_projectId),
+            rewardTokens: _getProjectRewardTokens(_projectId)
         });
     }
 
@@ -182,6 +229,16 @@ contract LaunchPoolFactoryUpgradeable is Initializable, OwnableUpgradeable, UUPS
         return projects[_projectId].rewardToken;
     }
 
+    function _getProjectRewardTokens(uint32 _projectId) internal view returns (RewardTokenInfo[] memory rewardTokens) {
+        ProjectToken storage project = projects[_projectId];
+        rewardTokens = new RewardTokenInfo[](project.extraRewardTokens.length + 1);
+        rewardTokens[0] = RewardTokenInfo(project.rewardToken, project.totalRewardAmount);
+        for (uint256 i = 0; i < project.extraRewardTokens.length; i++) {
+            rewardTokens[i + 1] = project.extraRewardTokens[i];
+        }
+        return rewardTokens;
+    }
+
     function _getProjectTimes(uint32 _projectId) internal view returns (uint32 startTime, uint32 endTime) {
         ProjectToken storage project = projects[_projectId];
         return (project.startTime, project.endTime);
@@ -210,6 +267,15 @@ contract LaunchPoolFactoryUpgradeable is Initializable, OwnableUpgradeable, UUPS
         return "STAGING";
     }
 
+    // Same rule as the pools apply in LaunchPool.isClaimOpen
+    function _isClaimOpen(uint32 _projectId) internal view returns (bool) {
+        return PoolLib.isClaimOpen(
+            keccak256(bytes(_getProjectStatus(_projectId))),
+            projects[_projectId].claimSettings,
+            block.timestamp
+        );
+    }
+
     // External functions needed by LaunchPool contract
     function getProjectRewardToken(uint32 _projectId) external view returns (IERC20) {
         return _getProjectRewardToken(_projectId);
@@ -223,8 +289,19 @@ contract LaunchPoolFactoryUpgradeable is Initializable, OwnableUpgradeable, UUPS
         return _getProjectStatus(_projectId);
     }
 
+    function getClaimSettings(uint32 _projectId) external view returns (ClaimSettings memory) {
+        return projects[_projectId].claimSettings;
+    }
+
+    function isClaimOpen(uint32 _projectId) external view returns (bool) {
+        return _isClaimOpen(_projectId);
+    }
+
+    // Rate of a pool over the project's whole window, pools with their own
+    // window have LaunchPool.calculateRewardPerSecond
     function calculateRewardPerSecond(uint32 _projectId, uint256 _poolRewardAmount) public view returns (uint256) {
-        return projects.calculateRewardPerSecond(_projectId, _poolRewardAmount);
+        ProjectToken storage project = projects[_projectId];
+        return PoolLib.calculateRewardPerSecond(_poolRewardAmount, project.startTime, project.endTime);
     }
 
     struct InitialPoolParams {
@@ -232,6 +309,9 @@ contract LaunchPoolFactoryUpgradeable is Initializable, OwnableUpgradeable, UUPS
         uint256 poolRewardAmount;
         uint256 poolLimitPerUser;
         uint256 minStakeAmount;
+        // Optional window within the project's, 0 for the project's times
+        uint32 startTime;
+        uint32 endTime;
     }
 
     function _validateInitialPools(
@@ -253,7 +333,8 @@ contract LaunchPoolFactoryUpgradeable is Initializable, OwnableUpgradeable, UUPS
         uint32 _endTime,
         PoolMetadata calldata _metadata,
         InitialPoolParams[] calldata _pools,
-        address _projectOwner
+        address _projectOwner,
+        ClaimSettings calldata _claimSettings
     ) internal virtual returns (uint32) {
         // Validate initial pools if any
         if (_pools.length > 0) {
@@ -267,7 +348,8 @@ contract LaunchPoolFactoryUpgradeable is Initializable, OwnableUpgradeable, UUPS
             _startTime,
             _endTime,
             _metadata,
-            _projectOwner
+            _projectOwner,
+            _claimSettings
         );
         
         nextProjectId++;
@@ -279,7 +361,9 @@ contract LaunchPoolFactoryUpgradeable is Initializable, OwnableUpgradeable, UUPS
                 _pools[i].stakedToken,
                 _pools[i].poolRewardAmount,
                 _pools[i].poolLimitPerUser,
-                _pools[i].minStakeAmount
+                _pools[i].minStakeAmount,
+                _pools[i].startTime,
+                _pools[i].endTime
             );
             
             // Record funding requirement
@@ -296,7 +380,8 @@ contract LaunchPoolFactoryUpgradeable is Initializable, OwnableUpgradeable, UUPS
         uint32 _endTime,
         PoolMetadata calldata _metadata,
         InitialPoolParams[] calldata _pools,
-        address _projectOwner
+        address _projectOwner,
+        ClaimSettings calldata _claimSettings
     ) external onlyOwner returns (uint32) {
         return _createProject(
             _rewardToken,
@@ -305,18 +390,19 @@ contract LaunchPoolFactoryUpgradeable is Initializable, OwnableUpgradeable, UUPS
             _endTime,
             _metadata,
             _pools,
-            _projectOwner
+            _projectOwner,
+            _claimSettings
         );
     }
 
     function updateProjectStatus(uint32 _projectId, ProjectStatus _status) external {
         require(msg.sender == projects[_projectId].owner, "Only project owner");
-        projects.updateProjectStatus(_projectId, _status);
+        projects.updateProjectStatus(poolVersions, _projectId, _status);
     }
 
     function pauseProject(uint32 _projectId) external {
         require(msg.sender == projects[_projectId].owner, "Only project owner");
-        projects.updateProjectStatus(_projectId, ProjectStatus.PAUSED);
+        projects.updateProjectStatus(poolVersions, _projectId, ProjectStatus.PAUSED);
     }
 
     function resumeProject(uint32 _projectId) external {
@@ -324,33 +410,18 @@ contract LaunchPoolFactoryUpgradeable is Initializable, OwnableUpgradeable, UUPS
         ProjectToken storage project = projects[_projectId];
         require(project.status == ProjectStatus.PAUSED, "Project not paused");
         
-        // Check if all pools have sufficient funds
-        bool sufficientFunds = true;
-        uint256 totalAllocated = 0;
-        
-        for (uint256 i = 0; i < project.pools.length; i++) {
-            LaunchPool currentPool = LaunchPool(payable(project.pools[i]));
-            uint256 poolRewardAmount = currentPool.poolRewardAmount();
-            totalAllocated += poolRewardAmount;
-            
-            if (IERC20(project.rewardToken).balanceOf(project.pools[i]) < poolRewardAmount) {
-                sufficientFunds = false;
-                break;
-            }
-        }
-        
-        if (sufficientFunds && totalAllocated == project.totalRewardAmount) {
-            // If funds are sufficient, directly resume to READY
-            projects.updateProjectStatus(_projectId, ProjectStatus.READY);
-        } else {
-            // If funds are insufficient, move to STAGING
-            projects.updateProjectStatus(_projectId, ProjectStatus.STAGING);
-        }
+        // Allocations can't change while paused, so only funding decides
+        // between resuming to READY and moving back to STAGING
+        projects.updateProjectStatus(
+            poolVersions,
+            _projectId,
+            PoolLib.isRewardFunded(project, poolVersions) ? ProjectStatus.READY : ProjectStatus.STAGING
+        );
     }
 
     function delistProject(uint32 _projectId) external {
         require(msg.sender == projects[_projectId].owner, "Only project owner");
-        projects.updateProjectStatus(_projectId, ProjectStatus.DELISTED);
+        projects.updateProjectStatus(poolVersions, _projectId, ProjectStatus.DELISTED);
     }
 
     function updateProjectMetadata(
@@ -387,25 +458,43 @@ contract LaunchPoolFactoryUpgradeable is Initializable, OwnableUpgradeable, UUPS
         IERC20 _stakedToken,
         uint256 _poolRewardAmount,
         uint256 _poolLimitPerUser,
-        uint256 _minStakeAmount
+        uint256 _minStakeAmount,
+        uint32 _startTime,
+        uint32 _endTime
     ) external returns (address) {
         ProjectToken storage project = projects[_projectId];
         require(msg.sender == project.owner, "Only project owner");
         require(address(project.rewardToken) != address(0), "Project does not exist");
         require(project.status == ProjectStatus.STAGING, "Project not in staging");
         require(_poolRewardAmount <= project.totalRewardAmount, "Pool reward exceeds total");
+        // Extra reward tokens are split over the pools that exist when added
+        require(project.extraRewardTokens.length == 0, "Extra reward tokens added");
         
         return _deployPool(
             _projectId,
             _stakedToken,
             _poolRewardAmount,
             _poolLimitPerUser,
-            _minStakeAmount
+            _minStakeAmount,
+            _startTime,
+            _endTime
         );
     }
 
-    function getProjectPools(uint32 _projectId) external view returns (PoolInfo[] memory) {
-        return projects.getProjectPools(_projectId);
+    // Adds a reward token distributed next to rewardToken, e.g. by a
+    // co-launch partner, with one allocation per pool in order
+    function addExtraRewardToken(
+        uint32 _projectId,
+        IERC20 _rewardToken,
+        uint256 _totalRewardAmount,
+        uint256[] calldata _poolRewardAmounts
+    ) external {
+        require(msg.sender == projects[_projectId].owner, "Only project owner");
+        projects.addExtraRewardToken(_projectId, _rewardToken, _totalRewardAmount, _poolRewardAmounts);
+    }
+
+    function getProjectPools(uint32 _projectId) public view returns (PoolInfo[] memory) {
+        return projects.getProjectPools(poolVersions, _projectId);
     }
 
     function endProject(uint32 _projectId) external {
@@ -470,5 +559,12 @@ contract LaunchPoolFactoryUpgradeable is Initializable, OwnableUpgradeable, UUPS
         uint32 endTime;
         uint256 poolLimitPerUser;
         uint256 minStakeAmount;
+        PoolReward[] rewards; // rewardToken first, then the extra ones
+    }
+
+    struct PoolReward {
+        address rewardToken;
+        uint256 poolRewardAmount;
+        uint256 rewardPerSecond;
     }
 }
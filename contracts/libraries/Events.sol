@@ -13,5 +13,8 @@ library Events {
     event ProjectOwnershipTransferStarted(uint32 indexed projectId, address indexed previousOwner, address indexed pendingOwner);
     event ProjectOwnershipTransferCanceled(uint32 indexed projectId, address indexed currentOwner, address indexed pendingOwner);
     event FactoryUpgraded(address indexed implementation);
+    event LaunchPoolImplementationUpdated(address indexed implementation);
     event RemainingRewardsWithdrawn(address indexed owner, uint256 amount);
+    event ExtraRewardTokenAdded(uint32 indexed projectId, address indexed rewardToken, uint256 totalRewardAmount);
+    event RemainingExtraRewardsWithdrawn(address indexed owner, address indexed rewardToken, uint256 amount);
 }
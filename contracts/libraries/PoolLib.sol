@@ -28,6 +28,10 @@ library PoolLib {
         require(launchPool.poolRewardAmount() == _amount, "Amount must match pool reward amount");
         
         project.rewardToken.safeTransferFrom(msg.sender, _poolAddress, _amount);
+        for (uint256 i = 0; i < project.extraRewardTokens.length; i++) {
+            (IERC20 rewardToken, uint256 poolRewardAmount,,,,) = launchPool.extraRewards(i);
+            rewardToken.safeTransferFrom(msg.sender, _poolAddress, poolRewardAmount);
+        }
         
         project.poolFunded[_poolAddress] = true;
         project.fundedPoolCount++;
@@ -35,30 +39,87 @@ library PoolLib {
         emit Events.PoolFunded(_projectId, _poolAddress);
         
         if (project.fundedPoolCount == project.pools.length) {
-            uint256 totalAllocated = 0;
-            for (uint256 i = 0; i < project.pools.length; i++) {
-                LaunchPool currentPool = LaunchPool(payable(project.pools[i]));
-                totalAllocated += currentPool.poolRewardAmount();
-            }
-            require(totalAllocated == project.totalRewardAmount, "Total allocated rewards must match total");
+            require(isRewardAllocated(project), "Total allocated rewards must match total");
             
             project.status = LaunchPoolFactoryUpgradeable.ProjectStatus.READY;
             emit Events.ProjectStatusUpdated(_projectId, LaunchPoolFactoryUpgradeable.ProjectStatus.READY);
         }
     }
 
+    // Pools up to this version were cloned before LaunchPool had
+    // isRewardFunded, getPoolTimes and getPoolRewards. Clones can't be
+    // upgraded, so they're still read the way the factory used to.
+    uint256 constant internal LEGACY_POOL_VERSION = 1;
+
+    // Whether every pool holds, or paid out, its allocation of each reward token
+    function isRewardFunded(
+        LaunchPoolFactoryUpgradeable.ProjectToken storage project,
+        mapping(address => uint256) storage poolVersions
+    ) internal view returns (bool) {
+        for (uint256 i = 0; i < project.pools.length; i++) {
+            if (!isPoolRewardFunded(project, poolVersions, project.pools[i])) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    function isPoolRewardFunded(
+        LaunchPoolFactoryUpgradeable.ProjectToken storage project,
+        mapping(address => uint256) storage poolVersions,
+        address _poolAddress
+    ) internal view returns (bool) {
+        LaunchPool launchPool = LaunchPool(payable(_poolAddress));
+        if (poolVersions[_poolAddress] <= LEGACY_POOL_VERSION) {
+            // Legacy pools only have rewardToken and only pay it out at the end
+            return project.rewardToken.balanceOf(_poolAddress) >= launchPool.poolRewardAmount();
+        }
+        return launchPool.isRewardFunded();
+    }
+
+    // Whether the pools' rewardToken allocations add up to its total, extra
+    // reward tokens are checked in full when they're added
+    function isRewardAllocated(
+        LaunchPoolFactoryUpgradeable.ProjectToken storage project
+    ) internal view returns (bool) {
+        uint256 totalAllocated = 0;
+        for (uint256 i = 0; i < project.pools.length; i++) {
+            totalAllocated += LaunchPool(payable(project.pools[i])).poolRewardAmount();
+        }
+        return totalAllocated == project.totalRewardAmount;
+    }
+
     function calculateRewardPerSecond(
-        mapping(uint32 => LaunchPoolFactoryUpgradeable.ProjectToken) storage projects,
-        uint32 _projectId,
-        uint256 _poolRewardAmount
-    ) internal view returns (uint256) {
-        LaunchPoolFactoryUpgradeable.ProjectToken storage project = projects[_projectId];
-        uint256 duration = project.endTime - project.startTime;
+        uint256 _poolRewardAmount,
+        uint32 _startTime,
+        uint32 _endTime
+    ) internal pure returns (uint256) {
+        uint256 duration = _endTime - _startTime;
         return _poolRewardAmount / duration;
     }
 
+    // ACTIVE and ENDED pools and projects are the only ones with rewards to
+    // claim. Shared by LaunchPool.isClaimOpen and the factory's isClaimOpen.
+    function isClaimOpen(
+        bytes32 statusHash,
+        LaunchPoolFactoryUpgradeable.ClaimSettings memory claimSettings,
+        uint256 timestamp
+    ) internal pure returns (bool) {
+        bool unlocked = timestamp >= claimSettings.unlockTime;
+
+        if (statusHash == keccak256(bytes("ENDED"))) {
+            return claimSettings.policy != LaunchPoolFactoryUpgradeable.ClaimPolicy.AFTER_UNLOCK || unlocked;
+        }
+        if (statusHash == keccak256(bytes("ACTIVE"))) {
+            return claimSettings.policy == LaunchPoolFactoryUpgradeable.ClaimPolicy.ANYTIME ||
+                (claimSettings.policy == LaunchPoolFactoryUpgradeable.ClaimPolicy.AFTER_UNLOCK && unlocked);
+        }
+        return false;
+    }
+
     function getProjectPools(
         mapping(uint32 => LaunchPoolFactoryUpgradeable.ProjectToken) storage projects,
+        mapping(address => uint256) storage poolVersions,
         uint32 _projectId
     ) internal view returns (LaunchPoolFactoryUpgradeable.PoolInfo[] memory) {
         LaunchPoolFactoryUpgradeable.ProjectToken storage project = projects[_projectId];
@@ -68,15 +129,33 @@ library PoolLib {
         
         for (uint256 i = 0; i < poolsLength; i++) {
             LaunchPool currentPool = LaunchPool(payable(project.pools[i]));
+            uint32 startTime;
+            uint32 endTime;
+            // rewardToken comes first
+            LaunchPoolFactoryUpgradeable.PoolReward[] memory rewards;
+            if (poolVersions[project.pools[i]] <= LEGACY_POOL_VERSION) {
+                // Legacy pools run for the whole project and have no extra rewards
+                (startTime, endTime) = (project.startTime, project.endTime);
+                rewards = new LaunchPoolFactoryUpgradeable.PoolReward[](1);
+                rewards[0] = LaunchPoolFactoryUpgradeable.PoolReward(
+                    address(project.rewardToken),
+                    currentPool.poolRewardAmount(),
+                    currentPool.rewardPerSecond()
+                );
+            } else {
+                (startTime, endTime) = currentPool.getPoolTimes();
+                rewards = currentPool.getPoolRewards();
+            }
             poolInfos[i] = LaunchPoolFactoryUpgradeable.PoolInfo({
                 poolAddress: payable(project.pools[i]),
                 stakedToken: address(currentPool.stakedToken()),
-                rewardToken: address(project.rewardToken),
-                rewardPerSecond: currentPool.rewardPerSecond(),
-                startTime: uint32(project.startTime),
-                endTime: uint32(project.endTime),
+                rewardToken: rewards[0].rewardToken,
+                rewardPerSecond: rewards[0].rewardPerSecond,
+                startTime: startTime,
+                endTime: endTime,
                 poolLimitPerUser: currentPool.poolLimitPerUser(),
-                minStakeAmount: currentPool.minStakeAmount()
+                minStakeAmount: currentPool.minStakeAmount(),
+                rewards: rewards
             });
         }
         
@@ -103,19 +182,20 @@ library PoolLib {
         uint256 stakedTokenSupply,
         uint256 userAmount,
         uint256 userRewardDebt,
-        uint256 userPendingRewards
-    ) internal view returns (RewardCalculationResult memory result) {
+        uint256 userPendingRewards,
+        uint256 timestamp
+    ) internal pure returns (RewardCalculationResult memory result) {
         result.newAccTokenPerShare = accTokenPerShare;
         result.newLastRewardTime = lastRewardTime;
         result.pendingReward = userAmount * accTokenPerShare / precisionFactor - userRewardDebt + userPendingRewards;
 
         // If current time is less than or equal to last reward time, no update needed
-        if (block.timestamp <= lastRewardTime) {
+        if (timestamp <= lastRewardTime) {
             return result;
         }
 
         // If current time is less than start time, update last reward time to start time
-        if (block.timestamp < startTime) {
+        if (timestamp < startTime) {
             result.newLastRewardTime = startTime;
             return result;
         }
@@ -127,12 +207,12 @@ library PoolLib {
 
         // If no staked tokens, only update last reward time
         if (stakedTokenSupply == 0) {
-            result.newLastRewardTime = uint32(block.timestamp > endTime ? endTime : block.timestamp);
+            result.newLastRewardTime = uint32(timestamp > endTime ? endTime : timestamp);
             return result;
         }
 
         // Calculate end point (not exceeding end time)
-        uint32 endPoint = uint32(block.timestamp > endTime ? endTime : block.timestamp);
+        uint32 endPoint = uint32(timestamp > endTime ? endTime : timestamp);
         
         // If last reward time is greater than or equal to end point, no update needed
         if (lastRewardTime >= endPoint) {
@@ -159,11 +239,10 @@ library PoolLib {
         uint32 startTime,
         uint32 endTime,
         uint256 precisionFactor,
-        IERC20 /* stakedToken */,
-        address payable caller
-    ) internal view returns (uint256 newAccTokenPerShare, uint32 newLastRewardTime) {
-        uint256 stakedTokenSupply = LaunchPool(caller).totalStaked();
-        
+        uint256 totalWeight,
+        uint256 timestamp
+    ) internal pure returns (uint256 newAccTokenPerShare, uint32 newLastRewardTime) {
+        // Rewards are shared by weight, stakes plus their lock boosts
         RewardCalculationResult memory result = calculateRewards(
             accTokenPerShare,
             lastRewardTime,
@@ -171,10 +250,11 @@ library PoolLib {
             startTime,
             endTime,
             precisionFactor,
-            stakedTokenSupply,
+            totalWeight,
             0, // userAmount not needed for pool update
             0, // userRewardDebt not needed for pool update
-            0  // userPendingRewards not needed for pool update
+            0, // userPendingRewards not needed for pool update
+            timestamp
         );
         
         return (result.newAccTokenPerShare, result.newLastRewardTime);
@@ -202,12 +282,38 @@ library PoolLib {
             stakedTokenSupply,
             userAmount,
             userRewardDebt,
-            userPendingRewards
+            userPendingRewards,
+            block.timestamp
         );
         
         return result.pendingReward;
     }
 
+    // Part of `earned` vested at `timestamp` for a project ending at `endTime`
+    function calculateVestedAmount(
+        uint256 earned,
+        uint32 endTime,
+        LaunchPoolFactoryUpgradeable.ClaimSettings memory claimSettings,
+        uint256 timestamp
+    ) internal pure returns (uint256) {
+        if (claimSettings.vestingCliff == 0 && claimSettings.vestingDuration == 0) {
+            return earned;
+        }
+        if (timestamp < endTime) {
+            return 0;
+        }
+
+        uint256 tgeAmount = earned * claimSettings.tgeShareBps / 10000;
+        uint256 cliffEnd = uint256(endTime) + claimSettings.vestingCliff;
+        if (timestamp < cliffEnd) {
+            return tgeAmount;
+        }
+        if (timestamp >= cliffEnd + claimSettings.vestingDuration) {
+            return earned;
+        }
+        return tgeAmount + (earned - tgeAmount) * (timestamp - cliffEnd) / claimSettings.vestingDuration;
+    }
+
     function getMultiplier(
         uint32 _from,
         uint32 _to,
@@ -5,6 +5,7 @@ import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "../LaunchPoolFactoryUpgradeable.sol";
 import "../LaunchPool.sol";
 import "./Events.sol";
+import "./PoolLib.sol";
 
 library ProjectLib {
     function createProject(
@@ -16,12 +17,27 @@ library ProjectLib {
         uint32 _startTime,
         uint32 _endTime,
         LaunchPoolFactoryUpgradeable.PoolMetadata calldata _metadata,
-        address _projectOwner
+        address _projectOwner,
+        LaunchPoolFactoryUpgradeable.ClaimSettings calldata _claimSettings
     ) internal returns (uint32 projectId) {
         require(_rewardToken.totalSupply() >= 0, "Invalid reward token");
         require(_startTime > block.timestamp, "Start time must be future");
         require(_endTime > _startTime, "End time must be after start time");
         require(_projectOwner != address(0), "Invalid project owner");
+        if (_claimSettings.policy == LaunchPoolFactoryUpgradeable.ClaimPolicy.AFTER_UNLOCK) {
+            require(_claimSettings.unlockTime >= _startTime, "Unlock time before start");
+        } else {
+            require(_claimSettings.unlockTime == 0, "Unlock time needs AFTER_UNLOCK");
+        }
+        if (_claimSettings.vestingCliff > 0 || _claimSettings.vestingDuration > 0) {
+            require(
+                _claimSettings.policy == LaunchPoolFactoryUpgradeable.ClaimPolicy.AT_END,
+                "Vesting needs AT_END claims"
+            );
+            require(_claimSettings.tgeShareBps <= 10000, "TGE share above 100%");
+        } else {
+            require(_claimSettings.tgeShareBps == 0, "TGE share needs vesting");
+        }
 
         projectId = nextProjectId;
         LaunchPoolFactoryUpgradeable.ProjectToken storage project = projects[
@@ -36,6 +52,7 @@ library ProjectLib {
         project.metadata = _metadata;
         project.status = LaunchPoolFactoryUpgradeable.ProjectStatus.STAGING;
         project.owner = _projectOwner;
+        project.claimSettings = _claimSettings;
 
         emit Events.NewProject(
             projectId,
@@ -51,9 +68,51 @@ library ProjectLib {
         return projectId;
     }
 
+    function addExtraRewardToken(
+        mapping(uint32 => LaunchPoolFactoryUpgradeable.ProjectToken)
+            storage projects,
+        uint32 _projectId,
+        IERC20 _rewardToken,
+        uint256 _totalRewardAmount,
+        uint256[] calldata _poolRewardAmounts
+    ) internal {
+        LaunchPoolFactoryUpgradeable.ProjectToken storage project = projects[
+            _projectId
+        ];
+        require(
+            project.status == LaunchPoolFactoryUpgradeable.ProjectStatus.STAGING,
+            "Project not in staging"
+        );
+        // fundPool pulls every reward token at once
+        require(project.fundedPoolCount == 0, "Pool already funded");
+        // Extra rewards are spread over the whole window, a paused project
+        // back in STAGING can't add them once it has started
+        require(block.timestamp < project.startTime, "Project already started");
+        bool duplicate = _rewardToken == project.rewardToken;
+        for (uint256 i = 0; i < project.extraRewardTokens.length; i++) {
+            duplicate = duplicate || _rewardToken == project.extraRewardTokens[i].rewardToken;
+        }
+        require(!duplicate, "Duplicate reward token");
+        require(_poolRewardAmounts.length == project.pools.length, "Pool reward amounts mismatch");
+
+        uint256 totalPoolRewards = 0;
+        for (uint256 i = 0; i < _poolRewardAmounts.length; i++) {
+            totalPoolRewards += _poolRewardAmounts[i];
+            LaunchPool(payable(project.pools[i])).addExtraReward(_rewardToken, _poolRewardAmounts[i]);
+        }
+        // No pools can be added later, so the allocations must be final
+        require(totalPoolRewards == _totalRewardAmount, "Total allocated rewards must match total");
+
+        project.extraRewardTokens.push(
+            LaunchPoolFactoryUpgradeable.RewardTokenInfo(_rewardToken, _totalRewardAmount)
+        );
+        emit Events.ExtraRewardTokenAdded(_projectId, address(_rewardToken), _totalRewardAmount);
+    }
+
     function updateProjectStatus(
         mapping(uint32 => LaunchPoolFactoryUpgradeable.ProjectToken)
             storage projects,
+        mapping(address => uint256) storage poolVersions,
         uint32 _projectId,
         LaunchPoolFactoryUpgradeable.ProjectStatus _status
     ) internal {
@@ -72,22 +131,7 @@ library ProjectLib {
                 "Can only move to READY from STAGING or PAUSED"
             );
 
-            // Check if total funds meet requirements
-            uint256 totalAllocated = 0;
-            bool sufficientFunds = true;
-            
-            for (uint256 i = 0; i < project.pools.length; i++) {
-                LaunchPool currentPool = LaunchPool(payable(project.pools[i]));
-                uint256 poolRewardAmount = currentPool.poolRewardAmount();
-                totalAllocated += poolRewardAmount;
-                
-                if (IERC20(project.rewardToken).balanceOf(project.pools[i]) < poolRewardAmount) {
-                    sufficientFunds = false;
-                    break;
-                }
-            }
-
-            require(totalAllocated == project.totalRewardAmount, "Total allocated rewards must match total");
+            require(PoolLib.isRewardAllocated(project), "Total allocated rewards must match total");
             
             // If coming from STAGING, check funding status
             if (project.status == LaunchPoolFactoryUpgradeable.ProjectStatus.STAGING) {
@@ -95,7 +139,7 @@ library ProjectLib {
             }
             // If coming from PAUSED, check if funds are sufficient
             else if (project.status == LaunchPoolFactoryUpgradeable.ProjectStatus.PAUSED) {
-                require(sufficientFunds, "Insufficient funds to resume to READY");
+                require(PoolLib.isRewardFunded(project, poolVersions), "Insufficient funds to resume to READY");
             }
         } else if (
             _status == LaunchPoolFactoryUpgradeable.ProjectStatus.DELISTED
@@ -121,22 +165,11 @@ library ProjectLib {
                 "Can only move to STAGING from PAUSED"
             );
 
-            // Check if funds are insufficient
-            bool insufficientFunds = false;
-            for (uint256 i = 0; i < project.pools.length; i++) {
-                LaunchPool currentPool = LaunchPool(payable(project.pools[i]));
-                if (IERC20(project.rewardToken).balanceOf(project.pools[i]) < currentPool.poolRewardAmount()) {
-                    insufficientFunds = true;
-                    break;
-                }
-            }
-            
-            require(insufficientFunds, "Sufficient funds available, use READY instead");
+            require(!PoolLib.isRewardFunded(project, poolVersions), "Sufficient funds available, use READY instead");
 
             // Only reset pools with insufficient funds
             for (uint256 i = 0; i < project.pools.length; i++) {
-                LaunchPool currentPool = LaunchPool(payable(project.pools[i]));
-                if (IERC20(project.rewardToken).balanceOf(project.pools[i]) < currentPool.poolRewardAmount()) {
+                if (!PoolLib.isPoolRewardFunded(project, poolVersions, project.pools[i])) {
                     if (project.poolFunded[project.pools[i]]) {
                         project.poolFunded[project.pools[i]] = false;
                         project.fundedPoolCount--;
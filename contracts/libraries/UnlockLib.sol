@@ -0,0 +1,72 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+// Min-heap of the unlock times LaunchPool still has to checkpoint, so the
+// earliest is always at index 0. The memory variant lets views replay the
+// checkpoints without writing.
+library UnlockLib {
+    function insert(uint32[] storage heap, uint32 time) internal {
+        heap.push(time);
+        uint256 i = heap.length - 1;
+        while (i > 0) {
+            uint256 parent = (i - 1) / 2;
+            if (heap[parent] <= time) {
+                break;
+            }
+            heap[i] = heap[parent];
+            i = parent;
+        }
+        heap[i] = time;
+    }
+
+    function popMin(uint32[] storage heap) internal returns (uint32 time) {
+        time = heap[0];
+        uint32 last = heap[heap.length - 1];
+        heap.pop();
+        uint256 size = heap.length;
+        uint256 i = 0;
+        while (true) {
+            uint256 child = 2 * i + 1;
+            if (child >= size) {
+                break;
+            }
+            if (child + 1 < size && heap[child + 1] < heap[child]) {
+                child++;
+            }
+            if (last <= heap[child]) {
+                break;
+            }
+            heap[i] = heap[child];
+            i = child;
+        }
+        if (size > 0) {
+            heap[i] = last;
+        }
+        return time;
+    }
+
+    // Removes heap[0] from the first `size` entries, returns the new size
+    function popMin(uint32[] memory heap, uint256 size) internal pure returns (uint256) {
+        size--;
+        uint32 last = heap[size];
+        uint256 i = 0;
+        while (true) {
+            uint256 child = 2 * i + 1;
+            if (child >= size) {
+                break;
+            }
+            if (child + 1 < size && heap[child + 1] < heap[child]) {
+                child++;
+            }
+            if (last <= heap[child]) {
+                break;
+            }
+            heap[i] = heap[child];
+            i = child;
+        }
+        if (size > 0) {
+            heap[i] = last;
+        }
+        return size;
+    }
+}
@@ -47,7 +47,8 @@ contract LaunchPoolFactoryV2 is LaunchPoolFactoryUpgradeable {
         uint32 _endTime,
         PoolMetadata calldata _metadata,
         InitialPoolParams[] calldata _initialPools,
-        address _projectOwner
+        address _projectOwner,
+        ClaimSettings calldata _claimSettings
     ) internal virtual override returns (uint32) {
         require(
             ownerProjectCount[_projectOwner] < maxProjectsPerOwner,
@@ -61,7 +62,8 @@ contract LaunchPoolFactoryV2 is LaunchPoolFactoryUpgradeable {
             _endTime,
             _metadata,
             _initialPools,
-            _projectOwner
+            _projectOwner,
+            _claimSettings
         );
 
         // Update project count after successful creation
@@ -88,7 +90,9 @@ contract LaunchPoolFactoryV2 is LaunchPoolFactoryUpgradeable {
         IERC20 _stakedToken,
         uint256 _poolRewardAmount,
         uint256 _poolLimitPerUser,
-        uint256 _minStakeAmount
+        uint256 _minStakeAmount,
+        uint32 _startTime,
+        uint32 _endTime
     ) internal virtual override returns (address) {
         ProjectToken storage project = projects[_projectId];
         
@@ -110,6 +114,8 @@ contract LaunchPoolFactoryV2 is LaunchPoolFactoryUpgradeable {
                 _poolLimitPerUser,
                 _minStakeAmount,
                 uint32(_projectId),
+                _startTime,
+                _endTime,
                 100 // Default max participants for V2
             );
         } else {
@@ -119,7 +125,9 @@ contract LaunchPoolFactoryV2 is LaunchPoolFactoryUpgradeable {
                 _poolRewardAmount,
                 _poolLimitPerUser,
                 _minStakeAmount,
-                uint32(_projectId)
+                uint32(_projectId),
+                _startTime,
+                _endTime
             );
         }
 
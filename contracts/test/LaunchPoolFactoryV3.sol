@@ -26,7 +26,8 @@ contract LaunchPoolFactoryV3 is LaunchPoolFactoryV2 {
         uint32 _endTime,
         PoolMetadata calldata _metadata,
         InitialPoolParams[] calldata _initialPools,
-        address _projectOwner
+        address _projectOwner,
+        ClaimSettings calldata _claimSettings
     ) internal virtual override returns (uint32) {
         // Check if user has created a project recently
         if (ownerProjectCount[_projectOwner] > 0) {
@@ -43,7 +44,8 @@ contract LaunchPoolFactoryV3 is LaunchPoolFactoryV2 {
             _endTime,
             _metadata,
             _initialPools,
-            _projectOwner
+            _projectOwner,
+            _claimSettings
         );
     }
 
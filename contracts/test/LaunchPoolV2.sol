@@ -21,6 +21,8 @@ contract LaunchPoolV2 is LaunchPool {
         uint256 _poolLimitPerUser,
         uint256 _minStakeAmount,
         uint32 _projectId,
+        uint32 _startTime,
+        uint32 _endTime,
         uint256 _maxParticipants  // New parameter for V2
     ) external virtual {
         require(!isInitialized, "Already initialized");
@@ -38,16 +40,17 @@ contract LaunchPoolV2 is LaunchPool {
             poolLimitPerUser = _poolLimitPerUser;
         }
 
-        // Calculate reward per second using factory
-        rewardPerSecond = factory.calculateRewardPerSecond(projectId, _poolRewardAmount);
+        // Calculate reward per second over the pool's window
+        _setPoolTimes(_startTime, _endTime);
+        rewardPerSecond = calculateRewardPerSecond(_poolRewardAmount);
 
         // Set up precision factor
         uint256 decimalsRewardToken = IERC20Metadata(address(rewardToken())).decimals();
         require(decimalsRewardToken < 30, "Must be inferior to 30");
         PRECISION_FACTOR = 10**(uint256(30) - decimalsRewardToken);
 
-        // Set last reward time to project start time
-        (uint32 startTime,) = getProjectTimes();
+        // Set last reward time to pool start time
+        (uint32 startTime,) = getPoolTimes();
         lastRewardTime = startTime;
 
         // V2 initialization
@@ -59,7 +62,7 @@ contract LaunchPoolV2 is LaunchPool {
         require(participantCount < maxParticipants, "Max participants reached");
         
         UserInfo storage user = userInfo[msg.sender];
-        bytes32 statusHash = keccak256(bytes(factory.getProjectStatus(projectId)));
+        bytes32 statusHash = keccak256(bytes(getPoolStatus()));
         require(statusHash == ACTIVE, "Pool not active");
 
         if (_amount > 0) {
@@ -71,15 +74,18 @@ contract LaunchPoolV2 is LaunchPool {
 
         _updatePool();
 
-        if (user.amount > 0) {
-            uint256 pending = user.amount * accTokenPerShare / PRECISION_FACTOR - user.rewardDebt;
+        if (user.weight > 0) {
+            uint256 pending = user.weight * accTokenPerShare / PRECISION_FACTOR - user.rewardDebt;
             if (pending > 0) {
                 user.pendingRewards = user.pendingRewards + pending;
             }
         }
+        _accrueExtraRewards(msg.sender, user.weight);
 
         if (_amount > 0) {
             user.amount = user.amount + _amount;
+            user.weight = user.weight + _amount;
+            totalWeight += _amount;
             if (address(stakedToken) == ETH) {
                 require(msg.value == _amount, "Invalid ETH amount");
             } else {
@@ -94,7 +100,8 @@ contract LaunchPoolV2 is LaunchPool {
             }
         }
 
-        user.rewardDebt = user.amount * accTokenPerShare / PRECISION_FACTOR;
+        user.rewardDebt = user.weight * accTokenPerShare / PRECISION_FACTOR;
+        _resetExtraRewardDebts(msg.sender, user.weight);
 
         emit Deposit(msg.sender, _amount);
     }
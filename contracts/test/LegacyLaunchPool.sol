@@ -0,0 +1,171 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+import "../LaunchPoolFactoryUpgradeable.sol";
+import "../libraries/PoolLib.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+// Stands in for pools cloned before version 2: it has the views the factory
+// read from pools back then, and ERC20 staking shared by totalStaked over the
+// project's window
+contract LegacyLaunchPool {
+    using SafeERC20 for IERC20;
+
+    bytes32 internal constant ACTIVE = keccak256(bytes("ACTIVE"));
+    bytes32 internal constant ENDED = keccak256(bytes("ENDED"));
+    bytes32 internal constant READY = keccak256(bytes("READY"));
+
+    uint32 public projectId;
+    bool public isInitialized;
+    LaunchPoolFactoryUpgradeable public factory;
+    uint256 public accTokenPerShare;
+    uint32 public lastRewardTime;
+    uint256 public poolLimitPerUser;
+    uint256 public minStakeAmount;
+    uint256 public poolRewardAmount;
+    uint256 public rewardPerSecond;
+    uint256 public PRECISION_FACTOR;
+    IERC20 public stakedToken;
+    uint256 public totalStaked;
+    mapping(address => UserInfo) public userInfo;
+
+    struct UserInfo {
+        uint256 amount;
+        uint256 rewardDebt;
+        uint256 pendingRewards;
+    }
+
+    event Deposit(address indexed user, uint256 amount);
+    event Withdraw(address indexed user, uint256 amount);
+    event RewardClaimed(address indexed user, uint256 amount);
+
+    function initialize(
+        IERC20 _stakedToken,
+        uint256 _poolRewardAmount,
+        uint256 _poolLimitPerUser,
+        uint256 _minStakeAmount,
+        uint32 _projectId
+    ) external {
+        require(!isInitialized, "Already initialized");
+
+        factory = LaunchPoolFactoryUpgradeable(msg.sender);
+        isInitialized = true;
+        projectId = _projectId;
+        stakedToken = _stakedToken;
+        poolRewardAmount = _poolRewardAmount;
+        poolLimitPerUser = _poolLimitPerUser;
+        minStakeAmount = _minStakeAmount;
+
+        rewardPerSecond = factory.calculateRewardPerSecond(_projectId, _poolRewardAmount);
+        PRECISION_FACTOR = 10**(uint256(36) - IERC20Metadata(address(rewardToken())).decimals());
+        (lastRewardTime,) = getProjectTimes();
+    }
+
+    function rewardToken() public view returns (IERC20) {
+        return factory.getProjectRewardToken(projectId);
+    }
+
+    function getProjectTimes() public view returns (uint32 startTime, uint32 endTime) {
+        return factory.getProjectTimes(projectId);
+    }
+
+    function deposit(uint256 _amount) external {
+        bytes32 statusHash = keccak256(bytes(factory.getProjectStatus(projectId)));
+        require(statusHash == ACTIVE || statusHash == READY, "Pool must be active or ready");
+        require(_amount >= minStakeAmount, "Amount below minimum stake");
+
+        UserInfo storage user = _settle(msg.sender);
+        user.amount += _amount;
+        totalStaked += _amount;
+        user.rewardDebt = user.amount * accTokenPerShare / PRECISION_FACTOR;
+        stakedToken.safeTransferFrom(msg.sender, address(this), _amount);
+
+        emit Deposit(msg.sender, _amount);
+    }
+
+    function withdraw(uint256 _amount) external {
+        UserInfo storage user = _settle(msg.sender);
+        require(user.amount >= _amount, "Amount to withdraw too high");
+        user.amount -= _amount;
+        totalStaked -= _amount;
+        user.rewardDebt = user.amount * accTokenPerShare / PRECISION_FACTOR;
+        stakedToken.safeTransfer(msg.sender, _amount);
+
+        emit Withdraw(msg.sender, _amount);
+    }
+
+    function claimReward() external {
+        require(keccak256(bytes(factory.getProjectStatus(projectId))) == ENDED, "Pool not ended");
+
+        UserInfo storage user = _settle(msg.sender);
+        uint256 pending = user.pendingRewards;
+        require(pending > 0, "No rewards to claim");
+        user.pendingRewards = 0;
+        rewardToken().safeTransfer(msg.sender, pending);
+
+        emit RewardClaimed(msg.sender, pending);
+    }
+
+    function pendingReward(address _user) external view returns (uint256) {
+        UserInfo storage user = userInfo[_user];
+        (uint32 startTime, uint32 endTime) = getProjectTimes();
+        return PoolLib.calculatePendingRewards(
+            accTokenPerShare,
+            rewardPerSecond,
+            PRECISION_FACTOR,
+            totalStaked,
+            lastRewardTime,
+            startTime,
+            endTime,
+            user.amount,
+            user.rewardDebt,
+            user.pendingRewards
+        );
+    }
+
+    function getTotalDistributedRewards() public view returns (uint256) {
+        (uint32 startTime, uint32 endTime) = getProjectTimes();
+        return (endTime - startTime) * rewardPerSecond;
+    }
+
+    function withdrawRemainingRewards() external {
+        require(factory.isProjectOwner(projectId, msg.sender), "Not project owner");
+        require(keccak256(bytes(factory.getProjectStatus(projectId))) == ENDED, "Pool must be ended");
+
+        uint256 distributedRewards = getTotalDistributedRewards();
+        uint256 balance = rewardToken().balanceOf(address(this));
+        require(balance > distributedRewards, "No rewards to withdraw");
+        rewardToken().safeTransfer(msg.sender, balance - distributedRewards);
+        emit Events.RemainingRewardsWithdrawn(msg.sender, balance - distributedRewards);
+    }
+
+    function emergencyRewardWithdraw(uint256 _amount) external {
+        require(msg.sender == factory.getProjectOwner(projectId), "Only project owner");
+        rewardToken().safeTransfer(msg.sender, _amount);
+    }
+
+    // Accrues the pool and moves the user's earnings into pendingRewards
+    function _settle(address _user) internal returns (UserInfo storage user) {
+        (uint32 startTime, uint32 endTime) = getProjectTimes();
+        PoolLib.RewardCalculationResult memory result = PoolLib.calculateRewards(
+            accTokenPerShare,
+            lastRewardTime,
+            rewardPerSecond,
+            startTime,
+            endTime,
+            PRECISION_FACTOR,
+            totalStaked,
+            0,
+            0,
+            0,
+            block.timestamp
+        );
+        accTokenPerShare = result.newAccTokenPerShare;
+        lastRewardTime = result.newLastRewardTime;
+
+        user = userInfo[_user];
+        user.pendingRewards += user.amount * accTokenPerShare / PRECISION_FACTOR - user.rewardDebt;
+        user.rewardDebt = user.amount * accTokenPerShare / PRECISION_FACTOR;
+    }
+}
@@ -0,0 +1,38 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+import "../LaunchPoolFactoryUpgradeable.sol";
+import "./LegacyLaunchPool.sol";
+import "../libraries/Events.sol";
+import "../libraries/VersionLib.sol";
+
+// Deploys LegacyLaunchPool clones as version 1, the way the factory did
+// before it was upgraded
+contract LegacyLaunchPoolFactory is LaunchPoolFactoryUpgradeable {
+    using VersionLib for mapping(address => uint256);
+
+    function _deployPool(
+        uint32 _projectId,
+        IERC20 _stakedToken,
+        uint256 _poolRewardAmount,
+        uint256 _poolLimitPerUser,
+        uint256 _minStakeAmount,
+        uint32,
+        uint32
+    ) internal virtual override returns (address) {
+        address payable launchPoolAddress = payable(Clones.clone(launchPoolImplementation));
+        LegacyLaunchPool(launchPoolAddress).initialize(
+            _stakedToken,
+            _poolRewardAmount,
+            _poolLimitPerUser,
+            _minStakeAmount,
+            _projectId
+        );
+
+        poolVersions.recordPoolVersion(launchPoolAddress, 1);
+
+        projects[_projectId].pools.push(launchPoolAddress);
+        emit Events.NewLaunchPool(_projectId, launchPoolAddress, 1);
+        return launchPoolAddress;
+    }
+}
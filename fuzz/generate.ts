@@ -0,0 +1,129 @@
+import { ClaimPolicy } from "../sdk/types";
+import { FuzzAction, FuzzCase, FuzzSetup } from "./types";
+
+export interface GenerateOptions {
+  steps: number;
+  users: number;
+  pools: number;
+}
+
+export const DEFAULT_GENERATE_OPTIONS: GenerateOptions = {
+  steps: 60,
+  users: 4,
+  pools: 3,
+};
+
+// Small deterministic PRNG so failing sequences can be replayed by seed
+export function mulberry32(seed: number) {
+  return function () {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function integer(random: () => number, min: number, max: number): number {
+  return min + Math.floor(random() * (max - min + 1));
+}
+
+// Dust, odd and large amounts, rounding bugs hide at both ends
+function amount(random: () => number): bigint {
+  const roll = random();
+  if (roll < 0.2) {
+    return BigInt(integer(random, 1, 1000));
+  }
+  const whole = BigInt(integer(random, 0, roll < 0.8 ? 10 : 50));
+  return whole * 10n ** 18n + BigInt(integer(random, 1, 1e9)) * 10n ** 9n;
+}
+
+function generateSetup(
+  random: () => number,
+  options: GenerateOptions
+): FuzzSetup {
+  const stakedTokens: FuzzSetup["stakedTokens"] = [];
+  const rewardAmounts: bigint[] = [];
+  for (let i = 0; i < options.pools; i++) {
+    // The first pool always stakes ETH, the others mostly ERC20s
+    stakedTokens.push(i === 0 || random() < 0.2 ? "ETH" : "ERC20");
+    rewardAmounts.push(
+      BigInt(integer(random, 1, 5000)) * 10n ** 18n +
+        BigInt(integer(random, 0, 1e9))
+    );
+  }
+  const startIn = integer(random, 10, 200);
+  const duration = integer(random, 600, 6000);
+  const claimPolicy = integer(random, 0, 2) as ClaimPolicy;
+  // Half the AT_END projects vest, short enough to finish within a case
+  const vesting = claimPolicy === ClaimPolicy.AT_END && random() < 0.5;
+  return {
+    users: options.users,
+    stakedTokens,
+    rewardAmounts,
+    startIn,
+    duration,
+    claimPolicy,
+    // Sometimes after the end, claims then wait past it
+    unlockAfter:
+      claimPolicy === ClaimPolicy.AFTER_UNLOCK
+        ? integer(random, 0, duration + 600)
+        : 0,
+    vestingCliff: vesting ? integer(random, 0, 600) : 0,
+    vestingDuration: vesting ? integer(random, 1, 3000) : 0,
+    tgeShareBps: vesting ? integer(random, 0, 10000) : 0,
+  };
+}
+
+function generateAction(
+  random: () => number,
+  options: GenerateOptions
+): FuzzAction {
+  const user = integer(random, 0, options.users - 1);
+  const pool = integer(random, 0, options.pools - 1);
+  const roll = random();
+  if (roll < 0.3) {
+    return { type: "deposit", user, pool, amount: amount(random) };
+  }
+  if (roll < 0.45) {
+    // Full withdrawals are common in practice
+    const permille = random() < 0.3 ? 1000 : integer(random, 1, 999);
+    return { type: "withdraw", user, pool, permille };
+  }
+  if (roll < 0.55) {
+    return { type: "claimReward", user, pool };
+  }
+  if (roll < 0.6) {
+    return { type: "emergencyWithdraw", user, pool };
+  }
+  if (roll < 0.63) {
+    return { type: "pause" };
+  }
+  if (roll < 0.72) {
+    return { type: "resume" };
+  }
+  if (roll < 0.74) {
+    return { type: "endProject" };
+  }
+  // Mostly short waits, sometimes past the end of the project
+  const seconds =
+    random() < 0.9 ? integer(random, 1, 300) : integer(random, 300, 5000);
+  return { type: "advance", seconds };
+}
+
+export function generateCase(
+  seed: number,
+  options: Partial<GenerateOptions> = {}
+): FuzzCase {
+  const resolved: GenerateOptions = {
+    steps: options.steps ?? DEFAULT_GENERATE_OPTIONS.steps,
+    users: options.users ?? DEFAULT_GENERATE_OPTIONS.users,
+    pools: options.pools ?? DEFAULT_GENERATE_OPTIONS.pools,
+  };
+  const random = mulberry32(seed);
+  const setup = generateSetup(random, resolved);
+  const actions: FuzzAction[] = [];
+  for (let i = 0; i < resolved.steps; i++) {
+    actions.push(generateAction(random, resolved));
+  }
+  return { seed, setup, actions };
+}
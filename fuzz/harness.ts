@@ -0,0 +1,468 @@
+import { ethers, upgrades } from "hardhat";
+import { takeSnapshot, time } from "@nomicfoundation/hardhat-network-helpers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import type { ContractTransactionResponse } from "ethers";
+import type {
+  LaunchPool,
+  LaunchPoolFactoryUpgradeable,
+  MockToken,
+} from "../typechain-types";
+import { ClaimPolicy, ETH_ADDRESS } from "../sdk/types";
+import { EMPTY_METADATA, getRevertReason } from "../tasks/helpers";
+import { GenerateOptions, generateCase } from "./generate";
+import {
+  DEFAULT_INVARIANTS,
+  Invariant,
+  PoolObservation,
+  StepObservation,
+} from "./invariants";
+import { FuzzAction, FuzzCase, FuzzFailure, FuzzSetup } from "./types";
+
+interface Deployment {
+  factory: LaunchPoolFactoryUpgradeable;
+  projectId: bigint;
+  rewardToken: MockToken;
+  pools: LaunchPool[];
+  // Undefined for ETH pools
+  stakedTokens: (MockToken | undefined)[];
+  users: HardhatEthersSigner[];
+  // Sum of RewardClaimed amounts per pool
+  claimed: bigint[];
+}
+
+export interface FuzzOptions extends Partial<GenerateOptions> {
+  seeds: number[];
+  invariants?: Invariant[];
+  // Shrink the first failing sequence, on by default
+  shrink?: boolean;
+  maxShrinkRuns?: number;
+  log?: (message: string) => void;
+}
+
+async function deploy(setup: FuzzSetup): Promise<Deployment> {
+  const [, projectOwner, ...signers] = await ethers.getSigners();
+  if (setup.users > signers.length) {
+    throw new Error(`${setup.users} users need more configured accounts`);
+  }
+  const users = signers.slice(0, setup.users);
+
+  const LaunchPool = await ethers.getContractFactory("LaunchPool");
+  const launchPoolImpl = await LaunchPool.deploy();
+  const Factory = await ethers.getContractFactory(
+    "LaunchPoolFactoryUpgradeable"
+  );
+  const factory = (await upgrades.deployProxy(
+    Factory,
+    [await launchPoolImpl.getAddress()],
+    { initializer: "initialize", kind: "uups" }
+  )) as unknown as LaunchPoolFactoryUpgradeable;
+  const MockToken = await ethers.getContractFactory("MockToken");
+  const rewardToken = await MockToken.deploy();
+  const stakedTokens: (MockToken | undefined)[] = [];
+  for (const token of setup.stakedTokens) {
+    stakedTokens.push(token === "ETH" ? undefined : await MockToken.deploy());
+  }
+
+  const totalRewardAmount = setup.rewardAmounts.reduce((a, b) => a + b, 0n);
+  const startTime = (await time.latest()) + setup.startIn;
+  const projectId = await factory.nextProjectId();
+  await factory.createProject(
+    rewardToken,
+    totalRewardAmount,
+    startTime,
+    startTime + setup.duration,
+    { ...EMPTY_METADATA, projectName: "Fuzz" },
+    await Promise.all(
+      stakedTokens.map(async (token, i) => ({
+        stakedToken: token ? await token.getAddress() : ETH_ADDRESS,
+        poolRewardAmount: setup.rewardAmounts[i],
+        poolLimitPerUser: 0,
+        minStakeAmount: 1,
+        startTime: 0,
+        endTime: 0,
+      }))
+    ),
+    projectOwner.address,
+    {
+      policy: setup.claimPolicy,
+      unlockTime:
+        setup.claimPolicy === ClaimPolicy.AFTER_UNLOCK
+          ? startTime + setup.unlockAfter
+          : 0,
+      vestingCliff: setup.vestingCliff,
+      vestingDuration: setup.vestingDuration,
+      tgeShareBps: setup.tgeShareBps,
+    }
+  );
+  const pools: LaunchPool[] = [];
+  for (const pool of await factory.getProjectPools(projectId)) {
+    pools.push(await ethers.getContractAt("LaunchPool", pool.poolAddress));
+  }
+
+  await rewardToken.mint(projectOwner.address, totalRewardAmount);
+  await rewardToken
+    .connect(projectOwner)
+    .approve(await factory.getAddress(), totalRewardAmount);
+  for (const [i, pool] of pools.entries()) {
+    await factory
+      .connect(projectOwner)
+      .fundPool(projectId, pool, setup.rewardAmounts[i]);
+  }
+  for (const [i, token] of stakedTokens.entries()) {
+    for (const user of users) {
+      await token?.mint(user.address, ethers.parseEther("1000000"));
+      await token?.connect(user).approve(pools[i], ethers.MaxUint256);
+    }
+  }
+
+  return {
+    factory: factory.connect(projectOwner),
+    projectId,
+    rewardToken,
+    pools,
+    stakedTokens,
+    users,
+    claimed: pools.map(() => 0n),
+  };
+}
+
+async function observe(deployment: Deployment): Promise<PoolObservation[]> {
+  // Every read at the same block, pendingReward depends on its timestamp
+  const blockTag = await ethers.provider.getBlockNumber();
+  const observations: PoolObservation[] = [];
+  for (const [i, pool] of deployment.pools.entries()) {
+    const address = await pool.getAddress();
+    const token = deployment.stakedTokens[i];
+    const users = [];
+    for (const user of deployment.users) {
+      const { vested, claimed } = await pool.vestingInfo(user.address, {
+        blockTag,
+      });
+      users.push({
+        amount: (await pool.userInfo(user.address, { blockTag })).amount,
+        pendingReward: await pool.pendingReward(user.address, { blockTag }),
+        vested,
+        claimed,
+      });
+    }
+    observations.push({
+      totalStaked: await pool.totalStaked({ blockTag }),
+      stakedBalance: token
+        ? await token.balanceOf(address, { blockTag })
+        : await ethers.provider.getBalance(address, blockTag),
+      rewardBalance: await deployment.rewardToken.balanceOf(address, {
+        blockTag,
+      }),
+      poolRewardAmount: await pool.poolRewardAmount({ blockTag }),
+      distributedRewards: await pool.getTotalDistributedRewards({ blockTag }),
+      claimed: deployment.claimed[i],
+      totalRewardsClaimed: await pool.totalRewardsClaimed({ blockTag }),
+      users,
+    });
+  }
+  return observations;
+}
+
+async function send(
+  deployment: Deployment,
+  action: FuzzAction
+): Promise<ContractTransactionResponse> {
+  const { factory, projectId, pools, users } = deployment;
+  switch (action.type) {
+    case "deposit": {
+      const pool = pools[action.pool].connect(users[action.user]);
+      const isEth = !deployment.stakedTokens[action.pool];
+      return pool.deposit(action.amount, {
+        value: isEth ? action.amount : 0n,
+      });
+    }
+    case "withdraw": {
+      const user = users[action.user];
+      const { amount } = await pools[action.pool].userInfo(user.address);
+      return pools[action.pool]
+        .connect(user)
+        .withdraw((amount * BigInt(action.permille)) / 1000n);
+    }
+    case "claimReward":
+      return pools[action.pool].connect(users[action.user]).claimReward();
+    case "emergencyWithdraw":
+      return pools[action.pool].connect(users[action.user]).emergencyWithdraw();
+    case "pause":
+      return factory.pauseProject(projectId);
+    case "resume":
+      return factory.resumeProject(projectId);
+    case "endProject":
+      return factory.endProject(projectId);
+    case "advance":
+      throw new Error("advance sends no transaction");
+  }
+}
+
+// Runs one action, returning the revert reason if the contract rejected it
+async function execute(
+  deployment: Deployment,
+  action: FuzzAction
+): Promise<string | undefined> {
+  // Explicit timestamps, one second per transaction, keep replays identical
+  if (action.type === "advance") {
+    await time.increaseTo((await time.latest()) + action.seconds);
+    return undefined;
+  }
+  await time.setNextBlockTimestamp((await time.latest()) + 1);
+  let receipt;
+  try {
+    receipt = await (await send(deployment, action)).wait();
+  } catch (error) {
+    return getRevertReason(error);
+  }
+  if (action.type === "claimReward") {
+    const pool = deployment.pools[action.pool];
+    for (const log of receipt!.logs) {
+      const parsed = pool.interface.parseLog(log);
+      if (parsed?.name === "RewardClaimed") {
+        deployment.claimed[action.pool] += parsed.args.amount;
+      }
+    }
+  }
+  return undefined;
+}
+
+// Deploys the case's project, runs its actions and checks every invariant
+// after each one. The chain is restored afterwards so cases can be rerun.
+export async function runCase(
+  fuzzCase: FuzzCase,
+  invariants: Invariant[] = DEFAULT_INVARIANTS
+): Promise<FuzzFailure | undefined> {
+  const snapshot = await takeSnapshot();
+  try {
+    const deployment = await deploy(fuzzCase.setup);
+    let before = await observe(deployment);
+    for (const [step, action] of fuzzCase.actions.entries()) {
+      const revertReason = await execute(deployment, action);
+      let after;
+      try {
+        after = await observe(deployment);
+      } catch (error) {
+        // A view that stops answering is as broken as a failed invariant
+        return {
+          invariant: "views-callable",
+          message: `a view reverted with ${getRevertReason(error)}`,
+          step,
+          case: fuzzCase,
+        };
+      }
+      const observation: StepObservation = {
+        step,
+        action,
+        revertReason,
+        before,
+        after,
+      };
+      for (const invariant of invariants) {
+        const message = invariant.check(observation);
+        if (message) {
+          return { invariant: invariant.name, message, step, case: fuzzCase };
+        }
+      }
+      before = after;
+    }
+    return undefined;
+  } finally {
+    await snapshot.restore();
+  }
+}
+
+// Simpler values to try for an action, most aggressive first
+function simplerActions(action: FuzzAction): FuzzAction[] {
+  switch (action.type) {
+    case "deposit":
+      return [1n, 10n ** 18n, action.amount / 2n]
+        .filter((amount) => amount > 0n && amount < action.amount)
+        .map((amount) => ({ ...action, amount }));
+    case "withdraw":
+      return action.permille === 1000 ? [] : [{ ...action, permille: 1000 }];
+    case "advance":
+      return [1, Math.floor(action.seconds / 2)]
+        .filter((seconds) => seconds > 0 && seconds < action.seconds)
+        .map((seconds) => ({ ...action, seconds }));
+    default:
+      return [];
+  }
+}
+
+// Removes chunks of actions, then simplifies the remaining values, as long
+// as the same invariant still breaks
+export async function shrinkFailure(
+  failure: FuzzFailure,
+  invariants: Invariant[] = DEFAULT_INVARIANTS,
+  maxRuns = 300
+): Promise<FuzzFailure> {
+  let best = failure;
+  let runs = 0;
+  const attempt = async (actions: FuzzAction[]) => {
+    runs++;
+    const result = await runCase({ ...best.case, actions }, invariants);
+    if (result?.invariant !== best.invariant) {
+      return false;
+    }
+    // Actions after the failing step don't matter
+    best = {
+      ...result,
+      case: { ...result.case, actions: actions.slice(0, result.step + 1) },
+    };
+    return true;
+  };
+
+  best = {
+    ...best,
+    case: { ...best.case, actions: best.case.actions.slice(0, best.step + 1) },
+  };
+  let chunk = Math.ceil(best.case.actions.length / 2);
+  while (chunk >= 1 && runs < maxRuns) {
+    let removed = false;
+    for (let start = 0; start < best.case.actions.length; ) {
+      if (runs >= maxRuns) {
+        break;
+      }
+      const { actions } = best.case;
+      const candidate = [
+        ...actions.slice(0, start),
+        ...actions.slice(start + chunk),
+      ];
+      if (candidate.length > 0 && (await attempt(candidate))) {
+        removed = true;
+      } else {
+        start += chunk;
+      }
+    }
+    if (!removed) {
+      chunk = Math.floor(chunk / 2);
+    }
+  }
+
+  // Back-to-back waits read better as one
+  const merged: FuzzAction[] = [];
+  for (const action of best.case.actions) {
+    const last = merged[merged.length - 1];
+    if (action.type === "advance" && last?.type === "advance") {
+      merged[merged.length - 1] = {
+        ...last,
+        seconds: last.seconds + action.seconds,
+      };
+    } else {
+      merged.push(action);
+    }
+  }
+  if (merged.length < best.case.actions.length && runs < maxRuns) {
+    await attempt(merged);
+  }
+
+  for (let i = 0; i < best.case.actions.length && runs < maxRuns; i++) {
+    for (const simpler of simplerActions(best.case.actions[i])) {
+      const candidate = [...best.case.actions];
+      candidate[i] = simpler;
+      if (runs >= maxRuns || (await attempt(candidate))) {
+        break;
+      }
+    }
+  }
+  return best;
+}
+
+function describeAction(action: FuzzAction): string {
+  switch (action.type) {
+    case "deposit":
+      return `user ${action.user} deposits ${ethers.formatEther(
+        action.amount
+      )} (${action.amount}) in pool ${action.pool}`;
+    case "withdraw":
+      return `user ${action.user} withdraws ${
+        action.permille / 10
+      }% of their stake from pool ${action.pool}`;
+    case "claimReward":
+    case "emergencyWithdraw":
+      return `user ${action.user} calls ${action.type} on pool ${action.pool}`;
+    case "advance":
+      return `${action.seconds}s pass`;
+    default:
+      return `project owner calls ${action.type}`;
+  }
+}
+
+function describeClaimPolicy(setup: FuzzSetup): string {
+  switch (setup.claimPolicy) {
+    case ClaimPolicy.AT_END:
+      return setup.vestingCliff || setup.vestingDuration
+        ? `once the project ends, ${
+            setup.tgeShareBps / 100
+          }% then vesting over ${setup.vestingDuration}s after a ${
+            setup.vestingCliff
+          }s cliff`
+        : "once the project ends";
+    case ClaimPolicy.ANYTIME:
+      return "any time";
+    case ClaimPolicy.AFTER_UNLOCK:
+      return `${setup.unlockAfter}s after the start`;
+  }
+}
+
+export function formatFailure(failure: FuzzFailure): string {
+  const { setup, actions } = failure.case;
+  return [
+    `Invariant ${failure.invariant} broken after step ${
+      failure.step + 1
+    } of seed ${failure.case.seed}: ${failure.message}`,
+    `Pools stake ${setup.stakedTokens.join(", ")}, start in ${
+      setup.startIn
+    }s and last ${setup.duration}s`,
+    `Claims are allowed ${describeClaimPolicy(setup)}`,
+    ...actions.map((action, i) => `  ${i + 1}. ${describeAction(action)}`),
+  ].join("\n");
+}
+
+// Reads a case written with toJson, amounts are decimal strings
+export function parseFuzzCase(json: string): FuzzCase {
+  const fuzzCase = JSON.parse(json);
+  fuzzCase.setup.rewardAmounts = fuzzCase.setup.rewardAmounts.map(BigInt);
+  // Cases saved before vesting was fuzzed
+  fuzzCase.setup.vestingCliff ??= 0;
+  fuzzCase.setup.vestingDuration ??= 0;
+  fuzzCase.setup.tgeShareBps ??= 0;
+  for (const action of fuzzCase.actions) {
+    if (action.type === "deposit") {
+      action.amount = BigInt(action.amount);
+    }
+  }
+  return fuzzCase;
+}
+
+// Runs each seed until an invariant breaks, then shrinks that sequence
+export async function fuzz(
+  options: FuzzOptions
+): Promise<FuzzFailure | undefined> {
+  const { seeds, invariants = DEFAULT_INVARIANTS } = options;
+  const log = options.log ?? console.log;
+  for (const seed of seeds) {
+    const failure = await runCase(generateCase(seed, options), invariants);
+    if (!failure) {
+      log(`✅ Seed ${seed}`);
+      continue;
+    }
+    log(
+      `❌ Seed ${seed}: ${failure.invariant} broken at step ${failure.step + 1}`
+    );
+    if (options.shrink === false) {
+      return failure;
+    }
+    const shrunk = await shrinkFailure(
+      failure,
+      invariants,
+      options.maxShrinkRuns
+    );
+    log(
+      `Shrunk from ${failure.step + 1} to ${shrunk.case.actions.length} actions`
+    );
+    return shrunk;
+  }
+  return undefined;
+}
@@ -0,0 +1,4 @@
+export * from "./types";
+export * from "./generate";
+export * from "./invariants";
+export * from "./harness";
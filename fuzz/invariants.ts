@@ -0,0 +1,169 @@
+import { FuzzAction } from "./types";
+
+export interface UserObservation {
+  amount: bigint;
+  pendingReward: bigint;
+  // vestingInfo(), vested includes what was claimed
+  vested: bigint;
+  claimed: bigint;
+}
+
+// Pool state read at one block
+export interface PoolObservation {
+  totalStaked: bigint;
+  // Staked token or ETH held by the pool
+  stakedBalance: bigint;
+  rewardBalance: bigint;
+  poolRewardAmount: bigint;
+  // getTotalDistributedRewards()
+  distributedRewards: bigint;
+  // Sum of RewardClaimed amounts so far
+  claimed: bigint;
+  totalRewardsClaimed: bigint;
+  users: UserObservation[];
+}
+
+export interface StepObservation {
+  step: number;
+  action: FuzzAction;
+  // Set when the contract rejected the action
+  revertReason?: string;
+  before: PoolObservation[];
+  after: PoolObservation[];
+}
+
+export interface Invariant {
+  name: string;
+  // Returns why the invariant doesn't hold, if it doesn't
+  check(observation: StepObservation): string | undefined;
+}
+
+function sum(values: bigint[]): bigint {
+  return values.reduce((total, value) => total + value, 0n);
+}
+
+// Checks every pool and returns the first violation
+function eachPool(
+  observation: StepObservation,
+  check: (
+    after: PoolObservation,
+    before: PoolObservation,
+    pool: number
+  ) => string | undefined
+): string | undefined {
+  for (const [pool, after] of observation.after.entries()) {
+    const violation = check(after, observation.before[pool], pool);
+    if (violation) {
+      return `pool ${pool}: ${violation}`;
+    }
+  }
+  return undefined;
+}
+
+// Actions that legitimately reset a user's pending reward in a pool
+function resetsPendingReward(action: FuzzAction, user: number, pool: number) {
+  return (
+    (action.type === "claimReward" || action.type === "emergencyWithdraw") &&
+    action.user === user &&
+    action.pool === pool
+  );
+}
+
+export const DEFAULT_INVARIANTS: Invariant[] = [
+  {
+    // require() reverts are expected from random sequences, panics are not
+    name: "no-panic",
+    check: ({ revertReason }) =>
+      revertReason && /panic/i.test(revertReason)
+        ? `reverted with ${revertReason}`
+        : undefined,
+  },
+  {
+    name: "claims-within-distribution",
+    check: (observation) =>
+      eachPool(observation, (pool) =>
+        pool.claimed > pool.distributedRewards
+          ? `claimed ${pool.claimed} exceeds getTotalDistributedRewards ${pool.distributedRewards}`
+          : undefined
+      ),
+  },
+  {
+    name: "staked-accounting",
+    check: (observation) =>
+      eachPool(observation, (pool) => {
+        const staked = sum(pool.users.map((user) => user.amount));
+        if (pool.totalStaked !== staked) {
+          return `totalStaked ${pool.totalStaked} != sum of userInfo.amount ${staked}`;
+        }
+        if (pool.totalStaked !== pool.stakedBalance) {
+          return `totalStaked ${pool.totalStaked} != staked token balance ${pool.stakedBalance}`;
+        }
+        return undefined;
+      }),
+  },
+  {
+    name: "reward-conservation",
+    check: (observation) =>
+      eachPool(observation, (pool) => {
+        if (pool.totalRewardsClaimed !== pool.claimed) {
+          return `totalRewardsClaimed ${pool.totalRewardsClaimed} != sum of RewardClaimed ${pool.claimed}`;
+        }
+        if (pool.rewardBalance + pool.claimed !== pool.poolRewardAmount) {
+          return `reward balance ${pool.rewardBalance} + claimed ${pool.claimed} != funded ${pool.poolRewardAmount}`;
+        }
+        return undefined;
+      }),
+  },
+  {
+    name: "vesting-accounting",
+    check: (observation) =>
+      eachPool(observation, (pool) => {
+        for (const [
+          user,
+          { pendingReward, vested, claimed },
+        ] of pool.users.entries()) {
+          if (claimed > vested) {
+            return `user ${user} claimed ${claimed} more than the vested ${vested}`;
+          }
+          if (vested > pendingReward + claimed) {
+            return `user ${user} vested ${vested} more than the earned ${
+              pendingReward + claimed
+            }`;
+          }
+        }
+        const claimed = sum(pool.users.map((user) => user.claimed));
+        return claimed !== pool.totalRewardsClaimed
+          ? `sum of rewardsClaimed ${claimed} != totalRewardsClaimed ${pool.totalRewardsClaimed}`
+          : undefined;
+      }),
+  },
+  {
+    name: "reward-solvency",
+    check: (observation) =>
+      eachPool(observation, (pool) => {
+        const pending = sum(pool.users.map((user) => user.pendingReward));
+        return pending > pool.rewardBalance
+          ? `pending rewards ${pending} exceed the reward balance ${pool.rewardBalance}`
+          : undefined;
+      }),
+  },
+  {
+    name: "pending-reward-monotonic",
+    check: (observation) =>
+      eachPool(observation, (after, before, pool) => {
+        for (const [
+          user,
+          { amount, pendingReward },
+        ] of before.users.entries()) {
+          if (
+            amount > 0n &&
+            !resetsPendingReward(observation.action, user, pool) &&
+            after.users[user].pendingReward < pendingReward
+          ) {
+            return `user ${user} pendingReward fell from ${pendingReward} to ${after.users[user].pendingReward}`;
+          }
+        }
+        return undefined;
+      }),
+  },
+];
@@ -0,0 +1,44 @@
+import type { ClaimPolicy } from "../sdk/types";
+
+// Actions refer to users and pools by index so a sequence can be replayed on
+// a fresh deployment and shrunk by dropping actions. Withdrawals are a share
+// of the current stake so they stay meaningful once earlier actions are gone.
+export type FuzzAction =
+  | { type: "deposit"; user: number; pool: number; amount: bigint }
+  | { type: "withdraw"; user: number; pool: number; permille: number }
+  | { type: "claimReward"; user: number; pool: number }
+  | { type: "emergencyWithdraw"; user: number; pool: number }
+  | { type: "pause" }
+  | { type: "resume" }
+  | { type: "endProject" }
+  | { type: "advance"; seconds: number };
+
+export interface FuzzSetup {
+  users: number;
+  // One pool per entry, staking native ETH or a fresh ERC20
+  stakedTokens: ("ETH" | "ERC20")[];
+  rewardAmounts: bigint[];
+  startIn: number;
+  duration: number;
+  claimPolicy: ClaimPolicy;
+  // Seconds between startTime and when AFTER_UNLOCK claims open
+  unlockAfter: number;
+  // Vesting of AT_END rewards, all zero for none
+  vestingCliff: number;
+  vestingDuration: number;
+  tgeShareBps: number;
+}
+
+export interface FuzzCase {
+  seed: number;
+  setup: FuzzSetup;
+  actions: FuzzAction[];
+}
+
+export interface FuzzFailure {
+  invariant: string;
+  message: string;
+  // Index of the action after which the invariant broke
+  step: number;
+  case: FuzzCase;
+}
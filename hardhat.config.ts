@@ -13,6 +13,7 @@ import "@typechain/hardhat";
 import "hardhat-gas-reporter";
 import "solidity-coverage";
 import "@openzeppelin/hardhat-upgrades";
+import "./tasks/launchpool";
 
 const config: HardhatUserConfig = {
   solidity: {
@@ -28,6 +29,20 @@ const config: HardhatUserConfig = {
         },
       },
     ],
+    overrides: {
+      // The factory only runs admin calls and has to stay under the 24KB
+      // contract size limit, so it's optimized for size over gas
+      "contracts/LaunchPoolFactoryUpgradeable.sol": {
+        version: "0.8.28",
+        settings: {
+          optimizer: {
+            enabled: true,
+            runs: 50,
+          },
+          viaIR: true,
+        },
+      },
+    },
   },
   paths: {
     tests: "./test",
@@ -36,6 +51,8 @@ const config: HardhatUserConfig = {
   networks: {
     hardhat: {
       allowUnlimitedContractSize: true,
+      // FORK_URL runs the in-process network on a fork, e.g. for scripts/preflight.ts
+      forking: process.env.FORK_URL ? { url: process.env.FORK_URL } : undefined,
     },
     morph: {
       url: "https://rpc.morphl2.io",
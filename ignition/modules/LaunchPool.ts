@@ -0,0 +1,10 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+// Implementation cloned by the factory for every pool
+const LaunchPoolModule = buildModule("LaunchPoolModule", (m) => {
+  const launchPoolImplementation = m.contract("LaunchPool");
+
+  return { launchPoolImplementation };
+});
+
+export default LaunchPoolModule;
@@ -0,0 +1,35 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import ERC1967Proxy from "@openzeppelin/upgrades-core/artifacts/@openzeppelin/contracts-v5/proxy/ERC1967/ERC1967Proxy.sol/ERC1967Proxy.json";
+import LaunchPoolModule from "./LaunchPool";
+
+// UUPS proxy for the factory, initialized atomically in the proxy constructor
+const LaunchPoolFactoryModule = buildModule("LaunchPoolFactoryModule", (m) => {
+  const { launchPoolImplementation } = m.useModule(LaunchPoolModule);
+
+  const factoryImplementation = m.contract("LaunchPoolFactoryUpgradeable", [], {
+    id: "LaunchPoolFactoryImplementation",
+  });
+  const initializeData = m.encodeFunctionCall(
+    factoryImplementation,
+    "initialize",
+    [launchPoolImplementation]
+  );
+  const factoryProxy = m.contract(
+    "ERC1967Proxy",
+    ERC1967Proxy,
+    [factoryImplementation, initializeData],
+    { id: "LaunchPoolFactoryProxy" }
+  );
+  const factory = m.contractAt("LaunchPoolFactoryUpgradeable", factoryProxy, {
+    id: "LaunchPoolFactory",
+  });
+
+  return {
+    launchPoolImplementation,
+    factoryImplementation,
+    factoryProxy,
+    factory,
+  };
+});
+
+export default LaunchPoolFactoryModule;
@@ -0,0 +1,18 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import LaunchPoolFactoryModule from "./LaunchPoolFactory";
+
+// Starts the two-step ownership transfer of the factory to `owner`, which then
+// has to call acceptOwnership itself
+const LaunchPoolFactoryOwnershipModule = buildModule(
+  "LaunchPoolFactoryOwnershipModule",
+  (m) => {
+    const owner = m.getParameter<string>("owner");
+    const { factory } = m.useModule(LaunchPoolFactoryModule);
+
+    m.call(factory, "transferOwnership", [owner]);
+
+    return { factory };
+  }
+);
+
+export default LaunchPoolFactoryOwnershipModule;
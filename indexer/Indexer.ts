@@ -0,0 +1,459 @@
+import type { Log, LogDescription, Provider } from "ethers";
+import {
+  IERC20__factory,
+  LaunchPoolFactoryUpgradeable__factory,
+  LaunchPool__factory,
+} from "../typechain-types";
+import { LEGACY_POOL_VERSION, ProjectStatus } from "../sdk/types";
+import { INDEX_VERSION, JsonIndexStore } from "./store";
+import {
+  IndexSnapshot,
+  IndexerState,
+  IndexedPool,
+  IndexedProject,
+  Participant,
+} from "./types";
+
+export interface IndexerOptions {
+  factory: string;
+  // Block the factory proxy was deployed in, nothing before it is scanned
+  startBlock?: number;
+  // Blocks behind the head after which logs are treated as final
+  confirmations?: number;
+  // Maximum block range per eth_getLogs request
+  chunkSize?: number;
+  store?: JsonIndexStore;
+}
+
+const factoryInterface =
+  LaunchPoolFactoryUpgradeable__factory.createInterface();
+const poolInterface = LaunchPool__factory.createInterface();
+
+// Some RPCs cap the number of addresses in a log filter
+const MAX_POOLS_PER_FILTER = 100;
+
+// Pool events that change what a participant staked or claimed
+const PARTICIPANT_EVENTS = [
+  "Deposit",
+  "Withdraw",
+  "EmergencyWithdraw",
+  "RewardClaimed",
+  "ExtraRewardClaimed",
+];
+
+function byLogPosition(a: Log, b: Log): number {
+  return a.blockNumber - b.blockNumber || a.index - b.index;
+}
+
+// Rebuilds projects, pools and participants from factory and pool logs
+export class Indexer {
+  readonly confirmations: number;
+  readonly chunkSize: number;
+  snapshot?: IndexSnapshot;
+
+  constructor(readonly provider: Provider, readonly options: IndexerOptions) {
+    this.confirmations = options.confirmations ?? 12;
+    this.chunkSize = options.chunkSize ?? 2000;
+    this.snapshot = options.store?.load();
+    if (
+      this.snapshot &&
+      this.snapshot.confirmed.factory.toLowerCase() !==
+        options.factory.toLowerCase()
+    ) {
+      throw new Error(
+        `${options.store!.filePath} indexes factory ${
+          this.snapshot.confirmed.factory
+        }, not ${options.factory}`
+      );
+    }
+  }
+
+  get state(): IndexerState | undefined {
+    return this.snapshot?.latest;
+  }
+
+  async sync(): Promise<IndexSnapshot> {
+    const head = await this.provider.getBlockNumber();
+    let confirmed = this.snapshot?.confirmed ?? (await this.initialState());
+
+    // A reorg deeper than `confirmations` invalidates the confirmed state too
+    if (confirmed.block.hash !== null) {
+      const block = await this.provider.getBlock(confirmed.block.number);
+      if (block?.hash !== confirmed.block.hash) {
+        console.log(
+          `⚠️  Block ${confirmed.block.number} was reorged out, re-indexing from block ${confirmed.startBlock}`
+        );
+        confirmed = await this.initialState();
+      }
+    }
+
+    const confirmedHead = head - this.confirmations;
+    if (confirmedHead > confirmed.block.number) {
+      confirmed = await this.scan(confirmed, confirmedHead);
+    }
+    // The unconfirmed tail is always re-scanned, which drops reorged logs
+    const latest =
+      head > confirmed.block.number
+        ? await this.scan(structuredClone(confirmed), head)
+        : confirmed;
+
+    this.snapshot = {
+      indexVersion: INDEX_VERSION,
+      confirmations: this.confirmations,
+      confirmed,
+      latest,
+    };
+    this.options.store?.save(this.snapshot);
+    return this.snapshot;
+  }
+
+  private async initialState(): Promise<IndexerState> {
+    const { chainId } = await this.provider.getNetwork();
+    const startBlock = this.options.startBlock ?? 0;
+    return {
+      chainId: Number(chainId),
+      factory: this.options.factory,
+      startBlock,
+      block: { number: startBlock - 1, hash: null },
+      factoryOwner: null,
+      pendingFactoryOwner: null,
+      projects: {},
+      pools: {},
+      participants: {},
+    };
+  }
+
+  // Applies the logs of blocks state.block.number + 1 to toBlock to `state`
+  private async scan(
+    state: IndexerState,
+    toBlock: number
+  ): Promise<IndexerState> {
+    const dirtyProjects = new Set<number>();
+
+    for (
+      let fromBlock = state.block.number + 1;
+      fromBlock <= toBlock;
+      fromBlock += this.chunkSize
+    ) {
+      const chunkEnd = Math.min(fromBlock + this.chunkSize - 1, toBlock);
+      const factoryLogs = await this.provider.getLogs({
+        address: state.factory,
+        fromBlock,
+        toBlock: chunkEnd,
+      });
+      // Pools created in this chunk can log in it as well
+      for (const log of factoryLogs) {
+        const event = factoryInterface.parseLog(log);
+        if (event?.name === "NewLaunchPool") {
+          await this.addPool(state, event, log.blockNumber);
+        }
+      }
+      const poolLogs = await this.getPoolLogs(
+        Object.keys(state.pools),
+        fromBlock,
+        chunkEnd
+      );
+
+      for (const log of [...factoryLogs, ...poolLogs].sort(byLogPosition)) {
+        if (log.address.toLowerCase() === state.factory.toLowerCase()) {
+          const event = factoryInterface.parseLog(log);
+          if (event) {
+            await this.applyFactoryEvent(state, event, log, dirtyProjects);
+          }
+        } else {
+          const event = poolInterface.parseLog(log);
+          if (event) {
+            this.applyPoolEvent(state, event, log);
+          }
+        }
+      }
+    }
+
+    await this.refreshProjects(state, dirtyProjects, toBlock);
+    const block = await this.provider.getBlock(toBlock);
+    state.block = { number: toBlock, hash: block?.hash ?? null };
+    return state;
+  }
+
+  private async getPoolLogs(
+    pools: string[],
+    fromBlock: number,
+    toBlock: number
+  ): Promise<Log[]> {
+    const logs: Log[] = [];
+    for (let i = 0; i < pools.length; i += MAX_POOLS_PER_FILTER) {
+      logs.push(
+        ...(await this.provider.getLogs({
+          address: pools.slice(i, i + MAX_POOLS_PER_FILTER),
+          fromBlock,
+          toBlock,
+        }))
+      );
+    }
+    return logs;
+  }
+
+  // Pool parameters are set once in initialize, read them as created
+  private async addPool(
+    state: IndexerState,
+    event: LogDescription,
+    blockTag: number
+  ) {
+    const address: string = event.args.launchPool;
+    if (state.pools[address.toLowerCase()]) {
+      return;
+    }
+    const contract = LaunchPool__factory.connect(address, this.provider);
+    const [stakedToken, poolRewardAmount, rewardPerSecond] = await Promise.all([
+      contract.stakedToken({ blockTag }),
+      contract.poolRewardAmount({ blockTag }),
+      contract.rewardPerSecond({ blockTag }),
+    ]);
+    state.pools[address.toLowerCase()] = {
+      address,
+      projectId: Number(event.args.projectId),
+      version: Number(event.args.version),
+      stakedToken,
+      poolRewardAmount,
+      rewardPerSecond,
+      remainingRewardsWithdrawn: 0n,
+      extraRewards: [],
+      funded: false,
+      totalStaked: 0n,
+      participantCount: 0,
+      createdAtBlock: blockTag,
+    };
+    state.participants[address.toLowerCase()] = {};
+  }
+
+  private async applyFactoryEvent(
+    state: IndexerState,
+    event: LogDescription,
+    log: Log,
+    dirtyProjects: Set<number>
+  ) {
+    const projectId = Number(event.args.projectId);
+    const project: IndexedProject | undefined = state.projects[projectId];
+    switch (event.name) {
+      case "NewProject":
+        state.projects[projectId] = {
+          projectId,
+          rewardToken: event.args.rewardToken,
+          owner: event.args.owner,
+          pendingOwner: null,
+          metadata: event.args.metadata.toObject(),
+          status: ProjectStatus.STAGING,
+          statusHistory: [],
+          totalRewardAmount: 0n,
+          startTime: 0,
+          endTime: 0,
+          pools: [],
+          fundedPoolCount: 0,
+          createdAtBlock: log.blockNumber,
+        };
+        dirtyProjects.add(projectId);
+        break;
+      case "NewLaunchPool":
+        if (!project.pools.includes(event.args.launchPool)) {
+          project.pools.push(event.args.launchPool);
+        }
+        break;
+      case "ExtraRewardTokenAdded":
+        await this.addExtraRewards(state, project, log.blockNumber);
+        break;
+      case "PoolFunded":
+        state.pools[event.args.pool.toLowerCase()].funded = true;
+        project.fundedPoolCount++;
+        break;
+      case "ProjectStatusUpdated":
+        if (
+          Number(event.args.status) === ProjectStatus.STAGING &&
+          project.status !== ProjectStatus.STAGING
+        ) {
+          await this.resetUnfundedPools(state, project, log.blockNumber);
+        }
+        project.status = Number(event.args.status) as ProjectStatus;
+        project.statusHistory.push({
+          status: project.status,
+          blockNumber: log.blockNumber,
+          transactionHash: log.transactionHash,
+        });
+        // endProject moves the end time and only emits this event
+        dirtyProjects.add(projectId);
+        break;
+      case "PoolMetadataUpdated":
+        project.metadata = event.args.metadata.toObject();
+        break;
+      case "ProjectOwnershipTransferStarted":
+        project.pendingOwner = event.args.pendingOwner;
+        break;
+      case "ProjectOwnershipTransferred":
+        project.owner = event.args.newOwner;
+        project.pendingOwner = null;
+        break;
+      case "ProjectOwnershipTransferCanceled":
+        project.pendingOwner = null;
+        break;
+      case "OwnershipTransferred":
+        state.factoryOwner = event.args.newOwner;
+        state.pendingFactoryOwner = null;
+        break;
+      case "OwnershipTransferStarted":
+        state.pendingFactoryOwner = event.args.newOwner;
+        break;
+      case "OwnershipTransferCanceled":
+        state.pendingFactoryOwner = null;
+        break;
+    }
+  }
+
+  // addExtraRewardToken appends the token to every pool of the project, with
+  // its allocation, read the ones a pool doesn't have yet
+  private async addExtraRewards(
+    state: IndexerState,
+    project: IndexedProject,
+    blockTag: number
+  ) {
+    for (const address of project.pools) {
+      const pool = state.pools[address.toLowerCase()];
+      const contract = LaunchPool__factory.connect(address, this.provider);
+      const count = Number(await contract.extraRewardCount({ blockTag }));
+      for (let i = pool.extraRewards.length; i < count; i++) {
+        const reward = await contract.extraRewards(i, { blockTag });
+        pool.extraRewards.push({
+          rewardToken: reward.token,
+          poolRewardAmount: reward.poolRewardAmount,
+          rewardPerSecond: reward.rewardPerSecond,
+          remainingRewardsWithdrawn: 0n,
+        });
+      }
+    }
+  }
+
+  // Moving a paused project back to STAGING unfunds the pools that are short
+  // of rewards without emitting PoolFunded, mirror that with the factory's check
+  private async resetUnfundedPools(
+    state: IndexerState,
+    project: IndexedProject,
+    blockTag: number
+  ) {
+    for (const address of project.pools) {
+      const pool = state.pools[address.toLowerCase()];
+      if (
+        pool.funded &&
+        !(await this.isRewardFunded(project, pool, blockTag))
+      ) {
+        pool.funded = false;
+        project.fundedPoolCount--;
+      }
+    }
+  }
+
+  // PoolLib.isPoolRewardFunded, which counts rewards already claimed
+  private async isRewardFunded(
+    project: IndexedProject,
+    pool: IndexedPool,
+    blockTag: number
+  ): Promise<boolean> {
+    if (pool.version <= LEGACY_POOL_VERSION) {
+      const rewardToken = IERC20__factory.connect(
+        project.rewardToken,
+        this.provider
+      );
+      const balance = await rewardToken.balanceOf(pool.address, { blockTag });
+      return balance >= pool.poolRewardAmount;
+    }
+    return LaunchPool__factory.connect(
+      pool.address,
+      this.provider
+    ).isRewardFunded({ blockTag });
+  }
+
+  private applyPoolEvent(state: IndexerState, event: LogDescription, log: Log) {
+    const poolKey = log.address.toLowerCase();
+    const pool = state.pools[poolKey];
+    if (event.name === "RemainingRewardsWithdrawn") {
+      pool.remainingRewardsWithdrawn += event.args.amount;
+      return;
+    }
+    if (event.name === "RemainingExtraRewardsWithdrawn") {
+      pool.extraRewards.find(
+        (reward) =>
+          reward.rewardToken.toLowerCase() ===
+          event.args.rewardToken.toLowerCase()
+      )!.remainingRewardsWithdrawn += event.args.amount;
+      return;
+    }
+    if (!PARTICIPANT_EVENTS.includes(event.name)) {
+      return;
+    }
+    const user: string = event.args.user;
+    const amount: bigint = event.args.amount;
+    const participants = state.participants[poolKey];
+    let participant: Participant | undefined = participants[user.toLowerCase()];
+    if (!participant) {
+      participant = {
+        pool: pool.address,
+        user,
+        amount: 0n,
+        totalDeposited: 0n,
+        totalWithdrawn: 0n,
+        totalEmergencyWithdrawn: 0n,
+        totalClaimed: 0n,
+        extraClaimed: {},
+        firstBlock: log.blockNumber,
+        lastBlock: log.blockNumber,
+      };
+      participants[user.toLowerCase()] = participant;
+      pool.participantCount++;
+    }
+    participant.lastBlock = log.blockNumber;
+
+    switch (event.name) {
+      case "Deposit":
+        participant.amount += amount;
+        participant.totalDeposited += amount;
+        pool.totalStaked += amount;
+        break;
+      case "Withdraw":
+        participant.amount -= amount;
+        participant.totalWithdrawn += amount;
+        pool.totalStaked -= amount;
+        break;
+      case "EmergencyWithdraw":
+        participant.amount -= amount;
+        participant.totalEmergencyWithdrawn += amount;
+        pool.totalStaked -= amount;
+        break;
+      case "RewardClaimed":
+        participant.totalClaimed += amount;
+        break;
+      case "ExtraRewardClaimed": {
+        const rewardToken = event.args.rewardToken.toLowerCase();
+        participant.extraClaimed[rewardToken] =
+          (participant.extraClaimed[rewardToken] ?? 0n) + amount;
+        break;
+      }
+    }
+  }
+
+  // Project times and totals aren't in any event, read them as of the last
+  // scanned block
+  private async refreshProjects(
+    state: IndexerState,
+    projectIds: Set<number>,
+    blockTag: number
+  ) {
+    const factory = LaunchPoolFactoryUpgradeable__factory.connect(
+      state.factory,
+      this.provider
+    );
+    for (const projectId of projectIds) {
+      const project = state.projects[projectId];
+      const info = await factory.getProject(projectId, { blockTag });
+      project.totalRewardAmount = info.totalRewardAmount;
+      project.startTime = Number(info.startTime);
+      project.endTime = Number(info.endTime);
+    }
+  }
+}
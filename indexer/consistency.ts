@@ -0,0 +1,49 @@
+import type { Provider } from "ethers";
+import { LaunchPool__factory } from "../typechain-types";
+import { IndexerState } from "./types";
+
+export interface Mismatch {
+  pool: string;
+  // Unset for pool-level totals
+  user?: string;
+  field: "amount" | "totalStaked";
+  indexed: bigint;
+  onChain: bigint;
+}
+
+// Compares indexed balances with userInfo() and totalStaked() at the indexed
+// block, an empty result means the index agrees with the chain
+export async function checkConsistency(
+  provider: Provider,
+  state: IndexerState
+): Promise<Mismatch[]> {
+  const blockTag = state.block.number;
+  const mismatches: Mismatch[] = [];
+  for (const [poolKey, pool] of Object.entries(state.pools)) {
+    const contract = LaunchPool__factory.connect(pool.address, provider);
+    const totalStaked = await contract.totalStaked({ blockTag });
+    if (totalStaked !== pool.totalStaked) {
+      mismatches.push({
+        pool: pool.address,
+        field: "totalStaked",
+        indexed: pool.totalStaked,
+        onChain: totalStaked,
+      });
+    }
+    for (const participant of Object.values(state.participants[poolKey])) {
+      const { amount } = await contract.userInfo(participant.user, {
+        blockTag,
+      });
+      if (amount !== participant.amount) {
+        mismatches.push({
+          pool: pool.address,
+          user: participant.user,
+          field: "amount",
+          indexed: participant.amount,
+          onChain: amount,
+        });
+      }
+    }
+  }
+  return mismatches;
+}
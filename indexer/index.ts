@@ -0,0 +1,4 @@
+export * from "./types";
+export * from "./store";
+export * from "./Indexer";
+export * from "./consistency";
@@ -0,0 +1,63 @@
+import fs from "fs";
+import path from "path";
+import { IndexSnapshot } from "./types";
+
+// Bump when the stored state layout changes, older files are then rebuilt
+export const INDEX_VERSION = 4;
+
+// Amounts are stored as { "$bigint": "123" } so they round-trip as bigints,
+// without mistaking strings such as project metadata for them
+const BIGINT_TAG = "$bigint";
+
+function isTaggedBigint(value: unknown): value is { [BIGINT_TAG]: string } {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const keys = Object.keys(value);
+  return (
+    keys.length === 1 &&
+    keys[0] === BIGINT_TAG &&
+    typeof (value as Record<string, unknown>)[BIGINT_TAG] === "string"
+  );
+}
+
+export function serializeIndex(snapshot: IndexSnapshot): string {
+  return JSON.stringify(
+    snapshot,
+    (_, value) =>
+      typeof value === "bigint" ? { [BIGINT_TAG]: value.toString() } : value,
+    2
+  );
+}
+
+export function deserializeIndex(json: string): IndexSnapshot {
+  return JSON.parse(json, (_, value) =>
+    isTaggedBigint(value) ? BigInt(value[BIGINT_TAG]) : value
+  );
+}
+
+export class JsonIndexStore {
+  constructor(readonly filePath: string) {}
+
+  load(): IndexSnapshot | undefined {
+    if (!fs.existsSync(this.filePath)) {
+      return undefined;
+    }
+    const snapshot = deserializeIndex(fs.readFileSync(this.filePath, "utf8"));
+    if (snapshot.indexVersion !== INDEX_VERSION) {
+      console.log(
+        `Index version ${snapshot.indexVersion} in ${this.filePath} is outdated, rebuilding`
+      );
+      return undefined;
+    }
+    return snapshot;
+  }
+
+  save(snapshot: IndexSnapshot) {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    // Write then rename so readers never see a partial file
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, serializeIndex(snapshot) + "\n");
+    fs.renameSync(tmpPath, this.filePath);
+  }
+}
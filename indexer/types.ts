@@ -0,0 +1,90 @@
+import type { PoolMetadata, ProjectStatus } from "../sdk/types";
+
+export interface StatusChange {
+  status: ProjectStatus;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export interface IndexedProject {
+  projectId: number;
+  rewardToken: string;
+  owner: string;
+  pendingOwner: string | null;
+  metadata: PoolMetadata;
+  status: ProjectStatus;
+  // Every ProjectStatusUpdated, endProject logs READY again
+  statusHistory: StatusChange[];
+  totalRewardAmount: bigint;
+  startTime: number;
+  endTime: number;
+  pools: string[];
+  fundedPoolCount: number;
+  createdAtBlock: number;
+}
+
+// A reward token the pool distributes next to the project's rewardToken,
+// added by the factory's addExtraRewardToken
+export interface IndexedExtraReward {
+  rewardToken: string;
+  poolRewardAmount: bigint;
+  rewardPerSecond: bigint;
+  // RemainingExtraRewardsWithdrawn by the project owner
+  remainingRewardsWithdrawn: bigint;
+}
+
+export interface IndexedPool {
+  address: string;
+  projectId: number;
+  version: number;
+  stakedToken: string;
+  poolRewardAmount: bigint;
+  rewardPerSecond: bigint;
+  // RemainingRewardsWithdrawn by the project owner
+  remainingRewardsWithdrawn: bigint;
+  // In the pool's order, without rewardToken
+  extraRewards: IndexedExtraReward[];
+  funded: boolean;
+  totalStaked: bigint;
+  participantCount: number;
+  createdAtBlock: number;
+}
+
+export interface Participant {
+  pool: string;
+  user: string;
+  // Currently staked, as tracked by LaunchPool.userInfo
+  amount: bigint;
+  totalDeposited: bigint;
+  totalWithdrawn: bigint;
+  totalEmergencyWithdrawn: bigint;
+  totalClaimed: bigint;
+  // ExtraRewardClaimed totals, keyed by lowercase reward token address
+  extraClaimed: Record<string, bigint>;
+  firstBlock: number;
+  lastBlock: number;
+}
+
+// Everything rebuilt from logs up to and including `block`
+export interface IndexerState {
+  chainId: number;
+  factory: string;
+  startBlock: number;
+  block: { number: number; hash: string | null };
+  factoryOwner: string | null;
+  pendingFactoryOwner: string | null;
+  projects: Record<number, IndexedProject>;
+  // Keyed by lowercase pool address
+  pools: Record<string, IndexedPool>;
+  // Keyed by lowercase pool address, then lowercase user address
+  participants: Record<string, Record<string, Participant>>;
+}
+
+// Persisted index: `confirmed` only covers blocks that can no longer reorg,
+// `latest` is rebuilt from it on every sync up to the chain head
+export interface IndexSnapshot {
+  indexVersion: number;
+  confirmations: number;
+  confirmed: IndexerState;
+  latest: IndexerState;
+}
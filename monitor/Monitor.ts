@@ -0,0 +1,108 @@
+import type { Provider } from "ethers";
+import { Indexer } from "../indexer/Indexer";
+import {
+  Alert,
+  StatusTransition,
+  checkPoolBalances,
+  checkStatusTransitions,
+  checkStuckProjects,
+} from "./checks";
+import { AlertNotification, Notifier } from "./webhook";
+
+export interface MonitorOptions {
+  provider: Provider;
+  // Synced by the monitor on every check
+  indexer: Indexer;
+  notifier: Notifier;
+  allowedTransitions?: StatusTransition[];
+}
+
+// Checks every indexed pool and project on each tick and notifies conditions
+// when they appear and when they clear
+export class Monitor {
+  // Conditions notified as firing, by alert key
+  readonly active = new Map<string, Alert>();
+  // Transitions already notified, they never clear
+  private readonly notifiedTransitions = new Set<string>();
+  private timer?: NodeJS.Timeout;
+
+  constructor(readonly options: MonitorOptions) {}
+
+  async check(): Promise<Alert[]> {
+    const { provider, indexer } = this.options;
+    const { latest: state } = await indexer.sync();
+    const block = await provider.getBlock(state.block.number);
+
+    const alerts = [
+      ...checkStuckProjects(state, block!.timestamp),
+      ...checkStatusTransitions(state, this.options.allowedTransitions).filter(
+        (alert) => !this.notifiedTransitions.has(alert.key)
+      ),
+    ];
+    for (const pool of Object.values(state.pools)) {
+      alerts.push(...(await checkPoolBalances(provider, state, pool)));
+    }
+
+    const firing: Alert[] = [];
+    for (const alert of alerts) {
+      if (
+        !this.active.has(alert.key) &&
+        (await this.send({ ...alert, status: "firing" }))
+      ) {
+        firing.push(alert);
+        // Transitions are one-off events, there is nothing to resolve
+        if (alert.kind === "UNEXPECTED_STATUS_TRANSITION") {
+          this.notifiedTransitions.add(alert.key);
+        } else {
+          this.active.set(alert.key, alert);
+        }
+      }
+    }
+    const keys = new Set(alerts.map((alert) => alert.key));
+    for (const [key, alert] of this.active) {
+      if (
+        !keys.has(key) &&
+        (await this.send({
+          ...alert,
+          blockNumber: state.block.number,
+          status: "resolved",
+        }))
+      ) {
+        this.active.delete(key);
+      }
+    }
+    return firing;
+  }
+
+  // Checks every `interval` ms until stopped, failed checks are retried on
+  // the next tick
+  start(interval: number) {
+    const tick = async () => {
+      try {
+        await this.check();
+      } catch (error) {
+        console.error("Monitor check failed:", error);
+      }
+      if (this.timer) {
+        this.timer = setTimeout(tick, interval);
+      }
+    };
+    this.timer = setTimeout(tick, 0);
+  }
+
+  stop() {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  // Undelivered notifications are sent again on the next check
+  private async send(notification: AlertNotification): Promise<boolean> {
+    try {
+      await this.options.notifier.notify(notification);
+      return true;
+    } catch (error: any) {
+      console.error(`Failed to notify ${notification.key}: ${error.message}`);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,209 @@
+import type { Provider } from "ethers";
+import { IERC20__factory, LaunchPool__factory } from "../typechain-types";
+import { ProjectStatus, isEthToken } from "../sdk/types";
+import { IndexedPool, IndexerState } from "../indexer/types";
+
+export type AlertKind =
+  | "REWARD_SHORTFALL"
+  | "STAKED_BALANCE_MISMATCH"
+  | "STUCK_IN_STAGING"
+  | "UNEXPECTED_STATUS_TRANSITION";
+
+export type AlertSeverity = "critical" | "warning";
+
+export interface Alert {
+  // Identifies the condition, it is only notified again once it cleared
+  key: string;
+  kind: AlertKind;
+  severity: AlertSeverity;
+  projectId: number;
+  pool?: string;
+  message: string;
+  blockNumber: number;
+  details: Record<string, string | number>;
+}
+
+export type StatusTransition = [from: ProjectStatus, to: ProjectStatus];
+
+// Stored status changes ProjectLib.updateProjectStatus, fundPool and
+// resumeProject allow. READY to READY is logged by endProject.
+export const ALLOWED_TRANSITIONS: StatusTransition[] = [
+  [ProjectStatus.STAGING, ProjectStatus.READY],
+  [ProjectStatus.STAGING, ProjectStatus.DELISTED],
+  [ProjectStatus.READY, ProjectStatus.READY],
+  [ProjectStatus.READY, ProjectStatus.PAUSED],
+  [ProjectStatus.READY, ProjectStatus.DELISTED],
+  [ProjectStatus.PAUSED, ProjectStatus.READY],
+  [ProjectStatus.PAUSED, ProjectStatus.STAGING],
+];
+
+// Claimed of rewardToken, or of an extra reward token
+function totalClaimed(
+  state: IndexerState,
+  pool: IndexedPool,
+  rewardToken?: string
+): bigint {
+  return Object.values(state.participants[pool.address.toLowerCase()]).reduce(
+    (total, participant) =>
+      total +
+      (rewardToken === undefined
+        ? participant.totalClaimed
+        : participant.extraClaimed[rewardToken.toLowerCase()] ?? 0n),
+    0n
+  );
+}
+
+// Compares a pool's balances with what it owes: the rewards of every reward
+// token it emits over the project minus what was already claimed, and the
+// stakes it holds
+export async function checkPoolBalances(
+  provider: Provider,
+  state: IndexerState,
+  pool: IndexedPool
+): Promise<Alert[]> {
+  const blockTag = state.block.number;
+  const project = state.projects[pool.projectId];
+  const alerts: Alert[] = [];
+  const base = {
+    projectId: pool.projectId,
+    pool: pool.address,
+    blockNumber: blockTag,
+  };
+
+  // Unfunded pools owe nothing yet and delisted ones only owe stakes
+  if (
+    project.status === ProjectStatus.READY ||
+    project.status === ProjectStatus.PAUSED
+  ) {
+    const contract = LaunchPool__factory.connect(pool.address, provider);
+    const rewards = [
+      {
+        rewardToken: project.rewardToken,
+        distributed: await contract.getTotalDistributedRewards({ blockTag }),
+        claimed: totalClaimed(state, pool),
+        // Keeps the key alerts on rewardToken had before extra reward tokens
+        key: `REWARD_SHORTFALL:${pool.address}`,
+      },
+    ];
+    if (pool.extraRewards.length > 0) {
+      // Extra reward tokens emit over the same pool times
+      const [startTime, endTime] = await contract.getPoolTimes({ blockTag });
+      for (const reward of pool.extraRewards) {
+        rewards.push({
+          rewardToken: reward.rewardToken,
+          distributed: (endTime - startTime) * reward.rewardPerSecond,
+          claimed: totalClaimed(state, pool, reward.rewardToken),
+          key: `REWARD_SHORTFALL:${pool.address}:${reward.rewardToken}`,
+        });
+      }
+    }
+    for (const { rewardToken, distributed, claimed, key } of rewards) {
+      const owed = distributed > claimed ? distributed - claimed : 0n;
+      const balance = await IERC20__factory.connect(
+        rewardToken,
+        provider
+      ).balanceOf(pool.address, { blockTag });
+      if (balance < owed) {
+        alerts.push({
+          ...base,
+          key,
+          kind: "REWARD_SHORTFALL",
+          severity: "critical",
+          message: `Pool ${pool.address} of project ${pool.projectId} holds ${balance} of reward token ${rewardToken} but owes ${owed}`,
+          details: {
+            rewardToken,
+            balance: balance.toString(),
+            owed: owed.toString(),
+            shortfall: (owed - balance).toString(),
+          },
+        });
+      }
+    }
+  }
+
+  const stakedBalance = isEthToken(pool.stakedToken)
+    ? await provider.getBalance(pool.address, blockTag)
+    : await IERC20__factory.connect(pool.stakedToken, provider).balanceOf(
+        pool.address,
+        { blockTag }
+      );
+  const totalStaked = await LaunchPool__factory.connect(
+    pool.address,
+    provider
+  ).totalStaked({ blockTag });
+  if (stakedBalance !== totalStaked) {
+    // Extra tokens are only stuck, missing ones mean stakers can't exit
+    alerts.push({
+      ...base,
+      key: `STAKED_BALANCE_MISMATCH:${pool.address}`,
+      kind: "STAKED_BALANCE_MISMATCH",
+      severity: stakedBalance < totalStaked ? "critical" : "warning",
+      message: `Pool ${pool.address} of project ${pool.projectId} holds ${stakedBalance} staked tokens, totalStaked is ${totalStaked}`,
+      details: {
+        stakedToken: pool.stakedToken,
+        balance: stakedBalance.toString(),
+        totalStaked: totalStaked.toString(),
+      },
+    });
+  }
+  return alerts;
+}
+
+export function checkStuckProjects(state: IndexerState, now: number): Alert[] {
+  return Object.values(state.projects)
+    .filter(
+      (project) =>
+        project.status === ProjectStatus.STAGING && now >= project.startTime
+    )
+    .map((project) => ({
+      key: `STUCK_IN_STAGING:${project.projectId}`,
+      kind: "STUCK_IN_STAGING",
+      severity: "warning",
+      projectId: project.projectId,
+      message: `Project ${project.projectId} is still in STAGING ${
+        now - project.startTime
+      }s after its start time, ${project.fundedPoolCount}/${
+        project.pools.length
+      } pools funded`,
+      blockNumber: state.block.number,
+      details: {
+        startTime: project.startTime,
+        fundedPoolCount: project.fundedPoolCount,
+        poolCount: project.pools.length,
+      },
+    }));
+}
+
+// Every logged status change that isn't in `allowed`
+export function checkStatusTransitions(
+  state: IndexerState,
+  allowed: StatusTransition[] = ALLOWED_TRANSITIONS
+): Alert[] {
+  const alerts: Alert[] = [];
+  for (const project of Object.values(state.projects)) {
+    project.statusHistory.forEach((change, i) => {
+      if (i === 0) {
+        return;
+      }
+      const from = project.statusHistory[i - 1].status;
+      const to = change.status;
+      if (allowed.some(([a, b]) => a === from && b === to)) {
+        return;
+      }
+      alerts.push({
+        key: `UNEXPECTED_STATUS_TRANSITION:${change.transactionHash}:${project.projectId}`,
+        kind: "UNEXPECTED_STATUS_TRANSITION",
+        severity: "critical",
+        projectId: project.projectId,
+        message: `Project ${project.projectId} moved from ${ProjectStatus[from]} to ${ProjectStatus[to]} in ${change.transactionHash}`,
+        blockNumber: change.blockNumber,
+        details: {
+          from: ProjectStatus[from],
+          to: ProjectStatus[to],
+          transactionHash: change.transactionHash,
+        },
+      });
+    });
+  }
+  return alerts;
+}
@@ -0,0 +1,3 @@
+export * from "./checks";
+export * from "./webhook";
+export * from "./Monitor";
@@ -0,0 +1,44 @@
+import { Alert } from "./checks";
+
+export interface AlertNotification extends Alert {
+  // "resolved" is sent once a firing condition is no longer detected
+  status: "firing" | "resolved";
+}
+
+export interface Notifier {
+  notify(notification: AlertNotification): Promise<void>;
+}
+
+// POSTs each notification as JSON to `url`
+export class WebhookNotifier implements Notifier {
+  constructor(
+    readonly url: string,
+    readonly headers: Record<string, string> = {}
+  ) {}
+
+  async notify(notification: AlertNotification): Promise<void> {
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers: { "content-type": "application/json", ...this.headers },
+      body: JSON.stringify(notification),
+    });
+    if (!response.ok) {
+      throw new Error(
+        `Webhook ${this.url} answered ${response.status} ${response.statusText}`
+      );
+    }
+  }
+}
+
+// Prints notifications when no webhook is configured
+export class ConsoleNotifier implements Notifier {
+  async notify(notification: AlertNotification): Promise<void> {
+    const icon =
+      notification.status === "resolved"
+        ? "✅"
+        : notification.severity === "critical"
+        ? "🚨"
+        : "⚠️ ";
+    console.log(`${icon} [${notification.kind}] ${notification.message}`);
+  }
+}
@@ -0,0 +1,22 @@
+export type CsvValue = string | number | bigint | boolean | undefined;
+
+function escape(value: CsvValue): string {
+  const text = value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Header from the first row's keys, amounts are written as integers
+export function toCsv(rows: Record<string, CsvValue>[]): string {
+  if (rows.length === 0) {
+    return "";
+  }
+  const columns = Object.keys(rows[0]);
+  return (
+    [
+      columns.join(","),
+      ...rows.map((row) =>
+        columns.map((column) => escape(row[column])).join(",")
+      ),
+    ].join("\n") + "\n"
+  );
+}
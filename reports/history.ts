@@ -0,0 +1,176 @@
+import { zeroPadValue, toBeHex } from "ethers";
+import type { Filter, Log, Provider } from "ethers";
+import {
+  LaunchPoolFactoryUpgradeable__factory,
+  LaunchPool__factory,
+} from "../typechain-types";
+
+export type PoolEventType =
+  | "Deposit"
+  | "Withdraw"
+  | "EmergencyWithdraw"
+  | "RewardClaimed"
+  | "ExtraRewardClaimed"
+  | "RemainingRewardsWithdrawn"
+  | "RemainingExtraRewardsWithdrawn";
+
+export interface PoolEvent {
+  type: PoolEventType;
+  // The staker, or the project owner for leftover withdrawals
+  user: string;
+  // Only set for the events of extra reward tokens
+  rewardToken?: string;
+  amount: bigint;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export interface PoolHistory {
+  pool: string;
+  projectId: number;
+  createdAtBlock: number;
+  // A pool is funded again after a PAUSED project went back to STAGING
+  fundedBlocks: number[];
+  // In chain order
+  events: PoolEvent[];
+}
+
+export interface HistoryOptions {
+  // First block to search, e.g. the factory deployment block
+  fromBlock?: number;
+  toBlock: number;
+  // Maximum block range per eth_getLogs request
+  chunkSize?: number;
+}
+
+const factoryInterface =
+  LaunchPoolFactoryUpgradeable__factory.createInterface();
+const poolInterface = LaunchPool__factory.createInterface();
+
+export async function getLogsInChunks(
+  provider: Provider,
+  filter: Filter,
+  fromBlock: number,
+  toBlock: number,
+  chunkSize: number
+): Promise<Log[]> {
+  const logs: Log[] = [];
+  for (let from = fromBlock; from <= toBlock; from += chunkSize) {
+    logs.push(
+      ...(await provider.getLogs({
+        ...filter,
+        fromBlock: from,
+        toBlock: Math.min(from + chunkSize - 1, toBlock),
+      }))
+    );
+  }
+  return logs;
+}
+
+// Stake, claim and leftover withdrawal logs of every pool of a project up
+// to `toBlock`, keyed by lowercase pool address
+export async function fetchProjectHistory(
+  provider: Provider,
+  factory: string,
+  projectId: number,
+  options: HistoryOptions
+): Promise<Map<string, PoolHistory>> {
+  const { fromBlock = 0, toBlock, chunkSize = 2000 } = options;
+  const histories = new Map<string, PoolHistory>();
+
+  // NewLaunchPool and PoolFunded both index the project id first
+  const factoryLogs = await getLogsInChunks(
+    provider,
+    {
+      address: factory,
+      topics: [
+        [
+          factoryInterface.getEvent("NewLaunchPool").topicHash,
+          factoryInterface.getEvent("PoolFunded").topicHash,
+        ],
+        zeroPadValue(toBeHex(projectId), 32),
+      ],
+    },
+    fromBlock,
+    toBlock,
+    chunkSize
+  );
+  for (const log of factoryLogs) {
+    const event = factoryInterface.parseLog(log)!;
+    if (event.name === "NewLaunchPool") {
+      histories.set(event.args.launchPool.toLowerCase(), {
+        pool: event.args.launchPool,
+        projectId,
+        createdAtBlock: log.blockNumber,
+        fundedBlocks: [],
+        events: [],
+      });
+    } else {
+      histories
+        .get(event.args.pool.toLowerCase())!
+        .fundedBlocks.push(log.blockNumber);
+    }
+  }
+
+  for (const history of histories.values()) {
+    const logs = await getLogsInChunks(
+      provider,
+      { address: history.pool },
+      history.createdAtBlock,
+      toBlock,
+      chunkSize
+    );
+    for (const log of logs) {
+      const event = poolInterface.parseLog(log);
+      switch (event?.name) {
+        case "Deposit":
+        case "Withdraw":
+        case "EmergencyWithdraw":
+        case "RewardClaimed":
+          history.events.push({
+            type: event.name,
+            user: event.args.user,
+            amount: event.args.amount,
+            blockNumber: log.blockNumber,
+            transactionHash: log.transactionHash,
+            logIndex: log.index,
+          });
+          break;
+        case "ExtraRewardClaimed":
+          history.events.push({
+            type: event.name,
+            user: event.args.user,
+            rewardToken: event.args.rewardToken,
+            amount: event.args.amount,
+            blockNumber: log.blockNumber,
+            transactionHash: log.transactionHash,
+            logIndex: log.index,
+          });
+          break;
+        case "RemainingRewardsWithdrawn":
+          history.events.push({
+            type: event.name,
+            user: event.args.owner,
+            amount: event.args.amount,
+            blockNumber: log.blockNumber,
+            transactionHash: log.transactionHash,
+            logIndex: log.index,
+          });
+          break;
+        case "RemainingExtraRewardsWithdrawn":
+          history.events.push({
+            type: event.name,
+            user: event.args.owner,
+            rewardToken: event.args.rewardToken,
+            amount: event.args.amount,
+            blockNumber: log.blockNumber,
+            transactionHash: log.transactionHash,
+            logIndex: log.index,
+          });
+          break;
+      }
+    }
+  }
+  return histories;
+}
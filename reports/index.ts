@@ -0,0 +1,4 @@
+export * from "./csv";
+export * from "./history";
+export * from "./settlement";
+export * from "./snapshot";
@@ -0,0 +1,448 @@
+import type { Provider } from "ethers";
+import {
+  IERC20__factory,
+  LaunchPoolFactoryUpgradeable__factory,
+} from "../typechain-types";
+import { LaunchPoolClient } from "../sdk/LaunchPoolClient";
+import { pendingReward } from "../sdk/rewards";
+import {
+  CurrentStatus,
+  ProjectStatus,
+  isEthToken,
+  parseCurrentStatus,
+} from "../sdk/types";
+import { toCsv } from "./csv";
+import { HistoryOptions, PoolEvent, fetchProjectHistory } from "./history";
+
+// A user's share of one extra reward token
+export interface UserExtraReward {
+  rewardToken: string;
+  claimed: bigint;
+  // getPendingRewards() at the report block
+  unclaimed: bigint;
+}
+
+export interface UserSettlement {
+  pool: string;
+  user: string;
+  deposited: bigint;
+  withdrawn: bigint;
+  emergencyWithdrawn: bigint;
+  // userInfo.amount
+  staked: bigint;
+  // Claimed plus pending, what the user earned so far
+  accrued: bigint;
+  claimed: bigint;
+  // Pending reward from the reward engine, still owed to the user
+  unclaimed: bigint;
+  // In the pool's order, without rewardToken
+  extraRewards: UserExtraReward[];
+  firstBlock: number;
+  lastBlock: number;
+  history: PoolEvent[];
+  discrepancies: string[];
+}
+
+// An extra reward token of a pool, reconciled like rewardToken
+export interface PoolExtraReward {
+  rewardToken: string;
+  poolRewardAmount: bigint;
+  rewardPerSecond: bigint;
+  funded: bigint;
+  // Emitted over the pool's times at rewardPerSecond
+  distributable: bigint;
+  claimed: bigint;
+  unclaimed: bigint;
+  remainingRewardsWithdrawn: bigint;
+  rewardBalance: bigint;
+  leftover: bigint;
+  withdrawableRemaining: bigint;
+}
+
+export interface PoolSettlement {
+  pool: string;
+  stakedToken: string;
+  poolRewardAmount: bigint;
+  rewardPerSecond: bigint;
+  // Reward tokens sent to the pool by fundPool
+  funded: bigint;
+  // getTotalDistributedRewards, emitted over the project's duration
+  distributable: bigint;
+  accrued: bigint;
+  claimed: bigint;
+  unclaimed: bigint;
+  remainingRewardsWithdrawn: bigint;
+  rewardBalance: bigint;
+  // Reward balance left once every user claimed, negative when short
+  leftover: bigint;
+  // What withdrawRemainingRewards returns once the project ENDED
+  withdrawableRemaining: bigint;
+  totalStaked: bigint;
+  stakedBalance: bigint;
+  // In the pool's order, without rewardToken
+  extraRewards: PoolExtraReward[];
+  participantCount: number;
+  discrepancies: string[];
+}
+
+export interface SettlementReport {
+  projectId: number;
+  rewardToken: string;
+  status: ProjectStatus;
+  currentStatus: CurrentStatus;
+  startTime: number;
+  endTime: number;
+  totalRewardAmount: bigint;
+  blockNumber: number;
+  timestamp: number;
+  pools: PoolSettlement[];
+  users: UserSettlement[];
+  discrepancyCount: number;
+}
+
+// Logged by the project owner rather than a staker
+const OWNER_EVENTS: PoolEvent["type"][] = [
+  "RemainingRewardsWithdrawn",
+  "RemainingExtraRewardsWithdrawn",
+];
+
+// Amounts of the `type` events, of `rewardToken` for extra reward events
+function sum(
+  events: PoolEvent[],
+  type: PoolEvent["type"],
+  rewardToken?: string
+): bigint {
+  return events
+    .filter(
+      (event) =>
+        event.type === type &&
+        (rewardToken === undefined ||
+          event.rewardToken?.toLowerCase() === rewardToken.toLowerCase())
+    )
+    .reduce((total, event) => total + event.amount, 0n);
+}
+
+interface RewardTotals {
+  funded: bigint;
+  distributable: bigint;
+  claimed: bigint;
+  unclaimed: bigint;
+  remainingRewardsWithdrawn: bigint;
+  rewardBalance: bigint;
+}
+
+// Checks one reward token's balance against the logs and what stakers are
+// owed, `label` names extra reward tokens in the discrepancies
+function reconcileRewards(totals: RewardTotals, label = "") {
+  const {
+    funded,
+    distributable,
+    claimed,
+    unclaimed,
+    remainingRewardsWithdrawn,
+    rewardBalance,
+  } = totals;
+  const discrepancies: string[] = [];
+  // Funding is the only logged way in, claims and leftover withdrawals
+  // the only logged ways out
+  const expectedRewardBalance = funded - claimed - remainingRewardsWithdrawn;
+  if (rewardBalance !== expectedRewardBalance) {
+    discrepancies.push(
+      `Reward balance ${rewardBalance}${label} differs from funded minus claimed and withdrawn ${expectedRewardBalance}, e.g. after an emergency reward withdrawal or a direct transfer`
+    );
+  }
+  if (rewardBalance < unclaimed) {
+    discrepancies.push(
+      `Reward balance ${rewardBalance}${label} can't cover ${unclaimed} unclaimed rewards`
+    );
+  }
+  return {
+    leftover: rewardBalance - unclaimed,
+    // LaunchPool.rewardFunding counts claimed rewards as still held
+    withdrawableRemaining:
+      rewardBalance + claimed > distributable
+        ? rewardBalance + claimed - distributable
+        : 0n,
+    discrepancies,
+  };
+}
+
+// Replays the logs of each pool of `projectId` up to `blockNumber` and
+// compares them, and the reward engine, with block-tagged on-chain values
+export async function buildSettlementReport(
+  provider: Provider,
+  factoryAddress: string,
+  projectId: number,
+  options: Omit<HistoryOptions, "toBlock"> & { blockNumber?: number } = {}
+): Promise<SettlementReport> {
+  const blockNumber = options.blockNumber ?? (await provider.getBlockNumber());
+  const blockTag = blockNumber;
+  const { timestamp } = (await provider.getBlock(blockNumber))!;
+  const factory = LaunchPoolFactoryUpgradeable__factory.connect(
+    factoryAddress,
+    provider
+  );
+  const project = await factory.getProject(projectId, { blockTag });
+  // Legacy pools only list rewardToken
+  const poolRewards = new Map(
+    (await factory.getProjectPools(projectId, { blockTag })).map((pool) => [
+      pool.poolAddress.toLowerCase(),
+      pool.rewards,
+    ])
+  );
+  const rewardToken = IERC20__factory.connect(project.rewardToken, provider);
+  const histories = await fetchProjectHistory(
+    provider,
+    factoryAddress,
+    projectId,
+    { ...options, toBlock: blockNumber }
+  );
+
+  const pools: PoolSettlement[] = [];
+  const users: UserSettlement[] = [];
+  for (const address of project.pools) {
+    const history = histories.get(address.toLowerCase());
+    if (!history) {
+      throw new Error(
+        `No NewLaunchPool log for ${address}, search from an earlier block`
+      );
+    }
+    const client = new LaunchPoolClient(address, provider);
+    const { contract } = client;
+    const poolState = await client.poolState(blockTag);
+    const extraRewards = poolRewards.get(address.toLowerCase())!.slice(1);
+
+    const poolUsers: UserSettlement[] = [];
+    const events = new Map<string, PoolEvent[]>();
+    for (const event of history.events) {
+      if (!OWNER_EVENTS.includes(event.type)) {
+        const key = event.user.toLowerCase();
+        events.set(key, [...(events.get(key) ?? []), event]);
+      }
+    }
+    for (const userEvents of events.values()) {
+      const { user } = userEvents[0];
+      const userInfo = await client.userInfo(user, blockTag);
+      const deposited = sum(userEvents, "Deposit");
+      const withdrawn = sum(userEvents, "Withdraw");
+      const emergencyWithdrawn = sum(userEvents, "EmergencyWithdraw");
+      const claimed = sum(userEvents, "RewardClaimed");
+      const unclaimed = pendingReward(
+        poolState,
+        userInfo,
+        timestamp,
+        await client.lockPositions(user, blockTag)
+      );
+      const discrepancies: string[] = [];
+      if (deposited - withdrawn - emergencyWithdrawn !== userInfo.amount) {
+        discrepancies.push(
+          `Logged stake ${
+            deposited - withdrawn - emergencyWithdrawn
+          } differs from userInfo.amount ${userInfo.amount}`
+        );
+      }
+      const onChainPending = await contract.pendingReward(user, { blockTag });
+      if (onChainPending !== unclaimed) {
+        discrepancies.push(
+          `Reward engine pending ${unclaimed} differs from pendingReward() ${onChainPending}`
+        );
+      }
+      const pending =
+        extraRewards.length > 0
+          ? await client.pendingRewards(user, blockTag)
+          : [];
+      poolUsers.push({
+        pool: address,
+        user,
+        deposited,
+        withdrawn,
+        emergencyWithdrawn,
+        staked: userInfo.amount,
+        accrued: claimed + unclaimed,
+        claimed,
+        unclaimed,
+        extraRewards: extraRewards.map(({ rewardToken }, i) => ({
+          rewardToken,
+          claimed: sum(userEvents, "ExtraRewardClaimed", rewardToken),
+          unclaimed: pending[i + 1].amount,
+        })),
+        firstBlock: userEvents[0].blockNumber,
+        lastBlock: userEvents[userEvents.length - 1].blockNumber,
+        history: userEvents,
+        discrepancies,
+      });
+    }
+
+    const [poolRewardAmount, distributable, stakedToken] = await Promise.all([
+      contract.poolRewardAmount({ blockTag }),
+      contract.getTotalDistributedRewards({ blockTag }),
+      client.stakedToken(),
+    ]);
+    const rewardBalance = await rewardToken.balanceOf(address, { blockTag });
+    const stakedBalance = isEthToken(stakedToken)
+      ? await provider.getBalance(address, blockTag)
+      : await IERC20__factory.connect(stakedToken, provider).balanceOf(
+          address,
+          { blockTag }
+        );
+    const total = (field: "accrued" | "claimed" | "unclaimed" | "staked") =>
+      poolUsers.reduce((acc, user) => acc + user[field], 0n);
+    const claimed = total("claimed");
+    const unclaimed = total("unclaimed");
+    const remainingRewardsWithdrawn = sum(
+      history.events,
+      "RemainingRewardsWithdrawn"
+    );
+    const funded = poolRewardAmount * BigInt(history.fundedBlocks.length);
+
+    const { leftover, withdrawableRemaining, discrepancies } = reconcileRewards(
+      {
+        funded,
+        distributable,
+        claimed,
+        unclaimed,
+        remainingRewardsWithdrawn,
+        rewardBalance,
+      }
+    );
+    if (total("staked") !== poolState.totalStaked) {
+      discrepancies.push(
+        `Sum of userInfo.amount ${total("staked")} differs from totalStaked ${
+          poolState.totalStaked
+        }`
+      );
+    }
+    if (stakedBalance !== poolState.totalStaked) {
+      discrepancies.push(
+        `Staked token balance ${stakedBalance} differs from totalStaked ${poolState.totalStaked}`
+      );
+    }
+
+    // withdrawRemainingRewards keeps what each extra token emits over the
+    // pool's times and returns the rest
+    const poolExtraRewards: PoolExtraReward[] = [];
+    for (const [i, reward] of extraRewards.entries()) {
+      const totals: RewardTotals = {
+        funded: reward.poolRewardAmount * BigInt(history.fundedBlocks.length),
+        distributable:
+          BigInt(poolState.endTime - poolState.startTime) *
+          reward.rewardPerSecond,
+        claimed: poolUsers.reduce(
+          (acc, user) => acc + user.extraRewards[i].claimed,
+          0n
+        ),
+        unclaimed: poolUsers.reduce(
+          (acc, user) => acc + user.extraRewards[i].unclaimed,
+          0n
+        ),
+        remainingRewardsWithdrawn: sum(
+          history.events,
+          "RemainingExtraRewardsWithdrawn",
+          reward.rewardToken
+        ),
+        rewardBalance: await IERC20__factory.connect(
+          reward.rewardToken,
+          provider
+        ).balanceOf(address, { blockTag }),
+      };
+      const reconciled = reconcileRewards(totals, ` of ${reward.rewardToken}`);
+      discrepancies.push(...reconciled.discrepancies);
+      poolExtraRewards.push({
+        rewardToken: reward.rewardToken,
+        poolRewardAmount: reward.poolRewardAmount,
+        rewardPerSecond: reward.rewardPerSecond,
+        ...totals,
+        leftover: reconciled.leftover,
+        withdrawableRemaining: reconciled.withdrawableRemaining,
+      });
+    }
+
+    pools.push({
+      pool: address,
+      stakedToken,
+      poolRewardAmount,
+      rewardPerSecond: poolState.rewardPerSecond,
+      funded,
+      distributable,
+      accrued: total("accrued"),
+      claimed,
+      unclaimed,
+      remainingRewardsWithdrawn,
+      rewardBalance,
+      leftover,
+      withdrawableRemaining,
+      totalStaked: poolState.totalStaked,
+      stakedBalance,
+      extraRewards: poolExtraRewards,
+      participantCount: poolUsers.length,
+      discrepancies,
+    });
+    users.push(...poolUsers);
+  }
+
+  return {
+    projectId,
+    rewardToken: project.rewardToken,
+    status: Number(project.status) as ProjectStatus,
+    currentStatus: parseCurrentStatus(project.currentStatus),
+    startTime: Number(project.startTime),
+    endTime: Number(project.endTime),
+    totalRewardAmount: project.totalRewardAmount,
+    blockNumber,
+    timestamp,
+    pools,
+    users,
+    discrepancyCount: [...pools, ...users].reduce(
+      (count, entry) => count + entry.discrepancies.length,
+      0
+    ),
+  };
+}
+
+// Per-pool and per-user CSV, without the users' event history. Extra reward
+// tokens get one row per pool or user and token in extraRewards.
+export function settlementToCsv(report: SettlementReport): {
+  pools: string;
+  users: string;
+  extraRewards: string;
+} {
+  return {
+    pools: toCsv(
+      report.pools.map(({ discrepancies, extraRewards, ...pool }) => ({
+        projectId: report.projectId,
+        blockNumber: report.blockNumber,
+        ...pool,
+        discrepancies: discrepancies.join("; "),
+      }))
+    ),
+    users: toCsv(
+      report.users.map(({ history, discrepancies, extraRewards, ...user }) => ({
+        ...user,
+        deposits: history.filter((event) => event.type === "Deposit").length,
+        discrepancies: discrepancies.join("; "),
+      }))
+    ),
+    extraRewards: toCsv([
+      ...report.pools.flatMap(({ pool, extraRewards }) =>
+        extraRewards.map((reward) => ({
+          projectId: report.projectId,
+          blockNumber: report.blockNumber,
+          pool,
+          user: undefined,
+          ...reward,
+        }))
+      ),
+      ...report.users.flatMap(({ pool, user, extraRewards }) =>
+        extraRewards.map(({ rewardToken, claimed, unclaimed }) => ({
+          projectId: report.projectId,
+          blockNumber: report.blockNumber,
+          pool,
+          user,
+          rewardToken,
+          claimed,
+          unclaimed,
+        }))
+      ),
+    ]),
+  };
+}
@@ -0,0 +1,225 @@
+import type { Provider } from "ethers";
+import {
+  LaunchPoolFactoryUpgradeable__factory,
+  LaunchPool__factory,
+} from "../typechain-types";
+import { LaunchPoolClient } from "../sdk/LaunchPoolClient";
+import { pendingReward } from "../sdk/rewards";
+import { toCsv } from "./csv";
+import { HistoryOptions, PoolEvent, fetchProjectHistory } from "./history";
+
+export type SnapshotTarget = { projectId: number } | { pool: string };
+
+export interface SnapshotOptions extends Omit<HistoryOptions, "toBlock"> {
+  blockNumber: number;
+  // Drop entries staking less than this, in staked token base units
+  minStake?: bigint;
+  // Drop entries whose current stake started less than this many seconds
+  // before the snapshot
+  minDuration?: number;
+}
+
+export interface SnapshotEntry {
+  pool: string;
+  stakedToken: string;
+  user: string;
+  // userInfo.amount
+  amount: bigint;
+  // userInfo.pendingRewards, rewards carried over from earlier deposits
+  pendingRewards: bigint;
+  // Reward engine result, what pendingReward() returns at the block
+  pendingReward: bigint;
+  // Timestamp of the deposit that started the current stake
+  stakedSince?: number;
+}
+
+export interface ParticipantSnapshot {
+  projectId: number;
+  rewardToken: string;
+  blockNumber: number;
+  timestamp: number;
+  pools: string[];
+  entries: SnapshotEntry[];
+}
+
+// Values for OpenZeppelin's StandardMerkleTree.of(values, leafEncoding)
+export interface MerkleInput {
+  projectId: number;
+  blockNumber: number;
+  token: string;
+  value: "amount" | "pendingReward";
+  leafEncoding: ["address", "uint256"];
+  values: [string, string][];
+}
+
+// Start of the current stake: the last deposit made from a zero balance
+function getStakeStart(events: PoolEvent[]): PoolEvent | undefined {
+  let amount = 0n;
+  let start: PoolEvent | undefined;
+  for (const event of events) {
+    if (event.type === "Deposit") {
+      if (amount === 0n && event.amount > 0n) {
+        start = event;
+      }
+      amount += event.amount;
+    } else if (
+      event.type === "Withdraw" ||
+      event.type === "EmergencyWithdraw"
+    ) {
+      amount -= event.amount;
+      if (amount === 0n) {
+        start = undefined;
+      }
+    }
+  }
+  return start;
+}
+
+// Everyone who deposited in the project's pools, or in one pool, with their
+// stake and rewards read at `blockNumber`
+export async function buildParticipantSnapshot(
+  provider: Provider,
+  factoryAddress: string,
+  target: SnapshotTarget,
+  options: SnapshotOptions
+): Promise<ParticipantSnapshot> {
+  const { blockNumber, minStake = 0n, minDuration = 0 } = options;
+  const blockTag = blockNumber;
+  const { timestamp } = (await provider.getBlock(blockNumber))!;
+  const projectId =
+    "projectId" in target
+      ? target.projectId
+      : Number(
+          await LaunchPool__factory.connect(target.pool, provider).projectId({
+            blockTag,
+          })
+        );
+  const factory = LaunchPoolFactoryUpgradeable__factory.connect(
+    factoryAddress,
+    provider
+  );
+  const rewardToken = await factory.getProjectRewardToken(projectId, {
+    blockTag,
+  });
+  const histories = [
+    ...(
+      await fetchProjectHistory(provider, factoryAddress, projectId, {
+        ...options,
+        toBlock: blockNumber,
+      })
+    ).values(),
+  ].filter(
+    (history) =>
+      !("pool" in target) ||
+      history.pool.toLowerCase() === target.pool.toLowerCase()
+  );
+  if ("pool" in target && histories.length === 0) {
+    throw new Error(
+      `No NewLaunchPool log for ${target.pool} in project ${projectId}`
+    );
+  }
+
+  const blockTimestamps = new Map<number, number>();
+  const getTimestamp = async (block: number) => {
+    if (!blockTimestamps.has(block)) {
+      blockTimestamps.set(block, (await provider.getBlock(block))!.timestamp);
+    }
+    return blockTimestamps.get(block)!;
+  };
+
+  const entries: SnapshotEntry[] = [];
+  for (const history of histories) {
+    const client = new LaunchPoolClient(history.pool, provider);
+    const [poolState, stakedToken] = await Promise.all([
+      client.poolState(blockTag),
+      client.stakedToken(),
+    ]);
+    const users = new Map<string, PoolEvent[]>();
+    for (const event of history.events) {
+      const key = event.user.toLowerCase();
+      if (event.type === "Deposit" || users.has(key)) {
+        users.set(key, [...(users.get(key) ?? []), event]);
+      }
+    }
+    for (const events of users.values()) {
+      const { user } = events[0];
+      const userInfo = await client.userInfo(user, blockTag);
+      const start = getStakeStart(events);
+      const stakedSince = start && (await getTimestamp(start.blockNumber));
+      if (
+        userInfo.amount < minStake ||
+        (minDuration > 0 &&
+          (stakedSince === undefined || timestamp - stakedSince < minDuration))
+      ) {
+        continue;
+      }
+      entries.push({
+        pool: history.pool,
+        stakedToken,
+        user,
+        amount: userInfo.amount,
+        pendingRewards: userInfo.pendingRewards,
+        pendingReward: pendingReward(
+          poolState,
+          userInfo,
+          timestamp,
+          await client.lockPositions(user, blockTag)
+        ),
+        stakedSince,
+      });
+    }
+  }
+
+  return {
+    projectId,
+    rewardToken,
+    blockNumber,
+    timestamp,
+    pools: histories.map((history) => history.pool),
+    entries,
+  };
+}
+
+export function snapshotToCsv(snapshot: ParticipantSnapshot): string {
+  return toCsv(
+    snapshot.entries.map((entry) => ({
+      blockNumber: snapshot.blockNumber,
+      ...entry,
+    }))
+  );
+}
+
+// One leaf per account, sorted by address. Pending rewards are summed over
+// pools since they share the reward token, stakes only when the pools share
+// the staked token.
+export function snapshotToMerkleInput(
+  snapshot: ParticipantSnapshot,
+  value: MerkleInput["value"]
+): MerkleInput {
+  const tokens = new Set(
+    snapshot.entries.map((entry) => entry.stakedToken.toLowerCase())
+  );
+  if (value === "amount" && tokens.size > 1) {
+    throw new Error(
+      "Stakes in different tokens can't share a Merkle tree, snapshot a single pool"
+    );
+  }
+  const totals = new Map<string, bigint>();
+  for (const entry of snapshot.entries) {
+    totals.set(entry.user, (totals.get(entry.user) ?? 0n) + entry[value]);
+  }
+  return {
+    projectId: snapshot.projectId,
+    blockNumber: snapshot.blockNumber,
+    token:
+      value === "amount"
+        ? snapshot.entries[0]?.stakedToken ?? ""
+        : snapshot.rewardToken,
+    value,
+    leafEncoding: ["address", "uint256"],
+    values: [...totals]
+      .filter(([, total]) => total > 0n)
+      .sort(([a], [b]) => a.toLowerCase().localeCompare(b.toLowerCase()))
+      .map(([account, total]) => [account, total.toString()]),
+  };
+}
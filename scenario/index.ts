@@ -0,0 +1,4 @@
+export * from "./types";
+export * from "./load";
+export * from "./table";
+export * from "./runner";
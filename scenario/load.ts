@@ -0,0 +1,113 @@
+import fs from "fs";
+import path from "path";
+import yaml from "js-yaml";
+import { parseClaimPolicy } from "../sdk/types";
+import { Scenario, ScenarioStep } from "./types";
+
+// Raised for invalid scenario files and for steps that don't go as expected
+export class ScenarioError extends Error {
+  constructor(message: string, readonly step?: number) {
+    super(step === undefined ? message : `Step ${step}: ${message}`);
+    this.name = "ScenarioError";
+  }
+}
+
+const STEP_ACTIONS: ScenarioStep["action"][] = [
+  "fund",
+  "deposit",
+  "withdraw",
+  "claim",
+  "emergencyWithdraw",
+  "pause",
+  "resume",
+  "end",
+  "delist",
+  "withdrawRemaining",
+  "advance",
+  "expect",
+];
+
+// Catches typos in names before anything is deployed
+export function checkScenario(scenario: Scenario) {
+  if (!scenario.name || !Array.isArray(scenario.accounts)) {
+    throw new ScenarioError("A scenario needs a name and accounts");
+  }
+  const accounts = new Set(scenario.accounts);
+  const tokens = new Set(["ETH", ...(scenario.tokens ?? [])]);
+  const checkAccount = (account: string | undefined, where: string) => {
+    if (account !== undefined && !accounts.has(account)) {
+      throw new ScenarioError(`Unknown account ${account} in ${where}`);
+    }
+  };
+  const checkToken = (token: string, where: string) => {
+    if (!tokens.has(token)) {
+      throw new ScenarioError(`Unknown token ${token} in ${where}`);
+    }
+  };
+
+  for (const [account, balances] of Object.entries(scenario.mint ?? {})) {
+    checkAccount(account, "mint");
+    for (const token of Object.keys(balances)) {
+      if (token === "ETH") {
+        throw new ScenarioError("ETH can't be minted");
+      }
+      checkToken(token, "mint");
+    }
+  }
+
+  const { project } = scenario;
+  checkToken(project.rewardToken, "project.rewardToken");
+  checkAccount(project.owner, "project.owner");
+  for (const [i, pool] of project.pools.entries()) {
+    checkToken(pool.stakedToken, `project.pools[${i}]`);
+  }
+  if (project.claimPolicy !== undefined) {
+    try {
+      parseClaimPolicy(project.claimPolicy);
+    } catch (error: any) {
+      throw new ScenarioError(`${error.message} in project.claimPolicy`);
+    }
+  }
+
+  // Steps are numbered from 1 like in the runner's output
+  for (const [i, step] of scenario.steps.entries()) {
+    if (!STEP_ACTIONS.includes(step.action)) {
+      throw new ScenarioError(`Unknown action ${step.action}`, i + 1);
+    }
+    if ("from" in step) {
+      checkAccount(step.from, "from");
+    }
+    if ("user" in step) {
+      checkAccount(step.user, step.action);
+    }
+    if ("pool" in step && step.pool !== undefined) {
+      if (!project.pools[step.pool]) {
+        throw new ScenarioError(`Unknown pool ${step.pool}`, i + 1);
+      }
+    }
+    if (step.action === "expect") {
+      for (const [account, balances] of Object.entries(step.balances ?? {})) {
+        checkAccount(account, "expect.balances");
+        Object.keys(balances).forEach((token) =>
+          checkToken(token, "expect.balances")
+        );
+      }
+      Object.keys(step.positions ?? {}).forEach((account) =>
+        checkAccount(account, "expect.positions")
+      );
+    }
+  }
+}
+
+export function readScenario(scenarioPath: string): Scenario {
+  const content = fs.readFileSync(scenarioPath, "utf8");
+  const extension = path.extname(scenarioPath).toLowerCase();
+  const scenario = (
+    extension === ".json" ? JSON.parse(content) : yaml.load(content)
+  ) as Scenario;
+  if (typeof scenario !== "object" || scenario === null) {
+    throw new ScenarioError(`${scenarioPath} does not contain a scenario`);
+  }
+  checkScenario(scenario);
+  return scenario;
+}
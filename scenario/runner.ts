@@ -0,0 +1,633 @@
+import { ethers, network, upgrades } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import type { ContractTransactionResponse } from "ethers";
+import type {
+  LaunchPool,
+  LaunchPoolFactoryUpgradeable,
+  MockToken,
+} from "../typechain-types";
+import { decodeProjectInfo } from "../sdk/LaunchPoolFactoryClient";
+import {
+  ClaimPolicy,
+  ETH_ADDRESS,
+  ProjectInfo,
+  parseClaimPolicy,
+} from "../sdk/types";
+import { EMPTY_METADATA, getRevertReason } from "../tasks/helpers";
+import { ScenarioError, checkScenario } from "./load";
+import { formatTable } from "./table";
+import {
+  Amount,
+  AmountExpectation,
+  ExpectStep,
+  Scenario,
+  ScenarioStep,
+  TransactionStep,
+} from "./types";
+
+interface ScenarioToken {
+  address: string;
+  decimals: number;
+  contract?: MockToken;
+}
+
+interface ScenarioContext {
+  scenario: Scenario;
+  accounts: Map<string, HardhatEthersSigner>;
+  tokens: Map<string, ScenarioToken>;
+  factory: LaunchPoolFactoryUpgradeable;
+  projectId: number;
+  projectOwner: HardhatEthersSigner;
+  pools: LaunchPool[];
+  log: (message: string) => void;
+}
+
+export interface RunScenarioOptions {
+  // Receives the step descriptions and state tables, defaults to console.log
+  log?: (message: string) => void;
+}
+
+export interface ScenarioResult {
+  factory: LaunchPoolFactoryUpgradeable;
+  projectId: number;
+  pools: LaunchPool[];
+  // Addresses by scenario name
+  accounts: Record<string, string>;
+  tokens: Record<string, string>;
+}
+
+const EXPECTATION = /^\s*(>=|<=|>|<|=)?\s*(\d+(?:\.\d+)?)\s*$/;
+
+function account(context: ScenarioContext, name: string): HardhatEthersSigner {
+  return context.accounts.get(name)!;
+}
+
+function token(context: ScenarioContext, name: string): ScenarioToken {
+  return context.tokens.get(name)!;
+}
+
+function stakedToken(context: ScenarioContext, pool: number): string {
+  return context.scenario.project.pools[pool].stakedToken;
+}
+
+function parseAmount(
+  context: ScenarioContext,
+  tokenName: string,
+  amount: Amount | undefined
+): bigint {
+  return amount === undefined
+    ? 0n
+    : ethers.parseUnits(String(amount), token(context, tokenName).decimals);
+}
+
+// Whole tokens with at most 6 decimals, enough to follow a demo
+function display(value: bigint, decimals: number): string {
+  const [whole, fraction = ""] = ethers.formatUnits(value, decimals).split(".");
+  const shown = fraction.slice(0, 6).replace(/0+$/, "");
+  return shown ? `${whole}.${shown}` : whole;
+}
+
+async function balanceOf(
+  context: ScenarioContext,
+  tokenName: string,
+  address: string
+): Promise<bigint> {
+  const { contract } = token(context, tokenName);
+  return contract
+    ? contract.balanceOf(address)
+    : ethers.provider.getBalance(address);
+}
+
+async function getProject(context: ScenarioContext): Promise<ProjectInfo> {
+  return decodeProjectInfo(
+    context.projectId,
+    await context.factory.getProject(context.projectId)
+  );
+}
+
+async function deploy(
+  scenario: Scenario,
+  log: (message: string) => void
+): Promise<ScenarioContext> {
+  const signers = await ethers.getSigners();
+  if (scenario.accounts.length > signers.length) {
+    throw new ScenarioError(
+      `${scenario.accounts.length} accounts needed, the network has ${signers.length}`
+    );
+  }
+  const accounts = new Map(
+    scenario.accounts.map((name, i) => [name, signers[i]])
+  );
+  const deployer = signers[0];
+
+  const LaunchPool = await ethers.getContractFactory("LaunchPool", deployer);
+  const launchPoolImpl = await LaunchPool.deploy();
+  const Factory = await ethers.getContractFactory(
+    "LaunchPoolFactoryUpgradeable",
+    deployer
+  );
+  const factory = (await upgrades.deployProxy(
+    Factory,
+    [await launchPoolImpl.getAddress()],
+    { initializer: "initialize", kind: "uups" }
+  )) as unknown as LaunchPoolFactoryUpgradeable;
+
+  const tokens = new Map<string, ScenarioToken>([
+    ["ETH", { address: ETH_ADDRESS, decimals: 18 }],
+  ]);
+  const MockToken = await ethers.getContractFactory("MockToken", deployer);
+  for (const name of scenario.tokens ?? []) {
+    const contract = await MockToken.deploy();
+    tokens.set(name, {
+      address: await contract.getAddress(),
+      decimals: Number(await contract.decimals()),
+      contract,
+    });
+  }
+
+  const { project } = scenario;
+  const projectOwner = accounts.get(project.owner ?? scenario.accounts[0])!;
+  const context: ScenarioContext = {
+    scenario,
+    accounts,
+    tokens,
+    factory,
+    projectId: 0,
+    projectOwner,
+    pools: [],
+    log,
+  };
+
+  for (const [name, balances] of Object.entries(scenario.mint ?? {})) {
+    for (const [tokenName, amount] of Object.entries(balances)) {
+      await token(context, tokenName).contract!.mint(
+        account(context, name).address,
+        parseAmount(context, tokenName, amount)
+      );
+    }
+  }
+
+  const startTime = (await time.latest()) + project.startIn;
+  const claimPolicy = parseClaimPolicy(project.claimPolicy ?? "AT_END");
+  context.projectId = Number(await factory.nextProjectId());
+  await (
+    await factory.createProject(
+      token(context, project.rewardToken).address,
+      parseAmount(context, project.rewardToken, project.totalRewardAmount),
+      startTime,
+      startTime + project.duration,
+      { ...EMPTY_METADATA, projectName: scenario.name },
+      project.pools.map((pool) => ({
+        stakedToken: token(context, pool.stakedToken).address,
+        poolRewardAmount: parseAmount(
+          context,
+          project.rewardToken,
+          pool.poolRewardAmount
+        ),
+        poolLimitPerUser: parseAmount(
+          context,
+          pool.stakedToken,
+          pool.poolLimitPerUser
+        ),
+        minStakeAmount: parseAmount(
+          context,
+          pool.stakedToken,
+          pool.minStakeAmount
+        ),
+        startTime: 0,
+        endTime: 0,
+      })),
+      projectOwner.address,
+      {
+        policy: claimPolicy,
+        unlockTime:
+          claimPolicy === ClaimPolicy.AFTER_UNLOCK
+            ? startTime + (project.unlockAfter ?? 0)
+            : 0,
+        vestingCliff: project.vesting?.cliff ?? 0,
+        vestingDuration: project.vesting?.duration ?? 0,
+        tgeShareBps: project.vesting?.tgeShareBps ?? 0,
+      }
+    )
+  ).wait();
+  for (const pool of await factory.getProjectPools(context.projectId)) {
+    context.pools.push(
+      await ethers.getContractAt("LaunchPool", pool.poolAddress)
+    );
+  }
+  return context;
+}
+
+// Sends the step's transaction and checks it reverts if and only if the
+// step expects it to
+async function send(
+  step: TransactionStep,
+  transaction: () => Promise<ContractTransactionResponse>
+): Promise<string | undefined> {
+  let reason: string | undefined;
+  try {
+    await (await transaction()).wait();
+  } catch (error) {
+    // Only contract reverts are checked against the step, RPC and nonce
+    // failures stop the scenario as they are
+    reason = getRevertReason(error);
+  }
+  const { expectRevert } = step;
+  if (!expectRevert) {
+    if (reason !== undefined) {
+      throw new ScenarioError(`Unexpected revert: ${reason}`);
+    }
+    return undefined;
+  }
+  if (reason === undefined) {
+    throw new ScenarioError(
+      `Expected a revert${
+        typeof expectRevert === "string" ? ` with "${expectRevert}"` : ""
+      } but the transaction succeeded`
+    );
+  }
+  if (typeof expectRevert === "string" && !reason.includes(expectRevert)) {
+    throw new ScenarioError(
+      `Expected a revert with "${expectRevert}", got "${reason}"`
+    );
+  }
+  return `reverted as expected: ${reason}`;
+}
+
+function compare(
+  label: string,
+  actual: bigint,
+  expectation: AmountExpectation,
+  decimals: number
+): string | undefined {
+  const match = EXPECTATION.exec(String(expectation));
+  if (!match) {
+    throw new ScenarioError(`Invalid expectation ${expectation} for ${label}`);
+  }
+  const [, operator = "=", value] = match;
+  const expected = ethers.parseUnits(value, decimals);
+  const holds = {
+    "=": actual === expected,
+    ">=": actual >= expected,
+    "<=": actual <= expected,
+    ">": actual > expected,
+    "<": actual < expected,
+  }[operator]!;
+  return holds
+    ? undefined
+    : `${label} is ${ethers.formatUnits(
+        actual,
+        decimals
+      )}, expected ${operator} ${value}`;
+}
+
+async function checkExpectations(
+  context: ScenarioContext,
+  step: ExpectStep
+): Promise<string> {
+  const { scenario } = context;
+  const rewardToken = scenario.project.rewardToken;
+  const failures: (string | undefined)[] = [];
+  const checked: string[] = [];
+
+  if (step.status !== undefined) {
+    const status = await context.factory.getProjectStatus(context.projectId);
+    if (status !== step.status) {
+      failures.push(`status is ${status}, expected ${step.status}`);
+    }
+    checked.push("status");
+  }
+  for (const [name, balances] of Object.entries(step.balances ?? {})) {
+    for (const [tokenName, expectation] of Object.entries(balances)) {
+      failures.push(
+        compare(
+          `${name}'s ${tokenName} balance`,
+          await balanceOf(context, tokenName, account(context, name).address),
+          expectation,
+          token(context, tokenName).decimals
+        )
+      );
+      checked.push(`${name} ${tokenName}`);
+    }
+  }
+  for (const [index, expectations] of Object.entries(step.pools ?? {})) {
+    const pool = context.pools[Number(index)];
+    const staked = token(context, stakedToken(context, Number(index)));
+    if (expectations.totalStaked !== undefined) {
+      failures.push(
+        compare(
+          `pool ${index} totalStaked`,
+          await pool.totalStaked(),
+          expectations.totalStaked,
+          staked.decimals
+        )
+      );
+      checked.push(`pool ${index} totalStaked`);
+    }
+    if (expectations.rewardBalance !== undefined) {
+      failures.push(
+        compare(
+          `pool ${index} reward balance`,
+          await balanceOf(context, rewardToken, await pool.getAddress()),
+          expectations.rewardBalance,
+          token(context, rewardToken).decimals
+        )
+      );
+      checked.push(`pool ${index} rewards`);
+    }
+  }
+  for (const [name, positions] of Object.entries(step.positions ?? {})) {
+    const user = account(context, name).address;
+    for (const [index, expectations] of Object.entries(positions)) {
+      const pool = context.pools[Number(index)];
+      if (expectations.amount !== undefined) {
+        failures.push(
+          compare(
+            `${name}'s stake in pool ${index}`,
+            (await pool.userInfo(user)).amount,
+            expectations.amount,
+            token(context, stakedToken(context, Number(index))).decimals
+          )
+        );
+      }
+      if (expectations.pendingReward !== undefined) {
+        failures.push(
+          compare(
+            `${name}'s pending reward in pool ${index}`,
+            await pool.pendingReward(user),
+            expectations.pendingReward,
+            token(context, rewardToken).decimals
+          )
+        );
+      }
+      checked.push(`${name} in pool ${index}`);
+    }
+  }
+
+  const failed = failures.filter((failure) => failure !== undefined);
+  if (failed.length > 0) {
+    throw new ScenarioError(`Expectations failed: ${failed.join("; ")}`);
+  }
+  return `checked ${checked.join(", ")}`;
+}
+
+async function advance(
+  context: ScenarioContext,
+  step: Extract<ScenarioStep, { action: "advance" }>
+): Promise<string> {
+  if (step.to) {
+    const project = await getProject(context);
+    const target = step.to === "start" ? project.startTime : project.endTime;
+    if ((await time.latest()) < target) {
+      await time.increaseTo(target);
+    }
+    return `to ${step.to}Time`;
+  }
+  if (!step.seconds) {
+    throw new ScenarioError("advance needs `to` or `seconds`");
+  }
+  await time.increase(step.seconds);
+  return `by ${step.seconds}s`;
+}
+
+async function runStep(
+  context: ScenarioContext,
+  step: ScenarioStep
+): Promise<string | undefined> {
+  const { factory, projectId, pools, scenario } = context;
+  const rewardToken = scenario.project.rewardToken;
+
+  switch (step.action) {
+    case "advance":
+      return advance(context, step);
+    case "expect":
+      return checkExpectations(context, step);
+    case "fund": {
+      const from = step.from
+        ? account(context, step.from)
+        : context.projectOwner;
+      const indexes =
+        step.pool !== undefined ? [step.pool] : pools.map((_, i) => i);
+      let result: string | undefined;
+      for (const index of indexes) {
+        const amount = await pools[index].poolRewardAmount();
+        await (
+          await token(context, rewardToken)
+            .contract!.connect(from)
+            .approve(await factory.getAddress(), amount)
+        ).wait();
+        result = await send(step, () =>
+          factory.connect(from).fundPool(projectId, pools[index], amount)
+        );
+      }
+      return result;
+    }
+    case "deposit":
+    case "withdraw": {
+      const from = account(context, step.from ?? step.user);
+      const tokenName = stakedToken(context, step.pool);
+      const amount = parseAmount(context, tokenName, step.amount);
+      const pool = pools[step.pool].connect(from);
+      if (step.action === "withdraw") {
+        return send(step, () => pool.withdraw(amount));
+      }
+      if (tokenName !== "ETH") {
+        await (
+          await token(context, tokenName)
+            .contract!.connect(from)
+            .approve(await pool.getAddress(), amount)
+        ).wait();
+      }
+      return send(step, () =>
+        pool.deposit(amount, { value: tokenName === "ETH" ? amount : 0n })
+      );
+    }
+    case "claim":
+      return send(step, () =>
+        pools[step.pool]
+          .connect(account(context, step.from ?? step.user))
+          .claimReward()
+      );
+    case "emergencyWithdraw":
+      return send(step, () =>
+        pools[step.pool]
+          .connect(account(context, step.from ?? step.user))
+          .emergencyWithdraw()
+      );
+    case "withdrawRemaining":
+      return send(step, () =>
+        pools[step.pool]
+          .connect(
+            step.from ? account(context, step.from) : context.projectOwner
+          )
+          .withdrawRemainingRewards()
+      );
+    case "pause":
+    case "resume":
+    case "end":
+    case "delist": {
+      const owner = factory.connect(
+        step.from ? account(context, step.from) : context.projectOwner
+      );
+      const actions = {
+        pause: () => owner.pauseProject(projectId),
+        resume: () => owner.resumeProject(projectId),
+        end: () => owner.endProject(projectId),
+        delist: () => owner.delistProject(projectId),
+      };
+      return send(step, actions[step.action]);
+    }
+  }
+}
+
+function describeStep(step: ScenarioStep): string {
+  if (step.label) {
+    return `${step.action}: ${step.label}`;
+  }
+  const parts: string[] = [step.action];
+  if ("user" in step) {
+    parts.push(step.user);
+  }
+  if ("amount" in step) {
+    parts.push(String(step.amount));
+  }
+  if ("pool" in step && step.pool !== undefined) {
+    parts.push(`in pool ${step.pool}`);
+  }
+  if ("from" in step && step.from) {
+    parts.push(`from ${step.from}`);
+  }
+  return parts.join(" ");
+}
+
+async function logState(context: ScenarioContext, title: string) {
+  const { scenario, pools, log } = context;
+  const project = await getProject(context);
+  const block = await ethers.provider.getBlock("latest");
+  const sinceStart = block!.timestamp - project.startTime;
+  const rewardToken = token(context, scenario.project.rewardToken);
+  const tokenNames = [...context.tokens.keys()];
+
+  const accountRows = [];
+  for (const [name, signer] of context.accounts) {
+    const row = [name];
+    for (const tokenName of tokenNames) {
+      row.push(
+        display(
+          await balanceOf(context, tokenName, signer.address),
+          token(context, tokenName).decimals
+        )
+      );
+    }
+    for (const [i, pool] of pools.entries()) {
+      const stake = token(context, stakedToken(context, i));
+      row.push(
+        display((await pool.userInfo(signer.address)).amount, stake.decimals),
+        display(await pool.pendingReward(signer.address), rewardToken.decimals)
+      );
+    }
+    accountRows.push(row);
+  }
+  const poolRows = [];
+  for (const [i, pool] of pools.entries()) {
+    const stake = token(context, stakedToken(context, i));
+    poolRows.push([
+      `pool ${i}`,
+      stakedToken(context, i),
+      display(await pool.totalStaked(), stake.decimals),
+      display(
+        await balanceOf(
+          context,
+          scenario.project.rewardToken,
+          await pool.getAddress()
+        ),
+        rewardToken.decimals
+      ),
+      display(project.poolInfos[i].rewardPerSecond, rewardToken.decimals),
+    ]);
+  }
+
+  log(`\n${title}`);
+  log(
+    `${project.currentStatus} at startTime ${
+      sinceStart < 0 ? "-" : "+"
+    }${Math.abs(sinceStart)}s, block ${block!.number}`
+  );
+  log(
+    formatTable(
+      [
+        "account",
+        ...tokenNames,
+        ...pools.flatMap((_, i) => [`pool ${i} staked`, `pool ${i} pending`]),
+      ],
+      accountRows
+    )
+  );
+  log(
+    formatTable(
+      [
+        "pool",
+        "staked token",
+        "totalStaked",
+        `${scenario.project.rewardToken} balance`,
+        "rewardPerSecond",
+      ],
+      poolRows
+    )
+  );
+}
+
+// Deploys a fresh factory, the scenario tokens and project on the in-process
+// network, then runs each step and prints the state after it. Throws a
+// ScenarioError on the first step that doesn't go as expected.
+export async function runScenario(
+  scenario: Scenario,
+  options: RunScenarioOptions = {}
+): Promise<ScenarioResult> {
+  if (network.name !== "hardhat") {
+    throw new ScenarioError(
+      `Scenarios run on the in-process hardhat network, not ${network.name}`
+    );
+  }
+  checkScenario(scenario);
+  const log = options.log ?? console.log;
+  log(`▶️  ${scenario.name}`);
+  if (scenario.description) {
+    log(scenario.description.trim());
+  }
+  const context = await deploy(scenario, log);
+  await logState(context, `[setup] project ${context.projectId} created`);
+
+  for (const [i, step] of scenario.steps.entries()) {
+    let outcome: string | undefined;
+    try {
+      outcome = await runStep(context, step);
+    } catch (error: any) {
+      if (error instanceof ScenarioError && error.step === undefined) {
+        throw new ScenarioError(
+          `${describeStep(step)}: ${error.message}`,
+          i + 1
+        );
+      }
+      throw error;
+    }
+    await logState(
+      context,
+      `[${i + 1}] ${describeStep(step)}${outcome ? ` (${outcome})` : ""}`
+    );
+  }
+  log(`\n✅ ${scenario.name}: ${scenario.steps.length} steps passed`);
+
+  return {
+    factory: context.factory,
+    projectId: context.projectId,
+    pools: context.pools,
+    accounts: Object.fromEntries(
+      [...context.accounts].map(([name, signer]) => [name, signer.address])
+    ),
+    tokens: Object.fromEntries(
+      [...context.tokens].map(([name, { address }]) => [name, address])
+    ),
+  };
+}
@@ -0,0 +1,19 @@
+// Plain text table with right-aligned values and a left-aligned first column
+export function formatTable(headers: string[], rows: string[][]): string {
+  const widths = headers.map((header, column) =>
+    Math.max(header.length, ...rows.map((row) => row[column].length))
+  );
+  const format = (cells: string[]) =>
+    cells
+      .map((cell, column) =>
+        column === 0
+          ? cell.padEnd(widths[column])
+          : cell.padStart(widths[column])
+      )
+      .join(" │ ");
+  return [
+    format(headers),
+    widths.map((width) => "─".repeat(width)).join("─┼─"),
+    ...rows.map(format),
+  ].join("\n");
+}
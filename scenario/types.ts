@@ -0,0 +1,128 @@
+// Declarative scenario files for scripts/scenario.ts, see
+// scenario/examples/full-launch.yaml
+
+// Amounts are in whole tokens, e.g. "1.5", and scaled by the token decimals
+export type Amount = string | number;
+
+// An amount with an optional comparison, e.g. ">= 10" or "0"
+export type AmountExpectation = string | number;
+
+export interface ScenarioPool {
+  // ETH or the name of one of the scenario tokens
+  stakedToken: string;
+  poolRewardAmount: Amount;
+  poolLimitPerUser?: Amount;
+  minStakeAmount?: Amount;
+}
+
+export interface ScenarioProject {
+  // Name of one of the scenario tokens
+  rewardToken: string;
+  totalRewardAmount: Amount;
+  // Seconds between project creation and startTime
+  startIn: number;
+  duration: number;
+  // AT_END (default), ANYTIME or AFTER_UNLOCK
+  claimPolicy?: string;
+  // Seconds between startTime and when AFTER_UNLOCK claims open
+  unlockAfter?: number;
+  // Vesting of AT_END rewards after the end, cliff and duration in seconds
+  vesting?: {
+    cliff?: number;
+    duration?: number;
+    tgeShareBps?: number;
+  };
+  // Project owner account, defaults to the first account
+  owner?: string;
+  pools: ScenarioPool[];
+}
+
+interface StepBase {
+  label?: string;
+}
+
+export interface TransactionStep extends StepBase {
+  // Sender, defaults to the user or the project owner
+  from?: string;
+  // true for any revert, or part of the expected revert reason
+  expectRevert?: boolean | string;
+}
+
+export interface FundStep extends TransactionStep {
+  action: "fund";
+  // Pool index, defaults to every unfunded pool
+  pool?: number;
+}
+
+export interface DepositStep extends TransactionStep {
+  action: "deposit" | "withdraw";
+  user: string;
+  pool: number;
+  amount: Amount;
+}
+
+export interface UserStep extends TransactionStep {
+  action: "claim" | "emergencyWithdraw";
+  user: string;
+  pool: number;
+}
+
+export interface ProjectStep extends TransactionStep {
+  action: "pause" | "resume" | "end" | "delist";
+}
+
+export interface WithdrawRemainingStep extends TransactionStep {
+  action: "withdrawRemaining";
+  pool: number;
+}
+
+export interface AdvanceStep extends StepBase {
+  action: "advance";
+  // Jump to the project's startTime or endTime
+  to?: "start" | "end";
+  seconds?: number;
+}
+
+export interface ExpectStep extends StepBase {
+  action: "expect";
+  // getProjectStatus, e.g. ACTIVE
+  status?: string;
+  // Account to token to balance, ETH balances include gas spent
+  balances?: Record<string, Record<string, AmountExpectation>>;
+  // Pool index to totalStaked and reward token balance
+  pools?: Record<
+    number,
+    { totalStaked?: AmountExpectation; rewardBalance?: AmountExpectation }
+  >;
+  // Account to pool index to userInfo.amount and pendingReward()
+  positions?: Record<
+    string,
+    Record<
+      number,
+      { amount?: AmountExpectation; pendingReward?: AmountExpectation }
+    >
+  >;
+}
+
+export type ScenarioStep =
+  | FundStep
+  | DepositStep
+  | UserStep
+  | ProjectStep
+  | WithdrawRemainingStep
+  | AdvanceStep
+  | ExpectStep;
+
+export interface Scenario {
+  name: string;
+  description?: string;
+  // Names for the network's accounts in order, the first one deploys the
+  // factory and the tokens
+  accounts: string[];
+  // MockTokens to deploy, by name
+  tokens?: string[];
+  // Account to token to amount minted before the project is created
+  mint?: Record<string, Record<string, Amount>>;
+  project: ScenarioProject;
+  steps: ScenarioStep[];
+}
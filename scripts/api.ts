@@ -0,0 +1,31 @@
+import { ethers } from "hardhat";
+import { createApiServer } from "../api";
+import { getArg } from "./utils/args";
+import { createIndexer, logIndexSummary } from "./utils/indexer";
+
+async function main() {
+  const indexer = await createIndexer();
+  logIndexSummary((await indexer.sync()).latest);
+
+  const port = Number(getArg("port") ?? 4000);
+  const server = createApiServer({ provider: ethers.provider, indexer });
+  await new Promise<void>((resolve) => server.listen(port, resolve));
+  console.log(`Serving the index on http://localhost:${port}`);
+
+  // Syncs never overlap, the next one is scheduled when the last one is done
+  const interval = Number(getArg("sync-interval") ?? 5) * 1000;
+  const sync = async () => {
+    try {
+      await indexer.sync();
+    } catch (error) {
+      console.error("Sync failed:", error);
+    }
+    setTimeout(sync, interval);
+  };
+  setTimeout(sync, interval);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -1,171 +1,352 @@
-import { ethers, upgrades, run } from "hardhat";
-
-async function verifyContract(
-  address: string,
-  constructorArguments: any[] = [],
-  contract?: string
-) {
-  console.log(`\n${"-".repeat(80)}`);
-  console.log(
-    `Verifying contract${contract ? ` ${contract}` : ""} at ${address}`
+import { ethers, upgrades } from "hardhat";
+import type { TransactionResponse } from "ethers";
+import ERC1967Proxy from "@openzeppelin/upgrades-core/artifacts/@openzeppelin/contracts-v5/proxy/ERC1967/ERC1967Proxy.sol/ERC1967Proxy.json";
+import { getArg } from "./utils/args";
+import {
+  DeployState,
+  getExpectedBytecode,
+  getReusableContract,
+  getStatePath,
+  loadDeployState,
+  recordPendingDeployment,
+  runStep,
+  saveDeployState,
+} from "./utils/deployState";
+import {
+  FeeSettings,
+  SpendGuard,
+  createSpendGuard,
+  getFeeSettings,
+  logFeeSettings,
+} from "./utils/fees";
+import {
+  MANIFEST_VERSION,
+  checkManifestOverwrite,
+  createManifest,
+  getCompilerSettings,
+  toContractRecord,
+} from "./utils/manifest";
+import {
+  NetworkMetadata,
+  getNetworkMetadata,
+  logExplorerLinks,
+} from "./utils/network";
+import { verifyContract } from "./utils/verify";
+
+interface DeployContext {
+  state: DeployState;
+  deployer: string;
+  fees: FeeSettings;
+  spendGuard: SpendGuard;
+  networkMetadata: NetworkMetadata;
+}
+
+// Re-check every contract recorded by an earlier run before trusting it
+async function checkRecordedContracts({ state }: DeployContext) {
+  const { contracts } = state;
+  contracts.launchPoolImplementation = await getReusableContract(
+    "LaunchPool implementation",
+    contracts.launchPoolImplementation,
+    await getExpectedBytecode("LaunchPool")
   );
-  try {
-    await run("verify:verify", {
-      address,
-      constructorArguments,
-    });
-    console.log("✅ Verification successful");
-    console.log(
-      `🔍 View on explorer: https://explorer-holesky.morphl2.io/address/${address}#code`
+  contracts.factoryImplementation = await getReusableContract(
+    "LaunchPoolFactory implementation",
+    contracts.factoryImplementation,
+    await getExpectedBytecode("LaunchPoolFactoryUpgradeable")
+  );
+  contracts.factoryProxy = await getReusableContract(
+    "LaunchPoolFactory proxy",
+    contracts.factoryProxy,
+    { deployedBytecode: ERC1967Proxy.deployedBytecode, immutableReferences: {} }
+  );
+  if (contracts.factoryProxy) {
+    const implementation = await upgrades.erc1967.getImplementationAddress(
+      contracts.factoryProxy.address
     );
-  } catch (error: any) {
-    if (error.message.includes("Already Verified")) {
-      console.log("ℹ️  Contract is already verified");
-      console.log(
-        `🔍 View on explorer: https://explorer-holesky.morphl2.io/address/${address}#code`
+    if (
+      implementation.toLowerCase() !==
+      contracts.factoryImplementation?.address.toLowerCase()
+    ) {
+      throw new Error(
+        `LaunchPoolFactory proxy points to ${implementation}, not the recorded implementation`
       );
-    } else {
-      console.error("❌ Error verifying contract:", error);
     }
   }
+  await saveDeployState(state);
 }
 
-async function main() {
-  console.log("\n📝 Starting deployment process...\n");
-  const [deployer] = await ethers.getSigners();
-  console.log("Deploying contracts with account:", deployer.address);
-
-  // Get current gas price
-  const feeData = await ethers.provider.getFeeData();
-  const maxFeePerGas = feeData.maxFeePerGas! * 2n; // 2x maxFeePerGas
-  const maxPriorityFeePerGas = feeData.maxPriorityFeePerGas! * 2n; // 2x maxPriorityFeePerGas
-
+async function deployImplementations({
+  state,
+  deployer,
+  fees,
+  spendGuard,
+}: DeployContext) {
   // Deploy LaunchPool implementation
-  console.log("\n1️⃣  Deploying LaunchPool implementation...");
+  if (!state.contracts.launchPoolImplementation) {
+    const LaunchPool = await ethers.getContractFactory("LaunchPool");
+    await spendGuard.check("LaunchPool implementation", {
+      ...(await LaunchPool.getDeployTransaction()),
+      from: deployer,
+    });
+    const launchPoolImpl = await LaunchPool.deploy(fees.overrides);
+    await recordPendingDeployment(
+      state,
+      "launchPoolImplementation",
+      await launchPoolImpl.getAddress(),
+      launchPoolImpl.deploymentTransaction()
+    );
+    await launchPoolImpl.waitForDeployment();
+    state.contracts.launchPoolImplementation = await toContractRecord(
+      await launchPoolImpl.getAddress(),
+      launchPoolImpl.deploymentTransaction()
+    );
+    await saveDeployState(state);
+  }
   console.log(
-    `Using maxFeePerGas: ${ethers.formatUnits(maxFeePerGas, "gwei")} gwei`
+    "LaunchPool implementation deployed to:",
+    state.contracts.launchPoolImplementation.address
   );
+
+  // Deploy the factory implementation on its own so its transaction can be
+  // recorded. The OpenZeppelin network manifest tracks it while pending, an
+  // interrupted run gets it back from there.
+  if (!state.contracts.factoryImplementation) {
+    const LaunchPoolFactory = await ethers.getContractFactory(
+      "LaunchPoolFactoryUpgradeable"
+    );
+    await spendGuard.check("LaunchPoolFactory implementation", {
+      ...(await LaunchPoolFactory.getDeployTransaction()),
+      from: deployer,
+    });
+    const implementationDeployment = await upgrades.deployImplementation(
+      LaunchPoolFactory,
+      {
+        kind: "uups",
+        constructorArgs: [],
+        timeout: 0,
+        pollingInterval: 5000,
+        getTxResponse: true,
+        txOverrides: fees.overrides,
+      }
+    );
+    if (typeof implementationDeployment === "string") {
+      // Already deployed according to the OpenZeppelin network manifest
+      state.contracts.factoryImplementation = {
+        address: implementationDeployment,
+      };
+    } else {
+      const tx = implementationDeployment as TransactionResponse;
+      const receipt = await tx.wait();
+      state.contracts.factoryImplementation = await toContractRecord(
+        receipt!.contractAddress!,
+        tx
+      );
+    }
+    await saveDeployState(state);
+  }
   console.log(
-    `Using maxPriorityFeePerGas: ${ethers.formatUnits(
-      maxPriorityFeePerGas,
-      "gwei"
-    )} gwei`
+    "LaunchPoolFactory implementation deployed to:",
+    state.contracts.factoryImplementation.address
   );
+}
 
-  const LaunchPool = await ethers.getContractFactory("LaunchPool");
-  const launchPoolImpl = await LaunchPool.deploy({
-    maxFeePerGas,
-    maxPriorityFeePerGas,
-  });
-  await launchPoolImpl.waitForDeployment();
-  const launchPoolImplAddress = await launchPoolImpl.getAddress();
-  console.log("LaunchPool implementation deployed to:", launchPoolImplAddress);
-
-  // Wait for block confirmations
-  console.log("\nWaiting for block confirmations...");
-  await launchPoolImpl.deploymentTransaction()?.wait(5);
-
-  // Deploy factory contract
-  console.log("\n2️⃣  Deploying LaunchPoolFactory...");
-  const LaunchPoolFactory = await ethers.getContractFactory(
-    "LaunchPoolFactoryUpgradeable"
+async function deployFactoryProxy({
+  state,
+  deployer,
+  fees,
+  spendGuard,
+}: DeployContext) {
+  if (!state.contracts.factoryProxy) {
+    const launchPoolImplAddress =
+      state.contracts.launchPoolImplementation!.address;
+    const LaunchPoolFactory = await ethers.getContractFactory(
+      "LaunchPoolFactoryUpgradeable"
+    );
+    const Proxy = await ethers.getContractFactory(
+      ERC1967Proxy.abi,
+      ERC1967Proxy.bytecode
+    );
+    await spendGuard.check("LaunchPoolFactory proxy", {
+      ...(await Proxy.getDeployTransaction(
+        state.contracts.factoryImplementation!.address,
+        LaunchPoolFactory.interface.encodeFunctionData("initialize", [
+          launchPoolImplAddress,
+        ])
+      )),
+      from: deployer,
+    });
+
+    // Deploy using UUPS proxy pattern on top of the implementation above
+    const factory = await upgrades.deployProxy(
+      LaunchPoolFactory,
+      [launchPoolImplAddress],
+      {
+        initializer: "initialize",
+        kind: "uups",
+        constructorArgs: [],
+        timeout: 0,
+        pollingInterval: 5000,
+        useDeployedImplementation: true,
+        txOverrides: fees.overrides,
+      }
+    );
+    await recordPendingDeployment(
+      state,
+      "factoryProxy",
+      await factory.getAddress(),
+      factory.deploymentTransaction()
+    );
+    await factory.waitForDeployment();
+    state.contracts.factoryProxy = await toContractRecord(
+      await factory.getAddress(),
+      factory.deploymentTransaction()
+    );
+  }
+  console.log(
+    "LaunchPoolFactory proxy deployed to:",
+    state.contracts.factoryProxy.address
   );
+}
 
-  // Deploy using UUPS proxy pattern
-  const factory = await upgrades.deployProxy(
-    LaunchPoolFactory,
-    [launchPoolImplAddress],
-    {
-      initializer: "initialize",
-      kind: "uups",
-      constructorArgs: [],
-      timeout: 0,
-      pollingInterval: 5000,
-      useDeployedImplementation: false,
-      txOverrides: {
-        maxFeePerGas,
-        maxPriorityFeePerGas,
-      },
-    }
+async function waitForConfirmations({
+  state,
+  deployer,
+  networkMetadata,
+}: DeployContext) {
+  // Local nodes only mine when asked to, one confirmation is all they give
+  const confirmations = Number(
+    getArg("confirmations") ?? (networkMetadata.chainId === 31337 ? 1 : 5)
   );
+  console.log(`Waiting for ${confirmations} block confirmations...`);
+  for (const record of Object.values(state.contracts)) {
+    if (record?.txHash) {
+      const tx = await ethers.provider.getTransaction(record.txHash);
+      await tx?.wait(confirmations);
+    }
+  }
 
-  await factory.waitForDeployment();
-  const factoryAddress = await factory.getAddress();
-  console.log("LaunchPoolFactory proxy deployed to:", factoryAddress);
+  // Record deployment for verify.ts and upgrade.ts. This only runs once per
+  // deployment so later upgrade records are never overwritten.
+  await createManifest({
+    manifestVersion: MANIFEST_VERSION,
+    network: networkMetadata.name,
+    displayName: networkMetadata.displayName,
+    chainId: networkMetadata.chainId,
+    explorerUrl: networkMetadata.explorerUrl,
+    deployer,
+    deployedAt: new Date().toISOString(),
+    compiler: getCompilerSettings(),
+    contracts: {
+      launchPoolImplementation: state.contracts.launchPoolImplementation!,
+      factoryImplementation: state.contracts.factoryImplementation!,
+      factoryProxy: state.contracts.factoryProxy!,
+    },
+    upgrades: [],
+  });
+}
 
-  // Get implementation contract address
-  const implementationAddress = await upgrades.erc1967.getImplementationAddress(
-    factoryAddress
-  );
+async function verifyContracts({
+  state,
+  networkMetadata,
+}: DeployContext): Promise<boolean> {
+  if (!networkMetadata.explorerUrl) {
+    console.log(
+      `No explorer configured for ${networkMetadata.displayName}, skipping verification`
+    );
+    return true;
+  }
+  const { contracts } = state;
+  const results = [
+    // Verify LaunchPool implementation
+    await verifyContract(
+      contracts.launchPoolImplementation!.address,
+      [],
+      "LaunchPool Implementation"
+    ),
+    // Verify Factory implementation
+    await verifyContract(
+      contracts.factoryImplementation!.address,
+      [],
+      "LaunchPoolFactory Implementation"
+    ),
+    // Verify Factory proxy
+    await verifyContract(contracts.factoryProxy!.address, [], "Factory Proxy"),
+  ];
+  if (results.includes(false)) {
+    console.log("⚠️  Verification incomplete, re-run deploy to retry it");
+    return false;
+  }
+  return true;
+}
+
+async function main() {
+  console.log("\n📝 Starting deployment process...\n");
+  const networkMetadata = await getNetworkMetadata();
   console.log(
-    "LaunchPoolFactory implementation deployed to:",
-    implementationAddress
+    `Deploying to ${networkMetadata.displayName} (chain ${networkMetadata.chainId})`
   );
+  const [deployer] = await ethers.getSigners();
+  console.log("Deploying contracts with account:", deployer.address);
 
-  // Wait for block confirmations
-  console.log("\nWaiting for block confirmations...");
-  await factory.deploymentTransaction()?.wait(5);
+  // Get fees for the configured strategy
+  const fees = await getFeeSettings();
+  logFeeSettings(fees);
 
-  // Verify contracts
-  console.log("\n3️⃣  Starting contract verification...");
+  const context: DeployContext = {
+    state: await loadDeployState(),
+    deployer: deployer.address,
+    fees,
+    spendGuard: createSpendGuard(fees),
+    networkMetadata,
+  };
+  // A resumed run past the confirmations step has written its own manifest
+  if (!context.state.completedSteps.includes("confirmations")) {
+    await checkManifestOverwrite();
+  }
+  await checkRecordedContracts(context);
+
+  console.log("\n1️⃣  Deploying implementations...");
+  await runStep(context.state, "implementation", () =>
+    deployImplementations(context)
+  );
 
-  // Verify LaunchPool implementation
-  await verifyContract(launchPoolImplAddress, [], "LaunchPool Implementation");
+  console.log("\n2️⃣  Deploying LaunchPoolFactory proxy...");
+  await runStep(context.state, "proxy", () => deployFactoryProxy(context));
 
-  // Verify Factory implementation
-  await verifyContract(
-    implementationAddress,
-    [],
-    "LaunchPoolFactory Implementation"
+  console.log("\n3️⃣  Waiting for block confirmations...");
+  await runStep(context.state, "confirmations", () =>
+    waitForConfirmations(context)
   );
 
-  // Verify Factory proxy
-  console.log(`\n${"-".repeat(80)}`);
-  console.log(`Verifying Factory Proxy at ${factoryAddress}`);
-  try {
-    // Verify proxy contract
-    await run("verify:verify", {
-      address: factoryAddress,
-      constructorArguments: [],
-    });
-    console.log("✅ Proxy verification successful");
-    console.log(
-      `🔍 View on explorer: https://explorer-holesky.morphl2.io/address/${factoryAddress}#code`
-    );
-  } catch (error: any) {
-    if (error.message.includes("Already Verified")) {
-      console.log("ℹ️  Proxy is already verified");
-      console.log(
-        `🔍 View on explorer: https://explorer-holesky.morphl2.io/address/${factoryAddress}#code`
-      );
-    } else if (error.message.includes("Reason: Proxy implementation")) {
-      // Proxy is verified but needs to be linked with implementation
-      console.log("✅ Proxy verification successful");
-      console.log(
-        `🔍 View on explorer: https://explorer-holesky.morphl2.io/address/${factoryAddress}#code`
-      );
-    } else {
-      console.error("❌ Error verifying proxy:", error);
-    }
-  }
+  console.log("\n4️⃣  Starting contract verification...");
+  await runStep(context.state, "verification", () => verifyContracts(context));
 
   // Summary
+  const { contracts } = context.state;
   console.log("\n📋 Deployment Summary");
   console.log("=".repeat(80));
   console.log("Contract Addresses:");
-  console.log("- LaunchPool Implementation:", launchPoolImplAddress);
-  console.log("- Factory Proxy:", factoryAddress);
-  console.log("- Factory Implementation:", implementationAddress);
-  console.log("\nExplorer Links:");
   console.log(
-    `- LaunchPool Implementation: https://explorer-holesky.morphl2.io/address/${launchPoolImplAddress}#code`
+    "- LaunchPool Implementation:",
+    contracts.launchPoolImplementation!.address
   );
+  console.log("- Factory Proxy:", contracts.factoryProxy!.address);
   console.log(
-    `- Factory Proxy: https://explorer-holesky.morphl2.io/address/${factoryAddress}#code`
+    "- Factory Implementation:",
+    contracts.factoryImplementation!.address
   );
+  console.log(`\nCompleted steps: ${context.state.completedSteps.join(", ")}`);
+  console.log(`Deployment state: ${await getStatePath()}`);
   console.log(
-    `- Factory Implementation: https://explorer-holesky.morphl2.io/address/${implementationAddress}#code`
+    `Estimated total cost: ${ethers.formatEther(
+      context.spendGuard.total()
+    )} ETH`
   );
+  logExplorerLinks(networkMetadata, {
+    "LaunchPool Implementation": contracts.launchPoolImplementation!.address,
+    "Factory Proxy": contracts.factoryProxy!.address,
+    "Factory Implementation": contracts.factoryImplementation!.address,
+  });
   console.log("=".repeat(80));
 }
 
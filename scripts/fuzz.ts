@@ -0,0 +1,56 @@
+import fs from "fs";
+import path from "path";
+import {
+  FuzzFailure,
+  fuzz,
+  formatFailure,
+  parseFuzzCase,
+  runCase,
+  shrinkFailure,
+} from "../fuzz";
+import { toJson, writeOutput } from "../tasks/helpers";
+import { getArg } from "./utils/args";
+
+async function main() {
+  let failure: FuzzFailure | undefined;
+  const replay = getArg("replay");
+  if (replay) {
+    console.log(`Replaying ${replay}`);
+    failure = await runCase(parseFuzzCase(fs.readFileSync(replay, "utf8")));
+    if (failure && getArg("shrink")) {
+      failure = await shrinkFailure(failure);
+    }
+  } else {
+    // Print the first seed so a run can be repeated
+    const firstSeed = Number(getArg("seed") ?? Date.now() % 1_000_000);
+    const runs = Number(getArg("runs") ?? 20);
+    console.log(`Fuzzing seeds ${firstSeed} to ${firstSeed + runs - 1}`);
+    failure = await fuzz({
+      seeds: Array.from({ length: runs }, (_, i) => firstSeed + i),
+      steps: getArg("steps") ? Number(getArg("steps")) : undefined,
+      users: getArg("users") ? Number(getArg("users")) : undefined,
+      pools: getArg("pools") ? Number(getArg("pools")) : undefined,
+    });
+  }
+
+  if (!failure) {
+    console.log("✅ Every invariant held");
+    return;
+  }
+  console.log(`\n${formatFailure(failure)}`);
+  const outputPath = path.join(
+    "data",
+    "fuzz",
+    `seed-${failure.case.seed}.json`
+  );
+  writeOutput(outputPath, toJson(failure.case) + "\n");
+  console.log(`Replay it with: npm run fuzz --replay=${outputPath}`);
+  process.exitCode = 1;
+}
+
+main()
+  .then(() => process.exit())
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,36 @@
+import { getArg } from "./utils/args";
+import {
+  importIgnitionDeployment,
+  readIgnitionDeployment,
+} from "./utils/ignition";
+import { checkManifestOverwrite, createManifest } from "./utils/manifest";
+import { getNetworkMetadata } from "./utils/network";
+
+// Takes over a factory deployed with `yarn ignition:<network>`, so upgrade.ts,
+// preflight.ts and verify.ts can work with it
+async function main() {
+  const networkMetadata = await getNetworkMetadata();
+  await checkManifestOverwrite();
+
+  const deployment = await readIgnitionDeployment(
+    networkMetadata.chainId,
+    getArg("deployment-id")
+  );
+  console.log(
+    `Importing the Ignition deployment on ${networkMetadata.displayName}:`
+  );
+  for (const [name, record] of Object.entries(deployment.contracts)) {
+    console.log(`- ${name}: ${record.address}`);
+  }
+
+  await createManifest(
+    await importIgnitionDeployment(deployment, networkMetadata)
+  );
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
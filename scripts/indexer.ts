@@ -0,0 +1,39 @@
+import { ethers } from "hardhat";
+import { checkConsistency } from "../indexer";
+import { getArg } from "./utils/args";
+import { createIndexer, logIndexSummary } from "./utils/indexer";
+
+async function main() {
+  const indexer = await createIndexer();
+
+  const watch = getArg("watch");
+  do {
+    const { latest } = await indexer.sync();
+    logIndexSummary(latest);
+    if (watch) {
+      await new Promise((resolve) => setTimeout(resolve, Number(watch) * 1000));
+    }
+  } while (watch);
+
+  if (getArg("check")) {
+    const mismatches = await checkConsistency(ethers.provider, indexer.state!);
+    for (const mismatch of mismatches) {
+      console.log(
+        `❌ ${mismatch.pool}${mismatch.user ? ` ${mismatch.user}` : ""} ${
+          mismatch.field
+        }: indexed ${mismatch.indexed}, on chain ${mismatch.onChain}`
+      );
+    }
+    if (mismatches.length > 0) {
+      throw new Error(`${mismatches.length} balances differ from the chain`);
+    }
+    console.log("✅ Indexed balances match userInfo() and totalStaked()");
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
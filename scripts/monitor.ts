@@ -0,0 +1,36 @@
+import { ethers } from "hardhat";
+import { ConsoleNotifier, Monitor, WebhookNotifier } from "../monitor";
+import { getArg } from "./utils/args";
+import { createIndexer } from "./utils/indexer";
+
+async function main() {
+  const indexer = await createIndexer();
+  const webhookUrl = getArg("webhook-url");
+  const notifier = webhookUrl
+    ? new WebhookNotifier(webhookUrl)
+    : new ConsoleNotifier();
+  console.log(
+    webhookUrl
+      ? `Sending alerts to ${new URL(webhookUrl).origin}`
+      : "No --webhook-url set, printing alerts"
+  );
+
+  const monitor = new Monitor({
+    provider: ethers.provider,
+    indexer,
+    notifier,
+  });
+  const interval = Number(getArg("interval") ?? 60);
+  console.log(`Checking every pool every ${interval}s`);
+  monitor.start(interval * 1000);
+
+  process.on("SIGINT", () => {
+    monitor.stop();
+    process.exit(0);
+  });
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,19 @@
+import { loadManifest } from "./utils/manifest";
+import { runPreflight } from "./utils/preflight";
+import { readUpgradePlan } from "./utils/upgradePlan";
+
+async function main() {
+  const plan = readUpgradePlan();
+  const manifest = await loadManifest();
+  const proxyAddress = manifest.contracts.factoryProxy.address;
+  console.log("Checking upgrade of factory proxy at:", proxyAddress);
+
+  await runPreflight(proxyAddress, plan, manifest);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,15 @@
+import { readScenario, runScenario } from "../scenario";
+import { requireArg } from "./utils/args";
+
+async function main() {
+  await runScenario(readScenario(requireArg("file")));
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(
+      error.name === "ScenarioError" ? `❌ ${error.message}` : error
+    );
+    process.exit(1);
+  });
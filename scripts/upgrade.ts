@@ -1,107 +1,178 @@
 import { ethers, upgrades } from "hardhat";
+import { ContractTransactionResponse } from "ethers";
+import {
+  ContractRecord,
+  DeploymentManifest,
+  appendUpgrade,
+  loadManifest,
+  toContractRecord,
+} from "./utils/manifest";
+import { createSpendGuard, getFeeSettings, logFeeSettings } from "./utils/fees";
+import { getNetworkMetadata, logExplorerLinks } from "./utils/network";
+import { runPreflight } from "./utils/preflight";
+import { getUpgradeCall, readUpgradePlan } from "./utils/upgradePlan";
+
+async function recordUpgrade(
+  manifest: DeploymentManifest,
+  contractName: string,
+  proxyAddress: string,
+  previousImplementation: string,
+  upgradeTx: ContractTransactionResponse,
+  launchPoolImplementation?: ContractRecord
+) {
+  const newImplementation = await upgrades.erc1967.getImplementationAddress(
+    proxyAddress
+  );
+  const { txHash, blockNumber } = await toContractRecord(
+    newImplementation,
+    upgradeTx
+  );
+  const [signer] = await ethers.getSigners();
+  await appendUpgrade(manifest, {
+    contractName,
+    previousImplementation,
+    newImplementation,
+    launchPoolImplementation,
+    txHash,
+    blockNumber,
+    upgradedBy: signer.address,
+    upgradedAt: new Date().toISOString(),
+  });
+  return newImplementation;
+}
 
 async function main() {
+  // Upgrade parameters
+  const plan = readUpgradePlan();
+  const { contractName, poolContractName } = plan;
+
   const [deployer] = await ethers.getSigners();
   console.log("Upgrading contracts with the account:", deployer.address);
 
-  // Get current gas price
-  const feeData = await ethers.provider.getFeeData();
-  const maxFeePerGas = feeData.maxFeePerGas! * 2n; // 2x maxFeePerGas
-  const maxPriorityFeePerGas = feeData.maxPriorityFeePerGas! * 2n; // 2x maxPriorityFeePerGas
+  // Get fees for the configured strategy
+  const fees = await getFeeSettings();
+  logFeeSettings(fees);
+  const spendGuard = createSpendGuard(fees);
 
-  console.log(
-    `Using maxFeePerGas: ${ethers.formatUnits(maxFeePerGas, "gwei")} gwei`
-  );
-  console.log(
-    `Using maxPriorityFeePerGas: ${ethers.formatUnits(
-      maxPriorityFeePerGas,
-      "gwei"
-    )} gwei`
-  );
+  // Proxy address of the factory contract recorded by deploy.ts
+  const manifest = await loadManifest();
+  const proxyAddress = manifest.contracts.factoryProxy.address;
+  console.log("Upgrading factory proxy at:", proxyAddress);
 
-  // Proxy address of the factory contract (replace with actual deployed address)
-  const proxyAddress = "PROXY_ADDRESS";
+  // Check storage layout and dry-run the upgrade before sending anything
+  await runPreflight(proxyAddress, plan, manifest);
 
-  // First deploy LaunchPoolV2 implementation
-  const LaunchPoolV2 = await ethers.getContractFactory("LaunchPoolV2");
-  console.log("Deploying LaunchPoolV2 implementation...");
-  const launchPoolV2Impl = await LaunchPoolV2.deploy({
-    maxFeePerGas,
-    maxPriorityFeePerGas,
-  });
-  await launchPoolV2Impl.waitForDeployment();
-  console.log(
-    "LaunchPoolV2 implementation deployed to:",
-    await launchPoolV2Impl.getAddress()
-  );
+  // Optionally deploy a new pool implementation first
+  let launchPoolImplementation: ContractRecord | undefined;
+  if (poolContractName) {
+    const PoolImplementation = await ethers.getContractFactory(
+      poolContractName
+    );
+    console.log(`Deploying ${poolContractName} implementation...`);
+    await spendGuard.check(`${poolContractName} implementation`, {
+      ...(await PoolImplementation.getDeployTransaction()),
+      from: deployer.address,
+    });
+    const poolImpl = await PoolImplementation.deploy(fees.overrides);
+    await poolImpl.waitForDeployment();
+    launchPoolImplementation = await toContractRecord(
+      await poolImpl.getAddress(),
+      poolImpl.deploymentTransaction()
+    );
+    console.log(
+      `${poolContractName} implementation deployed to:`,
+      launchPoolImplementation.address
+    );
+  }
 
-  // Upgrade to V2
-  const LaunchPoolFactoryV2 = await ethers.getContractFactory(
-    "LaunchPoolFactoryV2"
-  );
-  console.log("Upgrading to LaunchPoolFactoryV2...");
-  const upgradedV2 = await upgrades.upgradeProxy(
+  const call = getUpgradeCall(plan, launchPoolImplementation?.address);
+
+  const previousImplementation =
+    await upgrades.erc1967.getImplementationAddress(proxyAddress);
+  const Factory = await ethers.getContractFactory(contractName);
+
+  // Deploy the implementation first so the upgrade transaction itself can be
+  // estimated
+  await spendGuard.check(`${contractName} implementation`, {
+    ...(await Factory.getDeployTransaction()),
+    from: deployer.address,
+  });
+  const newImplementation = (await upgrades.prepareUpgrade(
     proxyAddress,
-    LaunchPoolFactoryV2,
+    Factory,
     {
+      kind: "uups",
       timeout: 0,
       pollingInterval: 5000,
-      txOverrides: {
-        maxFeePerGas,
-        maxPriorityFeePerGas,
-      },
+      txOverrides: fees.overrides,
     }
+  )) as string;
+  const proxy = await ethers.getContractAt(
+    "LaunchPoolFactoryUpgradeable",
+    proxyAddress
   );
-  await upgradedV2.waitForDeployment();
-  console.log(
-    "LaunchPoolFactoryV2 upgraded at:",
-    await upgradedV2.getAddress()
-  );
-
-  // Initialize V2 with LaunchPoolV2 implementation
-  console.log("Initializing V2...");
-  await upgradedV2.initialize(await launchPoolV2Impl.getAddress(), {
-    maxFeePerGas,
-    maxPriorityFeePerGas,
+  // Upgrade and run the reinitializer atomically through upgradeToAndCall
+  const reinitializerData =
+    call && Factory.interface.encodeFunctionData(call.fn, call.args);
+  await spendGuard.check("upgrade transaction", {
+    ...(reinitializerData
+      ? await proxy.upgradeToAndCall.populateTransaction(
+          newImplementation,
+          reinitializerData
+        )
+      : await proxy.upgradeTo.populateTransaction(newImplementation)),
+    from: deployer.address,
   });
-  console.log("V2 initialized");
 
-  // Upgrade to V3
-  const LaunchPoolFactoryV3 = await ethers.getContractFactory(
-    "LaunchPoolFactoryV3"
-  );
-  console.log("Upgrading to LaunchPoolFactoryV3...");
-  const upgradedV3 = await upgrades.upgradeProxy(
-    await upgradedV2.getAddress(),
-    LaunchPoolFactoryV3,
-    {
-      timeout: 0,
-      pollingInterval: 5000,
-      txOverrides: {
-        maxFeePerGas,
-        maxPriorityFeePerGas,
-      },
-    }
-  );
-  await upgradedV3.waitForDeployment();
   console.log(
-    "LaunchPoolFactoryV3 upgraded at:",
-    await upgradedV3.getAddress()
+    `Upgrading to ${contractName}${
+      call ? ` and calling ${call.fn}(${call.args.join(", ")})` : ""
+    }...`
   );
+  // prepareUpgrade validated and registered the implementation, this is the
+  // transaction upgradeProxy would send
+  const upgradeTx = reinitializerData
+    ? await proxy.upgradeToAndCall(
+        newImplementation,
+        reinitializerData,
+        fees.overrides
+      )
+    : await proxy.upgradeTo(newImplementation, fees.overrides);
+  await upgradeTx.wait();
+  console.log(`${contractName} upgraded at:`, proxyAddress);
 
-  // Initialize V3
-  console.log("Initializing V3...");
-  await upgradedV3.initializeV3({
-    maxFeePerGas,
-    maxPriorityFeePerGas,
-  });
-  console.log("V3 initialized");
+  const implementationAddress = await recordUpgrade(
+    manifest,
+    contractName,
+    proxyAddress,
+    previousImplementation,
+    upgradeTx,
+    launchPoolImplementation
+  );
 
-  // Get final implementation address
-  const implementationAddress = await upgrades.erc1967.getImplementationAddress(
-    await upgradedV3.getAddress()
+  // Summary
+  console.log("\n📋 Upgrade Summary");
+  console.log("=".repeat(80));
+  console.log("- Factory Proxy:", proxyAddress);
+  console.log("- Previous Implementation:", previousImplementation);
+  console.log("- New Implementation:", implementationAddress);
+  if (launchPoolImplementation) {
+    console.log(
+      "- LaunchPool Implementation:",
+      launchPoolImplementation.address
+    );
+  }
+  console.log(
+    `- Estimated total cost: ${ethers.formatEther(spendGuard.total())} ETH`
   );
-  console.log("Final implementation address:", implementationAddress);
+  logExplorerLinks(await getNetworkMetadata(), {
+    "Factory Proxy": proxyAddress,
+    "New Implementation": implementationAddress,
+    ...(launchPoolImplementation && {
+      "LaunchPool Implementation": launchPoolImplementation.address,
+    }),
+  });
+  console.log("=".repeat(80));
 }
 
 main()
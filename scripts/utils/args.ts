@@ -0,0 +1,31 @@
+// `hardhat run` doesn't forward CLI arguments to scripts, so parameters are
+// read from npm config flags (`npm run upgrade:morph --contract=...`) or from
+// the matching upper-case environment variable (`CONTRACT=...`).
+export function getArg(name: string): string | undefined {
+  const key = name.replace(/-/g, "_");
+  return process.env[`npm_config_${key}`] || process.env[key.toUpperCase()];
+}
+
+export function requireArg(name: string): string {
+  const value = getArg(name);
+  if (!value) {
+    throw new Error(
+      `Missing required argument --${name} (or ${name
+        .replace(/-/g, "_")
+        .toUpperCase()} environment variable)`
+    );
+  }
+  return value;
+}
+
+export function getJsonArg<T>(name: string, defaultValue: T): T {
+  const value = getArg(name);
+  if (!value) {
+    return defaultValue;
+  }
+  try {
+    return JSON.parse(value);
+  } catch (error: any) {
+    throw new Error(`Argument --${name} is not valid JSON: ${error.message}`);
+  }
+}
@@ -0,0 +1,157 @@
+import fs from "fs";
+import path from "path";
+import { artifacts, ethers } from "hardhat";
+import type { ContractTransactionResponse } from "ethers";
+import { ContractRecord, DEPLOYMENTS_DIR } from "./manifest";
+
+export type DeployStep =
+  | "implementation"
+  | "proxy"
+  | "confirmations"
+  | "verification";
+
+// Local checkpoint of an in-progress deployment, so a failed run can resume
+// without redeploying what already made it on chain
+export interface DeployState {
+  chainId: number;
+  contracts: {
+    launchPoolImplementation?: ContractRecord;
+    factoryImplementation?: ContractRecord;
+    factoryProxy?: ContractRecord;
+  };
+  completedSteps: DeployStep[];
+}
+
+export interface ExpectedBytecode {
+  deployedBytecode: string;
+  immutableReferences: Record<string, { start: number; length: number }[]>;
+}
+
+export async function getStatePath(): Promise<string> {
+  const { chainId } = await ethers.provider.getNetwork();
+  return path.join(DEPLOYMENTS_DIR, `${chainId}.state.json`);
+}
+
+export async function loadDeployState(): Promise<DeployState> {
+  const statePath = await getStatePath();
+  if (!fs.existsSync(statePath)) {
+    const { chainId } = await ethers.provider.getNetwork();
+    return { chainId: Number(chainId), contracts: {}, completedSteps: [] };
+  }
+  console.log(`Resuming deployment from ${statePath}`);
+  return JSON.parse(fs.readFileSync(statePath, "utf8"));
+}
+
+export async function saveDeployState(state: DeployState) {
+  const statePath = await getStatePath();
+  fs.mkdirSync(path.dirname(statePath), { recursive: true });
+  fs.writeFileSync(statePath, JSON.stringify(state, null, 2) + "\n");
+}
+
+// Records a deployment as soon as its transaction is sent, so a run that
+// stops before it is mined waits for it next time instead of deploying again
+export async function recordPendingDeployment(
+  state: DeployState,
+  contract: keyof DeployState["contracts"],
+  address: string,
+  tx: ContractTransactionResponse | null
+) {
+  if (!tx) {
+    return;
+  }
+  state.contracts[contract] = { address, txHash: tx.hash };
+  await saveDeployState(state);
+}
+
+// Waits for a deployment recorded before it was mined. Returns undefined when
+// its transaction was dropped, so that it's deployed again.
+export async function waitForPendingDeployment(
+  label: string,
+  record: ContractRecord | undefined
+): Promise<ContractRecord | undefined> {
+  if (!record?.txHash || record.blockNumber !== undefined) {
+    return record;
+  }
+  const tx = await ethers.provider.getTransaction(record.txHash);
+  if (!tx) {
+    console.log(
+      `⚠️  ${label} transaction ${record.txHash} is not known to the node, deploying it again`
+    );
+    return undefined;
+  }
+  console.log(`⏳ Waiting for ${label} transaction ${record.txHash}...`);
+  const receipt = await tx.wait();
+  return { ...record, blockNumber: receipt?.blockNumber };
+}
+
+export async function runStep(
+  state: DeployState,
+  step: DeployStep,
+  action: () => Promise<boolean | void>
+) {
+  if (state.completedSteps.includes(step)) {
+    console.log(`⏭️  Skipping ${step} step, already completed`);
+    return;
+  }
+  // Steps return false when they ran but should be retried on the next run
+  if ((await action()) !== false) {
+    state.completedSteps.push(step);
+    await saveDeployState(state);
+  }
+}
+
+export async function getExpectedBytecode(
+  contractName: string
+): Promise<ExpectedBytecode> {
+  const artifact = await artifacts.readArtifact(contractName);
+  const buildInfo = await artifacts.getBuildInfo(
+    `${artifact.sourceName}:${artifact.contractName}`
+  );
+  const output =
+    buildInfo?.output.contracts[artifact.sourceName][artifact.contractName];
+  return {
+    deployedBytecode: artifact.deployedBytecode,
+    immutableReferences: output?.evm.deployedBytecode.immutableReferences ?? {},
+  };
+}
+
+// Compares the code at `address` with the compiled runtime bytecode, ignoring
+// immutables since they are only known once deployed
+export async function hasExpectedBytecode(
+  address: string,
+  expected: ExpectedBytecode
+): Promise<boolean> {
+  const code = ethers.getBytes(await ethers.provider.getCode(address));
+  const expectedCode = ethers.getBytes(expected.deployedBytecode);
+  if (code.length !== expectedCode.length) {
+    return false;
+  }
+  for (const references of Object.values(expected.immutableReferences)) {
+    for (const { start, length } of references) {
+      code.fill(0, start, start + length);
+      expectedCode.fill(0, start, start + length);
+    }
+  }
+  return ethers.hexlify(code) === ethers.hexlify(expectedCode);
+}
+
+// Returns the recorded contract if its code is still what we'd deploy today
+export async function getReusableContract(
+  label: string,
+  record: ContractRecord | undefined,
+  expected: ExpectedBytecode
+): Promise<ContractRecord | undefined> {
+  record = await waitForPendingDeployment(label, record);
+  if (!record) {
+    return undefined;
+  }
+  if (!(await hasExpectedBytecode(record.address, expected))) {
+    throw new Error(
+      `${label} recorded at ${
+        record.address
+      } doesn't match the compiled bytecode. Remove it from ${await getStatePath()} to redeploy it.`
+    );
+  }
+  console.log(`♻️  Reusing ${label} at ${record.address}`);
+  return record;
+}
@@ -0,0 +1,249 @@
+import { ethers, network } from "hardhat";
+import type { TransactionRequest } from "ethers";
+import { getArg } from "./args";
+
+export type FeeStrategy = "multiplier" | "fixed" | "legacy" | "percentile";
+
+export interface FeeConfig {
+  strategy: FeeStrategy;
+  // multiplier: scale the node's suggested fees
+  multiplier: number;
+  // fixed: caps in gwei
+  maxFeePerGasGwei?: string;
+  maxPriorityFeePerGasGwei?: string;
+  // percentile: priority fee percentile over the last `feeHistoryBlocks` blocks
+  percentile: number;
+  feeHistoryBlocks: number;
+  // Maximum total spend in ether for one script run
+  maxSpend: string;
+}
+
+const DEFAULT_FEE_CONFIG: FeeConfig = {
+  strategy: "multiplier",
+  multiplier: 2,
+  percentile: 50,
+  feeHistoryBlocks: 20,
+  maxSpend: "1",
+};
+
+// Per-network fee configuration, keyed by hardhat network name
+export const FEE_CONFIG: Record<string, Partial<FeeConfig>> = {
+  morph: {
+    strategy: "percentile",
+    maxSpend: "0.05",
+  },
+  morphHolesky: {
+    strategy: "percentile",
+    maxSpend: "0.5",
+  },
+};
+
+export interface FeeOverrides {
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+  gasPrice?: bigint;
+}
+
+export interface FeeSettings {
+  strategy: FeeStrategy;
+  overrides: FeeOverrides;
+  maxSpend: bigint;
+}
+
+// Network config merged with FEE_STRATEGY, FEE_MULTIPLIER, MAX_FEE_PER_GAS_GWEI,
+// MAX_PRIORITY_FEE_PER_GAS_GWEI, FEE_PERCENTILE and MAX_SPEND overrides
+export function getFeeConfig(): FeeConfig {
+  const config = { ...DEFAULT_FEE_CONFIG, ...FEE_CONFIG[network.name] };
+  const strategy = getArg("fee-strategy");
+  if (strategy) {
+    if (!["multiplier", "fixed", "legacy", "percentile"].includes(strategy)) {
+      throw new Error(`Unknown fee strategy ${strategy}`);
+    }
+    config.strategy = strategy as FeeStrategy;
+  }
+  const multiplier = getArg("fee-multiplier");
+  if (multiplier) {
+    config.multiplier = Number(multiplier);
+  }
+  config.maxFeePerGasGwei =
+    getArg("max-fee-per-gas-gwei") ?? config.maxFeePerGasGwei;
+  config.maxPriorityFeePerGasGwei =
+    getArg("max-priority-fee-per-gas-gwei") ?? config.maxPriorityFeePerGasGwei;
+  const percentile = getArg("fee-percentile");
+  if (percentile) {
+    config.percentile = Number(percentile);
+  }
+  config.maxSpend = getArg("max-spend") ?? config.maxSpend;
+  return config;
+}
+
+function scale(value: bigint, multiplier: number): bigint {
+  // Keep two decimals of the multiplier without going through floats
+  return (value * BigInt(Math.round(multiplier * 100))) / 100n;
+}
+
+async function getLegacyOverrides(multiplier: number): Promise<FeeOverrides> {
+  const { gasPrice } = await ethers.provider.getFeeData();
+  if (gasPrice === null) {
+    throw new Error(`${network.name} returned no gas price`);
+  }
+  return { gasPrice: scale(gasPrice, multiplier) };
+}
+
+async function getMultiplierOverrides(
+  config: FeeConfig
+): Promise<FeeOverrides> {
+  const feeData = await ethers.provider.getFeeData();
+  if (feeData.maxFeePerGas === null || feeData.maxPriorityFeePerGas === null) {
+    console.log("⚠️  No EIP-1559 fee data, falling back to legacy gasPrice");
+    return getLegacyOverrides(config.multiplier);
+  }
+  return {
+    maxFeePerGas: scale(feeData.maxFeePerGas, config.multiplier),
+    maxPriorityFeePerGas: scale(
+      feeData.maxPriorityFeePerGas,
+      config.multiplier
+    ),
+  };
+}
+
+function getFixedOverrides(config: FeeConfig): FeeOverrides {
+  if (!config.maxFeePerGasGwei) {
+    throw new Error("Fixed fee strategy requires maxFeePerGasGwei");
+  }
+  const maxFeePerGas = ethers.parseUnits(config.maxFeePerGasGwei, "gwei");
+  const maxPriorityFeePerGas = config.maxPriorityFeePerGasGwei
+    ? ethers.parseUnits(config.maxPriorityFeePerGasGwei, "gwei")
+    : maxFeePerGas;
+  if (maxPriorityFeePerGas > maxFeePerGas) {
+    throw new Error("maxPriorityFeePerGas can't exceed maxFeePerGas");
+  }
+  return { maxFeePerGas, maxPriorityFeePerGas };
+}
+
+async function getPercentileOverrides(
+  config: FeeConfig
+): Promise<FeeOverrides> {
+  let history: { baseFeePerGas?: string[]; reward?: string[][] };
+  try {
+    history = await ethers.provider.send("eth_feeHistory", [
+      ethers.toQuantity(config.feeHistoryBlocks),
+      "latest",
+      [config.percentile],
+    ]);
+  } catch {
+    console.log(
+      "⚠️  eth_feeHistory unsupported, falling back to legacy gasPrice"
+    );
+    return getLegacyOverrides(1);
+  }
+  const baseFees = history.baseFeePerGas ?? [];
+  if (baseFees.length === 0 || !history.reward) {
+    console.log("⚠️  No base fee history, falling back to legacy gasPrice");
+    return getLegacyOverrides(1);
+  }
+
+  // Median of the per-block percentile rewards smooths out single spikes
+  const rewards = history.reward
+    .map(([reward]) => BigInt(reward))
+    .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  const maxPriorityFeePerGas =
+    rewards.length > 0 ? rewards[Math.floor(rewards.length / 2)] : 0n;
+  // The last entry is the base fee of the next block, allow it to double
+  const nextBaseFee = BigInt(baseFees[baseFees.length - 1]);
+  return {
+    maxFeePerGas: nextBaseFee * 2n + maxPriorityFeePerGas,
+    maxPriorityFeePerGas,
+  };
+}
+
+export async function getFeeSettings(): Promise<FeeSettings> {
+  const config = getFeeConfig();
+  let overrides: FeeOverrides;
+  switch (config.strategy) {
+    case "multiplier":
+      overrides = await getMultiplierOverrides(config);
+      break;
+    case "fixed":
+      overrides = getFixedOverrides(config);
+      break;
+    case "legacy":
+      overrides = await getLegacyOverrides(config.multiplier);
+      break;
+    case "percentile":
+      overrides = await getPercentileOverrides(config);
+      break;
+  }
+  return {
+    strategy: config.strategy,
+    overrides,
+    maxSpend: ethers.parseEther(config.maxSpend),
+  };
+}
+
+// Highest price per gas a transaction sent with these overrides can pay
+export function getMaxGasPrice(overrides: FeeOverrides): bigint {
+  return overrides.maxFeePerGas ?? overrides.gasPrice ?? 0n;
+}
+
+export function logFeeSettings(settings: FeeSettings) {
+  const { overrides } = settings;
+  console.log(`Using ${settings.strategy} fee strategy on ${network.name}`);
+  if (overrides.gasPrice !== undefined) {
+    console.log(
+      `Using gasPrice: ${ethers.formatUnits(overrides.gasPrice, "gwei")} gwei`
+    );
+  } else {
+    console.log(
+      `Using maxFeePerGas: ${ethers.formatUnits(
+        overrides.maxFeePerGas!,
+        "gwei"
+      )} gwei`
+    );
+    console.log(
+      `Using maxPriorityFeePerGas: ${ethers.formatUnits(
+        overrides.maxPriorityFeePerGas!,
+        "gwei"
+      )} gwei`
+    );
+  }
+  console.log(`Max spend: ${ethers.formatEther(settings.maxSpend)} ETH`);
+}
+
+export interface SpendGuard {
+  // Estimates the transaction, logs its worst-case cost and throws if it
+  // would take the run over the network's max spend
+  check(label: string, tx: TransactionRequest): Promise<bigint>;
+  total(): bigint;
+}
+
+export function createSpendGuard(settings: FeeSettings): SpendGuard {
+  let spent = 0n;
+  const gasPrice = getMaxGasPrice(settings.overrides);
+  return {
+    async check(label, tx) {
+      const gasLimit = await ethers.provider.estimateGas(tx);
+      const cost = gasLimit * gasPrice;
+      console.log(
+        `Estimated cost of ${label}: ${gasLimit} gas × ${ethers.formatUnits(
+          gasPrice,
+          "gwei"
+        )} gwei = ${ethers.formatEther(cost)} ETH`
+      );
+      if (spent + cost > settings.maxSpend) {
+        throw new Error(
+          `${label} would bring the spend to ${ethers.formatEther(
+            spent + cost
+          )} ETH, above the ${network.name} limit of ${ethers.formatEther(
+            settings.maxSpend
+          )} ETH`
+        );
+      }
+      spent += cost;
+      return cost;
+    },
+    total() {
+      return spent;
+    },
+  };
+}
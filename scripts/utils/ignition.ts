@@ -0,0 +1,120 @@
+import path from "path";
+import hre, { ethers, upgrades } from "hardhat";
+import { listTransactions, status } from "@nomicfoundation/ignition-core";
+import { HardhatArtifactResolver } from "@nomicfoundation/hardhat-ignition/helpers";
+import {
+  ContractRecord,
+  DeploymentManifest,
+  MANIFEST_VERSION,
+  getCompilerSettings,
+  toContractRecord,
+} from "./manifest";
+import { NetworkMetadata } from "./network";
+
+// Futures of ignition/modules/LaunchPoolFactory.ts holding the manifest's contracts
+export const IGNITION_FUTURES: Record<
+  keyof DeploymentManifest["contracts"],
+  string
+> = {
+  launchPoolImplementation: "LaunchPoolModule#LaunchPool",
+  factoryImplementation:
+    "LaunchPoolFactoryModule#LaunchPoolFactoryImplementation",
+  factoryProxy: "LaunchPoolFactoryModule#LaunchPoolFactoryProxy",
+};
+
+export interface IgnitionDeployment {
+  deployer: string;
+  contracts: DeploymentManifest["contracts"];
+}
+
+// Reads the contracts of a finished Ignition deployment from its journal in
+// ignition/deployments/<deploymentId>, chain-<chainId> by default
+export async function readIgnitionDeployment(
+  chainId: number,
+  deploymentId = `chain-${chainId}`
+): Promise<IgnitionDeployment> {
+  const deploymentDir = path.join(
+    hre.config.paths.ignition,
+    "deployments",
+    deploymentId
+  );
+  const artifactResolver = new HardhatArtifactResolver(hre);
+  const deployment = await status(deploymentDir, artifactResolver);
+  if (deployment.chainId !== chainId) {
+    throw new Error(
+      `Ignition deployment ${deploymentId} is on chain ${deployment.chainId}, not ${chainId}`
+    );
+  }
+  const transactions = await listTransactions(deploymentDir, artifactResolver);
+
+  let deployer: string | undefined;
+  const readContract = async (futureId: string): Promise<ContractRecord> => {
+    const contract = deployment.contracts[futureId];
+    if (!contract) {
+      throw new Error(
+        `Ignition deployment ${deploymentId} has not deployed ${futureId}`
+      );
+    }
+    const deployTx = transactions.find(
+      (tx) => tx.address?.toLowerCase() === contract.address.toLowerCase()
+    );
+    deployer ??= deployTx?.from;
+    return toContractRecord(
+      contract.address,
+      deployTx && (await ethers.provider.getTransaction(deployTx.txHash))
+    );
+  };
+  const contracts = {
+    launchPoolImplementation: await readContract(
+      IGNITION_FUTURES.launchPoolImplementation
+    ),
+    factoryImplementation: await readContract(
+      IGNITION_FUTURES.factoryImplementation
+    ),
+    factoryProxy: await readContract(IGNITION_FUTURES.factoryProxy),
+  };
+  if (!deployer) {
+    throw new Error(
+      `No deployment transactions in the journal of ${deploymentId}`
+    );
+  }
+  return { deployer: ethers.getAddress(deployer), contracts };
+}
+
+// Registers the Ignition proxy in the OpenZeppelin network manifest, so
+// upgrade.ts can validate and upgrade it, and returns the deployment manifest
+// deploy.ts would have written for it
+export async function importIgnitionDeployment(
+  deployment: IgnitionDeployment,
+  networkMetadata: NetworkMetadata
+): Promise<DeploymentManifest> {
+  const { factoryProxy, factoryImplementation } = deployment.contracts;
+  const implementation = await upgrades.erc1967.getImplementationAddress(
+    factoryProxy.address
+  );
+  if (
+    implementation.toLowerCase() !== factoryImplementation.address.toLowerCase()
+  ) {
+    throw new Error(
+      `LaunchPoolFactory proxy points to ${implementation}, not the implementation Ignition deployed`
+    );
+  }
+  await upgrades.forceImport(
+    factoryProxy.address,
+    await ethers.getContractFactory("LaunchPoolFactoryUpgradeable"),
+    { kind: "uups" }
+  );
+
+  return {
+    manifestVersion: MANIFEST_VERSION,
+    network: networkMetadata.name,
+    displayName: networkMetadata.displayName,
+    chainId: networkMetadata.chainId,
+    explorerUrl: networkMetadata.explorerUrl,
+    deployer: deployment.deployer,
+    deployedAt: new Date().toISOString(),
+    compiler: getCompilerSettings(),
+    contracts: deployment.contracts,
+    upgrades: [],
+  };
+}
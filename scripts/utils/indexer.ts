@@ -0,0 +1,48 @@
+import path from "path";
+import { ethers } from "hardhat";
+import { Indexer, IndexerState, JsonIndexStore } from "../../indexer";
+import { getArg } from "./args";
+import { loadManifest } from "./manifest";
+
+const DATA_DIR = path.join(__dirname, "..", "..", "data");
+
+// Indexer for the factory in the deployment manifest, or --factory and
+// --start-block, stored in data/index-<chainId>.json unless --store is set
+export async function createIndexer(): Promise<Indexer> {
+  const { chainId } = await ethers.provider.getNetwork();
+  let factory = getArg("factory");
+  let startBlock = Number(getArg("start-block") ?? 0);
+  if (!factory) {
+    const manifest = await loadManifest();
+    factory = manifest.contracts.factoryProxy.address;
+    startBlock = manifest.contracts.factoryProxy.blockNumber ?? startBlock;
+  }
+  const store = new JsonIndexStore(
+    getArg("store") ?? path.join(DATA_DIR, `index-${chainId}.json`)
+  );
+  console.log(`Indexing factory ${factory} into ${store.filePath}`);
+  return new Indexer(ethers.provider, {
+    factory,
+    startBlock,
+    // Local nodes don't reorg
+    confirmations: Number(
+      getArg("confirmations") ?? (chainId === 31337n ? 0 : 12)
+    ),
+    chunkSize: Number(getArg("chunk-size") ?? 2000),
+    store,
+  });
+}
+
+export function logIndexSummary(state: IndexerState) {
+  const participants = Object.values(state.participants).reduce(
+    (count, users) => count + Object.keys(users).length,
+    0
+  );
+  console.log(
+    `Indexed up to block ${state.block.number}: ${
+      Object.keys(state.projects).length
+    } projects, ${
+      Object.keys(state.pools).length
+    } pools, ${participants} participants`
+  );
+}
@@ -0,0 +1,175 @@
+import fs from "fs";
+import path from "path";
+import { ethers, network, config } from "hardhat";
+import type { ContractTransactionResponse, TransactionResponse } from "ethers";
+import type { CompilerInput, SolcConfig } from "hardhat/types";
+import { getArg } from "./args";
+
+// Bump when the manifest layout changes in a way older scripts can't read
+export const MANIFEST_VERSION = 1;
+
+export interface ContractRecord {
+  address: string;
+  txHash?: string;
+  blockNumber?: number;
+}
+
+export interface UpgradeRecord {
+  contractName: string;
+  previousImplementation: string;
+  newImplementation: string;
+  launchPoolImplementation?: ContractRecord;
+  txHash?: string;
+  blockNumber?: number;
+  upgradedBy: string;
+  upgradedAt: string;
+}
+
+// solc input settings, outputSelection left out as it doesn't affect bytecode
+export type CompilerSettings = Omit<
+  CompilerInput["settings"],
+  "outputSelection"
+>;
+
+export interface CompilerRecord {
+  version: string;
+  settings: CompilerSettings;
+}
+
+// Addresses and metadata recorded by scripts/deploy.ts for a single chain
+export interface DeploymentManifest {
+  manifestVersion: number;
+  network: string;
+  displayName: string;
+  chainId: number;
+  explorerUrl?: string;
+  deployer: string;
+  deployedAt: string;
+  compiler: CompilerRecord & {
+    // Per-file compilers, keyed by source path
+    overrides?: Record<string, CompilerRecord>;
+  };
+  contracts: {
+    launchPoolImplementation: ContractRecord;
+    factoryImplementation: ContractRecord;
+    factoryProxy: ContractRecord;
+  };
+  upgrades: UpgradeRecord[];
+}
+
+export const DEPLOYMENTS_DIR = path.join(__dirname, "..", "..", "deployments");
+
+// In-process forks (FORK_URL) read the manifest of the forked chain
+async function getForkedChainId(): Promise<number | undefined> {
+  try {
+    const metadata = await network.provider.send("hardhat_metadata");
+    return metadata.forkedNetwork?.chainId;
+  } catch {
+    return undefined;
+  }
+}
+
+export async function getManifestPath(): Promise<string> {
+  const forkedChainId = await getForkedChainId();
+  const chainId = forkedChainId ?? (await ethers.provider.getNetwork()).chainId;
+  return path.join(DEPLOYMENTS_DIR, `${chainId}.json`);
+}
+
+export async function loadManifest(): Promise<DeploymentManifest> {
+  const manifestPath = await getManifestPath();
+  if (!fs.existsSync(manifestPath)) {
+    throw new Error(
+      `No deployment manifest for network ${network.name} at ${manifestPath}`
+    );
+  }
+  const manifest = JSON.parse(fs.readFileSync(manifestPath, "utf8"));
+  if (manifest.manifestVersion !== MANIFEST_VERSION) {
+    throw new Error(
+      `Unsupported manifest version ${manifest.manifestVersion} in ${manifestPath} (expected ${MANIFEST_VERSION})`
+    );
+  }
+  return manifest;
+}
+
+export async function saveManifest(manifest: DeploymentManifest) {
+  if ((await getForkedChainId()) !== undefined) {
+    throw new Error("Refusing to write a deployment manifest from a fork");
+  }
+  const manifestPath = await getManifestPath();
+  fs.mkdirSync(path.dirname(manifestPath), { recursive: true });
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2) + "\n");
+  console.log(`Deployment manifest written to ${manifestPath}`);
+}
+
+// A new deployment must not replace the manifest, and with it the upgrade
+// history, of an earlier one unless --overwrite-manifest is given
+export async function checkManifestOverwrite() {
+  const manifestPath = await getManifestPath();
+  if (fs.existsSync(manifestPath) && !getArg("overwrite-manifest")) {
+    throw new Error(
+      `${manifestPath} already records a deployment on ${network.name}. Pass --overwrite-manifest to archive it and record a new one.`
+    );
+  }
+}
+
+// Writes the manifest of a new deployment, moving an existing one to
+// deployments/<chainId>.<timestamp>.json first
+export async function createManifest(manifest: DeploymentManifest) {
+  await checkManifestOverwrite();
+  const manifestPath = await getManifestPath();
+  if (fs.existsSync(manifestPath)) {
+    const archivePath = manifestPath.replace(/\.json$/, `.${Date.now()}.json`);
+    fs.renameSync(manifestPath, archivePath);
+    console.log(`Previous deployment manifest archived to ${archivePath}`);
+  }
+  await saveManifest(manifest);
+}
+
+// Compiler used for contracts/, so verification can be reproduced later
+export function getCompilerSettings(): DeploymentManifest["compiler"] {
+  const toRecord = (compiler: SolcConfig): CompilerRecord => {
+    const { outputSelection, ...settings }: CompilerInput["settings"] =
+      compiler.settings;
+    return { version: compiler.version, settings };
+  };
+  const [compiler] = config.solidity.compilers;
+  const overrides = Object.entries(config.solidity.overrides);
+  return {
+    ...toRecord(compiler),
+    ...(overrides.length > 0 && {
+      overrides: Object.fromEntries(
+        overrides.map(([source, override]) => [source, toRecord(override)])
+      ),
+    }),
+  };
+}
+
+export async function toContractRecord(
+  address: string,
+  tx?: TransactionResponse | ContractTransactionResponse | null
+): Promise<ContractRecord> {
+  if (!tx) {
+    return { address };
+  }
+  const receipt = await tx.wait();
+  return {
+    address,
+    txHash: tx.hash,
+    blockNumber: receipt?.blockNumber,
+  };
+}
+
+export async function appendUpgrade(
+  manifest: DeploymentManifest,
+  upgrade: UpgradeRecord
+) {
+  manifest.upgrades.push(upgrade);
+  manifest.contracts.factoryImplementation = {
+    address: upgrade.newImplementation,
+  };
+  if (upgrade.launchPoolImplementation) {
+    manifest.contracts.launchPoolImplementation =
+      upgrade.launchPoolImplementation;
+  }
+  await saveManifest(manifest);
+}
@@ -0,0 +1,58 @@
+import { config, ethers, network } from "hardhat";
+
+export interface NetworkMetadata {
+  name: string;
+  displayName: string;
+  chainId: number;
+  explorerUrl?: string;
+}
+
+// "morphHolesky" -> "Morph Holesky"
+function toDisplayName(name: string): string {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/^./, (c) => c.toUpperCase());
+}
+
+// Metadata of the active network, from config.networks and the explorer
+// entries in config.etherscan.customChains
+export async function getNetworkMetadata(): Promise<NetworkMetadata> {
+  const { customChains } = config.etherscan;
+  let customChain = customChains.find(
+    (chain) => chain.network === network.name
+  );
+  const chainId =
+    config.networks[network.name]?.chainId ??
+    customChain?.chainId ??
+    Number((await ethers.provider.getNetwork()).chainId);
+  customChain ??= customChains.find((chain) => chain.chainId === chainId);
+  return {
+    name: network.name,
+    displayName: toDisplayName(network.name),
+    chainId,
+    explorerUrl: customChain?.urls.browserURL.replace(/\/$/, ""),
+  };
+}
+
+export function getExplorerAddressUrl(
+  metadata: NetworkMetadata,
+  address: string
+): string | undefined {
+  return metadata.explorerUrl
+    ? `${metadata.explorerUrl}/address/${address}#code`
+    : undefined;
+}
+
+export function logExplorerLinks(
+  metadata: NetworkMetadata,
+  contracts: Record<string, string>
+) {
+  if (!metadata.explorerUrl) {
+    console.log(`\nNo explorer configured for ${metadata.displayName}`);
+    return;
+  }
+  console.log(`\nExplorer Links (${metadata.displayName}):`);
+  for (const [label, address] of Object.entries(contracts)) {
+    console.log(`- ${label}: ${getExplorerAddressUrl(metadata, address)}`);
+  }
+}
@@ -0,0 +1,441 @@
+import { artifacts, ethers, network, upgrades } from "hardhat";
+import { Result } from "ethers";
+import { Manifest } from "@openzeppelin/upgrades-core";
+import type { CompilerOutputContract } from "hardhat/types";
+import { DeploymentManifest } from "./manifest";
+import { UpgradePlan, getUpgradeCall } from "./upgradePlan";
+
+// Storage layout as solc outputs it with the storageLayout output selection.
+// The OpenZeppelin manifest records the same shape, with enum members as
+// strings.
+export interface StorageItem {
+  astId?: number;
+  contract: string;
+  label: string;
+  offset: number;
+  slot: string;
+  type: string;
+}
+
+export interface StorageType {
+  encoding?: "inplace" | "mapping" | "dynamic_array" | "bytes";
+  label: string;
+  numberOfBytes?: string;
+  // Mappings
+  key?: string;
+  value?: string;
+  // Arrays
+  base?: string;
+  // Structs, or enums in the OpenZeppelin manifest
+  members?: (StorageItem | string)[];
+}
+
+export interface StorageLayout {
+  storage: StorageItem[];
+  // null for contracts without storage
+  types: Record<string, StorageType | undefined> | null;
+}
+
+export type SlotChange = "appended" | "inserted" | "changed" | "removed";
+
+export interface StorageSlotDiff {
+  slot: string;
+  offset: number;
+  label: string;
+  type: string;
+  change: SlotChange;
+  previous?: { label: string; type: string };
+}
+
+export interface StructDiff {
+  struct: string;
+  appendedMembers: string[];
+  changedMembers: string[];
+}
+
+export interface StorageLayoutDiff {
+  unchanged: number;
+  slots: StorageSlotDiff[];
+  structs: StructDiff[];
+}
+
+function typeLabel(layout: StorageLayout, typeId: string): string {
+  return layout.types?.[typeId]?.label ?? typeId;
+}
+
+function structMembers(layout: StorageLayout, typeId: string): string[] {
+  const members = layout.types?.[typeId]?.members ?? [];
+  return members
+    .filter((member): member is StorageItem => typeof member !== "string")
+    .map((member) => `${member.label}: ${typeLabel(layout, member.type)}`);
+}
+
+// Layout of the implementation the proxy currently points to, as recorded by
+// the OpenZeppelin network manifest when it was deployed
+async function getDeployedLayout(
+  implementationAddress: string,
+  fallbackContractName: string
+): Promise<StorageLayout> {
+  const manifest = await Manifest.forNetwork(network.provider);
+  const data = await manifest.read();
+  const address = implementationAddress.toLowerCase();
+  const impl = Object.values(data.impls).find(
+    (deployment) =>
+      deployment !== undefined &&
+      (deployment.address.toLowerCase() === address ||
+        deployment.allAddresses?.some((a) => a.toLowerCase() === address))
+  );
+  if (impl) {
+    return impl.layout as StorageLayout;
+  }
+  console.log(
+    `⚠️  ${implementationAddress} is not in the OpenZeppelin manifest, using the ${fallbackContractName} layout from the current sources`
+  );
+  return getCompiledLayout(fallbackContractName);
+}
+
+async function getCompiledLayout(contractName: string): Promise<StorageLayout> {
+  const artifact = await artifacts.readArtifact(contractName);
+  const buildInfo = await artifacts.getBuildInfo(
+    `${artifact.sourceName}:${artifact.contractName}`
+  );
+  const output:
+    | (CompilerOutputContract & { storageLayout?: StorageLayout })
+    | undefined =
+    buildInfo?.output.contracts[artifact.sourceName][artifact.contractName];
+  if (!output?.storageLayout) {
+    throw new Error(`No storage layout in the build info of ${contractName}`);
+  }
+  return output.storageLayout;
+}
+
+export function diffStorageLayout(
+  previous: StorageLayout,
+  next: StorageLayout
+): StorageLayoutDiff {
+  const key = (item: StorageItem) => `${item.slot}:${item.offset}`;
+  const previousItems = new Map(previous.storage.map((i) => [key(i), i]));
+  const nextKeys = new Set(next.storage.map(key));
+  const lastPreviousSlot = previous.storage.reduce(
+    (max, item) => (BigInt(item.slot) > max ? BigInt(item.slot) : max),
+    -1n
+  );
+
+  const diff: StorageLayoutDiff = { unchanged: 0, slots: [], structs: [] };
+  for (const item of next.storage) {
+    const type = typeLabel(next, item.type);
+    const old = previousItems.get(key(item));
+    if (!old) {
+      diff.slots.push({
+        slot: item.slot,
+        offset: item.offset,
+        label: item.label,
+        type,
+        change: BigInt(item.slot) > lastPreviousSlot ? "appended" : "inserted",
+      });
+      continue;
+    }
+    const oldType = typeLabel(previous, old.type);
+    if (old.label === item.label && oldType === type) {
+      diff.unchanged++;
+    } else {
+      diff.slots.push({
+        slot: item.slot,
+        offset: item.offset,
+        label: item.label,
+        type,
+        change: "changed",
+        previous: { label: old.label, type: oldType },
+      });
+    }
+  }
+  for (const old of previous.storage) {
+    if (!nextKeys.has(key(old))) {
+      diff.slots.push({
+        slot: old.slot,
+        offset: old.offset,
+        label: old.label,
+        type: typeLabel(previous, old.type),
+        change: "removed",
+      });
+    }
+  }
+
+  // Structs stored in mappings don't show up as slots, compare their members
+  const previousStructs = new Map(
+    Object.keys(previous.types ?? {}).map((id) => [typeLabel(previous, id), id])
+  );
+  for (const id of Object.keys(next.types ?? {})) {
+    const nextMembers = structMembers(next, id);
+    const previousId = previousStructs.get(typeLabel(next, id));
+    if (nextMembers.length === 0 || previousId === undefined) {
+      continue;
+    }
+    const oldMembers = structMembers(previous, previousId);
+    const changedMembers = oldMembers.filter((m, i) => nextMembers[i] !== m);
+    const appendedMembers = nextMembers.slice(oldMembers.length);
+    if (changedMembers.length > 0 || appendedMembers.length > 0) {
+      diff.structs.push({
+        struct: typeLabel(next, id),
+        appendedMembers,
+        changedMembers,
+      });
+    }
+  }
+
+  return diff;
+}
+
+export function printStorageDiff(diff: StorageLayoutDiff) {
+  console.log(`Unchanged slots: ${diff.unchanged}`);
+  if (diff.slots.length === 0 && diff.structs.length === 0) {
+    console.log("No storage layout changes");
+    return;
+  }
+  for (const item of diff.slots) {
+    const location = `slot ${item.slot}, offset ${item.offset}`;
+    const change = item.change.toUpperCase().padEnd(8);
+    const previous = item.previous
+      ? ` (was ${item.previous.label}: ${item.previous.type})`
+      : "";
+    console.log(
+      `  ${change} ${location}: ${item.label}: ${item.type}${previous}`
+    );
+  }
+  for (const struct of diff.structs) {
+    console.log(`  STRUCT   ${struct.struct}`);
+    for (const member of struct.changedMembers) {
+      console.log(`    - changed: ${member}`);
+    }
+    for (const member of struct.appendedMembers) {
+      console.log(`    + appended: ${member}`);
+    }
+  }
+}
+
+// Contract the proxy currently runs: --previous-contract, else the last
+// upgrade in the manifest, else what deploy.ts deploys
+export function getDeployedContractName(
+  plan: UpgradePlan,
+  deployment: DeploymentManifest
+): string {
+  return (
+    plan.previousContractName ??
+    deployment.upgrades.at(-1)?.contractName ??
+    "LaunchPoolFactoryUpgradeable"
+  );
+}
+
+export async function checkStorageLayout(
+  proxyAddress: string,
+  plan: UpgradePlan,
+  deployment: DeploymentManifest
+) {
+  const currentImplementation = await upgrades.erc1967.getImplementationAddress(
+    proxyAddress
+  );
+  const deployedContractName = getDeployedContractName(plan, deployment);
+  const previous = await getDeployedLayout(
+    currentImplementation,
+    deployedContractName
+  );
+  const next = await getCompiledLayout(plan.contractName);
+
+  console.log(
+    `Storage layout diff (${deployedContractName} at ${currentImplementation} → ${plan.contractName}):`
+  );
+  printStorageDiff(diffStorageLayout(previous, next));
+
+  // Authoritative compatibility check, throws on an unsafe layout change
+  const Candidate = await ethers.getContractFactory(plan.contractName);
+  await upgrades.validateUpgrade(proxyAddress, Candidate, { kind: "uups" });
+  console.log("✅ Storage layout is upgrade safe");
+}
+
+function serialize(value: unknown): string {
+  return JSON.stringify(value, (_, v) =>
+    typeof v === "bigint" ? v.toString() : v
+  );
+}
+
+// Decoded structs as objects keyed by field name, arrays as arrays
+function toPlain(value: unknown): unknown {
+  if (!(value instanceof Result)) {
+    return value;
+  }
+  let fields: Record<string, unknown>;
+  try {
+    fields = value.toObject();
+  } catch {
+    // Arrays and tuples have unnamed values
+    return [...value].map(toPlain);
+  }
+  return Object.fromEntries(
+    Object.entries(fields).map(([key, field]) => [key, toPlain(field)])
+  );
+}
+
+export interface FieldDiff {
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+// Differences between two decoded values in the fields both have, so fields
+// one version of the factory adds or drops don't count as changes
+export function diffSharedFields(
+  before: unknown,
+  after: unknown,
+  path = ""
+): FieldDiff[] {
+  if (Array.isArray(before) && Array.isArray(after)) {
+    if (before.length !== after.length) {
+      return [
+        { path: `${path}.length`, before: before.length, after: after.length },
+      ];
+    }
+    return before.flatMap((item, i) =>
+      diffSharedFields(item, after[i], `${path}[${i}]`)
+    );
+  }
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+  if (isObject(before) && isObject(after)) {
+    return Object.keys(before)
+      .filter((key) => key in after)
+      .flatMap((key) =>
+        diffSharedFields(before[key], after[key], path ? `${path}.${key}` : key)
+      );
+  }
+  return before === after ? [] : [{ path, before, after }];
+}
+
+// getProject and getProjectPools of every project, decoded with the ABI of
+// `contractName`
+async function readProjects(
+  proxyAddress: string,
+  contractName: string
+): Promise<unknown[]> {
+  const factory = await ethers.getContractAt(contractName, proxyAddress);
+  const projects: unknown[] = [];
+  try {
+    const nextProjectId: bigint = await factory.nextProjectId();
+    for (let projectId = 0n; projectId < nextProjectId; projectId++) {
+      const [project, pools] = await Promise.all([
+        factory.getProject(projectId),
+        factory.getProjectPools(projectId),
+      ]);
+      projects.push({ project: toPlain(project), pools: toPlain(pools) });
+    }
+  } catch (error: any) {
+    throw new Error(
+      `Can't read project ${projects.length} with the ${contractName} ABI, pass the contract the proxy runs with --previous-contract: ${error.message}`
+    );
+  }
+  return projects;
+}
+
+export async function supportsSnapshots(): Promise<boolean> {
+  try {
+    const snapshotId = await network.provider.send("evm_snapshot");
+    await network.provider.send("evm_revert", [snapshotId]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Runs the upgrade and reinitializer as the factory owner on a snapshot of the
+// current state, then reverts. Returns the ids of projects whose getProject or
+// getProjectPools output changed, in the fields the deployed contract and the
+// candidate both return.
+export async function dryRunUpgrade(
+  proxyAddress: string,
+  plan: UpgradePlan,
+  deployment: DeploymentManifest
+): Promise<number[]> {
+  const factory = await ethers.getContractAt(
+    "LaunchPoolFactoryUpgradeable",
+    proxyAddress
+  );
+  const owner = await factory.owner();
+  const before = await readProjects(
+    proxyAddress,
+    getDeployedContractName(plan, deployment)
+  );
+
+  const snapshotId = await network.provider.send("evm_snapshot");
+  try {
+    const signer = await ethers.getImpersonatedSigner(owner);
+    await network.provider.send("hardhat_setBalance", [
+      owner,
+      ethers.toQuantity(ethers.parseEther("100")),
+    ]);
+
+    let poolImplementation: string | undefined;
+    if (plan.poolContractName) {
+      const PoolImplementation = await ethers.getContractFactory(
+        plan.poolContractName,
+        signer
+      );
+      const poolImpl = await PoolImplementation.deploy();
+      await poolImpl.waitForDeployment();
+      poolImplementation = await poolImpl.getAddress();
+    }
+
+    const Candidate = await ethers.getContractFactory(
+      plan.contractName,
+      signer
+    );
+    const upgraded = await upgrades.upgradeProxy(proxyAddress, Candidate, {
+      kind: "uups",
+      call: getUpgradeCall(plan, poolImplementation),
+    });
+    await upgraded.waitForDeployment();
+
+    const after = await readProjects(proxyAddress, plan.contractName);
+    const mismatches: number[] = [];
+    before.forEach((project, projectId) => {
+      const diffs = diffSharedFields(project, after[projectId]);
+      if (diffs.length > 0) {
+        console.log(`❌ Project ${projectId} differs after the upgrade`);
+        for (const diff of diffs) {
+          console.log(
+            `  ${diff.path}: ${serialize(diff.before)} → ${serialize(
+              diff.after
+            )}`
+          );
+        }
+        mismatches.push(projectId);
+      }
+    });
+    return mismatches;
+  } finally {
+    await network.provider.send("evm_revert", [snapshotId]);
+    await network.provider.send("hardhat_stopImpersonatingAccount", [owner]);
+  }
+}
+
+export async function runPreflight(
+  proxyAddress: string,
+  plan: UpgradePlan,
+  deployment: DeploymentManifest
+) {
+  console.log("\n🛫 Running upgrade preflight...");
+  await checkStorageLayout(proxyAddress, plan, deployment);
+
+  if (!(await supportsSnapshots())) {
+    console.log(
+      `⚠️  ${network.name} doesn't support snapshots, dry run skipped. Run it on a fork first: FORK_URL=<rpc url> npx hardhat run scripts/preflight.ts`
+    );
+    return;
+  }
+  console.log("\nDry-running the upgrade on a snapshot...");
+  const mismatches = await dryRunUpgrade(proxyAddress, plan, deployment);
+  if (mismatches.length > 0) {
+    throw new Error(
+      `Upgrade changes the state of projects ${mismatches.join(", ")}`
+    );
+  }
+  console.log("✅ Dry run preserved every project and pool");
+}
@@ -0,0 +1,48 @@
+import { getArg, getJsonArg, requireArg } from "./args";
+
+// Placeholder in --reinitializer-args replaced by the address of the pool
+// implementation deployed with --pool-contract, e.g.
+// --reinitializer-args='["$poolImplementation"]'
+export const POOL_IMPLEMENTATION_PLACEHOLDER = "$poolImplementation";
+
+export interface UpgradePlan {
+  contractName: string;
+  // Contract the proxy currently runs, when the manifest doesn't record it
+  previousContractName?: string;
+  poolContractName?: string;
+  reinitializer?: string;
+  reinitializerArgs: unknown[];
+}
+
+export function readUpgradePlan(): UpgradePlan {
+  return {
+    contractName: requireArg("contract"),
+    previousContractName: getArg("previous-contract"),
+    poolContractName: getArg("pool-contract"),
+    reinitializer: getArg("reinitializer"),
+    reinitializerArgs: getJsonArg<unknown[]>("reinitializer-args", []),
+  };
+}
+
+// The `call` option for upgradeProxy, so the upgrade and the reinitializer run
+// atomically through upgradeToAndCall
+export function getUpgradeCall(
+  plan: UpgradePlan,
+  poolImplementation?: string
+): { fn: string; args: unknown[] } | undefined {
+  if (!plan.reinitializer) {
+    return undefined;
+  }
+  const args = plan.reinitializerArgs.map((arg) => {
+    if (arg !== POOL_IMPLEMENTATION_PLACEHOLDER) {
+      return arg;
+    }
+    if (!poolImplementation) {
+      throw new Error(
+        `${POOL_IMPLEMENTATION_PLACEHOLDER} used without deploying --pool-contract`
+      );
+    }
+    return poolImplementation;
+  });
+  return { fn: plan.reinitializer, args };
+}
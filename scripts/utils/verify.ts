@@ -0,0 +1,113 @@
+import { ethers, run } from "hardhat";
+import { LaunchPoolFactoryUpgradeable__factory } from "../../typechain-types";
+import { getLogsInChunks } from "../../reports/history";
+import { getExplorerAddressUrl, getNetworkMetadata } from "./network";
+
+// Runtime code of an EIP-1167 minimal proxy, around the implementation address
+const MINIMAL_PROXY_PREFIX = "0x363d3d373d3d3d363d73";
+const MINIMAL_PROXY_SUFFIX = "5af43d82803e903d91602b57fd5bf3";
+
+async function logExplorerLink(address: string) {
+  const explorerLink = getExplorerAddressUrl(
+    await getNetworkMetadata(),
+    address
+  );
+  if (explorerLink) {
+    console.log(`🔍 View on explorer: ${explorerLink}`);
+  }
+}
+
+// Implementation a minimal proxy delegates to, undefined for other code
+export function getMinimalProxyImplementation(
+  code: string
+): string | undefined {
+  const lower = code.toLowerCase();
+  if (
+    lower.length !==
+      MINIMAL_PROXY_PREFIX.length + 40 + MINIMAL_PROXY_SUFFIX.length ||
+    !lower.startsWith(MINIMAL_PROXY_PREFIX) ||
+    !lower.endsWith(MINIMAL_PROXY_SUFFIX)
+  ) {
+    return undefined;
+  }
+  return ethers.getAddress(
+    `0x${lower.slice(
+      MINIMAL_PROXY_PREFIX.length,
+      MINIMAL_PROXY_PREFIX.length + 40
+    )}`
+  );
+}
+
+export interface PoolClone {
+  pool: string;
+  projectId: bigint;
+  // Undefined when the pool isn't a minimal proxy
+  implementation?: string;
+}
+
+// Every pool the factory cloned, from its NewLaunchPool logs. Every factory
+// version emits them the same way, unlike getProjectPools whose output grew.
+export async function findPoolClones(
+  factory: string,
+  fromBlock: number
+): Promise<PoolClone[]> {
+  const factoryInterface =
+    LaunchPoolFactoryUpgradeable__factory.createInterface();
+  const logs = await getLogsInChunks(
+    ethers.provider,
+    {
+      address: factory,
+      topics: [factoryInterface.getEvent("NewLaunchPool").topicHash],
+    },
+    fromBlock,
+    await ethers.provider.getBlockNumber(),
+    2000
+  );
+  const clones: PoolClone[] = [];
+  for (const log of logs) {
+    const event = factoryInterface.parseLog(log)!;
+    const pool: string = event.args.launchPool;
+    clones.push({
+      pool,
+      projectId: event.args.projectId,
+      implementation: getMinimalProxyImplementation(
+        await ethers.provider.getCode(pool)
+      ),
+    });
+  }
+  return clones;
+}
+
+export async function verifyContract(
+  address: string,
+  constructorArguments: any[] = [],
+  contract?: string
+): Promise<boolean> {
+  console.log(`\n${"-".repeat(80)}`);
+  console.log(
+    `Verifying contract${contract ? ` ${contract}` : ""} at ${address}`
+  );
+  try {
+    await run("verify:verify", {
+      address,
+      constructorArguments,
+    });
+    console.log("✅ Verification successful");
+    await logExplorerLink(address);
+    return true;
+  } catch (error: any) {
+    if (error.message.includes("Already Verified")) {
+      console.log("ℹ️  Contract is already verified");
+      await logExplorerLink(address);
+      return true;
+    } else if (error.message.includes("Reason: Proxy implementation")) {
+      // Proxy is verified but needs to be linked with implementation
+      console.log("✅ Proxy verification successful");
+      await logExplorerLink(address);
+      return true;
+    } else {
+      console.error("❌ Error verifying contract:", error);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,91 @@
+import { loadManifest } from "./utils/manifest";
+import { getNetworkMetadata, logExplorerLinks } from "./utils/network";
+import { findPoolClones, verifyContract } from "./utils/verify";
+
+async function main() {
+  console.log("\n🔍 Starting verification process...\n");
+  const manifest = await loadManifest();
+  console.log(`Loaded deployment manifest for ${manifest.displayName}`);
+
+  const failures: string[] = [];
+  async function verify(address: string, contract: string) {
+    if (!(await verifyContract(address, [], contract))) {
+      failures.push(`${contract} at ${address}`);
+    }
+  }
+
+  // Verify core contracts
+  console.log("\n1️⃣  Verifying core contracts...");
+  const launchPoolImplementation =
+    manifest.contracts.launchPoolImplementation.address;
+  await verify(launchPoolImplementation, "LaunchPool Implementation");
+  await verify(
+    manifest.contracts.factoryImplementation.address,
+    "LaunchPoolFactory Implementation"
+  );
+  await verify(manifest.contracts.factoryProxy.address, "Factory Proxy");
+
+  // Pool clones are EIP-1167 minimal proxies, which match no artifact. The
+  // explorer shows them as proxies of their implementation once it's
+  // verified, so verify each implementation the clones use once instead.
+  console.log("\n2️⃣  Verifying pool implementations...");
+  const clones = await findPoolClones(
+    manifest.contracts.factoryProxy.address,
+    manifest.contracts.factoryProxy.blockNumber ?? 0
+  );
+  const implementations = new Set([launchPoolImplementation.toLowerCase()]);
+  for (const clone of clones) {
+    if (!clone.implementation) {
+      failures.push(
+        `LaunchPool (project ${clone.projectId}) at ${clone.pool}, not a minimal proxy`
+      );
+      continue;
+    }
+    console.log(
+      `LaunchPool (project ${clone.projectId}) at ${clone.pool}: minimal proxy of ${clone.implementation}`
+    );
+    if (!implementations.has(clone.implementation.toLowerCase())) {
+      implementations.add(clone.implementation.toLowerCase());
+      // Pools cloned before an upgrade of the LaunchPool implementation
+      await verify(clone.implementation, "Previous LaunchPool Implementation");
+    }
+  }
+
+  // Summary
+  console.log("\n📋 Verification Summary");
+  console.log("=".repeat(80));
+  console.log(
+    "- LaunchPool Implementation:",
+    manifest.contracts.launchPoolImplementation.address
+  );
+  console.log("- Factory Proxy:", manifest.contracts.factoryProxy.address);
+  console.log(
+    "- Factory Implementation:",
+    manifest.contracts.factoryImplementation.address
+  );
+  console.log(
+    `- Pool clones: ${clones.length}, of ${implementations.size} implementations`
+  );
+  logExplorerLinks(await getNetworkMetadata(), {
+    "LaunchPool Implementation":
+      manifest.contracts.launchPoolImplementation.address,
+    "Factory Proxy": manifest.contracts.factoryProxy.address,
+    "Factory Implementation": manifest.contracts.factoryImplementation.address,
+  });
+  console.log("=".repeat(80));
+
+  if (failures.length > 0) {
+    console.log(`\n❌ ${failures.length} verifications failed:`);
+    for (const failure of failures) {
+      console.log(`- ${failure}`);
+    }
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .then(() => process.exit())
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,288 @@
+import type {
+  BlockTag,
+  ContractRunner,
+  ContractTransactionResponse,
+} from "ethers";
+import {
+  IERC20__factory,
+  LaunchPoolFactoryUpgradeable__factory,
+  LaunchPool__factory,
+  LegacyLaunchPool__factory,
+} from "../typechain-types";
+import type { LaunchPool, LegacyLaunchPool } from "../typechain-types";
+import type { PoolState } from "./rewards";
+import {
+  ClaimableReward,
+  LEGACY_POOL_VERSION,
+  LockPosition,
+  PendingReward,
+  UserInfo,
+  VestingInfo,
+  isEthToken,
+} from "./types";
+
+export interface DepositOptions {
+  // Approve the pool for the amount first if the allowance is too low
+  approve?: boolean;
+}
+
+// Staking actions and reads for a single LaunchPool clone. The reward engine
+// reads also work on legacy pools, see LEGACY_POOL_VERSION.
+export class LaunchPoolClient {
+  readonly contract: LaunchPool;
+  private stakedTokenAddress?: string;
+  private poolVersion?: number;
+
+  constructor(readonly address: string, readonly runner: ContractRunner) {
+    this.contract = LaunchPool__factory.connect(address, runner);
+  }
+
+  // Version of LaunchPool the factory cloned this pool from
+  async version(): Promise<number> {
+    if (this.poolVersion === undefined) {
+      const factory = LaunchPoolFactoryUpgradeable__factory.connect(
+        await this.contract.factory(),
+        this.runner
+      );
+      this.poolVersion = Number(await factory.getPoolVersion(this.address));
+    }
+    return this.poolVersion;
+  }
+
+  // Legacy pools share rewards by stake over the project's times, without
+  // weights or locks
+  async isLegacy(): Promise<boolean> {
+    return (await this.version()) <= LEGACY_POOL_VERSION;
+  }
+
+  private get legacy(): LegacyLaunchPool {
+    return LegacyLaunchPool__factory.connect(this.address, this.runner);
+  }
+
+  async stakedToken(): Promise<string> {
+    this.stakedTokenAddress ??= await this.contract.stakedToken();
+    return this.stakedTokenAddress;
+  }
+
+  async isEthPool(): Promise<boolean> {
+    return isEthToken(await this.stakedToken());
+  }
+
+  // Stakes `amount`, sent as msg.value for ETH pools and pulled with
+  // transferFrom otherwise
+  async deposit(
+    amount: bigint,
+    options: DepositOptions = {}
+  ): Promise<ContractTransactionResponse> {
+    if (await this.isEthPool()) {
+      return this.contract.deposit(amount, { value: amount });
+    }
+    await this.approveIfNeeded(amount, options);
+    return this.contract.deposit(amount);
+  }
+
+  // Stakes `amount` locked for `lockDuration` seconds, capped at the end of
+  // the pool, see lockBoost for the boost it gets
+  async depositLocked(
+    amount: bigint,
+    lockDuration: number,
+    options: DepositOptions = {}
+  ): Promise<ContractTransactionResponse> {
+    if (await this.isEthPool()) {
+      return this.contract.depositLocked(amount, lockDuration, {
+        value: amount,
+      });
+    }
+    await this.approveIfNeeded(amount, options);
+    return this.contract.depositLocked(amount, lockDuration);
+  }
+
+  withdraw(amount: bigint): Promise<ContractTransactionResponse> {
+    return this.contract.withdraw(amount);
+  }
+
+  claimReward(): Promise<ContractTransactionResponse> {
+    return this.contract.claimReward();
+  }
+
+  emergencyWithdraw(): Promise<ContractTransactionResponse> {
+    return this.contract.emergencyWithdraw();
+  }
+
+  // Writes down `user`'s locks that are over and settles their rewards.
+  // Locks stop boosting at their unlock time without it.
+  poke(user: string): Promise<ContractTransactionResponse> {
+    return this.contract.poke(user);
+  }
+
+  pendingReward(user: string): Promise<bigint> {
+    return this.contract.pendingReward(user);
+  }
+
+  // Pending rewards of every reward token, rewardToken first
+  async pendingRewards(
+    user: string,
+    blockTag?: BlockTag
+  ): Promise<PendingReward[]> {
+    const [rewardTokens, amounts] = await this.contract.getPendingRewards(
+      user,
+      { blockTag }
+    );
+    return rewardTokens.map((rewardToken, i) => ({
+      rewardToken,
+      amount: amounts[i],
+    }));
+  }
+
+  // How much of pendingReward the project's claim policy lets `user` claim now
+  async claimableReward(
+    user: string,
+    blockTag?: BlockTag
+  ): Promise<ClaimableReward> {
+    const [claimable, locked] = await this.contract.claimableReward(user, {
+      blockTag,
+    });
+    return { claimable, locked };
+  }
+
+  async vestingInfo(user: string, blockTag?: BlockTag): Promise<VestingInfo> {
+    const [vested, claimed, locked] = await this.contract.vestingInfo(user, {
+      blockTag,
+    });
+    return { vested, claimed, locked };
+  }
+
+  // Legacy pools weigh the stake 1x
+  async userInfo(user: string, blockTag?: BlockTag): Promise<UserInfo> {
+    if (await this.isLegacy()) {
+      const { amount, rewardDebt, pendingRewards } = await this.legacy.userInfo(
+        user,
+        { blockTag }
+      );
+      return { amount, rewardDebt, pendingRewards, weight: amount };
+    }
+    const { amount, rewardDebt, pendingRewards, weight } =
+      await this.contract.userInfo(user, { blockTag });
+    return { amount, rewardDebt, pendingRewards, weight };
+  }
+
+  async lockPositions(
+    user: string,
+    blockTag?: BlockTag
+  ): Promise<LockPosition[]> {
+    if (await this.isLegacy()) {
+      return [];
+    }
+    const positions = await this.contract.getLockPositions(user, { blockTag });
+    return positions.map((position) => ({
+      amount: position.amount,
+      weight: position.weight,
+      unlockTime: Number(position.unlockTime),
+    }));
+  }
+
+  // Boost, in basis points, and unlock time of a lock made at the latest block
+  async lockBoost(
+    lockDuration: number
+  ): Promise<{ boostBps: bigint; unlockTime: number }> {
+    const [boostBps, unlockTime] = await this.contract.getLockBoost(
+      lockDuration
+    );
+    return { boostBps, unlockTime: Number(unlockTime) };
+  }
+
+  // Snapshot of the reward state for the off-chain RewardEngine
+  async poolState(blockTag?: BlockTag): Promise<PoolState> {
+    if (await this.isLegacy()) {
+      return this.legacyPoolState(blockTag);
+    }
+    const [
+      accTokenPerShare,
+      lastRewardTime,
+      rewardPerSecond,
+      precisionFactor,
+      totalStaked,
+      totalWeight,
+      [startTime, endTime],
+      [unlockTimes, unlockWeights],
+    ] = await Promise.all([
+      this.contract.accTokenPerShare({ blockTag }),
+      this.contract.lastRewardTime({ blockTag }),
+      this.contract.rewardPerSecond({ blockTag }),
+      this.contract.PRECISION_FACTOR({ blockTag }),
+      this.contract.totalStaked({ blockTag }),
+      this.contract.totalWeight({ blockTag }),
+      this.contract.getPoolTimes({ blockTag }),
+      this.contract.getPendingUnlocks({ blockTag }),
+    ]);
+    return {
+      accTokenPerShare,
+      lastRewardTime: Number(lastRewardTime),
+      rewardPerSecond,
+      precisionFactor,
+      totalStaked,
+      totalWeight,
+      startTime: Number(startTime),
+      endTime: Number(endTime),
+      unlocks: unlockTimes
+        .map((unlockTime, i) => ({
+          unlockTime: Number(unlockTime),
+          weight: unlockWeights[i],
+        }))
+        .sort((a, b) => a.unlockTime - b.unlockTime),
+    };
+  }
+
+  // Legacy pools share rewards by totalStaked over the project's times
+  private async legacyPoolState(blockTag?: BlockTag): Promise<PoolState> {
+    const pool = this.legacy;
+    const [
+      accTokenPerShare,
+      lastRewardTime,
+      rewardPerSecond,
+      precisionFactor,
+      totalStaked,
+      [startTime, endTime],
+    ] = await Promise.all([
+      pool.accTokenPerShare({ blockTag }),
+      pool.lastRewardTime({ blockTag }),
+      pool.rewardPerSecond({ blockTag }),
+      pool.PRECISION_FACTOR({ blockTag }),
+      pool.totalStaked({ blockTag }),
+      pool.getProjectTimes({ blockTag }),
+    ]);
+    return {
+      accTokenPerShare,
+      lastRewardTime: Number(lastRewardTime),
+      rewardPerSecond,
+      precisionFactor,
+      totalStaked,
+      totalWeight: totalStaked,
+      startTime: Number(startTime),
+      endTime: Number(endTime),
+      unlocks: [],
+    };
+  }
+
+  private async approveIfNeeded(amount: bigint, options: DepositOptions) {
+    if (!options.approve || amount === 0n) {
+      return;
+    }
+    const token = IERC20__factory.connect(
+      await this.stakedToken(),
+      this.runner
+    );
+    const owner = await this.signerAddress();
+    if ((await token.allowance(owner, this.address)) < amount) {
+      await (await token.approve(this.address, amount)).wait();
+    }
+  }
+
+  private async signerAddress(): Promise<string> {
+    const signer = this.runner as { getAddress?: () => Promise<string> };
+    if (!signer.getAddress) {
+      throw new Error("Sending transactions needs a signer as the runner");
+    }
+    return signer.getAddress();
+  }
+}
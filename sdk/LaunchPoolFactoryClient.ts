@@ -0,0 +1,133 @@
+import type { ContractRunner } from "ethers";
+import { LaunchPoolFactoryUpgradeable__factory } from "../typechain-types";
+import type { LaunchPoolFactoryUpgradeable } from "../typechain-types";
+import { LaunchPoolClient } from "./LaunchPoolClient";
+import {
+  ClaimPolicy,
+  ClaimSettings,
+  CurrentStatus,
+  PoolInfo,
+  PoolMetadata,
+  ProjectInfo,
+  ProjectStatus,
+  parseCurrentStatus,
+} from "./types";
+
+type ProjectInfoOutput = Awaited<
+  ReturnType<LaunchPoolFactoryUpgradeable["getProject"]>
+>;
+type PoolInfoOutput = ProjectInfoOutput["poolInfos"][number];
+
+export function decodePoolInfo(pool: PoolInfoOutput): PoolInfo {
+  return {
+    poolAddress: pool.poolAddress,
+    stakedToken: pool.stakedToken,
+    rewardToken: pool.rewardToken,
+    rewardPerSecond: pool.rewardPerSecond,
+    startTime: Number(pool.startTime),
+    endTime: Number(pool.endTime),
+    poolLimitPerUser: pool.poolLimitPerUser,
+    minStakeAmount: pool.minStakeAmount,
+    rewards: pool.rewards.map((reward) => ({
+      rewardToken: reward.rewardToken,
+      poolRewardAmount: reward.poolRewardAmount,
+      rewardPerSecond: reward.rewardPerSecond,
+    })),
+  };
+}
+
+export function decodeClaimSettings(
+  claimSettings: ProjectInfoOutput["claimSettings"]
+): ClaimSettings {
+  return {
+    policy: Number(claimSettings.policy) as ClaimPolicy,
+    unlockTime: Number(claimSettings.unlockTime),
+    vestingCliff: Number(claimSettings.vestingCliff),
+    vestingDuration: Number(claimSettings.vestingDuration),
+    tgeShareBps: Number(claimSettings.tgeShareBps),
+  };
+}
+
+export function decodeProjectInfo(
+  projectId: number,
+  project: ProjectInfoOutput
+): ProjectInfo {
+  const metadata: PoolMetadata = {
+    projectName: project.metadata.projectName,
+    website: project.metadata.website,
+    logo: project.metadata.logo,
+    discord: project.metadata.discord,
+    twitter: project.metadata.twitter,
+    telegram: project.metadata.telegram,
+    tokenInfo: project.metadata.tokenInfo,
+  };
+  return {
+    projectId,
+    rewardToken: project.rewardToken,
+    totalRewardAmount: project.totalRewardAmount,
+    startTime: Number(project.startTime),
+    endTime: Number(project.endTime),
+    status: Number(project.status) as ProjectStatus,
+    pools: [...project.pools],
+    metadata,
+    owner: project.owner,
+    poolInfos: project.poolInfos.map(decodePoolInfo),
+    currentStatus: parseCurrentStatus(project.currentStatus),
+    isActive: project.isActive,
+    claimSettings: decodeClaimSettings(project.claimSettings),
+    isClaimOpen: project.isClaimOpen,
+    rewardTokens: project.rewardTokens.map((token) => ({
+      rewardToken: token.rewardToken,
+      totalRewardAmount: token.totalRewardAmount,
+    })),
+  };
+}
+
+// Read access to the factory's projects and pool clients bound to its runner
+export class LaunchPoolFactoryClient {
+  readonly contract: LaunchPoolFactoryUpgradeable;
+
+  constructor(readonly address: string, readonly runner: ContractRunner) {
+    this.contract = LaunchPoolFactoryUpgradeable__factory.connect(
+      address,
+      runner
+    );
+  }
+
+  async projectCount(): Promise<number> {
+    return Number(await this.contract.nextProjectId());
+  }
+
+  async getProject(projectId: number): Promise<ProjectInfo> {
+    return decodeProjectInfo(
+      projectId,
+      await this.contract.getProject(projectId)
+    );
+  }
+
+  async getProjectPools(projectId: number): Promise<PoolInfo[]> {
+    const pools = await this.contract.getProjectPools(projectId);
+    return pools.map(decodePoolInfo);
+  }
+
+  async getProjectStatus(projectId: number): Promise<CurrentStatus> {
+    return parseCurrentStatus(await this.contract.getProjectStatus(projectId));
+  }
+
+  async getClaimSettings(projectId: number): Promise<ClaimSettings> {
+    return decodeClaimSettings(await this.contract.getClaimSettings(projectId));
+  }
+
+  isClaimOpen(projectId: number): Promise<boolean> {
+    return this.contract.isClaimOpen(projectId);
+  }
+
+  pool(address: string): LaunchPoolClient {
+    return new LaunchPoolClient(address, this.runner);
+  }
+
+  async projectPools(projectId: number): Promise<LaunchPoolClient[]> {
+    const pools = await this.getProjectPools(projectId);
+    return pools.map((pool) => this.pool(pool.poolAddress));
+  }
+}
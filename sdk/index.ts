@@ -0,0 +1,11 @@
+export * from "./types";
+export { LaunchPoolClient } from "./LaunchPoolClient";
+export type { DepositOptions } from "./LaunchPoolClient";
+export {
+  LaunchPoolFactoryClient,
+  decodeClaimSettings,
+  decodePoolInfo,
+  decodeProjectInfo,
+} from "./LaunchPoolFactoryClient";
+export * from "./rewards";
+export * from "./validation";
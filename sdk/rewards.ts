@@ -0,0 +1,713 @@
+import {
+  CLAIM_AT_END,
+  ClaimSettings,
+  LockPosition,
+  UserInfo,
+  VestingInfo,
+} from "./types";
+
+// Off-chain port of the reward accounting in PoolLib and LaunchPool. Every
+// operation mirrors the Solidity arithmetic on bigints, including truncating
+// division and reverting on underflow, so results match pendingReward() to
+// the wei.
+
+// Reward state of a pool, as stored by LaunchPool
+export interface PoolState {
+  accTokenPerShare: bigint;
+  lastRewardTime: number;
+  rewardPerSecond: bigint;
+  precisionFactor: bigint;
+  totalStaked: bigint;
+  // Sum of the users' weights, rewards are shared over it
+  totalWeight: bigint;
+  startTime: number;
+  endTime: number;
+  // Unlock times the pool hasn't reached yet, in order
+  unlocks: PendingUnlock[];
+}
+
+// Locks unlocking at unlockTime, `weight` is the boost they take out of
+// totalWeight then. LaunchPool.getPendingUnlocks lists them.
+export interface PendingUnlock {
+  unlockTime: number;
+  weight: bigint;
+}
+
+export interface RewardCalculationResult {
+  newAccTokenPerShare: bigint;
+  newLastRewardTime: number;
+  pendingReward: bigint;
+}
+
+export const EMPTY_USER_INFO: UserInfo = {
+  amount: 0n,
+  rewardDebt: 0n,
+  pendingRewards: 0n,
+  weight: 0n,
+};
+
+// Checked uint256 subtraction, Solidity reverts instead of wrapping
+function sub(a: bigint, b: bigint): bigint {
+  if (b > a) {
+    throw new Error(`Arithmetic underflow: ${a} - ${b}`);
+  }
+  return a - b;
+}
+
+export function getMultiplier(
+  from: number,
+  to: number,
+  startTime: number,
+  endTime: number
+): bigint {
+  // If start time is after end time, no rewards
+  if (from >= endTime) {
+    return 0n;
+  }
+  // If end time is before start time, no rewards
+  if (to <= startTime) {
+    return 0n;
+  }
+  const actualFrom = from < startTime ? startTime : from;
+  const actualTo = to > endTime ? endTime : to;
+  if (actualFrom >= actualTo) {
+    return 0n;
+  }
+  return BigInt(actualTo - actualFrom);
+}
+
+// PoolLib.calculateRewards evaluated at block timestamp `now`
+export function calculateRewards(
+  pool: PoolState,
+  user: UserInfo,
+  now: number
+): RewardCalculationResult {
+  const { accTokenPerShare, lastRewardTime, startTime, endTime } = pool;
+  const userReward = (acc: bigint) =>
+    sub((user.weight * acc) / pool.precisionFactor, user.rewardDebt) +
+    user.pendingRewards;
+  const result: RewardCalculationResult = {
+    newAccTokenPerShare: accTokenPerShare,
+    newLastRewardTime: lastRewardTime,
+    pendingReward: userReward(accTokenPerShare),
+  };
+
+  if (now <= lastRewardTime) {
+    return result;
+  }
+  if (now < startTime) {
+    result.newLastRewardTime = startTime;
+    return result;
+  }
+  if (lastRewardTime >= endTime) {
+    return result;
+  }
+  const endPoint = now > endTime ? endTime : now;
+  if (pool.totalWeight === 0n) {
+    result.newLastRewardTime = endPoint;
+    return result;
+  }
+  if (lastRewardTime >= endPoint) {
+    return result;
+  }
+
+  const multiplier = getMultiplier(
+    lastRewardTime,
+    endPoint,
+    startTime,
+    endTime
+  );
+  const reward = multiplier * pool.rewardPerSecond;
+  const addition = (reward * pool.precisionFactor) / pool.totalWeight;
+  result.newAccTokenPerShare = accTokenPerShare + addition;
+  result.pendingReward = userReward(result.newAccTokenPerShare);
+  result.newLastRewardTime = endPoint;
+  return result;
+}
+
+// PoolLib.updatePool, accruing up to `now` in one step
+function accruePool(pool: PoolState, now: number): PoolState {
+  const result = calculateRewards(pool, EMPTY_USER_INFO, now);
+  return {
+    ...pool,
+    accTokenPerShare: result.newAccTokenPerShare,
+    lastRewardTime: result.newLastRewardTime,
+  };
+}
+
+// LaunchPool._updatePool, for the pool alone. It accrues up to each unlock
+// time until `now` and takes the boost of the locks unlocking then out of
+// totalWeight, see advance for their holders.
+export function updatePool(pool: PoolState, now: number): PoolState {
+  let updated = pool;
+  for (const unlock of pool.unlocks) {
+    if (unlock.unlockTime > now) {
+      break;
+    }
+    updated = dropUnlock(accruePool(updated, unlock.unlockTime), unlock);
+  }
+  return accruePool(updated, now);
+}
+
+function dropUnlock(pool: PoolState, unlock: PendingUnlock): PoolState {
+  return {
+    ...pool,
+    totalWeight: sub(pool.totalWeight, unlock.weight),
+    unlocks: pool.unlocks.filter((pending) => pending !== unlock),
+  };
+}
+
+// LaunchPool.pendingReward, `locks` are LaunchPool.getLockPositions(user)
+export function pendingReward(
+  pool: PoolState,
+  user: UserInfo,
+  now: number,
+  locks: LockPosition[] = []
+): bigint {
+  const advanced = advance(pool, user, locks, now);
+  return calculateRewards(advanced.pool, advanced.user, now).pendingReward;
+}
+
+export interface UserTransition {
+  pool: PoolState;
+  user: UserInfo;
+  // The user's lock positions, in LaunchPool's order
+  locks: LockPosition[];
+}
+
+function rewardDebt(pool: PoolState, weight: bigint): bigint {
+  return (weight * pool.accTokenPerShare) / pool.precisionFactor;
+}
+
+function accrue(pool: PoolState, user: UserInfo): bigint {
+  return sub(rewardDebt(pool, user.weight), user.rewardDebt);
+}
+
+// LaunchPool._unlock for one user: accrues their rewards at the boosted
+// weight up to the unlock time, then drops the locks unlocking then to 1x
+function unlockUser(
+  pool: PoolState,
+  user: UserInfo,
+  locks: LockPosition[],
+  unlockTime: number
+): { user: UserInfo; locks: LockPosition[] } {
+  // LaunchPool._settleLocks swaps each removed position with the last one
+  const remaining = [...locks];
+  let boost = 0n;
+  for (let i = remaining.length; i > 0; i--) {
+    const position = remaining[i - 1];
+    if (position.unlockTime === unlockTime) {
+      boost += position.weight - position.amount;
+      remaining[i - 1] = remaining[remaining.length - 1];
+      remaining.pop();
+    }
+  }
+  if (boost === 0n) {
+    return { user, locks: remaining };
+  }
+  const weight = sub(user.weight, boost);
+  return {
+    user: {
+      ...user,
+      pendingRewards: user.pendingRewards + accrue(pool, user),
+      rewardDebt: rewardDebt(pool, weight),
+      weight,
+    },
+    locks: remaining,
+  };
+}
+
+// LaunchPool._updatePool as it applies to one user: updatePool, dropping
+// the user's locks to 1x at their unlock times on the way
+export function advance(
+  pool: PoolState,
+  user: UserInfo,
+  locks: LockPosition[],
+  now: number
+): UserTransition {
+  let state: UserTransition = { pool, user, locks };
+  for (const unlock of pool.unlocks) {
+    if (unlock.unlockTime > now) {
+      break;
+    }
+    const accrued = accruePool(state.pool, unlock.unlockTime);
+    state = {
+      ...unlockUser(accrued, state.user, state.locks, unlock.unlockTime),
+      pool: dropUnlock(accrued, unlock),
+    };
+  }
+  return { ...state, pool: accruePool(state.pool, now) };
+}
+
+// Adds `boost` to the weight unlocking at `unlockTime`, keeping the order
+function addUnlock(
+  unlocks: PendingUnlock[],
+  unlockTime: number,
+  boost: bigint
+): PendingUnlock[] {
+  if (unlocks.some((unlock) => unlock.unlockTime === unlockTime)) {
+    return unlocks.map((unlock) =>
+      unlock.unlockTime === unlockTime
+        ? { unlockTime, weight: unlock.weight + boost }
+        : unlock
+    );
+  }
+  return [...unlocks, { unlockTime, weight: boost }].sort(
+    (a, b) => a.unlockTime - b.unlockTime
+  );
+}
+
+function removeUnlock(
+  unlocks: PendingUnlock[],
+  unlockTime: number,
+  boost: bigint
+): PendingUnlock[] {
+  return unlocks.map((unlock) =>
+    unlock.unlockTime === unlockTime
+      ? { unlockTime, weight: sub(unlock.weight, boost) }
+      : unlock
+  );
+}
+
+// LaunchPool.deposit and depositLocked, without the status and limit checks.
+// `lock` is the weight and unlock time of its Locked event when it's locked.
+export function deposit(
+  pool: PoolState,
+  user: UserInfo,
+  locks: LockPosition[],
+  amount: bigint,
+  now: number,
+  lock?: { weight: bigint; unlockTime: number }
+): UserTransition {
+  const advanced = advance(pool, user, locks, now);
+  const updated = advanced.pool;
+  const current = advanced.user;
+  let pendingRewards = current.pendingRewards;
+  if (current.weight > 0n) {
+    pendingRewards += accrue(updated, current);
+  }
+  const weight = lock?.weight ?? amount;
+  const newWeight = current.weight + weight;
+  return {
+    pool: {
+      ...updated,
+      totalStaked: updated.totalStaked + amount,
+      totalWeight: updated.totalWeight + weight,
+      unlocks: lock
+        ? addUnlock(updated.unlocks, lock.unlockTime, weight - amount)
+        : updated.unlocks,
+    },
+    user: {
+      amount: current.amount + amount,
+      rewardDebt: rewardDebt(updated, newWeight),
+      pendingRewards,
+      weight: newWeight,
+    },
+    locks: lock ? [...advanced.locks, { amount, ...lock }] : advanced.locks,
+  };
+}
+
+// LaunchPool._release: the weight `amount` takes off the user, from what
+// isn't locked first, then from the newest locks that have unlocked, or any
+// with `ignoreLocks`
+function release(
+  unlocks: PendingUnlock[],
+  user: UserInfo,
+  locks: LockPosition[],
+  amount: bigint,
+  now: number,
+  ignoreLocks: boolean
+): { weight: bigint; locks: LockPosition[]; unlocks: PendingUnlock[] } {
+  const lockedAmount = locks.reduce((sum, lock) => sum + lock.amount, 0n);
+  const unlocked = user.amount - lockedAmount;
+  if (amount <= unlocked) {
+    return { weight: amount, locks, unlocks };
+  }
+
+  const remainingLocks = [...locks];
+  let remainingUnlocks = unlocks;
+  let weight = unlocked;
+  let remaining = amount - unlocked;
+  for (let i = remainingLocks.length; i > 0 && remaining > 0n; i--) {
+    const position = remainingLocks[i - 1];
+    if (!ignoreLocks && position.unlockTime > now) {
+      continue;
+    }
+    if (remaining < position.amount) {
+      const partWeight = (position.weight * remaining) / position.amount;
+      remainingUnlocks = removeUnlock(
+        remainingUnlocks,
+        position.unlockTime,
+        partWeight - remaining
+      );
+      remainingLocks[i - 1] = {
+        ...position,
+        amount: position.amount - remaining,
+        weight: position.weight - partWeight,
+      };
+      weight += partWeight;
+      remaining = 0n;
+    } else {
+      remaining -= position.amount;
+      weight += position.weight;
+      remainingUnlocks = removeUnlock(
+        remainingUnlocks,
+        position.unlockTime,
+        position.weight - position.amount
+      );
+      remainingLocks[i - 1] = remainingLocks[remainingLocks.length - 1];
+      remainingLocks.pop();
+    }
+  }
+  if (remaining > 0n) {
+    throw new Error("Amount is locked");
+  }
+  return { weight, locks: remainingLocks, unlocks: remainingUnlocks };
+}
+
+// LaunchPool.withdraw, without the status checks. Pass `ignoreLocks` while
+// locks don't hold: the project is paused or delisted, or the pool has ended.
+export function withdraw(
+  pool: PoolState,
+  user: UserInfo,
+  locks: LockPosition[],
+  amount: bigint,
+  now: number,
+  ignoreLocks = false
+): UserTransition {
+  if (user.amount < amount) {
+    throw new Error("Amount to withdraw too high");
+  }
+  const advanced = advance(pool, user, locks, now);
+  const updated = advanced.pool;
+  const current = advanced.user;
+  const pendingRewards = current.pendingRewards + accrue(updated, current);
+  const released = release(
+    updated.unlocks,
+    current,
+    advanced.locks,
+    amount,
+    now,
+    ignoreLocks
+  );
+  const newWeight = sub(current.weight, released.weight);
+  return {
+    pool: {
+      ...updated,
+      totalStaked: sub(updated.totalStaked, amount),
+      totalWeight: sub(updated.totalWeight, released.weight),
+      unlocks: released.unlocks,
+    },
+    user: {
+      amount: current.amount - amount,
+      rewardDebt: rewardDebt(updated, newWeight),
+      pendingRewards,
+      weight: newWeight,
+    },
+    locks: released.locks,
+  };
+}
+
+// PoolLib.calculateVestedAmount: the part of `earned` that has vested at
+// `now`, all of it without a vesting schedule
+export function calculateVestedAmount(
+  earned: bigint,
+  endTime: number,
+  claimSettings: ClaimSettings,
+  now: number
+): bigint {
+  const { vestingCliff, vestingDuration, tgeShareBps } = claimSettings;
+  if (vestingCliff === 0 && vestingDuration === 0) {
+    return earned;
+  }
+  if (now < endTime) {
+    return 0n;
+  }
+
+  const tgeAmount = (earned * BigInt(tgeShareBps)) / 10000n;
+  const cliffEnd = endTime + vestingCliff;
+  if (now < cliffEnd) {
+    return tgeAmount;
+  }
+  if (now >= cliffEnd + vestingDuration) {
+    return earned;
+  }
+  return (
+    tgeAmount +
+    ((earned - tgeAmount) * BigInt(now - cliffEnd)) / BigInt(vestingDuration)
+  );
+}
+
+// LaunchPool._releasable
+function releasable(
+  pool: PoolState,
+  claimed: bigint,
+  pending: bigint,
+  claimSettings: ClaimSettings,
+  now: number
+): bigint {
+  const vested = calculateVestedAmount(
+    pending + claimed,
+    pool.endTime,
+    claimSettings,
+    now
+  );
+  return vested > claimed ? vested - claimed : 0n;
+}
+
+// LaunchPool.vestingInfo, `rewardsClaimed` is LaunchPool.rewardsClaimed(user)
+export function vestingInfo(
+  pool: PoolState,
+  user: UserInfo,
+  now: number,
+  claimSettings: ClaimSettings,
+  rewardsClaimed: bigint,
+  locks: LockPosition[] = []
+): VestingInfo {
+  const earned = pendingReward(pool, user, now, locks) + rewardsClaimed;
+  const vested = calculateVestedAmount(
+    earned,
+    pool.endTime,
+    claimSettings,
+    now
+  );
+  return { vested, claimed: rewardsClaimed, locked: earned - vested };
+}
+
+// LaunchPool.claimReward, without the status checks and extra rewards. It
+// pays out what has vested of the user's rewards, the rest stays pending.
+// `rewardsClaimed` is LaunchPool.rewardsClaimed(user) before the claim.
+export function claimReward(
+  pool: PoolState,
+  user: UserInfo,
+  locks: LockPosition[],
+  now: number,
+  claimSettings: ClaimSettings,
+  rewardsClaimed: bigint
+): UserTransition & { claimed: bigint } {
+  const advanced = advance(pool, user, locks, now);
+  const updated = advanced.pool;
+  const current = advanced.user;
+  const pending = accrue(updated, current) + current.pendingRewards;
+  const claimed = releasable(
+    updated,
+    rewardsClaimed,
+    pending,
+    claimSettings,
+    now
+  );
+  if (claimed === 0n) {
+    throw new Error("No rewards to claim");
+  }
+  return {
+    pool: updated,
+    user: {
+      amount: current.amount,
+      rewardDebt: rewardDebt(updated, current.weight),
+      pendingRewards: pending - claimed,
+      weight: current.weight,
+    },
+    locks: advanced.locks,
+    claimed,
+  };
+}
+
+// LaunchPool.poke: updates the pool, dropping the user's locks that are over
+// to 1x, and moves what they earned into pendingRewards
+export function poke(
+  pool: PoolState,
+  user: UserInfo,
+  locks: LockPosition[],
+  now: number
+): UserTransition {
+  const advanced = advance(pool, user, locks, now);
+  return {
+    ...advanced,
+    user: {
+      ...advanced.user,
+      pendingRewards:
+        advanced.user.pendingRewards + accrue(advanced.pool, advanced.user),
+      rewardDebt: rewardDebt(advanced.pool, advanced.user.weight),
+    },
+  };
+}
+
+// LaunchPool.emergencyWithdraw, which forfeits rewards without updating the pool
+export function emergencyWithdraw(
+  pool: PoolState,
+  user: UserInfo,
+  locks: LockPosition[]
+): UserTransition & { withdrawn: bigint } {
+  const unlocks = locks.reduce(
+    (remaining, lock) =>
+      removeUnlock(remaining, lock.unlockTime, lock.weight - lock.amount),
+    pool.unlocks
+  );
+  return {
+    pool: {
+      ...pool,
+      totalStaked: sub(pool.totalStaked, user.amount),
+      totalWeight: sub(pool.totalWeight, user.weight),
+      unlocks,
+    },
+    user: { ...EMPTY_USER_INFO },
+    locks: [],
+    withdrawn: user.amount,
+  };
+}
+
+// Tracks a pool and its stakers from a snapshot, e.g. to project rewards for
+// every user at any time without an RPC call each. Stakers that claimed before
+// the snapshot need their rewardsClaimed set for vesting to match, and stakers
+// with locks their lock positions for boosts to end on time.
+export class RewardEngine {
+  private users = new Map<string, UserInfo>();
+  private claimed = new Map<string, bigint>();
+  private locks = new Map<string, LockPosition[]>();
+
+  constructor(
+    public pool: PoolState,
+    public claimSettings: ClaimSettings = CLAIM_AT_END
+  ) {}
+
+  user(address: string): UserInfo {
+    return this.users.get(address.toLowerCase()) ?? { ...EMPTY_USER_INFO };
+  }
+
+  setUser(address: string, user: UserInfo) {
+    this.users.set(address.toLowerCase(), user);
+  }
+
+  rewardsClaimed(address: string): bigint {
+    return this.claimed.get(address.toLowerCase()) ?? 0n;
+  }
+
+  setRewardsClaimed(address: string, rewardsClaimed: bigint) {
+    this.claimed.set(address.toLowerCase(), rewardsClaimed);
+  }
+
+  lockPositions(address: string): LockPosition[] {
+    return this.locks.get(address.toLowerCase()) ?? [];
+  }
+
+  setLockPositions(address: string, locks: LockPosition[]) {
+    this.locks.set(address.toLowerCase(), locks);
+  }
+
+  pendingReward(address: string, now: number): bigint {
+    return pendingReward(
+      this.pool,
+      this.user(address),
+      now,
+      this.lockPositions(address)
+    );
+  }
+
+  vestingInfo(address: string, now: number): VestingInfo {
+    return vestingInfo(
+      this.pool,
+      this.user(address),
+      now,
+      this.claimSettings,
+      this.rewardsClaimed(address),
+      this.lockPositions(address)
+    );
+  }
+
+  deposit(
+    address: string,
+    amount: bigint,
+    now: number,
+    lock?: { weight: bigint; unlockTime: number }
+  ) {
+    this.unlock(now);
+    this.apply(
+      address,
+      deposit(
+        this.pool,
+        this.user(address),
+        this.lockPositions(address),
+        amount,
+        now,
+        lock
+      )
+    );
+  }
+
+  withdraw(address: string, amount: bigint, now: number, ignoreLocks = false) {
+    this.unlock(now);
+    this.apply(
+      address,
+      withdraw(
+        this.pool,
+        this.user(address),
+        this.lockPositions(address),
+        amount,
+        now,
+        ignoreLocks
+      )
+    );
+  }
+
+  poke(address: string, now: number) {
+    this.unlock(now);
+    this.apply(
+      address,
+      poke(this.pool, this.user(address), this.lockPositions(address), now)
+    );
+  }
+
+  claimReward(address: string, now: number): bigint {
+    this.unlock(now);
+    const rewardsClaimed = this.rewardsClaimed(address);
+    const result = claimReward(
+      this.pool,
+      this.user(address),
+      this.lockPositions(address),
+      now,
+      this.claimSettings,
+      rewardsClaimed
+    );
+    this.apply(address, result);
+    this.setRewardsClaimed(address, rewardsClaimed + result.claimed);
+    return result.claimed;
+  }
+
+  emergencyWithdraw(address: string): bigint {
+    const result = emergencyWithdraw(
+      this.pool,
+      this.user(address),
+      this.lockPositions(address)
+    );
+    this.apply(address, result);
+    return result.withdrawn;
+  }
+
+  // Checkpoints every unlock up to `now` for every staker, as the pool
+  // update of the next transaction would
+  private unlock(now: number) {
+    for (const unlock of this.pool.unlocks) {
+      if (unlock.unlockTime > now) {
+        break;
+      }
+      const accrued = accruePool(this.pool, unlock.unlockTime);
+      for (const [address, locks] of this.locks) {
+        const result = unlockUser(
+          accrued,
+          this.user(address),
+          locks,
+          unlock.unlockTime
+        );
+        this.setUser(address, result.user);
+        this.setLockPositions(address, result.locks);
+      }
+      this.pool = dropUnlock(accrued, unlock);
+    }
+  }
+
+  private apply(address: string, transition: UserTransition) {
+    this.pool = transition.pool;
+    this.setUser(address, transition.user);
+    this.setLockPositions(address, transition.locks);
+  }
+}
@@ -0,0 +1,188 @@
+// Staked token address LaunchPool uses for native ETH pools
+export const ETH_ADDRESS = "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE";
+
+// Pools cloned up to this version predate weights, locks, pool windows and
+// isRewardFunded, matches PoolLib.LEGACY_POOL_VERSION
+export const LEGACY_POOL_VERSION = 1;
+
+// Stored project status, matches LaunchPoolFactoryUpgradeable.ProjectStatus
+export enum ProjectStatus {
+  STAGING = 0,
+  READY = 1,
+  DELISTED = 2,
+  PAUSED = 3,
+}
+
+// Status returned by getProjectStatus, READY projects are split by time
+export enum CurrentStatus {
+  STAGING = "STAGING",
+  READY = "READY",
+  ACTIVE = "ACTIVE",
+  ENDED = "ENDED",
+  PAUSED = "PAUSED",
+  DELISTED = "DELISTED",
+}
+
+// When stakers may claim, matches LaunchPoolFactoryUpgradeable.ClaimPolicy
+export enum ClaimPolicy {
+  AT_END = 0,
+  ANYTIME = 1,
+  AFTER_UNLOCK = 2,
+}
+
+export interface ClaimSettings {
+  policy: ClaimPolicy;
+  // Only set for AFTER_UNLOCK
+  unlockTime: number;
+  // Optional vesting of AT_END rewards, in seconds from endTime. The TGE
+  // share unlocks at endTime, the rest linearly once the cliff has passed.
+  vestingCliff: number;
+  vestingDuration: number;
+  tgeShareBps: number;
+}
+
+// Rewards can only be claimed once the project has ended, all at once
+export const CLAIM_AT_END: ClaimSettings = {
+  policy: ClaimPolicy.AT_END,
+  unlockTime: 0,
+  vestingCliff: 0,
+  vestingDuration: 0,
+  tgeShareBps: 0,
+};
+
+export interface PoolMetadata {
+  projectName: string;
+  website: string;
+  logo: string;
+  discord: string;
+  twitter: string;
+  telegram: string;
+  tokenInfo: string;
+}
+
+// A reward token and how much of it the project distributes
+export interface RewardTokenInfo {
+  rewardToken: string;
+  totalRewardAmount: bigint;
+}
+
+// A reward token's allocation to one pool
+export interface PoolReward {
+  rewardToken: string;
+  poolRewardAmount: bigint;
+  rewardPerSecond: bigint;
+}
+
+export interface PoolInfo {
+  poolAddress: string;
+  stakedToken: string;
+  rewardToken: string;
+  rewardPerSecond: bigint;
+  startTime: number;
+  endTime: number;
+  poolLimitPerUser: bigint;
+  minStakeAmount: bigint;
+  // rewardToken first, then the extra reward tokens
+  rewards: PoolReward[];
+}
+
+export interface ProjectInfo {
+  projectId: number;
+  rewardToken: string;
+  totalRewardAmount: bigint;
+  startTime: number;
+  endTime: number;
+  status: ProjectStatus;
+  pools: string[];
+  metadata: PoolMetadata;
+  owner: string;
+  poolInfos: PoolInfo[];
+  currentStatus: CurrentStatus;
+  isActive: boolean;
+  claimSettings: ClaimSettings;
+  isClaimOpen: boolean;
+  // rewardToken first, then the extra reward tokens
+  rewardTokens: RewardTokenInfo[];
+}
+
+export interface UserInfo {
+  amount: bigint;
+  rewardDebt: bigint;
+  pendingRewards: bigint;
+  // amount plus lock boosts, what rewards accrue on
+  weight: bigint;
+}
+
+// A deposit locked by depositLocked, boosted until it's withdrawn
+export interface LockPosition {
+  amount: bigint;
+  weight: bigint;
+  unlockTime: number;
+}
+
+// One reward token's share of getPendingRewards
+export interface PendingReward {
+  rewardToken: string;
+  amount: bigint;
+}
+
+// pendingReward split by the project's claim policy and vesting
+export interface ClaimableReward {
+  claimable: bigint;
+  locked: bigint;
+}
+
+// A user's earned rewards, vested includes what was already claimed
+export interface VestingInfo {
+  vested: bigint;
+  claimed: bigint;
+  locked: bigint;
+}
+
+export function isEthToken(token: string): boolean {
+  return token.toLowerCase() === ETH_ADDRESS.toLowerCase();
+}
+
+export function parseClaimPolicy(policy: string): ClaimPolicy {
+  const value = ClaimPolicy[policy as keyof typeof ClaimPolicy];
+  if (typeof value !== "number") {
+    throw new Error(`Unknown claim policy ${policy}`);
+  }
+  return value;
+}
+
+export function hasVesting(claimSettings: ClaimSettings): boolean {
+  return claimSettings.vestingCliff > 0 || claimSettings.vestingDuration > 0;
+}
+
+export function parseCurrentStatus(status: string): CurrentStatus {
+  if (!Object.values(CurrentStatus).includes(status as CurrentStatus)) {
+    throw new Error(`Unknown project status ${status}`);
+  }
+  return status as CurrentStatus;
+}
+
+// LaunchPoolFactoryUpgradeable._getProjectStatus at block timestamp `now`
+export function getCurrentStatus(
+  status: ProjectStatus,
+  startTime: number,
+  endTime: number,
+  now: number
+): CurrentStatus {
+  switch (status) {
+    case ProjectStatus.DELISTED:
+      return CurrentStatus.DELISTED;
+    case ProjectStatus.PAUSED:
+      return CurrentStatus.PAUSED;
+    case ProjectStatus.READY:
+      if (now >= endTime) {
+        return CurrentStatus.ENDED;
+      }
+      if (now >= startTime) {
+        return CurrentStatus.ACTIVE;
+      }
+      return CurrentStatus.READY;
+    default:
+      return CurrentStatus.STAGING;
+  }
+}
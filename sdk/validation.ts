@@ -0,0 +1,440 @@
+import { MaxUint256, formatUnits } from "ethers";
+import {
+  CLAIM_AT_END,
+  ClaimPolicy,
+  ClaimSettings,
+  hasVesting,
+  isEthToken,
+} from "./types";
+
+// Pre-flight checks of createProject parameters against what the contracts
+// do with them, so a project is fixed before it is created rather than after
+
+export type ValidationIssueKind =
+  | "INVALID_TIMES"
+  | "INVALID_POOL_TIMES"
+  | "START_IN_PAST"
+  | "START_TOO_SOON"
+  | "INVALID_UNLOCK_TIME"
+  | "INVALID_VESTING"
+  | "REWARD_SUM_MISMATCH"
+  | "STAKED_IS_REWARD_TOKEN"
+  | "DUPLICATE_STAKED_TOKEN"
+  | "REWARD_DECIMALS"
+  | "ZERO_REWARD_RATE"
+  | "ROUNDING_LOSS"
+  | "ACC_TOKEN_PER_SHARE_OVERFLOW";
+
+// Errors make createProject, initialize or fundPool revert, or leave the
+// project unusable. Warnings work on chain but are most likely mistakes.
+export type ValidationSeverity = "error" | "warning";
+
+export interface ValidationIssue {
+  kind: ValidationIssueKind;
+  severity: ValidationSeverity;
+  // Index in `pools` for pool level issues
+  pool?: number;
+  message: string;
+}
+
+export interface ProjectToken {
+  address: string;
+  decimals: number;
+  symbol?: string;
+  // Bounds a single stake when the pool has no per-user limit
+  totalSupply?: bigint;
+}
+
+// createProject arguments, amounts in token base units
+export interface ProjectParams {
+  rewardToken: ProjectToken;
+  totalRewardAmount: bigint;
+  startTime: number;
+  endTime: number;
+  // Defaults to CLAIM_AT_END
+  claimSettings?: ClaimSettings;
+  pools: {
+    stakedToken: ProjectToken;
+    poolRewardAmount: bigint;
+    poolLimitPerUser: bigint;
+    minStakeAmount: bigint;
+    // Window within the project's, 0 or unset for the project's times
+    startTime?: number;
+    endTime?: number;
+  }[];
+}
+
+export interface ValidationOptions {
+  // Unix seconds the project would be created at, usually the latest block
+  now: number;
+  // Time needed after creation to fund every pool, rewards emitted before the
+  // project is READY go to nobody. Defaults to an hour.
+  fundingLeadTime?: number;
+  // Rounding loss above which a pool is reported, in basis points of its
+  // reward amount. Defaults to 1.
+  maxRoundingLossBps?: number;
+}
+
+export interface PoolRewardRate {
+  rewardPerSecond: bigint;
+  // Part of poolRewardAmount the pool never emits, the project owner can
+  // take it back with withdrawRemainingRewards once the project ENDED
+  roundingLoss: bigint;
+}
+
+// LaunchPool.initialize rejects reward tokens with 36 decimals or more
+export const MAX_REWARD_DECIMALS = 35;
+
+// PoolLib.calculateRewardPerSecond, rewards are emitted per whole second
+export function getPoolRewardRate(
+  poolRewardAmount: bigint,
+  startTime: number,
+  endTime: number
+): PoolRewardRate {
+  const duration = BigInt(endTime - startTime);
+  const rewardPerSecond = poolRewardAmount / duration;
+  return {
+    rewardPerSecond,
+    roundingLoss: poolRewardAmount - rewardPerSecond * duration,
+  };
+}
+
+// Largest accTokenPerShare a pool can reach: the whole emission accrued while
+// a single base unit is staked, which anyone can cause by withdrawing all but
+// one unit
+export function getMaxAccTokenPerShare(
+  distributedRewards: bigint,
+  rewardDecimals: number
+): bigint {
+  return distributedRewards * 10n ** BigInt(36 - rewardDecimals);
+}
+
+type PoolParams = ProjectParams["pools"][number];
+
+// LaunchPool.getPoolTimes, without clamping a window that would revert
+function getPoolTimes(
+  params: ProjectParams,
+  pool: PoolParams
+): { startTime: number; endTime: number } {
+  return {
+    startTime: pool.startTime || params.startTime,
+    endTime: pool.endTime || params.endTime,
+  };
+}
+
+function format(amount: bigint, token: ProjectToken): string {
+  const value = formatUnits(amount, token.decimals);
+  return token.symbol ? `${value} ${token.symbol}` : value;
+}
+
+function tokenName(token: ProjectToken): string {
+  return token.symbol ?? token.address;
+}
+
+function checkTimes(
+  params: ProjectParams,
+  options: ValidationOptions
+): ValidationIssue[] {
+  const { startTime, endTime } = params;
+  const fundingLeadTime = options.fundingLeadTime ?? 3600;
+  if (endTime <= startTime) {
+    return [
+      {
+        kind: "INVALID_TIMES",
+        severity: "error",
+        message: `endTime ${endTime} is not after startTime ${startTime}`,
+      },
+    ];
+  }
+  if (startTime <= options.now) {
+    return [
+      {
+        kind: "START_IN_PAST",
+        severity: "error",
+        message: `startTime ${new Date(
+          startTime * 1000
+        ).toISOString()} is not in the future, createProject reverts`,
+      },
+    ];
+  }
+  if (startTime < options.now + fundingLeadTime) {
+    return [
+      {
+        kind: "START_TOO_SOON",
+        severity: "warning",
+        message: `startTime is ${
+          startTime - options.now
+        }s away, rewards emitted before every pool is funded are lost`,
+      },
+    ];
+  }
+  return [];
+}
+
+function checkPoolTimes(params: ProjectParams): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  for (const [i, pool] of params.pools.entries()) {
+    // checkTimes covers pools using the project's times
+    if (!pool.startTime && !pool.endTime) {
+      continue;
+    }
+    const { startTime, endTime } = getPoolTimes(params, pool);
+    let problem: string | undefined;
+    if (startTime < params.startTime) {
+      problem = `starts at ${startTime}, before the project`;
+    } else if (endTime > params.endTime) {
+      problem = `ends at ${endTime}, after the project`;
+    } else if (endTime <= startTime) {
+      problem = `ends at ${endTime}, not after its start at ${startTime}`;
+    }
+    if (problem) {
+      issues.push({
+        kind: "INVALID_POOL_TIMES",
+        severity: "error",
+        pool: i,
+        message: `Pool ${i} ${problem}, createProject reverts`,
+      });
+    }
+  }
+  return issues;
+}
+
+function checkClaimSettings(params: ProjectParams): ValidationIssue[] {
+  const { policy, unlockTime } = params.claimSettings ?? CLAIM_AT_END;
+  if (policy === ClaimPolicy.AFTER_UNLOCK && unlockTime < params.startTime) {
+    return [
+      {
+        kind: "INVALID_UNLOCK_TIME",
+        severity: "error",
+        message: `unlockTime ${unlockTime} is before startTime ${params.startTime}, createProject reverts`,
+      },
+    ];
+  }
+  if (policy !== ClaimPolicy.AFTER_UNLOCK && unlockTime !== 0) {
+    return [
+      {
+        kind: "INVALID_UNLOCK_TIME",
+        severity: "error",
+        message: `unlockTime is only used by the AFTER_UNLOCK claim policy, not ${ClaimPolicy[policy]}, createProject reverts`,
+      },
+    ];
+  }
+  return [];
+}
+
+function checkVesting(params: ProjectParams): ValidationIssue[] {
+  const claimSettings = params.claimSettings ?? CLAIM_AT_END;
+  const invalid = (message: string): ValidationIssue[] => [
+    { kind: "INVALID_VESTING", severity: "error", message },
+  ];
+  if (!hasVesting(claimSettings)) {
+    return claimSettings.tgeShareBps !== 0
+      ? invalid(
+          "tgeShareBps is only used with a vesting cliff or duration, createProject reverts"
+        )
+      : [];
+  }
+  if (claimSettings.policy !== ClaimPolicy.AT_END) {
+    return invalid(
+      `vesting only applies to the AT_END claim policy, not ${
+        ClaimPolicy[claimSettings.policy]
+      }, createProject reverts`
+    );
+  }
+  if (claimSettings.tgeShareBps > 10000) {
+    return invalid(
+      `tgeShareBps ${claimSettings.tgeShareBps} is above 10000, createProject reverts`
+    );
+  }
+  return [];
+}
+
+function checkRewardToken(params: ProjectParams): ValidationIssue[] {
+  const { rewardToken } = params;
+  if (rewardToken.decimals > MAX_REWARD_DECIMALS) {
+    return [
+      {
+        kind: "REWARD_DECIMALS",
+        severity: "error",
+        message: `${tokenName(rewardToken)} has ${
+          rewardToken.decimals
+        } decimals, LaunchPool.initialize only accepts up to ${MAX_REWARD_DECIMALS}`,
+      },
+    ];
+  }
+  return [];
+}
+
+function checkRewardSum(params: ProjectParams): ValidationIssue[] {
+  const { rewardToken, totalRewardAmount } = params;
+  const poolRewards = params.pools.reduce(
+    (total, pool) => total + pool.poolRewardAmount,
+    0n
+  );
+  if (poolRewards === totalRewardAmount) {
+    return [];
+  }
+  const consequence =
+    poolRewards > totalRewardAmount
+      ? "createProject reverts"
+      : "fundPool never moves the project to READY";
+  return [
+    {
+      kind: "REWARD_SUM_MISMATCH",
+      severity: "error",
+      message: `Pool rewards add up to ${format(
+        poolRewards,
+        rewardToken
+      )}, not the totalRewardAmount of ${format(
+        totalRewardAmount,
+        rewardToken
+      )}, ${consequence}`,
+    },
+  ];
+}
+
+function checkStakedTokens(params: ProjectParams): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const seen = new Map<string, number>();
+  for (const [i, { stakedToken }] of params.pools.entries()) {
+    const address = stakedToken.address.toLowerCase();
+    if (
+      !isEthToken(address) &&
+      address === params.rewardToken.address.toLowerCase()
+    ) {
+      issues.push({
+        kind: "STAKED_IS_REWARD_TOKEN",
+        severity: "error",
+        pool: i,
+        message: `Pool ${i} stakes the reward token, the pool deployment reverts`,
+      });
+    }
+    const first = seen.get(address);
+    if (first !== undefined) {
+      issues.push({
+        kind: "DUPLICATE_STAKED_TOKEN",
+        severity: "warning",
+        pool: i,
+        message: `Pool ${i} stakes ${tokenName(
+          stakedToken
+        )} like pool ${first}, stakers are split between them`,
+      });
+    } else {
+      seen.set(address, i);
+    }
+  }
+  return issues;
+}
+
+function checkRewardRates(
+  params: ProjectParams,
+  options: ValidationOptions
+): ValidationIssue[] {
+  const { rewardToken } = params;
+  // Compared in millionths of a basis point to keep small losses visible
+  const maxLossMicroBps = BigInt(
+    Math.round((options.maxRoundingLossBps ?? 1) * 1e6)
+  );
+  const issues: ValidationIssue[] = [];
+  for (const [i, pool] of params.pools.entries()) {
+    const { startTime, endTime } = getPoolTimes(params, pool);
+    const { rewardPerSecond, roundingLoss } = getPoolRewardRate(
+      pool.poolRewardAmount,
+      startTime,
+      endTime
+    );
+    if (rewardPerSecond === 0n) {
+      issues.push({
+        kind: "ZERO_REWARD_RATE",
+        severity: "error",
+        pool: i,
+        message: `Pool ${i} emits nothing, ${format(
+          pool.poolRewardAmount,
+          rewardToken
+        )} over ${endTime - startTime}s rounds down to 0 per second`,
+      });
+      continue;
+    }
+    const lossMicroBps = (roundingLoss * 10n ** 10n) / pool.poolRewardAmount;
+    if (roundingLoss > 0n && lossMicroBps >= maxLossMicroBps) {
+      issues.push({
+        kind: "ROUNDING_LOSS",
+        severity: "warning",
+        pool: i,
+        message: `Pool ${i} emits ${format(
+          pool.poolRewardAmount - roundingLoss,
+          rewardToken
+        )} of ${format(pool.poolRewardAmount, rewardToken)}, ${format(
+          roundingLoss,
+          rewardToken
+        )} (${Number(lossMicroBps) / 1e6} bps) is lost to rounding`,
+      });
+    }
+  }
+  return issues;
+}
+
+function checkOverflow(params: ProjectParams): ValidationIssue[] {
+  const { rewardToken } = params;
+  if (rewardToken.decimals > MAX_REWARD_DECIMALS) {
+    return [];
+  }
+  const issues: ValidationIssue[] = [];
+  for (const [i, pool] of params.pools.entries()) {
+    const { startTime, endTime } = getPoolTimes(params, pool);
+    const { rewardPerSecond } = getPoolRewardRate(
+      pool.poolRewardAmount,
+      startTime,
+      endTime
+    );
+    const maxAccTokenPerShare = getMaxAccTokenPerShare(
+      rewardPerSecond * BigInt(endTime - startTime),
+      rewardToken.decimals
+    );
+    if (maxAccTokenPerShare === 0n) {
+      continue;
+    }
+    // Deposits, withdrawals and claims compute amount * accTokenPerShare
+    const maxSafeStake = MaxUint256 / maxAccTokenPerShare;
+    const maxStake =
+      pool.poolLimitPerUser > 0n
+        ? pool.poolLimitPerUser
+        : pool.stakedToken.totalSupply;
+    if (maxStake === undefined || maxStake <= maxSafeStake) {
+      continue;
+    }
+    issues.push({
+      kind: "ACC_TOKEN_PER_SHARE_OVERFLOW",
+      severity: "error",
+      pool: i,
+      message: `Pool ${i} can overflow: once accTokenPerShare reaches ${maxAccTokenPerShare}, stakes above ${format(
+        maxSafeStake,
+        pool.stakedToken
+      )} revert on deposit, withdraw and claim, lower poolLimitPerUser or the reward amount`,
+    });
+  }
+  return issues;
+}
+
+export function validateProject(
+  params: ProjectParams,
+  options: ValidationOptions
+): ValidationIssue[] {
+  const issues = [
+    ...checkTimes(params, options),
+    ...checkPoolTimes(params),
+    ...checkClaimSettings(params),
+    ...checkVesting(params),
+    ...checkRewardToken(params),
+    ...checkRewardSum(params),
+    ...checkStakedTokens(params),
+  ];
+  // Rates and overflows depend on valid durations
+  if (
+    params.endTime > params.startTime &&
+    !issues.some((issue) => issue.kind === "INVALID_POOL_TIMES")
+  ) {
+    issues.push(...checkRewardRates(params, options), ...checkOverflow(params));
+  }
+  return issues;
+}
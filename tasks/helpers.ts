@@ -0,0 +1,192 @@
+import fs from "fs";
+import path from "path";
+import { HardhatPluginError } from "hardhat/plugins";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  type ContractTransactionResponse,
+  type LogDescription,
+  type Result,
+  isError,
+} from "ethers";
+import type { LaunchPoolFactoryUpgradeable } from "../typechain-types";
+import { ClaimPolicy, PoolMetadata, ProjectStatus } from "../sdk/types";
+
+export const EMPTY_METADATA: PoolMetadata = {
+  projectName: "",
+  website: "",
+  logo: "",
+  discord: "",
+  twitter: "",
+  telegram: "",
+  tokenInfo: "",
+};
+
+// Hardhat networks report reverts as VM exceptions, e.g. "reverted with
+// reason string '...'", "reverted with panic code ..." or "Transaction
+// reverted without a reason string"
+const HARDHAT_REVERT = /reverted with |transaction reverted/i;
+
+// The reason a contract call reverted with. Anything that isn't a revert, such
+// as an RPC, nonce or decoding failure, is rethrown.
+export function getRevertReason(error: unknown): string {
+  if (isError(error, "CALL_EXCEPTION")) {
+    return error.reason ?? error.shortMessage;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  if (!HARDHAT_REVERT.test(message)) {
+    throw error;
+  }
+  return (
+    /reverted with reason string '(.*)'/.exec(message)?.[1] ??
+    /reverted with (.*)$/m.exec(message)?.[1] ??
+    message
+  );
+}
+
+// Picks one of the network's configured accounts by index or address
+export async function getSigner(
+  hre: HardhatRuntimeEnvironment,
+  signer: string
+): Promise<HardhatEthersSigner> {
+  const signers = await hre.ethers.getSigners();
+  const selected = hre.ethers.isAddress(signer)
+    ? signers.find((s) => s.address.toLowerCase() === signer.toLowerCase())
+    : signers[Number(signer)];
+  if (!selected) {
+    throw new HardhatPluginError(
+      "launchpool",
+      `Signer ${signer} is not one of the ${signers.length} accounts configured for ${hre.network.name}`
+    );
+  }
+  return selected;
+}
+
+// The factory passed with --factory, or the proxy from the deployment manifest
+export async function getFactory(
+  hre: HardhatRuntimeEnvironment,
+  factoryAddress: string | undefined,
+  signer: HardhatEthersSigner
+): Promise<LaunchPoolFactoryUpgradeable> {
+  let address = factoryAddress;
+  if (!address) {
+    // Loaded lazily, the manifest helpers import hardhat itself
+    const { loadManifest } = await import("../scripts/utils/manifest");
+    address = (await loadManifest()).contracts.factoryProxy.address;
+  }
+  return hre.ethers.getContractAt(
+    "LaunchPoolFactoryUpgradeable",
+    address,
+    signer
+  );
+}
+
+function formatEventArg(name: string, value: unknown): string {
+  if (name === "status") {
+    return ProjectStatus[Number(value)] ?? String(value);
+  }
+  if (name === "metadata") {
+    return JSON.stringify((value as { toObject(): object }).toObject());
+  }
+  return String(value);
+}
+
+// Waits for the transaction, prints every factory event it emitted and
+// returns them
+export async function logFactoryEvents(
+  factory: LaunchPoolFactoryUpgradeable,
+  tx: ContractTransactionResponse
+): Promise<LogDescription[]> {
+  console.log(`Transaction: ${tx.hash}`);
+  const receipt = await tx.wait();
+  if (!receipt) {
+    throw new HardhatPluginError("launchpool", `No receipt for ${tx.hash}`);
+  }
+  console.log(
+    `Mined in block ${receipt.blockNumber}, gas used ${receipt.gasUsed}`
+  );
+
+  const factoryAddress = (await factory.getAddress()).toLowerCase();
+  const events: LogDescription[] = [];
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== factoryAddress) {
+      continue;
+    }
+    const event = factory.interface.parseLog(log);
+    if (!event) {
+      continue;
+    }
+    const args = event.fragment.inputs
+      .map(
+        (input, i) =>
+          `${input.name}=${formatEventArg(input.name, event.args[i])}`
+      )
+      .join(", ");
+    console.log(`  ${event.name}(${args})`);
+    events.push(event);
+  }
+  return events;
+}
+
+export async function logProjectStatus(
+  factory: LaunchPoolFactoryUpgradeable,
+  projectId: number | bigint
+) {
+  console.log(
+    `Project ${projectId} status: ${await factory.getProjectStatus(projectId)}`
+  );
+}
+
+// getProject as plain JSON, with amounts as decimal strings
+export async function getProjectJson(
+  factory: LaunchPoolFactoryUpgradeable,
+  projectId: number | bigint
+): Promise<string> {
+  const project = (
+    (await factory.getProject(projectId)) as unknown as Result
+  ).toObject(true);
+  return JSON.stringify(
+    { projectId: Number(projectId), ...project },
+    (key, value) => {
+      if (key === "status") {
+        return ProjectStatus[Number(value)];
+      }
+      if (key === "policy") {
+        return ClaimPolicy[Number(value)];
+      }
+      return typeof value === "bigint" ? value.toString() : value;
+    },
+    2
+  );
+}
+
+// First block to search for a project's logs: --from-block, or the factory
+// deployment block from the manifest when --factory isn't set
+export async function getHistoryStartBlock(
+  factoryAddress: string | undefined,
+  fromBlock: number | undefined
+): Promise<number> {
+  if (fromBlock !== undefined) {
+    return fromBlock;
+  }
+  if (factoryAddress) {
+    return 0;
+  }
+  const { loadManifest } = await import("../scripts/utils/manifest");
+  return (await loadManifest()).contracts.factoryProxy.blockNumber ?? 0;
+}
+
+// JSON with amounts as decimal strings
+export function toJson(value: unknown): string {
+  return JSON.stringify(
+    value,
+    (_, item) => (typeof item === "bigint" ? item.toString() : item),
+    2
+  );
+}
+
+export function writeOutput(filePath: string, content: string) {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content);
+  console.log(`Written ${filePath}`);
+}
@@ -0,0 +1,741 @@
+import path from "path";
+import { task, types } from "hardhat/config";
+import { HardhatPluginError } from "hardhat/plugins";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { LaunchPoolFactoryUpgradeable } from "../typechain-types";
+import {
+  EMPTY_METADATA,
+  getFactory,
+  getHistoryStartBlock,
+  getProjectJson,
+  getSigner,
+  logFactoryEvents,
+  logProjectStatus,
+  toJson,
+  writeOutput,
+} from "./helpers";
+import {
+  ValidationIssue,
+  ValidationOptions,
+  validateProject,
+} from "../sdk/validation";
+import { parseClaimPolicy } from "../sdk/types";
+import {
+  ResolvedProjectSpec,
+  readProjectSpec,
+  resolveProjectSpec,
+} from "./projectSpec";
+
+interface FactoryTaskArgs {
+  factory?: string;
+  signer: string;
+}
+
+interface ProjectTaskArgs extends FactoryTaskArgs {
+  projectId: number;
+}
+
+interface CreateProjectArgs extends FactoryTaskArgs {
+  rewardToken: string;
+  totalRewardAmount: bigint;
+  startTime: number;
+  endTime: number;
+  claimPolicy: string;
+  claimUnlockTime: number;
+  vestingCliff: number;
+  vestingDuration: number;
+  tgeShareBps: number;
+  projectOwner?: string;
+  metadata: Record<string, string>;
+  pools: Record<string, string>[];
+}
+
+interface CreateFromSpecArgs extends FactoryTaskArgs {
+  spec: string;
+  fund: boolean;
+}
+
+interface LintSpecArgs {
+  spec: string;
+  fundingLeadTime?: number;
+  maxRoundingLossBps?: number;
+}
+
+interface ReportArgs extends ProjectTaskArgs {
+  block?: number;
+  fromBlock?: number;
+  format: string;
+  out?: string;
+}
+
+interface SnapshotArgs extends FactoryTaskArgs {
+  projectId?: number;
+  pool?: string;
+  block?: number;
+  fromBlock?: number;
+  format: string;
+  merkleValue: string;
+  minStake?: bigint;
+  minDuration?: number;
+  out?: string;
+}
+
+interface FundPoolArgs extends ProjectTaskArgs {
+  pool: string;
+  amount?: bigint;
+  approve: boolean;
+}
+
+interface AddRewardTokenArgs extends ProjectTaskArgs {
+  rewardToken: string;
+  totalRewardAmount: bigint;
+  poolRewardAmounts: string[];
+}
+
+async function setup(hre: HardhatRuntimeEnvironment, args: FactoryTaskArgs) {
+  const signer = await getSigner(hre, args.signer);
+  const factory = await getFactory(hre, args.factory, signer);
+  console.log(
+    `Using factory ${await factory.getAddress()} on ${hre.network.name} as ${
+      signer.address
+    }`
+  );
+  return { signer, factory };
+}
+
+// Declares the options every launchpool task takes
+function factoryTask(name: string, description: string) {
+  return task(name, description)
+    .addOptionalParam(
+      "factory",
+      "Factory proxy address, defaults to the deployment manifest"
+    )
+    .addOptionalParam(
+      "signer",
+      "Index or address of one of the configured accounts",
+      "0"
+    );
+}
+
+// Runs the pre-flight checks as of the latest block and prints every issue
+async function lintProjectSpec(
+  hre: HardhatRuntimeEnvironment,
+  spec: ResolvedProjectSpec,
+  options: Omit<ValidationOptions, "now"> = {}
+): Promise<ValidationIssue[]> {
+  const latestBlock = await hre.ethers.provider.getBlock("latest");
+  const issues = validateProject(spec, {
+    ...options,
+    now: latestBlock!.timestamp,
+  });
+  for (const issue of issues) {
+    console.log(
+      `${issue.severity === "error" ? "❌" : "⚠️ "} ${issue.kind}: ${
+        issue.message
+      }`
+    );
+  }
+  return issues;
+}
+
+// Project owner actions that only take the project id
+function projectTask(
+  name: string,
+  description: string,
+  action: (
+    factory: LaunchPoolFactoryUpgradeable,
+    projectId: number
+  ) => ReturnType<LaunchPoolFactoryUpgradeable["pauseProject"]>
+) {
+  factoryTask(name, description)
+    .addParam("projectId", "Project id", undefined, types.int)
+    .setAction(async (args: ProjectTaskArgs, hre) => {
+      const { factory } = await setup(hre, args);
+      await logFactoryEvents(factory, await action(factory, args.projectId));
+      await logProjectStatus(factory, args.projectId);
+    });
+}
+
+factoryTask(
+  "launchpool:create-project",
+  "Create a project as the factory owner"
+)
+  .addParam("rewardToken", "Reward token address")
+  .addParam(
+    "totalRewardAmount",
+    "Total reward amount, in reward token base units",
+    undefined,
+    types.bigint
+  )
+  .addParam("startTime", "Start time, unix seconds", undefined, types.int)
+  .addParam("endTime", "End time, unix seconds", undefined, types.int)
+  .addOptionalParam(
+    "claimPolicy",
+    "When stakers may claim: AT_END, ANYTIME or AFTER_UNLOCK",
+    "AT_END"
+  )
+  .addOptionalParam(
+    "claimUnlockTime",
+    "When AFTER_UNLOCK claims open, unix seconds",
+    0,
+    types.int
+  )
+  .addOptionalParam(
+    "vestingCliff",
+    "Seconds after the end before AT_END rewards start vesting",
+    0,
+    types.int
+  )
+  .addOptionalParam(
+    "vestingDuration",
+    "Seconds AT_END rewards vest over once the cliff has passed",
+    0,
+    types.int
+  )
+  .addOptionalParam(
+    "tgeShareBps",
+    "Share of vested rewards claimable at the end, in basis points",
+    0,
+    types.int
+  )
+  .addOptionalParam("projectOwner", "Project owner, defaults to the signer")
+  .addOptionalParam(
+    "metadata",
+    'Project metadata as JSON, e.g. {"projectName":"Bulba"}',
+    {},
+    types.json
+  )
+  .addOptionalParam(
+    "pools",
+    'Initial pools as a JSON array of {"stakedToken","poolRewardAmount","poolLimitPerUser","minStakeAmount","startTime","endTime"}, amounts in base units, times optional',
+    [],
+    types.json
+  )
+  .setAction(async (args: CreateProjectArgs, hre) => {
+    const { signer, factory } = await setup(hre, args);
+    const pools = args.pools.map((pool) => ({
+      stakedToken: pool.stakedToken,
+      poolRewardAmount: BigInt(pool.poolRewardAmount),
+      poolLimitPerUser: BigInt(pool.poolLimitPerUser ?? 0),
+      minStakeAmount: BigInt(pool.minStakeAmount ?? 0),
+      startTime: Number(pool.startTime ?? 0),
+      endTime: Number(pool.endTime ?? 0),
+    }));
+    let claimPolicy;
+    try {
+      claimPolicy = parseClaimPolicy(args.claimPolicy);
+    } catch (error: any) {
+      throw new HardhatPluginError("launchpool", error.message);
+    }
+
+    const events = await logFactoryEvents(
+      factory,
+      await factory.createProject(
+        args.rewardToken,
+        args.totalRewardAmount,
+        args.startTime,
+        args.endTime,
+        { ...EMPTY_METADATA, ...args.metadata },
+        pools,
+        args.projectOwner ?? signer.address,
+        {
+          policy: claimPolicy,
+          unlockTime: args.claimUnlockTime,
+          vestingCliff: args.vestingCliff,
+          vestingDuration: args.vestingDuration,
+          tgeShareBps: args.tgeShareBps,
+        }
+      )
+    );
+    const newProject = events.find((event) => event.name === "NewProject");
+    if (!newProject) {
+      throw new HardhatPluginError(
+        "launchpool",
+        "createProject emitted no NewProject event"
+      );
+    }
+    await logProjectStatus(factory, newProject.args.projectId);
+  });
+
+task(
+  "launchpool:lint-spec",
+  "Check a project spec against the contracts before creating it"
+)
+  .addParam("spec", "Path to the project spec")
+  .addOptionalParam(
+    "fundingLeadTime",
+    "Seconds needed between creation and start to fund every pool",
+    3600,
+    types.int
+  )
+  .addOptionalParam(
+    "maxRoundingLossBps",
+    "Rounding loss per pool to report, in basis points of its reward amount",
+    1,
+    types.float
+  )
+  .setAction(async (args: LintSpecArgs, hre) => {
+    const spec = await resolveProjectSpec(hre, readProjectSpec(args.spec));
+    const issues = await lintProjectSpec(hre, spec, {
+      fundingLeadTime: args.fundingLeadTime,
+      maxRoundingLossBps: args.maxRoundingLossBps,
+    });
+    const errors = issues.filter((issue) => issue.severity === "error");
+    if (errors.length > 0) {
+      throw new HardhatPluginError(
+        "launchpool",
+        `${errors.length} errors and ${
+          issues.length - errors.length
+        } warnings in ${args.spec}`
+      );
+    }
+    console.log(
+      `✅ ${args.spec} can be created${
+        issues.length > 0 ? `, with ${issues.length} warnings` : ""
+      }`
+    );
+  });
+
+factoryTask(
+  "launchpool:create-from-spec",
+  "Create a project from a JSON or YAML spec with human-readable amounts"
+)
+  .addParam("spec", "Path to the project spec")
+  .addFlag("fund", "Approve the factory and fund every pool once created")
+  .setAction(async (args: CreateFromSpecArgs, hre) => {
+    const { signer, factory } = await setup(hre, args);
+    const spec = await resolveProjectSpec(hre, readProjectSpec(args.spec));
+    const { rewardToken } = spec;
+    const projectOwner = spec.projectOwner ?? signer.address;
+    console.log(
+      `Reward token: ${rewardToken.symbol} at ${rewardToken.address} (${rewardToken.decimals} decimals)`
+    );
+    for (const [i, pool] of spec.pools.entries()) {
+      console.log(
+        `Pool ${i}: stake ${pool.stakedToken.symbol} at ${
+          pool.stakedToken.address
+        } for ${hre.ethers.formatUnits(
+          pool.poolRewardAmount,
+          rewardToken.decimals
+        )} ${rewardToken.symbol}`
+      );
+    }
+
+    // Fail before creating anything the signer couldn't fund afterwards
+    if (
+      args.fund &&
+      projectOwner.toLowerCase() !== signer.address.toLowerCase()
+    ) {
+      throw new HardhatPluginError(
+        "launchpool",
+        `Only the project owner ${projectOwner} can fund its pools, not ${signer.address}`
+      );
+    }
+    if (args.fund) {
+      const token = await hre.ethers.getContractAt(
+        "IERC20",
+        rewardToken.address
+      );
+      const balance = await token.balanceOf(signer.address);
+      if (balance < spec.totalRewardAmount) {
+        throw new HardhatPluginError(
+          "launchpool",
+          `${signer.address} holds ${hre.ethers.formatUnits(
+            balance,
+            rewardToken.decimals
+          )} ${rewardToken.symbol}, not enough to fund every pool`
+        );
+      }
+    }
+    const issues = await lintProjectSpec(hre, spec);
+    const errors = issues.filter((issue) => issue.severity === "error");
+    if (errors.length > 0) {
+      throw new HardhatPluginError(
+        "launchpool",
+        `${errors.length} problems in ${args.spec}, see launchpool:lint-spec`
+      );
+    }
+
+    const events = await logFactoryEvents(
+      factory,
+      await factory.createProject(
+        rewardToken.address,
+        spec.totalRewardAmount,
+        spec.startTime,
+        spec.endTime,
+        spec.metadata,
+        spec.pools.map((pool) => ({
+          stakedToken: pool.stakedToken.address,
+          poolRewardAmount: pool.poolRewardAmount,
+          poolLimitPerUser: pool.poolLimitPerUser,
+          minStakeAmount: pool.minStakeAmount,
+          startTime: pool.startTime,
+          endTime: pool.endTime,
+        })),
+        projectOwner,
+        spec.claimSettings
+      )
+    );
+    const newProject = events.find((event) => event.name === "NewProject");
+    if (!newProject) {
+      throw new HardhatPluginError(
+        "launchpool",
+        "createProject emitted no NewProject event"
+      );
+    }
+    const projectId: bigint = newProject.args.projectId;
+
+    if (args.fund) {
+      const token = await hre.ethers.getContractAt(
+        "IERC20",
+        rewardToken.address,
+        signer
+      );
+      const factoryAddress = await factory.getAddress();
+      const allowance = await token.allowance(signer.address, factoryAddress);
+      if (allowance < spec.totalRewardAmount) {
+        console.log(
+          `Approving the factory for ${hre.ethers.formatUnits(
+            spec.totalRewardAmount,
+            rewardToken.decimals
+          )} ${rewardToken.symbol}...`
+        );
+        await (
+          await token.approve(factoryAddress, spec.totalRewardAmount)
+        ).wait();
+      }
+      const pools = events.filter((event) => event.name === "NewLaunchPool");
+      for (const [i, pool] of pools.entries()) {
+        console.log(`Funding pool ${pool.args.launchPool}...`);
+        await logFactoryEvents(
+          factory,
+          await factory.fundPool(
+            projectId,
+            pool.args.launchPool,
+            spec.pools[i].poolRewardAmount
+          )
+        );
+      }
+    }
+
+    await logProjectStatus(factory, projectId);
+    console.log(await getProjectJson(factory, projectId));
+  });
+
+factoryTask(
+  "launchpool:fund-pool",
+  "Fund a pool with its reward amount as the project owner"
+)
+  .addParam("projectId", "Project id", undefined, types.int)
+  .addParam("pool", "Pool address")
+  .addOptionalParam(
+    "amount",
+    "Amount in reward token base units, defaults to the pool reward amount",
+    undefined,
+    types.bigint
+  )
+  .addFlag("approve", "Approve the factory for the amount if needed")
+  .setAction(async (args: FundPoolArgs, hre) => {
+    const { signer, factory } = await setup(hre, args);
+    const pool = await hre.ethers.getContractAt("LaunchPool", args.pool);
+    const amount = args.amount ?? (await pool.poolRewardAmount());
+    // fundPool also pulls the pool's allocation of each extra reward token
+    const [, ...extraRewards] = await pool.getPoolRewards();
+    const transfers = [
+      {
+        rewardToken: await factory.getProjectRewardToken(args.projectId),
+        amount,
+      },
+      ...extraRewards.map((reward) => ({
+        rewardToken: reward.rewardToken,
+        amount: reward.poolRewardAmount,
+      })),
+    ];
+
+    const factoryAddress = await factory.getAddress();
+    for (const transfer of transfers) {
+      const rewardToken = await hre.ethers.getContractAt(
+        "IERC20",
+        transfer.rewardToken,
+        signer
+      );
+      const allowance = await rewardToken.allowance(
+        signer.address,
+        factoryAddress
+      );
+      if (allowance < transfer.amount) {
+        if (!args.approve) {
+          throw new HardhatPluginError(
+            "launchpool",
+            `Factory allowance of ${transfer.rewardToken} is ${allowance}, below ${transfer.amount}. Approve it first or pass --approve`
+          );
+        }
+        console.log(
+          `Approving the factory for ${transfer.amount} of ${transfer.rewardToken}...`
+        );
+        await (
+          await rewardToken.approve(factoryAddress, transfer.amount)
+        ).wait();
+      }
+    }
+
+    await logFactoryEvents(
+      factory,
+      await factory.fundPool(args.projectId, args.pool, amount)
+    );
+    await logProjectStatus(factory, args.projectId);
+  });
+
+factoryTask(
+  "launchpool:add-reward-token",
+  "Add an extra reward token to a staging project as the project owner"
+)
+  .addParam("projectId", "Project id", undefined, types.int)
+  .addParam("rewardToken", "Reward token address")
+  .addParam(
+    "totalRewardAmount",
+    "Total amount of the token, in its base units",
+    undefined,
+    types.bigint
+  )
+  .addParam(
+    "poolRewardAmounts",
+    "JSON array of each pool's allocation in base units, in pool order, adding up to the total",
+    undefined,
+    types.json
+  )
+  .setAction(async (args: AddRewardTokenArgs, hre) => {
+    const { factory } = await setup(hre, args);
+    await logFactoryEvents(
+      factory,
+      await factory.addExtraRewardToken(
+        args.projectId,
+        args.rewardToken,
+        args.totalRewardAmount,
+        args.poolRewardAmounts.map((amount) => BigInt(amount))
+      )
+    );
+    await logProjectStatus(factory, args.projectId);
+  });
+
+projectTask("launchpool:pause", "Pause a project", (factory, projectId) =>
+  factory.pauseProject(projectId)
+);
+
+projectTask(
+  "launchpool:resume",
+  "Resume a paused project, back to READY if every pool is funded or STAGING otherwise",
+  (factory, projectId) => factory.resumeProject(projectId)
+);
+
+projectTask("launchpool:delist", "Delist a project", (factory, projectId) =>
+  factory.delistProject(projectId)
+);
+
+projectTask(
+  "launchpool:end",
+  "End a READY project now, moving its end time to the current block",
+  (factory, projectId) => factory.endProject(projectId)
+);
+
+factoryTask("launchpool:status", "Print the status of a project")
+  .addParam("projectId", "Project id", undefined, types.int)
+  .setAction(async (args: ProjectTaskArgs, hre) => {
+    const { factory } = await setup(hre, args);
+    await logProjectStatus(factory, args.projectId);
+  });
+
+factoryTask(
+  "launchpool:report",
+  "Write a settlement report of a project's pools and users"
+)
+  .addParam("projectId", "Project id", undefined, types.int)
+  .addOptionalParam(
+    "block",
+    "Block to report at, defaults to the latest",
+    undefined,
+    types.int
+  )
+  .addOptionalParam(
+    "fromBlock",
+    "First block to search for logs, defaults to the factory deployment block",
+    undefined,
+    types.int
+  )
+  .addOptionalParam("format", "csv or json", "json")
+  .addOptionalParam(
+    "out",
+    "Output path without extension, defaults to data/reports/project-<id>-<block>"
+  )
+  .setAction(async (args: ReportArgs, hre) => {
+    if (!["csv", "json"].includes(args.format)) {
+      throw new HardhatPluginError(
+        "launchpool",
+        `Unknown format ${args.format}, use csv or json`
+      );
+    }
+    const { factory } = await setup(hre, args);
+    // Loaded lazily, the reports use typechain factories
+    const { buildSettlementReport, settlementToCsv } = await import(
+      "../reports"
+    );
+    const report = await buildSettlementReport(
+      hre.ethers.provider,
+      await factory.getAddress(),
+      args.projectId,
+      {
+        blockNumber: args.block,
+        fromBlock: await getHistoryStartBlock(args.factory, args.fromBlock),
+      }
+    );
+    console.log(
+      `Project ${report.projectId} is ${report.currentStatus} at block ${report.blockNumber}`
+    );
+    for (const pool of report.pools) {
+      console.log(
+        `  ${pool.pool}: ${pool.participantCount} users, accrued ${pool.accrued}, claimed ${pool.claimed}, unclaimed ${pool.unclaimed}, leftover ${pool.leftover}`
+      );
+      for (const reward of pool.extraRewards) {
+        console.log(
+          `    ${reward.rewardToken}: claimed ${reward.claimed}, unclaimed ${reward.unclaimed}, leftover ${reward.leftover}`
+        );
+      }
+    }
+    for (const entry of [...report.pools, ...report.users]) {
+      const label =
+        "user" in entry ? `${entry.pool} ${entry.user}` : entry.pool;
+      for (const discrepancy of entry.discrepancies) {
+        console.log(`⚠️  ${label}: ${discrepancy}`);
+      }
+    }
+
+    const out =
+      args.out ??
+      path.join(
+        "data",
+        "reports",
+        `project-${report.projectId}-${report.blockNumber}`
+      );
+    if (args.format === "json") {
+      writeOutput(`${out}.json`, toJson(report) + "\n");
+    } else {
+      const csv = settlementToCsv(report);
+      writeOutput(`${out}-pools.csv`, csv.pools);
+      writeOutput(`${out}-users.csv`, csv.users);
+      if (csv.extraRewards) {
+        writeOutput(`${out}-extra-rewards.csv`, csv.extraRewards);
+      }
+    }
+    if (report.discrepancyCount > 0) {
+      console.log(
+        `⚠️  ${report.discrepancyCount} values differ from the chain, see the discrepancies columns`
+      );
+    }
+  });
+
+factoryTask(
+  "launchpool:snapshot",
+  "Export the participants of a project or pool at a block"
+)
+  .addOptionalParam("projectId", "Project id", undefined, types.int)
+  .addOptionalParam("pool", "Pool address, instead of --project-id")
+  .addOptionalParam(
+    "block",
+    "Block to snapshot at, defaults to the latest",
+    undefined,
+    types.int
+  )
+  .addOptionalParam(
+    "fromBlock",
+    "First block to search for logs, defaults to the factory deployment block",
+    undefined,
+    types.int
+  )
+  .addOptionalParam("format", "csv, json or merkle", "csv")
+  .addOptionalParam(
+    "merkleValue",
+    "Leaf value for --format merkle: pendingReward or amount",
+    "pendingReward"
+  )
+  .addOptionalParam(
+    "minStake",
+    "Minimum userInfo.amount, in staked token base units",
+    undefined,
+    types.bigint
+  )
+  .addOptionalParam(
+    "minDuration",
+    "Minimum time in seconds since the current stake started",
+    undefined,
+    types.int
+  )
+  .addOptionalParam(
+    "out",
+    "Output file, defaults to data/snapshots/<project or pool>-<block>.<ext>"
+  )
+  .setAction(async (args: SnapshotArgs, hre) => {
+    if ((args.projectId === undefined) === (args.pool === undefined)) {
+      throw new HardhatPluginError(
+        "launchpool",
+        "Pass either --project-id or --pool"
+      );
+    }
+    if (!["csv", "json", "merkle"].includes(args.format)) {
+      throw new HardhatPluginError(
+        "launchpool",
+        `Unknown format ${args.format}, use csv, json or merkle`
+      );
+    }
+    if (!["amount", "pendingReward"].includes(args.merkleValue)) {
+      throw new HardhatPluginError(
+        "launchpool",
+        `Unknown Merkle value ${args.merkleValue}, use amount or pendingReward`
+      );
+    }
+    const { factory } = await setup(hre, args);
+    const { buildParticipantSnapshot, snapshotToCsv, snapshotToMerkleInput } =
+      await import("../reports");
+    const snapshot = await buildParticipantSnapshot(
+      hre.ethers.provider,
+      await factory.getAddress(),
+      args.pool !== undefined
+        ? { pool: args.pool }
+        : { projectId: args.projectId! },
+      {
+        blockNumber: args.block ?? (await hre.ethers.provider.getBlockNumber()),
+        fromBlock: await getHistoryStartBlock(args.factory, args.fromBlock),
+        minStake: args.minStake,
+        minDuration: args.minDuration,
+      }
+    );
+    console.log(
+      `${snapshot.entries.length} participants in ${snapshot.pools.length} pools of project ${snapshot.projectId} at block ${snapshot.blockNumber}`
+    );
+
+    const name = `${args.pool ?? `project-${snapshot.projectId}`}-${
+      snapshot.blockNumber
+    }`;
+    let content: string;
+    let extension = "json";
+    if (args.format === "csv") {
+      content = snapshotToCsv(snapshot);
+      extension = "csv";
+    } else if (args.format === "merkle") {
+      try {
+        content = toJson(
+          snapshotToMerkleInput(
+            snapshot,
+            args.merkleValue as "amount" | "pendingReward"
+          )
+        );
+      } catch (error: any) {
+        throw new HardhatPluginError("launchpool", error.message);
+      }
+    } else {
+      content = toJson(snapshot);
+    }
+    writeOutput(
+      args.out ?? path.join("data", "snapshots", `${name}.${extension}`),
+      content.endsWith("\n") ? content : content + "\n"
+    );
+  });
@@ -0,0 +1,259 @@
+import fs from "fs";
+import path from "path";
+import yaml from "js-yaml";
+import { HardhatPluginError } from "hardhat/plugins";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  CLAIM_AT_END,
+  ClaimSettings,
+  ETH_ADDRESS,
+  isEthToken,
+  parseClaimPolicy,
+} from "../sdk/types";
+import { EMPTY_METADATA } from "./helpers";
+
+type Amount = string | number;
+
+// Project spec as written in the JSON or YAML file
+export interface ProjectSpec {
+  // Symbol to address map for the tokens referenced by symbol below
+  tokens?: Record<string, string>;
+  rewardToken: string;
+  totalRewardAmount: Amount;
+  startTime: string | Date;
+  endTime: string | Date;
+  // AT_END (default), ANYTIME or AFTER_UNLOCK
+  claimPolicy?: string;
+  // When AFTER_UNLOCK claims open
+  claimUnlockTime?: string | Date;
+  // Vesting of AT_END rewards after endTime, cliff and duration in seconds
+  vesting?: {
+    cliff?: number;
+    duration?: number;
+    tgeShareBps?: number;
+  };
+  projectOwner?: string;
+  metadata?: Record<string, string>;
+  pools: {
+    stakedToken: string;
+    poolRewardAmount: Amount;
+    poolLimitPerUser?: Amount;
+    minStakeAmount?: Amount;
+    // Window within the project's, defaults to the project's times
+    startTime?: string | Date;
+    endTime?: string | Date;
+  }[];
+}
+
+export interface ResolvedToken {
+  address: string;
+  symbol: string;
+  decimals: number;
+  totalSupply?: bigint;
+}
+
+// Spec resolved to createProject arguments, amounts in token base units.
+// Resolving only checks the spec can be read, validateProject checks what
+// the contracts would do with it.
+export interface ResolvedProjectSpec {
+  rewardToken: ResolvedToken;
+  totalRewardAmount: bigint;
+  startTime: number;
+  endTime: number;
+  claimSettings: ClaimSettings;
+  projectOwner?: string;
+  metadata: typeof EMPTY_METADATA;
+  pools: {
+    stakedToken: ResolvedToken;
+    poolRewardAmount: bigint;
+    poolLimitPerUser: bigint;
+    minStakeAmount: bigint;
+    // 0 for the project's times
+    startTime: number;
+    endTime: number;
+  }[];
+}
+
+function specError(message: string): HardhatPluginError {
+  return new HardhatPluginError(
+    "launchpool",
+    `Invalid project spec: ${message}`
+  );
+}
+
+export function readProjectSpec(specPath: string): ProjectSpec {
+  const content = fs.readFileSync(specPath, "utf8");
+  const extension = path.extname(specPath).toLowerCase();
+  const spec = extension === ".json" ? JSON.parse(content) : yaml.load(content);
+  if (typeof spec !== "object" || spec === null) {
+    throw specError(`${specPath} does not contain an object`);
+  }
+  return spec as ProjectSpec;
+}
+
+async function resolveToken(
+  hre: HardhatRuntimeEnvironment,
+  spec: ProjectSpec,
+  token: string,
+  field: string
+): Promise<ResolvedToken> {
+  if (token.toUpperCase() === "ETH" || isEthToken(token)) {
+    return { address: ETH_ADDRESS, symbol: "ETH", decimals: 18 };
+  }
+  const address = hre.ethers.isAddress(token) ? token : spec.tokens?.[token];
+  if (!address) {
+    throw specError(`${field} ${token} is neither an address nor in tokens`);
+  }
+  const metadata = await hre.ethers.getContractAt("IERC20Metadata", address);
+  const [symbol, decimals, totalSupply] = await Promise.all([
+    metadata.symbol(),
+    metadata.decimals(),
+    metadata.totalSupply(),
+  ]);
+  // Catches a tokens entry pointing at the wrong contract
+  if (!hre.ethers.isAddress(token) && symbol !== token) {
+    throw specError(`${field} ${token} resolves to ${address}, a ${symbol}`);
+  }
+  return { address, symbol, decimals: Number(decimals), totalSupply };
+}
+
+function parseAmount(
+  hre: HardhatRuntimeEnvironment,
+  value: Amount | undefined,
+  token: ResolvedToken,
+  field: string
+): bigint {
+  if (value === undefined) {
+    return 0n;
+  }
+  // YAML reads unquoted large numbers as floats, which lose precision
+  if (typeof value === "number" && !Number.isSafeInteger(value)) {
+    if (!Number.isFinite(value) || Math.abs(value) >= 1e15) {
+      throw specError(`quote ${field} (${value}) to keep its precision`);
+    }
+  }
+  try {
+    return hre.ethers.parseUnits(String(value), token.decimals);
+  } catch {
+    throw specError(`${field} ${value} is not a ${token.symbol} amount`);
+  }
+}
+
+function parseInteger(value: number | undefined, field: string): number {
+  if (value === undefined) {
+    return 0;
+  }
+  if (!Number.isSafeInteger(value) || value < 0) {
+    throw specError(`${field} ${value} is not a whole number`);
+  }
+  return value;
+}
+
+function parseTime(value: string | Date, field: string): number {
+  // YAML turns unquoted ISO timestamps into dates already
+  const date = value instanceof Date ? value : new Date(value);
+  if (isNaN(date.getTime())) {
+    throw specError(`${field} ${value} is not an ISO date`);
+  }
+  return Math.floor(date.getTime() / 1000);
+}
+
+export async function resolveProjectSpec(
+  hre: HardhatRuntimeEnvironment,
+  spec: ProjectSpec
+): Promise<ResolvedProjectSpec> {
+  const rewardToken = await resolveToken(
+    hre,
+    spec,
+    spec.rewardToken,
+    "rewardToken"
+  );
+  const totalRewardAmount = parseAmount(
+    hre,
+    spec.totalRewardAmount,
+    rewardToken,
+    "totalRewardAmount"
+  );
+  const startTime = parseTime(spec.startTime, "startTime");
+  const endTime = parseTime(spec.endTime, "endTime");
+  const claimSettings = { ...CLAIM_AT_END };
+  if (spec.claimPolicy !== undefined) {
+    try {
+      claimSettings.policy = parseClaimPolicy(spec.claimPolicy);
+    } catch {
+      throw specError(
+        `claimPolicy ${spec.claimPolicy} is not AT_END, ANYTIME or AFTER_UNLOCK`
+      );
+    }
+  }
+  if (spec.claimUnlockTime !== undefined) {
+    claimSettings.unlockTime = parseTime(
+      spec.claimUnlockTime,
+      "claimUnlockTime"
+    );
+  }
+  if (spec.vesting !== undefined) {
+    claimSettings.vestingCliff = parseInteger(
+      spec.vesting.cliff,
+      "vesting.cliff"
+    );
+    claimSettings.vestingDuration = parseInteger(
+      spec.vesting.duration,
+      "vesting.duration"
+    );
+    claimSettings.tgeShareBps = parseInteger(
+      spec.vesting.tgeShareBps,
+      "vesting.tgeShareBps"
+    );
+  }
+
+  const pools = [];
+  for (const [i, pool] of (spec.pools ?? []).entries()) {
+    const stakedToken = await resolveToken(
+      hre,
+      spec,
+      pool.stakedToken,
+      `pools[${i}].stakedToken`
+    );
+    pools.push({
+      stakedToken,
+      poolRewardAmount: parseAmount(
+        hre,
+        pool.poolRewardAmount,
+        rewardToken,
+        `pools[${i}].poolRewardAmount`
+      ),
+      poolLimitPerUser: parseAmount(
+        hre,
+        pool.poolLimitPerUser,
+        stakedToken,
+        `pools[${i}].poolLimitPerUser`
+      ),
+      minStakeAmount: parseAmount(
+        hre,
+        pool.minStakeAmount,
+        stakedToken,
+        `pools[${i}].minStakeAmount`
+      ),
+      startTime:
+        pool.startTime === undefined
+          ? 0
+          : parseTime(pool.startTime, `pools[${i}].startTime`),
+      endTime:
+        pool.endTime === undefined
+          ? 0
+          : parseTime(pool.endTime, `pools[${i}].endTime`),
+    });
+  }
+
+  return {
+    rewardToken,
+    totalRewardAmount,
+    startTime,
+    endTime,
+    claimSettings,
+    projectOwner: spec.projectOwner,
+    metadata: { ...EMPTY_METADATA, ...spec.metadata },
+    pools,
+  };
+}
@@ -7,6 +7,7 @@ import {
   MockToken,
 } from "../typechain-types";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { CLAIM_AT_END } from "../sdk";
 
 describe("Access Control", function () {
   async function deployFixture() {
@@ -60,6 +61,8 @@ describe("Access Control", function () {
         poolRewardAmount: ethers.parseEther("360"),
         poolLimitPerUser: ethers.parseEther("100"),
         minStakeAmount: ethers.parseEther("10"),
+        startTime: 0,
+        endTime: 0,
       },
     ];
 
@@ -70,7 +73,8 @@ describe("Access Control", function () {
       endTime,
       metadata,
       initialPools,
-      projectOwner.address
+      projectOwner.address,
+      CLAIM_AT_END
     );
 
     const projectId = (await factory.nextProjectId()) - 1n;
@@ -136,6 +140,8 @@ describe("Access Control", function () {
         poolRewardAmount: bigint;
         poolLimitPerUser: bigint;
         minStakeAmount: bigint;
+        startTime: number;
+        endTime: number;
       }[];
 
       await expect(
@@ -148,7 +154,8 @@ describe("Access Control", function () {
             endTime,
             metadata,
             emptyPools,
-            projectOwner.address
+            projectOwner.address,
+            CLAIM_AT_END
           )
       ).to.be.revertedWith("Ownable: caller is not the owner");
     });
@@ -173,6 +180,8 @@ describe("Access Control", function () {
         poolRewardAmount: bigint;
         poolLimitPerUser: bigint;
         minStakeAmount: bigint;
+        startTime: number;
+        endTime: number;
       }[];
 
       await expect(
@@ -183,7 +192,8 @@ describe("Access Control", function () {
           endTime,
           metadata,
           emptyPools,
-          projectOwner.address
+          projectOwner.address,
+          CLAIM_AT_END
         )
       ).to.emit(factory, "NewProject");
 
@@ -195,7 +205,9 @@ describe("Access Control", function () {
           testToken,
           ethers.parseEther("360"), // 0.1 tokens per second * 3600 seconds
           ethers.parseEther("100"),
-          ethers.parseEther("10")
+          ethers.parseEther("10"),
+          0,
+          0
         )
       ).to.emit(factory, "NewLaunchPool");
     });
@@ -296,6 +308,8 @@ describe("Access Control", function () {
         poolRewardAmount: bigint;
         poolLimitPerUser: bigint;
         minStakeAmount: bigint;
+        startTime: number;
+        endTime: number;
       }[];
 
       await expect(
@@ -308,7 +322,8 @@ describe("Access Control", function () {
             endTime,
             metadata,
             emptyPools,
-            projectOwner.address
+            projectOwner.address,
+            CLAIM_AT_END
           )
       ).to.be.revertedWith("Ownable: caller is not the owner");
 
@@ -323,7 +338,8 @@ describe("Access Control", function () {
             endTime,
             metadata,
             emptyPools,
-            projectOwner.address
+            projectOwner.address,
+            CLAIM_AT_END
           )
       ).to.emit(factory, "NewProject");
     });
@@ -0,0 +1,267 @@
+import { expect } from "chai";
+import http from "http";
+import { AddressInfo } from "net";
+import { ethers, upgrades } from "hardhat";
+import {
+  loadFixture,
+  mine,
+  time,
+} from "@nomicfoundation/hardhat-network-helpers";
+import { LaunchPoolFactoryUpgradeable } from "../typechain-types";
+import { CLAIM_AT_END, ETH_ADDRESS } from "../sdk";
+import { Indexer } from "../indexer";
+import { createApiServer } from "../api";
+
+describe("API server", function () {
+  let server: http.Server | undefined;
+
+  afterEach(async function () {
+    await new Promise((resolve) => server?.close(resolve) ?? resolve(null));
+    server = undefined;
+  });
+
+  async function deployFixture() {
+    const [owner, projectOwner, otherOwner, user1, user2] =
+      await ethers.getSigners();
+
+    const LaunchPool = await ethers.getContractFactory("LaunchPool");
+    const launchPoolImpl = await LaunchPool.deploy();
+    await launchPoolImpl.waitForDeployment();
+    const Factory = await ethers.getContractFactory(
+      "LaunchPoolFactoryUpgradeable"
+    );
+    const factory = (await upgrades.deployProxy(
+      Factory,
+      [await launchPoolImpl.getAddress()],
+      {
+        initializer: "initialize",
+        kind: "uups",
+      }
+    )) as LaunchPoolFactoryUpgradeable;
+
+    const MockToken = await ethers.getContractFactory("MockToken");
+    const rewardToken = await MockToken.deploy();
+    await rewardToken.waitForDeployment();
+    const otherRewardToken = await MockToken.deploy();
+    await otherRewardToken.waitForDeployment();
+    const testToken = await MockToken.deploy();
+    await testToken.waitForDeployment();
+
+    const startTime = (await time.latest()) + 100;
+    const endTime = startTime + 3600;
+    const metadata = {
+      projectName: "API Project",
+      website: "https://test.com",
+      logo: "https://test.com/logo.png",
+      discord: "https://discord.gg/test",
+      twitter: "https://twitter.com/test",
+      telegram: "https://t.me/test",
+      tokenInfo: "Test Token Info",
+    };
+    const pools = [
+      {
+        stakedToken: testToken,
+        poolRewardAmount: ethers.parseEther("360"),
+        poolLimitPerUser: ethers.parseEther("100"),
+        minStakeAmount: ethers.parseEther("1"),
+        startTime: 0,
+        endTime: 0,
+      },
+      {
+        stakedToken: ETH_ADDRESS,
+        poolRewardAmount: ethers.parseEther("360"),
+        poolLimitPerUser: ethers.parseEther("10"),
+        minStakeAmount: ethers.parseEther("0.1"),
+        startTime: 0,
+        endTime: 0,
+      },
+    ];
+    // Project 0 goes live, project 1 stays in STAGING
+    await factory.createProject(
+      rewardToken,
+      ethers.parseEther("720"),
+      startTime,
+      endTime,
+      metadata,
+      pools,
+      projectOwner.address,
+      CLAIM_AT_END
+    );
+    await factory.createProject(
+      otherRewardToken,
+      ethers.parseEther("360"),
+      startTime,
+      endTime,
+      metadata,
+      [pools[0]],
+      otherOwner.address,
+      CLAIM_AT_END
+    );
+
+    const [tokenPool, ethPool] = await Promise.all(
+      (
+        await factory.getProjectPools(0)
+      ).map((info) => ethers.getContractAt("LaunchPool", info.poolAddress))
+    );
+    await rewardToken.mint(projectOwner.address, ethers.parseEther("720"));
+    await rewardToken
+      .connect(projectOwner)
+      .approve(await factory.getAddress(), ethers.parseEther("720"));
+    for (const pool of [tokenPool, ethPool]) {
+      await factory
+        .connect(projectOwner)
+        .fundPool(0, pool, ethers.parseEther("360"));
+    }
+    await time.increaseTo(startTime);
+
+    for (const user of [user1, user2]) {
+      await testToken.mint(user.address, ethers.parseEther("100"));
+      await testToken
+        .connect(user)
+        .approve(await tokenPool.getAddress(), ethers.MaxUint256);
+    }
+    await tokenPool.connect(user1).deposit(ethers.parseEther("30"));
+    await tokenPool.connect(user2).deposit(ethers.parseEther("10"));
+    await ethPool
+      .connect(user1)
+      .deposit(ethers.parseEther("2"), { value: ethers.parseEther("2") });
+
+    return {
+      factory,
+      tokenPool,
+      ethPool,
+      rewardToken,
+      otherRewardToken,
+      testToken,
+      projectOwner,
+      otherOwner,
+      user1,
+      user2,
+    };
+  }
+
+  async function startServer(factory: LaunchPoolFactoryUpgradeable) {
+    const indexer = new Indexer(ethers.provider, {
+      factory: factory.target as string,
+      confirmations: 0,
+    });
+    await indexer.sync();
+    server = createApiServer({ provider: ethers.provider, indexer });
+    await new Promise<void>((resolve) =>
+      server!.listen(0, "127.0.0.1", resolve)
+    );
+    const { port } = server.address() as AddressInfo;
+    return async (path: string) => {
+      const response = await fetch(`http://127.0.0.1:${port}${path}`);
+      return { status: response.status, body: await response.json() };
+    };
+  }
+
+  it("Should filter and paginate projects", async function () {
+    const { factory, rewardToken, otherRewardToken, testToken, otherOwner } =
+      await loadFixture(deployFixture);
+    const get = await startServer(factory);
+
+    const active = await get("/projects?status=ACTIVE");
+    expect(active.status).to.equal(200);
+    expect(active.body.total).to.equal(1);
+    expect(active.body.items[0].projectId).to.equal(0);
+    expect(active.body.items[0].currentStatus).to.equal("ACTIVE");
+    expect(active.body.items[0].totalRewardAmount).to.equal(
+      ethers.parseEther("720").toString()
+    );
+
+    const staging = await get(`/projects?owner=${otherOwner.address}`);
+    expect(staging.body.items.map((p: any) => p.projectId)).to.deep.equal([1]);
+    expect(staging.body.items[0].currentStatus).to.equal("STAGING");
+    expect(
+      (await get(`/projects?rewardToken=${await rewardToken.getAddress()}`))
+        .body.total
+    ).to.equal(1);
+    expect(
+      (await get(`/projects?stakedToken=${await testToken.getAddress()}`)).body
+        .total
+    ).to.equal(2);
+    expect((await get("/projects?stakedToken=ETH")).body.total).to.equal(1);
+    expect(
+      (
+        await get(
+          `/projects?status=staging,active&rewardToken=${await otherRewardToken.getAddress()}`
+        )
+      ).body.total
+    ).to.equal(1);
+
+    const page = await get("/projects?limit=1&offset=1");
+    expect(page.body).to.include({ total: 2, offset: 1, limit: 1 });
+    expect(page.body.items.map((p: any) => p.projectId)).to.deep.equal([1]);
+  });
+
+  it("Should list the pools of a project with their TVL", async function () {
+    const { factory, tokenPool, ethPool, rewardToken } = await loadFixture(
+      deployFixture
+    );
+    const get = await startServer(factory);
+
+    const { body } = await get("/projects/0/pools");
+    expect(body.total).to.equal(2);
+    expect(body.items[0]).to.include({
+      address: await tokenPool.getAddress(),
+      rewardToken: await rewardToken.getAddress(),
+      currentStatus: "ACTIVE",
+      totalStaked: ethers.parseEther("40").toString(),
+      participantCount: 2,
+      funded: true,
+    });
+    expect(body.items[1].totalStaked).to.equal(
+      ethers.parseEther("2").toString()
+    );
+
+    const ethPools = await get("/pools?stakedToken=ETH");
+    expect(ethPools.body.items.map((p: any) => p.address)).to.deep.equal([
+      await ethPool.getAddress(),
+    ]);
+    const pool = await get(`/pools/${await ethPool.getAddress()}`);
+    expect(pool.body.projectId).to.equal(0);
+  });
+
+  it("Should return positions with live pending rewards", async function () {
+    const { factory, tokenPool, ethPool, user1 } = await loadFixture(
+      deployFixture
+    );
+    const get = await startServer(factory);
+
+    const { body } = await get(`/wallets/${user1.address}/positions`);
+    expect(body.total).to.equal(2);
+    expect(body.items[0]).to.include({
+      pool: await tokenPool.getAddress(),
+      amount: ethers.parseEther("30").toString(),
+      currentStatus: "ACTIVE",
+    });
+    expect(body.items[0].pendingReward).to.equal(
+      (await tokenPool.pendingReward(user1.address)).toString()
+    );
+
+    // Rewards keep accruing between syncs
+    await time.increase(600);
+    await mine();
+    const later = await get(
+      `/wallets/${user1.address}/positions?stakedToken=ETH`
+    );
+    expect(later.body.total).to.equal(1);
+    expect(later.body.items[0].pendingReward).to.not.equal("0");
+    expect(later.body.items[0].pendingReward).to.equal(
+      (await ethPool.pendingReward(user1.address)).toString()
+    );
+  });
+
+  it("Should reject invalid requests", async function () {
+    const { factory } = await loadFixture(deployFixture);
+    const get = await startServer(factory);
+
+    expect((await get("/projects?status=LIVE")).status).to.equal(400);
+    expect((await get("/projects?owner=bob")).status).to.equal(400);
+    expect((await get("/projects?limit=-1")).status).to.equal(400);
+    expect((await get("/projects/7")).status).to.equal(404);
+    expect((await get("/unknown")).status).to.equal(404);
+  });
+});
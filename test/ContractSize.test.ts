@@ -0,0 +1,15 @@
+import { expect } from "chai";
+import { artifacts, ethers } from "hardhat";
+
+describe("Contract size", function () {
+  // EIP-170 limit on deployed code. The in-process network allows unlimited
+  // contract sizes, so a factory over it would only fail on a real chain.
+  const MAX_CODE_SIZE = 24576;
+
+  for (const name of ["LaunchPoolFactoryUpgradeable", "LaunchPool"]) {
+    it(`Should keep ${name} within the EIP-170 limit`, async function () {
+      const { deployedBytecode } = await artifacts.readArtifact(name);
+      expect(ethers.dataLength(deployedBytecode)).to.be.at.most(MAX_CODE_SIZE);
+    });
+  }
+});
@@ -0,0 +1,177 @@
+import fs from "fs";
+import path from "path";
+import { expect } from "chai";
+import { ethers, network } from "hardhat";
+import { mine } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  getExpectedBytecode,
+  getReusableContract,
+  getStatePath,
+  loadDeployState,
+  recordPendingDeployment,
+  saveDeployState,
+} from "../scripts/utils/deployState";
+import {
+  DEPLOYMENTS_DIR,
+  DeploymentManifest,
+  MANIFEST_VERSION,
+  createManifest,
+  getManifestPath,
+  loadManifest,
+} from "../scripts/utils/manifest";
+
+describe("Deployment state", function () {
+  // The in-process network shares its chain id with local nodes, keep their
+  // deployment files out of the way
+  const backups = new Map<string, string | undefined>();
+  let log: typeof console.log;
+
+  before(async function () {
+    for (const file of [await getStatePath(), await getManifestPath()]) {
+      backups.set(
+        file,
+        fs.existsSync(file) ? fs.readFileSync(file, "utf8") : undefined
+      );
+    }
+  });
+
+  beforeEach(async function () {
+    for (const file of backups.keys()) {
+      fs.rmSync(file, { force: true });
+    }
+    log = console.log;
+    console.log = () => {};
+  });
+
+  afterEach(async function () {
+    console.log = log;
+    delete process.env.OVERWRITE_MANIFEST;
+    await network.provider.send("evm_setAutomine", [true]);
+  });
+
+  after(async function () {
+    for (const [file, contents] of backups) {
+      if (contents === undefined) {
+        fs.rmSync(file, { force: true });
+      } else {
+        fs.writeFileSync(file, contents);
+      }
+    }
+  });
+
+  it("Should resume a run stopped after the deployment was sent", async function () {
+    await network.provider.send("evm_setAutomine", [false]);
+    const state = await loadDeployState();
+    const launchPoolImpl = await (
+      await ethers.getContractFactory("LaunchPool")
+    ).deploy();
+    await recordPendingDeployment(
+      state,
+      "launchPoolImplementation",
+      await launchPoolImpl.getAddress(),
+      launchPoolImpl.deploymentTransaction()
+    );
+    // The run stops here, the deployment is mined afterwards
+    await mine();
+
+    const resumed = await loadDeployState();
+    expect(resumed.contracts.launchPoolImplementation).to.deep.equal({
+      address: await launchPoolImpl.getAddress(),
+      txHash: launchPoolImpl.deploymentTransaction()!.hash,
+    });
+    const record = await getReusableContract(
+      "LaunchPool implementation",
+      resumed.contracts.launchPoolImplementation,
+      await getExpectedBytecode("LaunchPool")
+    );
+    expect(record).to.deep.equal({
+      address: await launchPoolImpl.getAddress(),
+      txHash: launchPoolImpl.deploymentTransaction()!.hash,
+      blockNumber: await ethers.provider.getBlockNumber(),
+    });
+  });
+
+  it("Should deploy again when the sent transaction was dropped", async function () {
+    const state = await loadDeployState();
+    state.contracts.launchPoolImplementation = {
+      address: ethers.ZeroAddress,
+      txHash: ethers.ZeroHash,
+    };
+    await saveDeployState(state);
+
+    const resumed = await loadDeployState();
+    expect(
+      await getReusableContract(
+        "LaunchPool implementation",
+        resumed.contracts.launchPoolImplementation,
+        await getExpectedBytecode("LaunchPool")
+      )
+    ).to.equal(undefined);
+  });
+
+  it("Should refuse a recorded contract whose bytecode doesn't match", async function () {
+    const mockToken = await (
+      await ethers.getContractFactory("MockToken")
+    ).deploy();
+    await mockToken.waitForDeployment();
+    const record = await getReusableContract(
+      "MockToken",
+      { address: await mockToken.getAddress() },
+      await getExpectedBytecode("MockToken")
+    );
+    expect(record).to.deep.equal({ address: await mockToken.getAddress() });
+
+    await expect(
+      getReusableContract(
+        "LaunchPool implementation",
+        { address: await mockToken.getAddress() },
+        await getExpectedBytecode("LaunchPool")
+      )
+    ).to.be.rejectedWith(
+      `LaunchPool implementation recorded at ${await mockToken.getAddress()} doesn't match the compiled bytecode`
+    );
+  });
+
+  it("Should archive an existing manifest only when asked to", async function () {
+    const [deployer] = await ethers.getSigners();
+    const manifest = (deployedAt: string): DeploymentManifest => ({
+      manifestVersion: MANIFEST_VERSION,
+      network: "hardhat",
+      displayName: "Hardhat",
+      chainId: 31337,
+      deployer: deployer.address,
+      deployedAt,
+      compiler: {
+        version: "0.8.28",
+        settings: { optimizer: { enabled: true, runs: 200 } },
+      },
+      contracts: {
+        launchPoolImplementation: { address: ethers.ZeroAddress },
+        factoryImplementation: { address: ethers.ZeroAddress },
+        factoryProxy: { address: ethers.ZeroAddress },
+      },
+      upgrades: [],
+    });
+    const manifestPath = await getManifestPath();
+    await createManifest(manifest("first"));
+
+    await expect(createManifest(manifest("second"))).to.be.rejectedWith(
+      "--overwrite-manifest"
+    );
+    expect((await loadManifest()).deployedAt).to.equal("first");
+
+    process.env.OVERWRITE_MANIFEST = "true";
+    await createManifest(manifest("second"));
+    expect((await loadManifest()).deployedAt).to.equal("second");
+    const archives = fs
+      .readdirSync(DEPLOYMENTS_DIR)
+      .filter((file) => /^31337\.\d+\.json$/.test(file))
+      .map((file) => path.join(DEPLOYMENTS_DIR, file));
+    expect(archives).to.have.length(1);
+    expect(
+      JSON.parse(fs.readFileSync(archives[0], "utf8")).deployedAt
+    ).to.equal("first");
+    fs.rmSync(archives[0]);
+    fs.rmSync(manifestPath);
+  });
+});
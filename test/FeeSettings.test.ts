@@ -0,0 +1,136 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+  createSpendGuard,
+  getFeeSettings,
+  getMaxGasPrice,
+} from "../scripts/utils/fees";
+
+describe("Fee settings", function () {
+  const FEE_ENV = [
+    "FEE_STRATEGY",
+    "FEE_PERCENTILE",
+    "FEE_MULTIPLIER",
+    "MAX_SPEND",
+  ];
+  let env: Record<string, string | undefined>;
+  let send: typeof ethers.provider.send;
+  let log: typeof console.log;
+
+  beforeEach(function () {
+    env = Object.fromEntries(FEE_ENV.map((key) => [key, process.env[key]]));
+    send = ethers.provider.send;
+    log = console.log;
+    console.log = () => {};
+  });
+
+  afterEach(function () {
+    for (const [key, value] of Object.entries(env)) {
+      if (value === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = value;
+      }
+    }
+    ethers.provider.send = send;
+    console.log = log;
+  });
+
+  // Answers eth_feeHistory with `feeHistory`, or fails it when it's an Error,
+  // and passes every other request to the in-process network
+  function stubFeeHistory(feeHistory: object | Error): unknown[][] {
+    const requests: unknown[][] = [];
+    ethers.provider.send = async (method: string, params?: any[]) => {
+      if (method !== "eth_feeHistory") {
+        return send.call(ethers.provider, method, params);
+      }
+      requests.push(params as unknown[]);
+      if (feeHistory instanceof Error) {
+        throw feeHistory;
+      }
+      return feeHistory;
+    };
+    return requests;
+  }
+
+  const gwei = (value: string) => ethers.parseUnits(value, "gwei");
+
+  it("Should take the median of the per-block percentile rewards", async function () {
+    process.env.FEE_STRATEGY = "percentile";
+    process.env.FEE_PERCENTILE = "90";
+    const requests = stubFeeHistory({
+      baseFeePerGas: [gwei("1"), gwei("2"), gwei("3"), gwei("4")].map(
+        ethers.toQuantity
+      ),
+      reward: [[gwei("5")], [gwei("1")], [gwei("30")]].map(([reward]) => [
+        ethers.toQuantity(reward),
+      ]),
+    });
+
+    const { strategy, overrides } = await getFeeSettings();
+
+    expect(requests).to.deep.equal([[ethers.toQuantity(20), "latest", [90]]]);
+    expect(strategy).to.equal("percentile");
+    // A single 30 gwei spike doesn't move the median
+    expect(overrides).to.deep.equal({
+      maxFeePerGas: gwei("4") * 2n + gwei("5"),
+      maxPriorityFeePerGas: gwei("5"),
+    });
+  });
+
+  it("Should fall back to the legacy gasPrice without fee history", async function () {
+    process.env.FEE_STRATEGY = "percentile";
+    const { gasPrice } = await ethers.provider.getFeeData();
+
+    stubFeeHistory(new Error("the method eth_feeHistory does not exist"));
+    expect((await getFeeSettings()).overrides).to.deep.equal({ gasPrice });
+
+    stubFeeHistory({ oldestBlock: "0x0", baseFeePerGas: [], reward: [] });
+    expect((await getFeeSettings()).overrides).to.deep.equal({ gasPrice });
+  });
+
+  it("Should scale the legacy gasPrice by the multiplier", async function () {
+    process.env.FEE_STRATEGY = "legacy";
+    process.env.FEE_MULTIPLIER = "1.5";
+    const { gasPrice } = await ethers.provider.getFeeData();
+
+    const { overrides } = await getFeeSettings();
+
+    expect(overrides).to.deep.equal({ gasPrice: (gasPrice! * 150n) / 100n });
+    expect(getMaxGasPrice(overrides)).to.equal(overrides.gasPrice);
+  });
+
+  it("Should stop the run before it spends more than the max spend", async function () {
+    const [deployer] = await ethers.getSigners();
+    const deployTx = {
+      ...(await (
+        await ethers.getContractFactory("MockToken")
+      ).getDeployTransaction()),
+      from: deployer.address,
+    };
+    const gasLimit = await ethers.provider.estimateGas(deployTx);
+    const gasPrice = gwei("10");
+    // Room for exactly two deployments
+    const guard = createSpendGuard({
+      strategy: "fixed",
+      overrides: { maxFeePerGas: gasPrice, maxPriorityFeePerGas: gasPrice },
+      maxSpend: gasLimit * gasPrice * 2n,
+    });
+
+    expect(await guard.check("first", deployTx)).to.equal(gasLimit * gasPrice);
+    expect(await guard.check("second", deployTx)).to.equal(gasLimit * gasPrice);
+    await expect(guard.check("third", deployTx)).to.be.rejectedWith(
+      "third would bring the spend to"
+    );
+    expect(guard.total()).to.equal(gasLimit * gasPrice * 2n);
+  });
+
+  it("Should read the max spend from MAX_SPEND", async function () {
+    process.env.FEE_STRATEGY = "legacy";
+    process.env.MAX_SPEND = "0.25";
+
+    expect((await getFeeSettings()).maxSpend).to.equal(
+      ethers.parseEther("0.25")
+    );
+  });
+});
@@ -0,0 +1,508 @@
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ethers, network, upgrades } from "hardhat";
+import {
+  loadFixture,
+  mine,
+  time,
+} from "@nomicfoundation/hardhat-network-helpers";
+import { LaunchPoolFactoryUpgradeable } from "../typechain-types";
+import { CLAIM_AT_END, ClaimPolicy, ETH_ADDRESS, ProjectStatus } from "../sdk";
+import {
+  Indexer,
+  JsonIndexStore,
+  checkConsistency,
+  deserializeIndex,
+  serializeIndex,
+} from "../indexer";
+
+describe("Indexer", function () {
+  async function deployFixture() {
+    const [owner, projectOwner, user1, user2, newOwner] =
+      await ethers.getSigners();
+    const startBlock = await ethers.provider.getBlockNumber();
+
+    const LaunchPool = await ethers.getContractFactory("LaunchPool");
+    const launchPoolImpl = await LaunchPool.deploy();
+    await launchPoolImpl.waitForDeployment();
+    const Factory = await ethers.getContractFactory(
+      "LaunchPoolFactoryUpgradeable"
+    );
+    const factory = (await upgrades.deployProxy(
+      Factory,
+      [await launchPoolImpl.getAddress()],
+      {
+        initializer: "initialize",
+        kind: "uups",
+      }
+    )) as LaunchPoolFactoryUpgradeable;
+
+    const MockToken = await ethers.getContractFactory("MockToken");
+    const rewardToken = await MockToken.deploy();
+    await rewardToken.waitForDeployment();
+    const testToken = await MockToken.deploy();
+    await testToken.waitForDeployment();
+
+    const startTime = (await time.latest()) + 100;
+    const endTime = startTime + 3600;
+    const metadata = {
+      projectName: "Indexed Project",
+      website: "https://test.com",
+      logo: "https://test.com/logo.png",
+      discord: "https://discord.gg/test",
+      twitter: "https://twitter.com/test",
+      telegram: "https://t.me/test",
+      tokenInfo: "Test Token Info",
+    };
+    await factory.createProject(
+      rewardToken,
+      ethers.parseEther("720"),
+      startTime,
+      endTime,
+      metadata,
+      [
+        {
+          stakedToken: testToken,
+          poolRewardAmount: ethers.parseEther("360"),
+          poolLimitPerUser: ethers.parseEther("100"),
+          minStakeAmount: ethers.parseEther("1"),
+          startTime: 0,
+          endTime: 0,
+        },
+        {
+          stakedToken: ETH_ADDRESS,
+          poolRewardAmount: ethers.parseEther("360"),
+          poolLimitPerUser: ethers.parseEther("10"),
+          minStakeAmount: ethers.parseEther("0.1"),
+          startTime: 0,
+          endTime: 0,
+        },
+      ],
+      projectOwner.address,
+      CLAIM_AT_END
+    );
+    const projectId = 0;
+    const [tokenPool, ethPool] = await Promise.all(
+      (
+        await factory.getProjectPools(projectId)
+      ).map((info) => ethers.getContractAt("LaunchPool", info.poolAddress))
+    );
+
+    await rewardToken.mint(projectOwner.address, ethers.parseEther("720"));
+    await rewardToken
+      .connect(projectOwner)
+      .approve(await factory.getAddress(), ethers.parseEther("720"));
+    for (const pool of [tokenPool, ethPool]) {
+      await factory
+        .connect(projectOwner)
+        .fundPool(projectId, pool, ethers.parseEther("360"));
+    }
+    for (const user of [user1, user2]) {
+      await testToken.mint(user.address, ethers.parseEther("100"));
+      await testToken
+        .connect(user)
+        .approve(await tokenPool.getAddress(), ethers.MaxUint256);
+    }
+    await time.increaseTo(startTime);
+
+    return {
+      factory,
+      tokenPool,
+      ethPool,
+      projectId,
+      startBlock,
+      owner,
+      projectOwner,
+      user1,
+      user2,
+      newOwner,
+      metadata,
+    };
+  }
+
+  function createIndexer(
+    factory: LaunchPoolFactoryUpgradeable,
+    startBlock: number,
+    options: { confirmations?: number; store?: JsonIndexStore } = {}
+  ) {
+    return new Indexer(ethers.provider, {
+      factory: factory.target as string,
+      startBlock,
+      confirmations: 0,
+      chunkSize: 5,
+      ...options,
+    });
+  }
+
+  it("Should index projects, pools and participants", async function () {
+    const {
+      factory,
+      tokenPool,
+      ethPool,
+      projectId,
+      startBlock,
+      owner,
+      projectOwner,
+      user1,
+      user2,
+      newOwner,
+      metadata,
+    } = await loadFixture(deployFixture);
+
+    await tokenPool.connect(user1).deposit(ethers.parseEther("50"));
+    await tokenPool.connect(user2).deposit(ethers.parseEther("20"));
+    await ethPool
+      .connect(user1)
+      .deposit(ethers.parseEther("2"), { value: ethers.parseEther("2") });
+    await tokenPool.connect(user1).withdraw(ethers.parseEther("10"));
+    await factory.connect(projectOwner).pauseProject(projectId);
+    await tokenPool.connect(user2).emergencyWithdraw();
+    await factory.connect(projectOwner).resumeProject(projectId);
+    await factory.connect(projectOwner).endProject(projectId);
+    await tokenPool.connect(user1).claimReward();
+    await factory
+      .connect(projectOwner)
+      .transferProjectOwnershipRequest(projectId, newOwner.address);
+
+    const indexer = createIndexer(factory, startBlock);
+    const { latest } = await indexer.sync();
+
+    expect(latest.factoryOwner).to.equal(owner.address);
+    const project = latest.projects[projectId];
+    const info = await factory.getProject(projectId);
+    expect(project.status).to.equal(ProjectStatus.READY);
+    expect(project.statusHistory.map(({ status }) => status)).to.deep.equal([
+      ProjectStatus.STAGING,
+      ProjectStatus.READY,
+      ProjectStatus.PAUSED,
+      ProjectStatus.READY,
+      // endProject
+      ProjectStatus.READY,
+    ]);
+    expect(project.owner).to.equal(projectOwner.address);
+    expect(project.pendingOwner).to.equal(newOwner.address);
+    expect(project.metadata).to.deep.equal(metadata);
+    expect(project.totalRewardAmount).to.equal(ethers.parseEther("720"));
+    expect(project.endTime).to.equal(Number(info.endTime));
+    expect(project.fundedPoolCount).to.equal(2);
+    expect(project.pools).to.deep.equal([
+      await tokenPool.getAddress(),
+      await ethPool.getAddress(),
+    ]);
+
+    const tokenPoolKey = (await tokenPool.getAddress()).toLowerCase();
+    const pool = latest.pools[tokenPoolKey];
+    expect(pool.funded).to.equal(true);
+    expect(pool.poolRewardAmount).to.equal(ethers.parseEther("360"));
+    expect(pool.totalStaked).to.equal(ethers.parseEther("40"));
+    expect(pool.participantCount).to.equal(2);
+
+    const participants = latest.participants[tokenPoolKey];
+    const participant1 = participants[user1.address.toLowerCase()];
+    expect(participant1.amount).to.equal(ethers.parseEther("40"));
+    expect(participant1.totalDeposited).to.equal(ethers.parseEther("50"));
+    expect(participant1.totalWithdrawn).to.equal(ethers.parseEther("10"));
+    expect(participant1.totalClaimed).to.be.gt(0n);
+    const participant2 = participants[user2.address.toLowerCase()];
+    expect(participant2.amount).to.equal(0n);
+    expect(participant2.totalEmergencyWithdrawn).to.equal(
+      ethers.parseEther("20")
+    );
+
+    expect(await checkConsistency(ethers.provider, latest)).to.deep.equal([]);
+
+    // Accepting the transfer is picked up by the next sync
+    await factory.connect(newOwner).acceptProjectOwnership(projectId);
+    const { latest: updated } = await indexer.sync();
+    expect(updated.projects[projectId].owner).to.equal(newOwner.address);
+    expect(updated.projects[projectId].pendingOwner).to.equal(null);
+  });
+
+  it("Should index extra reward tokens, their claims and withdrawals", async function () {
+    const { factory, startBlock, projectOwner, user1, metadata } =
+      await loadFixture(deployFixture);
+    const MockToken = await ethers.getContractFactory("MockToken");
+    const [rewardToken, stakedToken, partnerToken] = await Promise.all([
+      MockToken.deploy(),
+      MockToken.deploy(),
+      MockToken.deploy(),
+    ]);
+    const startTime = (await time.latest()) + 100;
+    await factory.createProject(
+      rewardToken,
+      ethers.parseEther("360"),
+      startTime,
+      startTime + 3600,
+      metadata,
+      [
+        {
+          stakedToken,
+          poolRewardAmount: ethers.parseEther("360"),
+          poolLimitPerUser: 0n,
+          minStakeAmount: 0n,
+          startTime: 0,
+          endTime: 0,
+        },
+      ],
+      projectOwner.address,
+      CLAIM_AT_END
+    );
+    const projectId = 1;
+    const [{ poolAddress }] = await factory.getProjectPools(projectId);
+    const pool = await ethers.getContractAt("LaunchPool", poolAddress);
+    await factory
+      .connect(projectOwner)
+      .addExtraRewardToken(projectId, partnerToken, ethers.parseEther("90"), [
+        ethers.parseEther("90"),
+      ]);
+    for (const token of [rewardToken, partnerToken]) {
+      await token.mint(projectOwner.address, ethers.parseEther("360"));
+      await token.connect(projectOwner).approve(factory, ethers.MaxUint256);
+    }
+    await factory
+      .connect(projectOwner)
+      .fundPool(projectId, pool, ethers.parseEther("360"));
+    await stakedToken.mint(user1.address, ethers.parseEther("10"));
+    await stakedToken.connect(user1).approve(pool, ethers.MaxUint256);
+    await time.increaseTo(startTime);
+    await pool.connect(user1).deposit(ethers.parseEther("10"));
+    await time.increase(600);
+    // Ending early leaves most of both rewards to withdraw
+    await factory.connect(projectOwner).endProject(projectId);
+    await time.increase(1);
+    await pool.connect(user1).claimReward();
+    const rewardBalance = await rewardToken.balanceOf(projectOwner.address);
+    const partnerBalance = await partnerToken.balanceOf(projectOwner.address);
+    await pool.connect(projectOwner).withdrawRemainingRewards();
+
+    const { latest } = await createIndexer(factory, startBlock).sync();
+    const indexed = latest.pools[poolAddress.toLowerCase()];
+    const onChain = await pool.extraRewards(0);
+    expect(indexed.extraRewards).to.deep.equal([
+      {
+        rewardToken: await partnerToken.getAddress(),
+        poolRewardAmount: ethers.parseEther("90"),
+        rewardPerSecond: onChain.rewardPerSecond,
+        remainingRewardsWithdrawn:
+          (await partnerToken.balanceOf(projectOwner.address)) - partnerBalance,
+      },
+    ]);
+    expect(indexed.extraRewards[0].remainingRewardsWithdrawn).to.be.gt(0n);
+    expect(indexed.remainingRewardsWithdrawn).to.equal(
+      (await rewardToken.balanceOf(projectOwner.address)) - rewardBalance
+    );
+    const participant =
+      latest.participants[poolAddress.toLowerCase()][
+        user1.address.toLowerCase()
+      ];
+    expect(participant.totalClaimed).to.equal(
+      await rewardToken.balanceOf(user1.address)
+    );
+    expect(participant.extraClaimed).to.deep.equal({
+      [(await partnerToken.getAddress()).toLowerCase()]:
+        await partnerToken.balanceOf(user1.address),
+    });
+    expect(onChain.totalClaimed).to.equal(
+      await partnerToken.balanceOf(user1.address)
+    );
+  });
+
+  it("Should resume from the store", async function () {
+    const { factory, tokenPool, ethPool, startBlock, user1, user2 } =
+      await loadFixture(deployFixture);
+    const storePath = path.join(
+      fs.mkdtempSync(path.join(os.tmpdir(), "indexer-")),
+      "index.json"
+    );
+
+    await tokenPool.connect(user1).deposit(ethers.parseEther("30"));
+    await createIndexer(factory, startBlock, {
+      store: new JsonIndexStore(storePath),
+    }).sync();
+
+    await tokenPool.connect(user2).deposit(ethers.parseEther("15"));
+    await ethPool
+      .connect(user2)
+      .deposit(ethers.parseEther("1"), { value: ethers.parseEther("1") });
+    const resumed = createIndexer(factory, startBlock, {
+      store: new JsonIndexStore(storePath),
+    });
+    expect(resumed.state).to.not.equal(undefined);
+    const { latest } = await resumed.sync();
+
+    // Same result as indexing everything in one go
+    const { latest: fresh } = await createIndexer(factory, startBlock).sync();
+    expect(latest).to.deep.equal(fresh);
+    expect(await checkConsistency(ethers.provider, latest)).to.deep.equal([]);
+  });
+
+  it("Should keep strings that look like amounts when storing", async function () {
+    const { factory, tokenPool, startBlock, user1 } = await loadFixture(
+      deployFixture
+    );
+    await tokenPool.connect(user1).deposit(ethers.parseEther("30"));
+    const snapshot = structuredClone(
+      await createIndexer(factory, startBlock).sync()
+    );
+    const projectId = Number(Object.keys(snapshot.latest.projects)[0]);
+    snapshot.latest.projects[projectId].metadata.tokenInfo = "123n";
+
+    const restored = deserializeIndex(serializeIndex(snapshot));
+    expect(restored).to.deep.equal(snapshot);
+    expect(restored.latest.projects[projectId].metadata.tokenInfo).to.equal(
+      "123n"
+    );
+  });
+
+  it("Should drop reorged logs above the confirmed block", async function () {
+    const { factory, tokenPool, startBlock, user1, user2 } = await loadFixture(
+      deployFixture
+    );
+    const indexer = createIndexer(factory, startBlock, { confirmations: 3 });
+    await mine(3);
+    await indexer.sync();
+
+    const snapshotId = await network.provider.send("evm_snapshot");
+    await tokenPool.connect(user1).deposit(ethers.parseEther("30"));
+    const { latest: beforeReorg } = await indexer.sync();
+    expect(
+      beforeReorg.pools[(await tokenPool.getAddress()).toLowerCase()]
+        .totalStaked
+    ).to.equal(ethers.parseEther("30"));
+
+    // Replace the unconfirmed block with a different deposit
+    await network.provider.send("evm_revert", [snapshotId]);
+    await tokenPool.connect(user2).deposit(ethers.parseEther("5"));
+    const { confirmed, latest } = await indexer.sync();
+
+    const participants =
+      latest.participants[(await tokenPool.getAddress()).toLowerCase()];
+    expect(participants[user1.address.toLowerCase()]).to.equal(undefined);
+    expect(participants[user2.address.toLowerCase()].amount).to.equal(
+      ethers.parseEther("5")
+    );
+    expect(confirmed.block.number).to.equal(latest.block.number - 3);
+    expect(await checkConsistency(ethers.provider, latest)).to.deep.equal([]);
+  });
+
+  it("Should re-index when a confirmed block is reorged", async function () {
+    const { factory, tokenPool, startBlock, user1, user2 } = await loadFixture(
+      deployFixture
+    );
+    const indexer = createIndexer(factory, startBlock);
+    const snapshotId = await network.provider.send("evm_snapshot");
+    await tokenPool.connect(user1).deposit(ethers.parseEther("30"));
+    await indexer.sync();
+
+    await network.provider.send("evm_revert", [snapshotId]);
+    await tokenPool.connect(user2).deposit(ethers.parseEther("5"));
+    const { latest } = await indexer.sync();
+
+    const pool = latest.pools[(await tokenPool.getAddress()).toLowerCase()];
+    expect(pool.totalStaked).to.equal(ethers.parseEther("5"));
+    expect(pool.participantCount).to.equal(1);
+    expect(await checkConsistency(ethers.provider, latest)).to.deep.equal([]);
+  });
+
+  it("Should keep pools funded by claimed rewards when moving back to STAGING", async function () {
+    const { factory, startBlock, projectOwner, user1, metadata } =
+      await loadFixture(deployFixture);
+    const rewardToken = await ethers.getContractAt(
+      "MockToken",
+      (
+        await factory.getProject(0)
+      ).rewardToken
+    );
+    const testToken = await ethers.getContractAt(
+      "MockToken",
+      (
+        await factory.getProjectPools(0)
+      )[0].stakedToken
+    );
+
+    // Claims while the project runs take rewards out of the pool's balance
+    const startTime = (await time.latest()) + 100;
+    await factory.createProject(
+      rewardToken,
+      ethers.parseEther("720"),
+      startTime,
+      startTime + 3600,
+      metadata,
+      [0, 1].map(() => ({
+        stakedToken: testToken,
+        poolRewardAmount: ethers.parseEther("360"),
+        poolLimitPerUser: 0n,
+        minStakeAmount: 0n,
+        startTime: 0,
+        endTime: 0,
+      })),
+      projectOwner.address,
+      { ...CLAIM_AT_END, policy: ClaimPolicy.ANYTIME }
+    );
+    const projectId = 1;
+    const [claimedPool, drainedPool] = await Promise.all(
+      (
+        await factory.getProjectPools(projectId)
+      ).map((info) => ethers.getContractAt("LaunchPool", info.poolAddress))
+    );
+    await rewardToken.mint(projectOwner.address, ethers.parseEther("720"));
+    await rewardToken
+      .connect(projectOwner)
+      .approve(await factory.getAddress(), ethers.parseEther("720"));
+    for (const pool of [claimedPool, drainedPool]) {
+      await factory
+        .connect(projectOwner)
+        .fundPool(projectId, pool, ethers.parseEther("360"));
+    }
+    await testToken
+      .connect(user1)
+      .approve(await claimedPool.getAddress(), ethers.MaxUint256);
+    await claimedPool.connect(user1).deposit(ethers.parseEther("10"));
+    await time.increaseTo(startTime + 600);
+    await claimedPool.connect(user1).claimReward();
+    expect(await rewardToken.balanceOf(claimedPool)).to.be.lt(
+      ethers.parseEther("360")
+    );
+
+    await factory.connect(projectOwner).pauseProject(projectId);
+    await drainedPool.connect(projectOwner).emergencyRewardWithdraw(1n);
+    await factory.connect(projectOwner).resumeProject(projectId);
+    expect(await factory.getProjectStatus(projectId)).to.equal("STAGING");
+
+    const { latest } = await createIndexer(factory, startBlock).sync();
+    const project = latest.projects[projectId];
+    expect(project.status).to.equal(ProjectStatus.STAGING);
+    expect(project.fundedPoolCount).to.equal(
+      Number((await factory.projects(projectId)).fundedPoolCount)
+    );
+    expect(project.fundedPoolCount).to.equal(1);
+    expect(
+      latest.pools[(await claimedPool.getAddress()).toLowerCase()].funded
+    ).to.equal(true);
+    expect(
+      latest.pools[(await drainedPool.getAddress()).toLowerCase()].funded
+    ).to.equal(false);
+  });
+
+  it("Should report balances that differ from userInfo", async function () {
+    const { factory, tokenPool, startBlock, user1 } = await loadFixture(
+      deployFixture
+    );
+    await tokenPool.connect(user1).deposit(ethers.parseEther("30"));
+    const { latest } = await createIndexer(factory, startBlock).sync();
+
+    const poolKey = (await tokenPool.getAddress()).toLowerCase();
+    latest.participants[poolKey][user1.address.toLowerCase()].amount = 1n;
+    expect(await checkConsistency(ethers.provider, latest)).to.deep.equal([
+      {
+        pool: await tokenPool.getAddress(),
+        user: user1.address,
+        field: "amount",
+        indexed: 1n,
+        onChain: ethers.parseEther("30"),
+      },
+    ]);
+  });
+});
@@ -1,12 +1,18 @@
 import { expect } from "chai";
 import { ethers, upgrades } from "hardhat";
-import { time, loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  time,
+  loadFixture,
+  mine,
+} from "@nomicfoundation/hardhat-network-helpers";
 import {
   LaunchPool,
   LaunchPoolFactoryUpgradeable,
   MockToken,
 } from "../typechain-types";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { CLAIM_AT_END, ClaimPolicy, ClaimSettings } from "../sdk";
+import { EMPTY_METADATA } from "../tasks/helpers";
 
 describe("LaunchPool", function () {
   async function deployFixture() {
@@ -60,6 +66,8 @@ describe("LaunchPool", function () {
         poolRewardAmount: ethers.parseEther("360"),
         poolLimitPerUser: ethers.parseEther("100"),
         minStakeAmount: ethers.parseEther("10"),
+        startTime: 0,
+        endTime: 0,
       },
     ];
 
@@ -70,7 +78,8 @@ describe("LaunchPool", function () {
       endTime,
       metadata,
       initialPools,
-      projectOwner.address
+      projectOwner.address,
+      CLAIM_AT_END
     );
 
     const projectId = (await factory.nextProjectId()) - 1n;
@@ -478,6 +487,8 @@ describe("LaunchPool", function () {
           poolRewardAmount: ethers.parseEther("1000"),
           poolLimitPerUser: ethers.parseEther("10"),
           minStakeAmount: ethers.parseEther("0.1"),
+          startTime: 0,
+          endTime: 0,
         },
       ];
 
@@ -488,7 +499,8 @@ describe("LaunchPool", function () {
         endTime,
         metadata,
         initialPools,
-        projectOwner.address
+        projectOwner.address,
+        CLAIM_AT_END
       );
 
       projectId = (await factory.nextProjectId()) - 1n;
@@ -661,6 +673,936 @@ describe("LaunchPool", function () {
     });
   });
 
+  describe("Claim Policy", function () {
+    let factory: LaunchPoolFactoryUpgradeable;
+    let rewardToken: MockToken;
+    let testToken: MockToken;
+    let projectOwner: HardhatEthersSigner;
+    let user1: HardhatEthersSigner;
+
+    beforeEach(async function () {
+      ({ factory, rewardToken, testToken, projectOwner, user1 } =
+        await loadFixture(deployFixture));
+    });
+
+    // Funded project with one pool under `policy`, user1 staking 50 from the
+    // start. Emits 0.1 reward tokens per second.
+    async function stakeUnderPolicy(
+      policy: ClaimPolicy,
+      unlockAfter = 0,
+      vesting: Partial<ClaimSettings> = {}
+    ) {
+      const startTime = (await time.latest()) + 100;
+      const endTime = startTime + 3600;
+      await factory.createProject(
+        rewardToken,
+        ethers.parseEther("360"),
+        startTime,
+        endTime,
+        { ...EMPTY_METADATA, projectName: "Claim Policy" },
+        [
+          {
+            stakedToken: testToken,
+            poolRewardAmount: ethers.parseEther("360"),
+            poolLimitPerUser: 0,
+            minStakeAmount: 0,
+            startTime: 0,
+            endTime: 0,
+          },
+        ],
+        projectOwner.address,
+        {
+          ...CLAIM_AT_END,
+          policy,
+          unlockTime:
+            policy === ClaimPolicy.AFTER_UNLOCK ? startTime + unlockAfter : 0,
+          ...vesting,
+        }
+      );
+      const projectId = (await factory.nextProjectId()) - 1n;
+      const [poolInfo] = await factory.getProjectPools(projectId);
+      const launchPool = (await ethers.getContractAt(
+        "LaunchPool",
+        poolInfo.poolAddress
+      )) as unknown as LaunchPool;
+
+      await rewardToken.mint(projectOwner.address, ethers.parseEther("360"));
+      await rewardToken
+        .connect(projectOwner)
+        .approve(await factory.getAddress(), ethers.parseEther("360"));
+      await factory
+        .connect(projectOwner)
+        .fundPool(projectId, launchPool, ethers.parseEther("360"));
+
+      await testToken
+        .connect(user1)
+        .approve(await launchPool.getAddress(), ethers.parseEther("50"));
+      await time.setNextBlockTimestamp(startTime);
+      await launchPool.connect(user1).deposit(ethers.parseEther("50"));
+      return { projectId, launchPool, startTime, endTime };
+    }
+
+    it("Should split pendingReward into claimable and locked", async function () {
+      const { launchPool, endTime } = await stakeUnderPolicy(
+        ClaimPolicy.AT_END
+      );
+      await time.increase(1800);
+
+      const pending = await launchPool.pendingReward(user1.address);
+      expect(pending).to.equal(ethers.parseEther("180"));
+      expect(await launchPool.claimableReward(user1.address)).to.deep.equal([
+        0n,
+        pending,
+      ]);
+      await expect(launchPool.connect(user1).claimReward()).to.be.revertedWith(
+        "Pool not ended"
+      );
+
+      await time.increaseTo(endTime);
+      expect(await launchPool.claimableReward(user1.address)).to.deep.equal([
+        ethers.parseEther("360"),
+        0n,
+      ]);
+    });
+
+    it("Should allow claiming while ACTIVE with ANYTIME", async function () {
+      const { projectId, launchPool, startTime, endTime } =
+        await stakeUnderPolicy(ClaimPolicy.ANYTIME);
+      expect(await factory.isClaimOpen(projectId)).to.equal(true);
+
+      await time.setNextBlockTimestamp(startTime + 1800);
+      await expect(launchPool.connect(user1).claimReward())
+        .to.emit(launchPool, "RewardClaimed")
+        .withArgs(user1.address, ethers.parseEther("180"));
+      expect(await launchPool.pendingReward(user1.address)).to.equal(0);
+
+      // Nothing is claimable while paused, rewards keep accruing
+      await time.setNextBlockTimestamp(startTime + 2400);
+      await factory.connect(projectOwner).pauseProject(projectId);
+      expect(await factory.isClaimOpen(projectId)).to.equal(false);
+      expect(await launchPool.claimableReward(user1.address)).to.deep.equal([
+        0n,
+        ethers.parseEther("60"),
+      ]);
+      await expect(launchPool.connect(user1).claimReward()).to.be.revertedWith(
+        "Rewards locked"
+      );
+
+      await factory.connect(projectOwner).resumeProject(projectId);
+      await time.increaseTo(endTime);
+      await launchPool.connect(user1).claimReward();
+      expect(await rewardToken.balanceOf(user1.address)).to.equal(
+        ethers.parseEther("360")
+      );
+    });
+
+    it("Should only allow claiming after the unlock time with AFTER_UNLOCK", async function () {
+      const { projectId, launchPool, startTime } = await stakeUnderPolicy(
+        ClaimPolicy.AFTER_UNLOCK,
+        1200
+      );
+
+      await time.increaseTo(startTime + 1198);
+      expect(await factory.isClaimOpen(projectId)).to.equal(false);
+      expect((await factory.getProject(projectId)).isClaimOpen).to.equal(false);
+      await expect(launchPool.connect(user1).claimReward()).to.be.revertedWith(
+        "Rewards locked"
+      );
+
+      await launchPool.connect(user1).claimReward();
+      expect(await rewardToken.balanceOf(user1.address)).to.equal(
+        ethers.parseEther("120")
+      );
+      expect((await factory.getProject(projectId)).isClaimOpen).to.equal(true);
+    });
+
+    it("Should keep claims locked after the end until the unlock time", async function () {
+      const { launchPool, endTime } = await stakeUnderPolicy(
+        ClaimPolicy.AFTER_UNLOCK,
+        4000
+      );
+
+      await time.increaseTo(endTime);
+      expect(await launchPool.claimableReward(user1.address)).to.deep.equal([
+        0n,
+        ethers.parseEther("360"),
+      ]);
+      await time.increaseTo(endTime + 400);
+      expect(await launchPool.claimableReward(user1.address)).to.deep.equal([
+        ethers.parseEther("360"),
+        0n,
+      ]);
+    });
+
+    it("Should release vested rewards after the end", async function () {
+      // 10% at the end, the rest over 2000s after a 1000s cliff
+      const { launchPool, startTime, endTime } = await stakeUnderPolicy(
+        ClaimPolicy.AT_END,
+        0,
+        { vestingCliff: 1000, vestingDuration: 2000, tgeShareBps: 1000 }
+      );
+
+      await time.increaseTo(startTime + 1800);
+      expect(await launchPool.vestingInfo(user1.address)).to.deep.equal([
+        0n,
+        0n,
+        ethers.parseEther("180"),
+      ]);
+
+      await time.setNextBlockTimestamp(endTime);
+      await expect(launchPool.connect(user1).claimReward())
+        .to.emit(launchPool, "RewardClaimed")
+        .withArgs(user1.address, ethers.parseEther("36"));
+      expect(await launchPool.pendingReward(user1.address)).to.equal(
+        ethers.parseEther("324")
+      );
+      expect(await launchPool.claimableReward(user1.address)).to.deep.equal([
+        0n,
+        ethers.parseEther("324"),
+      ]);
+
+      await time.setNextBlockTimestamp(endTime + 500);
+      await expect(launchPool.connect(user1).claimReward()).to.be.revertedWith(
+        "No rewards to claim"
+      );
+
+      // Halfway through the linear part
+      await time.increaseTo(endTime + 2000);
+      expect(await launchPool.vestingInfo(user1.address)).to.deep.equal([
+        ethers.parseEther("198"),
+        ethers.parseEther("36"),
+        ethers.parseEther("162"),
+      ]);
+      expect(await launchPool.claimableReward(user1.address)).to.deep.equal([
+        ethers.parseEther("162"),
+        ethers.parseEther("162"),
+      ]);
+
+      // Withdrawing the stake doesn't change what was earned
+      await launchPool.connect(user1).withdraw(ethers.parseEther("50"));
+      await time.increaseTo(endTime + 3000);
+      await launchPool.connect(user1).claimReward();
+      expect(await rewardToken.balanceOf(user1.address)).to.equal(
+        ethers.parseEther("360")
+      );
+      expect(await launchPool.rewardsClaimed(user1.address)).to.equal(
+        ethers.parseEther("360")
+      );
+      expect(await launchPool.vestingInfo(user1.address)).to.deep.equal([
+        ethers.parseEther("360"),
+        ethers.parseEther("360"),
+        0n,
+      ]);
+    });
+  });
+
+  describe("Multiple Reward Tokens", function () {
+    let factory: LaunchPoolFactoryUpgradeable;
+    let rewardToken: MockToken;
+    let testToken: MockToken;
+    let projectOwner: HardhatEthersSigner;
+    let user1: HardhatEthersSigner;
+    let user2: HardhatEthersSigner;
+
+    beforeEach(async function () {
+      ({ factory, rewardToken, testToken, projectOwner, user1, user2 } =
+        await loadFixture(deployFixture));
+    });
+
+    // Funded two pool project with an extra partner token. The first pool
+    // emits 0.1 reward and 0.2 partner tokens per second, the second pool's
+    // 100 partner tokens don't divide evenly over the hour.
+    async function createMultiRewardProject(
+      claimSettings: ClaimSettings = CLAIM_AT_END
+    ) {
+      const startTime = (await time.latest()) + 100;
+      const endTime = startTime + 3600;
+      await factory.createProject(
+        rewardToken,
+        ethers.parseEther("720"),
+        startTime,
+        endTime,
+        { ...EMPTY_METADATA, projectName: "Multiple Rewards" },
+        [
+          {
+            stakedToken: testToken,
+            poolRewardAmount: ethers.parseEther("360"),
+            poolLimitPerUser: 0,
+            minStakeAmount: 0,
+            startTime: 0,
+            endTime: 0,
+          },
+          {
+            stakedToken: testToken,
+            poolRewardAmount: ethers.parseEther("360"),
+            poolLimitPerUser: 0,
+            minStakeAmount: 0,
+            startTime: 0,
+            endTime: 0,
+          },
+        ],
+        projectOwner.address,
+        claimSettings
+      );
+      const projectId = (await factory.nextProjectId()) - 1n;
+
+      const MockToken = await ethers.getContractFactory("MockToken");
+      const partnerToken = await MockToken.deploy();
+      await factory
+        .connect(projectOwner)
+        .addExtraRewardToken(
+          projectId,
+          partnerToken,
+          ethers.parseEther("820"),
+          [ethers.parseEther("720"), ethers.parseEther("100")]
+        );
+
+      const [first, second] = await factory.getProjectPools(projectId);
+      await rewardToken.mint(projectOwner.address, ethers.parseEther("720"));
+      await partnerToken.mint(projectOwner.address, ethers.parseEther("820"));
+      await rewardToken
+        .connect(projectOwner)
+        .approve(factory, ethers.parseEther("720"));
+      await partnerToken
+        .connect(projectOwner)
+        .approve(factory, ethers.parseEther("820"));
+      for (const pool of [first, second]) {
+        await factory
+          .connect(projectOwner)
+          .fundPool(projectId, pool.poolAddress, ethers.parseEther("360"));
+      }
+
+      const launchPool = (await ethers.getContractAt(
+        "LaunchPool",
+        first.poolAddress
+      )) as unknown as LaunchPool;
+      const secondPool = (await ethers.getContractAt(
+        "LaunchPool",
+        second.poolAddress
+      )) as unknown as LaunchPool;
+      for (const pool of [launchPool, secondPool]) {
+        await testToken
+          .connect(user1)
+          .approve(await pool.getAddress(), ethers.parseEther("1000"));
+        await testToken
+          .connect(user2)
+          .approve(await pool.getAddress(), ethers.parseEther("1000"));
+      }
+      return {
+        projectId,
+        partnerToken,
+        launchPool,
+        secondPool,
+        startTime,
+        endTime,
+      };
+    }
+
+    it("Should fund pools with every reward token", async function () {
+      const { projectId, partnerToken, launchPool, secondPool } =
+        await createMultiRewardProject();
+
+      expect(await factory.getProjectStatus(projectId)).to.equal("READY");
+      expect(await partnerToken.balanceOf(launchPool)).to.equal(
+        ethers.parseEther("720")
+      );
+      expect(await partnerToken.balanceOf(secondPool)).to.equal(
+        ethers.parseEther("100")
+      );
+      expect(await launchPool.extraRewardCount()).to.equal(1);
+      expect(await launchPool.getPoolRewards()).to.deep.equal([
+        [
+          await rewardToken.getAddress(),
+          ethers.parseEther("360"),
+          ethers.parseEther("0.1"),
+        ],
+        [
+          await partnerToken.getAddress(),
+          ethers.parseEther("720"),
+          ethers.parseEther("0.2"),
+        ],
+      ]);
+      await expect(
+        launchPool
+          .connect(projectOwner)
+          .recoverWrongTokens(partnerToken, ethers.parseEther("1"))
+      ).to.be.revertedWith("Cannot be reward token");
+    });
+
+    it("Should accrue and claim every reward token", async function () {
+      const { partnerToken, launchPool, startTime, endTime } =
+        await createMultiRewardProject();
+
+      // user1 stakes alone for the first half, then shares it 1:1 with user2
+      await time.setNextBlockTimestamp(startTime);
+      await launchPool.connect(user1).deposit(ethers.parseEther("50"));
+      await time.setNextBlockTimestamp(startTime + 1800);
+      await launchPool.connect(user2).deposit(ethers.parseEther("50"));
+      await time.increaseTo(endTime);
+
+      const [tokens, amounts] = await launchPool.getPendingRewards(user1);
+      expect(tokens).to.deep.equal([
+        await rewardToken.getAddress(),
+        await partnerToken.getAddress(),
+      ]);
+      expect(amounts).to.deep.equal([
+        ethers.parseEther("270"),
+        ethers.parseEther("540"),
+      ]);
+      expect(amounts[0]).to.equal(await launchPool.pendingReward(user1));
+
+      await expect(launchPool.connect(user1).claimReward())
+        .to.emit(launchPool, "RewardClaimed")
+        .withArgs(user1.address, ethers.parseEther("270"))
+        .and.to.emit(launchPool, "ExtraRewardClaimed")
+        .withArgs(user1.address, partnerToken, ethers.parseEther("540"));
+      expect(await partnerToken.balanceOf(user1)).to.equal(
+        ethers.parseEther("540")
+      );
+      expect(await launchPool.extraUserInfo(user1, 0)).to.deep.equal([
+        ethers.parseEther("540"),
+        0n,
+        ethers.parseEther("540"),
+      ]);
+      await expect(launchPool.connect(user1).claimReward()).to.be.revertedWith(
+        "No rewards to claim"
+      );
+
+      // Withdrawing accrues partner rewards too
+      await launchPool.connect(user2).withdraw(ethers.parseEther("50"));
+      expect(await launchPool.getPendingRewards(user2)).to.deep.equal([
+        [await rewardToken.getAddress(), await partnerToken.getAddress()],
+        [ethers.parseEther("90"), ethers.parseEther("180")],
+      ]);
+      await launchPool.connect(user2).claimReward();
+      expect(await partnerToken.balanceOf(launchPool)).to.equal(0);
+    });
+
+    it("Should vest every reward token on the same schedule", async function () {
+      const { partnerToken, launchPool, startTime, endTime } =
+        await createMultiRewardProject({
+          ...CLAIM_AT_END,
+          vestingDuration: 3600,
+          tgeShareBps: 5000,
+        });
+
+      await time.setNextBlockTimestamp(startTime);
+      await launchPool.connect(user1).deposit(ethers.parseEther("50"));
+      await time.setNextBlockTimestamp(endTime);
+      await launchPool.connect(user1).claimReward();
+      expect(await rewardToken.balanceOf(user1)).to.equal(
+        ethers.parseEther("180")
+      );
+      expect(await partnerToken.balanceOf(user1)).to.equal(
+        ethers.parseEther("360")
+      );
+
+      await time.setNextBlockTimestamp(endTime + 3600);
+      await launchPool.connect(user1).claimReward();
+      expect(await rewardToken.balanceOf(user1)).to.equal(
+        ethers.parseEther("360")
+      );
+      expect(await partnerToken.balanceOf(user1)).to.equal(
+        ethers.parseEther("720")
+      );
+    });
+
+    it("Should withdraw the remaining rewards of every token", async function () {
+      const { projectId, partnerToken, secondPool, endTime } =
+        await createMultiRewardProject();
+      await time.increaseTo(endTime);
+      expect(await factory.getProjectStatus(projectId)).to.equal("ENDED");
+
+      // 100 partner tokens over 3600 seconds leaves 2800 wei undistributed,
+      // the reward token divides evenly
+      await expect(secondPool.connect(projectOwner).withdrawRemainingRewards())
+        .to.emit(secondPool, "RemainingExtraRewardsWithdrawn")
+        .withArgs(projectOwner.address, partnerToken, 2800n)
+        .and.not.to.emit(secondPool, "RemainingRewardsWithdrawn");
+      expect(await partnerToken.balanceOf(projectOwner)).to.equal(2800n);
+      await expect(
+        secondPool.connect(projectOwner).withdrawRemainingRewards()
+      ).to.be.revertedWith("No rewards to withdraw");
+    });
+  });
+
+  describe("Pool Windows", function () {
+    let factory: LaunchPoolFactoryUpgradeable;
+    let rewardToken: MockToken;
+    let testToken: MockToken;
+    let projectOwner: HardhatEthersSigner;
+    let user1: HardhatEthersSigner;
+    let user2: HardhatEthersSigner;
+
+    beforeEach(async function () {
+      ({ factory, rewardToken, testToken, projectOwner, user1, user2 } =
+        await loadFixture(deployFixture));
+    });
+
+    // Funded hour long project with an early bird pool emitting 60 reward
+    // tokens over the first 10 minutes and a pool starting halfway that
+    // emits 360 over the rest of the project
+    async function createWindowedProject() {
+      const startTime = (await time.latest()) + 100;
+      const endTime = startTime + 3600;
+      await factory.createProject(
+        rewardToken,
+        ethers.parseEther("420"),
+        startTime,
+        endTime,
+        { ...EMPTY_METADATA, projectName: "Pool Windows" },
+        [
+          {
+            stakedToken: testToken,
+            poolRewardAmount: ethers.parseEther("60"),
+            poolLimitPerUser: 0,
+            minStakeAmount: 0,
+            startTime: 0,
+            endTime: startTime + 600,
+          },
+          {
+            stakedToken: testToken,
+            poolRewardAmount: ethers.parseEther("360"),
+            poolLimitPerUser: 0,
+            minStakeAmount: 0,
+            startTime: startTime + 1800,
+            endTime: 0,
+          },
+        ],
+        projectOwner.address,
+        CLAIM_AT_END
+      );
+      const projectId = (await factory.nextProjectId()) - 1n;
+
+      const [early, late] = await factory.getProjectPools(projectId);
+      await rewardToken.mint(projectOwner.address, ethers.parseEther("420"));
+      await rewardToken
+        .connect(projectOwner)
+        .approve(factory, ethers.parseEther("420"));
+      await factory
+        .connect(projectOwner)
+        .fundPool(projectId, early.poolAddress, ethers.parseEther("60"));
+      await factory
+        .connect(projectOwner)
+        .fundPool(projectId, late.poolAddress, ethers.parseEther("360"));
+
+      const earlyPool = (await ethers.getContractAt(
+        "LaunchPool",
+        early.poolAddress
+      )) as unknown as LaunchPool;
+      const latePool = (await ethers.getContractAt(
+        "LaunchPool",
+        late.poolAddress
+      )) as unknown as LaunchPool;
+      for (const pool of [earlyPool, latePool]) {
+        await testToken
+          .connect(user1)
+          .approve(await pool.getAddress(), ethers.parseEther("1000"));
+        await testToken
+          .connect(user2)
+          .approve(await pool.getAddress(), ethers.parseEther("1000"));
+      }
+      return { projectId, earlyPool, latePool, startTime, endTime };
+    }
+
+    it("Should emit rewards over the pool's window", async function () {
+      const { projectId, earlyPool, latePool, startTime, endTime } =
+        await createWindowedProject();
+
+      expect(await earlyPool.rewardPerSecond()).to.equal(
+        ethers.parseEther("0.1")
+      );
+      expect(await latePool.rewardPerSecond()).to.equal(
+        ethers.parseEther("0.2")
+      );
+      const [early, late] = await factory.getProjectPools(projectId);
+      expect([early.startTime, early.endTime]).to.deep.equal([
+        BigInt(startTime),
+        BigInt(startTime + 600),
+      ]);
+      expect([late.startTime, late.endTime]).to.deep.equal([
+        BigInt(startTime + 1800),
+        BigInt(endTime),
+      ]);
+
+      await time.setNextBlockTimestamp(startTime);
+      await earlyPool.connect(user1).deposit(ethers.parseEther("50"));
+      await time.setNextBlockTimestamp(startTime + 600);
+      await latePool.connect(user2).deposit(ethers.parseEther("50"));
+
+      // The project is ACTIVE, the early pool ended and the late one has
+      // not started
+      expect(await factory.getProjectStatus(projectId)).to.equal("ACTIVE");
+      expect(await earlyPool.getPoolStatus()).to.equal("ENDED");
+      expect(await latePool.getPoolStatus()).to.equal("READY");
+      expect(await earlyPool.pendingReward(user1)).to.equal(
+        ethers.parseEther("60")
+      );
+      expect(await earlyPool.getTotalDistributedRewards()).to.equal(
+        ethers.parseEther("60")
+      );
+      expect(await latePool.pendingReward(user2)).to.equal(0);
+      await expect(
+        earlyPool.connect(user2).deposit(ethers.parseEther("50"))
+      ).to.be.revertedWith("Pool must be active or ready");
+
+      await time.increaseTo(endTime);
+      expect(await latePool.pendingReward(user2)).to.equal(
+        ethers.parseEther("360")
+      );
+    });
+
+    it("Should open AT_END claims when the pool ends", async function () {
+      const { projectId, earlyPool, latePool, startTime } =
+        await createWindowedProject();
+
+      await time.setNextBlockTimestamp(startTime);
+      await earlyPool.connect(user1).deposit(ethers.parseEther("50"));
+      await time.setNextBlockTimestamp(startTime + 1800);
+      await latePool.connect(user2).deposit(ethers.parseEther("50"));
+      expect(await earlyPool.isClaimOpen()).to.be.true;
+      expect(await latePool.isClaimOpen()).to.be.false;
+      expect(await factory.isClaimOpen(projectId)).to.be.false;
+
+      await earlyPool.connect(user1).claimReward();
+      expect(await rewardToken.balanceOf(user1)).to.equal(
+        ethers.parseEther("60")
+      );
+      await expect(latePool.connect(user2).claimReward()).to.be.revertedWith(
+        "Pool not ended"
+      );
+    });
+  });
+
+  describe("Lock Boosts", function () {
+    let factory: LaunchPoolFactoryUpgradeable;
+    let rewardToken: MockToken;
+    let testToken: MockToken;
+    let projectOwner: HardhatEthersSigner;
+    let user1: HardhatEthersSigner;
+    let user2: HardhatEthersSigner;
+
+    beforeEach(async function () {
+      ({ factory, rewardToken, testToken, projectOwner, user1, user2 } =
+        await loadFixture(deployFixture));
+    });
+
+    // Hour long pool emitting 360 reward tokens, still in STAGING
+    async function createStagingPool() {
+      const startTime = (await time.latest()) + 100;
+      const endTime = startTime + 3600;
+      await factory.createProject(
+        rewardToken,
+        ethers.parseEther("360"),
+        startTime,
+        endTime,
+        { ...EMPTY_METADATA, projectName: "Lock Boosts" },
+        [
+          {
+            stakedToken: testToken,
+            poolRewardAmount: ethers.parseEther("360"),
+            poolLimitPerUser: 0,
+            minStakeAmount: 0,
+            startTime: 0,
+            endTime: 0,
+          },
+        ],
+        projectOwner.address,
+        CLAIM_AT_END
+      );
+      const projectId = (await factory.nextProjectId()) - 1n;
+      const [pool] = await factory.getProjectPools(projectId);
+      const launchPool = (await ethers.getContractAt(
+        "LaunchPool",
+        pool.poolAddress
+      )) as unknown as LaunchPool;
+      return { projectId, launchPool, startTime, endTime };
+    }
+
+    // Funded pool where locking for the whole hour boosts a deposit 2.5x
+    async function createBoostedPool() {
+      const { projectId, launchPool, startTime, endTime } =
+        await createStagingPool();
+      await expect(launchPool.connect(projectOwner).updateMaxBoost(25000))
+        .to.emit(launchPool, "NewMaxBoost")
+        .withArgs(25000);
+      await rewardToken.mint(projectOwner.address, ethers.parseEther("360"));
+      await rewardToken
+        .connect(projectOwner)
+        .approve(factory, ethers.parseEther("360"));
+      await factory
+        .connect(projectOwner)
+        .fundPool(projectId, launchPool, ethers.parseEther("360"));
+      for (const user of [user1, user2]) {
+        await testToken
+          .connect(user)
+          .approve(launchPool, ethers.parseEther("1000"));
+      }
+      return { projectId, launchPool, startTime, endTime };
+    }
+
+    it("Should share rewards by boosted weight", async function () {
+      const { launchPool, startTime, endTime } = await createBoostedPool();
+
+      // Locks made before the start count from it
+      const unlockTime = (await time.latest()) + 1800;
+      expect(await launchPool.getLockBoost(1800)).to.deep.equal([
+        10000n + (15000n * BigInt(unlockTime - startTime)) / 3600n,
+        BigInt(unlockTime),
+      ]);
+      await time.setNextBlockTimestamp(startTime - 10);
+      await expect(
+        launchPool
+          .connect(user1)
+          .depositLocked(ethers.parseEther("100"), 2 ** 32 - 1)
+      )
+        .to.emit(launchPool, "Locked")
+        .withArgs(
+          user1.address,
+          ethers.parseEther("100"),
+          ethers.parseEther("250"),
+          endTime
+        );
+      await launchPool.connect(user2).deposit(ethers.parseEther("100"));
+
+      expect(await launchPool.totalStaked()).to.equal(ethers.parseEther("200"));
+      expect(await launchPool.totalWeight()).to.equal(ethers.parseEther("350"));
+      expect((await launchPool.userInfo(user1)).weight).to.equal(
+        ethers.parseEther("250")
+      );
+      expect(await launchPool.getLockPositions(user1)).to.deep.equal([
+        [ethers.parseEther("100"), ethers.parseEther("250"), BigInt(endTime)],
+      ]);
+      expect(await launchPool.lockedAmount(user1)).to.equal(
+        ethers.parseEther("100")
+      );
+
+      // Halfway through, a lock until the end covers half of the window
+      await time.setNextBlockTimestamp(startTime + 1800);
+      await mine();
+      expect(await launchPool.getLockBoost(3600)).to.deep.equal([
+        17500n,
+        BigInt(endTime),
+      ]);
+
+      await time.increaseTo(endTime);
+      const accTokenPerShare =
+        (ethers.parseEther("360") * 10n ** 18n) / ethers.parseEther("350");
+      expect(await launchPool.pendingReward(user1)).to.equal(
+        (ethers.parseEther("250") * accTokenPerShare) / 10n ** 18n
+      );
+      expect(await launchPool.pendingReward(user2)).to.equal(
+        (ethers.parseEther("100") * accTokenPerShare) / 10n ** 18n
+      );
+      expect(await launchPool.lockedAmount(user1)).to.equal(0);
+    });
+
+    it("Should keep locked deposits until they unlock", async function () {
+      const { launchPool, startTime } = await createBoostedPool();
+
+      await time.setNextBlockTimestamp(startTime);
+      await launchPool.connect(user1).deposit(ethers.parseEther("50"));
+      await time.setNextBlockTimestamp(startTime + 1800);
+      await launchPool
+        .connect(user1)
+        .depositLocked(ethers.parseEther("100"), 900);
+      // 900 of 3600 seconds, 1.375x
+      expect((await launchPool.userInfo(user1)).weight).to.equal(
+        ethers.parseEther("187.5")
+      );
+
+      await expect(
+        launchPool.connect(user1).withdraw(ethers.parseEther("60"))
+      ).to.be.revertedWith("Amount is locked");
+      await launchPool.connect(user1).withdraw(ethers.parseEther("50"));
+      expect((await launchPool.userInfo(user1)).weight).to.equal(
+        ethers.parseEther("137.5")
+      );
+
+      // Locks that are over count 1x again
+      await time.increaseTo(startTime + 2700);
+      await expect(launchPool.connect(user1).withdraw(ethers.parseEther("40")))
+        .to.emit(launchPool, "Unlocked")
+        .withArgs(
+          user1.address,
+          ethers.parseEther("100"),
+          ethers.parseEther("137.5")
+        );
+      expect(await launchPool.getLockPositions(user1)).to.deep.equal([]);
+      expect((await launchPool.userInfo(user1)).weight).to.equal(
+        ethers.parseEther("60")
+      );
+      await launchPool.connect(user1).withdraw(ethers.parseEther("60"));
+      expect(await launchPool.totalWeight()).to.equal(0);
+    });
+
+    it("Should drop locks to 1x once they unlock", async function () {
+      const { launchPool, startTime, endTime } = await createBoostedPool();
+
+      await time.setNextBlockTimestamp(startTime);
+      await launchPool
+        .connect(user1)
+        .depositLocked(ethers.parseEther("100"), 900);
+      await launchPool.connect(user2).deposit(ethers.parseEther("100"));
+
+      // Anyone can settle a lock that's over for an idle user
+      await time.setNextBlockTimestamp(startTime + 1200);
+      await expect(launchPool.connect(user2).poke(user1))
+        .to.emit(launchPool, "Unlocked")
+        .withArgs(
+          user1.address,
+          ethers.parseEther("100"),
+          ethers.parseEther("137.5")
+        );
+      expect((await launchPool.userInfo(user1)).weight).to.equal(
+        ethers.parseEther("100")
+      );
+      expect(await launchPool.totalWeight()).to.equal(ethers.parseEther("200"));
+      expect(await launchPool.lockedAmount(user1)).to.equal(0);
+
+      const pendingAtUnlock = [
+        await launchPool.pendingReward(user1),
+        await launchPool.pendingReward(user2),
+      ];
+      expect(pendingAtUnlock[0]).to.be.greaterThan(pendingAtUnlock[1]);
+
+      await time.increaseTo(endTime);
+      expect(
+        (await launchPool.pendingReward(user1)) - pendingAtUnlock[0]
+      ).to.equal((await launchPool.pendingReward(user2)) - pendingAtUnlock[1]);
+    });
+
+    it("Should stop boosting locks at their unlock time", async function () {
+      const { launchPool, startTime, endTime } = await createBoostedPool();
+
+      await time.setNextBlockTimestamp(startTime);
+      await launchPool
+        .connect(user1)
+        .depositLocked(ethers.parseEther("100"), 900);
+      await launchPool.connect(user2).deposit(ethers.parseEther("100"));
+      const unlockTime = startTime + 900;
+      expect(await launchPool.getPendingUnlocks()).to.deep.equal([
+        [BigInt(unlockTime)],
+        [ethers.parseEther("37.5")],
+      ]);
+
+      // Nobody sends a transaction from the unlock to the end, the locker
+      // still earns like the unlocked staker from the unlock time on
+      await time.setNextBlockTimestamp(unlockTime);
+      await mine();
+      const pendingAtUnlock = [
+        await launchPool.pendingReward(user1),
+        await launchPool.pendingReward(user2),
+      ];
+      await time.increaseTo(endTime);
+      const pending = [
+        await launchPool.pendingReward(user1),
+        await launchPool.pendingReward(user2),
+      ];
+      expect(pending[0] - pendingAtUnlock[0]).to.equal(
+        pending[1] - pendingAtUnlock[1]
+      );
+      expect(await launchPool.totalWeight()).to.equal(
+        ethers.parseEther("237.5")
+      );
+
+      // The next transaction writes the unlock down, whoever sends it
+      await expect(launchPool.connect(user2).claimReward())
+        .to.emit(launchPool, "Unlocked")
+        .withArgs(
+          user1.address,
+          ethers.parseEther("100"),
+          ethers.parseEther("137.5")
+        )
+        .and.to.emit(launchPool, "RewardClaimed")
+        .withArgs(user2.address, pending[1]);
+      expect(await launchPool.totalWeight()).to.equal(ethers.parseEther("200"));
+      expect(await launchPool.getPendingUnlocks()).to.deep.equal([[], []]);
+      expect((await launchPool.userInfo(user1)).weight).to.equal(
+        ethers.parseEther("100")
+      );
+      await expect(launchPool.connect(user1).claimReward())
+        .to.emit(launchPool, "RewardClaimed")
+        .withArgs(user1.address, pending[0]);
+    });
+
+    it("Should release locks while paused or delisted", async function () {
+      const { projectId, launchPool, startTime } = await createBoostedPool();
+
+      await time.setNextBlockTimestamp(startTime);
+      await launchPool
+        .connect(user1)
+        .depositLocked(ethers.parseEther("100"), 3600);
+      await launchPool
+        .connect(user2)
+        .depositLocked(ethers.parseEther("100"), 3600);
+      await factory.connect(projectOwner).pauseProject(projectId);
+
+      await launchPool.connect(user1).withdraw(ethers.parseEther("100"));
+      expect(await testToken.balanceOf(user1)).to.equal(
+        ethers.parseEther("1000")
+      );
+      await launchPool.connect(user2).emergencyWithdraw();
+      expect(await launchPool.getLockPositions(user2)).to.deep.equal([]);
+      expect(await launchPool.totalWeight()).to.equal(0);
+    });
+
+    it("Should release locks once the project ends early", async function () {
+      const { projectId, launchPool, startTime, endTime } =
+        await createBoostedPool();
+
+      await time.setNextBlockTimestamp(startTime);
+      await launchPool
+        .connect(user1)
+        .depositLocked(ethers.parseEther("100"), 3600);
+      await time.setNextBlockTimestamp(startTime + 600);
+      await factory.connect(projectOwner).endProject(projectId);
+      expect(await launchPool.getPoolStatus()).to.equal("ENDED");
+
+      // The lock ran until the original endTime
+      expect((await launchPool.getLockPositions(user1))[0].unlockTime).to.equal(
+        endTime
+      );
+      expect(await launchPool.lockedAmount(user1)).to.equal(0);
+      await launchPool.connect(user1).withdraw(ethers.parseEther("100"));
+      expect(await testToken.balanceOf(user1)).to.equal(
+        ethers.parseEther("1000")
+      );
+      expect(await launchPool.getLockPositions(user1)).to.deep.equal([]);
+      expect(await launchPool.totalWeight()).to.equal(0);
+
+      // Rewards up to the early end stay claimable
+      await launchPool.connect(user1).claimReward();
+      expect(await rewardToken.balanceOf(user1)).to.equal(
+        ethers.parseEther("60")
+      );
+    });
+
+    it("Should only configure boosts in staging", async function () {
+      const { launchPool } = await createBoostedPool();
+      await expect(
+        launchPool.connect(projectOwner).updateMaxBoost(20000)
+      ).to.be.revertedWith("Project not in staging");
+
+      // The fixture's pool never enabled locking
+      const { launchPool: unboosted } = await loadFixture(deployFixture);
+      await expect(
+        unboosted.connect(user1).depositLocked(ethers.parseEther("10"), 60)
+      ).to.be.revertedWith("Locking disabled");
+
+      const { launchPool: staging } = await createStagingPool();
+      for (const maxBoostBps of [9999, 50001]) {
+        await expect(
+          staging.connect(projectOwner).updateMaxBoost(maxBoostBps)
+        ).to.be.revertedWith("Invalid boost");
+      }
+      await expect(
+        staging.connect(user1).updateMaxBoost(20000)
+      ).to.be.revertedWith("Not project owner");
+      await staging.connect(projectOwner).updateMaxBoost(0);
+    });
+  });
+
   describe("ETH Staking", function () {
     let factory: LaunchPoolFactoryUpgradeable;
     let ethPool: LaunchPool;
@@ -724,6 +1666,8 @@ describe("LaunchPool", function () {
           poolRewardAmount: ethers.parseEther("360"),
           poolLimitPerUser: ethers.parseEther("10"),
           minStakeAmount: ethers.parseEther("1"),
+          startTime: 0,
+          endTime: 0,
         },
       ];
 
@@ -734,7 +1678,8 @@ describe("LaunchPool", function () {
         endTime,
         metadata,
         initialPools,
-        projectOwner.address
+        projectOwner.address,
+        CLAIM_AT_END
       );
 
       projectId = (await factory.nextProjectId()) - 1n;
@@ -862,6 +1807,8 @@ describe("LaunchPool", function () {
           poolRewardAmount: ethers.parseEther("360"),
           poolLimitPerUser: ethers.parseEther("100"),
           minStakeAmount: ethers.parseEther("10"),
+          startTime: 0,
+          endTime: 0,
         },
       ];
 
@@ -880,7 +1827,8 @@ describe("LaunchPool", function () {
           tokenInfo: "Test Token Info",
         },
         initialPools,
-        projectOwner.address
+        projectOwner.address,
+        CLAIM_AT_END
       );
 
       const newProjectId = (await factory.nextProjectId()) - 1n;
@@ -8,12 +8,16 @@ import {
 } from "../typechain-types";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 import { LaunchPoolFactoryUpgradeable as LaunchPoolFactoryType } from "../typechain-types/contracts/LaunchPoolFactoryUpgradeable";
+import { CLAIM_AT_END, ClaimPolicy, ClaimSettings } from "../sdk";
+import { EMPTY_METADATA } from "../tasks/helpers";
 
 type InitialPoolParams = {
   stakedToken: MockToken;
   poolRewardAmount: bigint;
   poolLimitPerUser: bigint;
   minStakeAmount: bigint;
+  startTime: number;
+  endTime: number;
 };
 
 const emptyPools: InitialPoolParams[] = [];
@@ -92,6 +96,8 @@ describe("LaunchPoolFactoryUpgradeable (Business Logic)", function () {
           poolRewardAmount: ethers.parseEther("360"), // 0.1 tokens per second * 3600 seconds
           poolLimitPerUser: ethers.parseEther("100"),
           minStakeAmount: ethers.parseEther("10"),
+          startTime: 0,
+          endTime: 0,
         },
       ];
 
@@ -103,7 +109,8 @@ describe("LaunchPoolFactoryUpgradeable (Business Logic)", function () {
           endTime,
           metadata,
           initialPools,
-          projectOwner.address
+          projectOwner.address,
+          CLAIM_AT_END
         )
       )
         .to.emit(factory, "NewProject")
@@ -147,7 +154,8 @@ describe("LaunchPoolFactoryUpgradeable (Business Logic)", function () {
           endTime,
           metadata,
           emptyPools,
-          projectOwner.address
+          projectOwner.address,
+          CLAIM_AT_END
         )
       ).to.emit(factory, "NewProject");
 
@@ -182,7 +190,8 @@ describe("LaunchPoolFactoryUpgradeable (Business Logic)", function () {
         endTime,
         metadata,
         emptyPools,
-        projectOwner.address
+        projectOwner.address,
+        CLAIM_AT_END
       );
 
       const projectId = (await factory.nextProjectId()) - 1n;
@@ -193,7 +202,9 @@ describe("LaunchPoolFactoryUpgradeable (Business Logic)", function () {
           testToken,
           ethers.parseEther("360"), // Total reward amount
           ethers.parseEther("100"),
-          ethers.parseEther("10")
+          ethers.parseEther("10"),
+          0,
+          0
         )
       ).to.emit(factory, "NewLaunchPool");
 
@@ -243,7 +254,8 @@ describe("LaunchPoolFactoryUpgradeable (Business Logic)", function () {
             endTime,
             metadata,
             emptyPools,
-            projectOwner.address
+            projectOwner.address,
+            CLAIM_AT_END
           )
       ).to.be.revertedWith("Ownable: caller is not the owner");
     });
@@ -269,6 +281,8 @@ describe("LaunchPoolFactoryUpgradeable (Business Logic)", function () {
           poolRewardAmount: ethers.parseEther("360"),
           poolLimitPerUser: ethers.parseEther("100"),
           minStakeAmount: ethers.parseEther("10"),
+          startTime: 0,
+          endTime: 0,
         },
       ];
 
@@ -280,10 +294,335 @@ describe("LaunchPoolFactoryUpgradeable (Business Logic)", function () {
           endTime,
           metadata,
           initialPools,
-          projectOwner.address
+          projectOwner.address,
+          CLAIM_AT_END
         )
       ).to.be.revertedWith("Tokens must be different");
     });
+
+    it("Should validate pool windows", async function () {
+      const now = await time.latest();
+      const startTime = now + 100;
+      const endTime = startTime + 3600;
+
+      const create = (window: { startTime: number; endTime: number }) =>
+        factory.createProject(
+          rewardToken,
+          ethers.parseEther("360"),
+          startTime,
+          endTime,
+          EMPTY_METADATA,
+          [
+            {
+              stakedToken: testToken,
+              poolRewardAmount: ethers.parseEther("360"),
+              poolLimitPerUser: 0,
+              minStakeAmount: 0,
+              ...window,
+            },
+          ],
+          projectOwner.address,
+          CLAIM_AT_END
+        );
+      await expect(
+        create({ startTime: startTime - 1, endTime: 0 })
+      ).to.be.revertedWith("Pool starts before project");
+      await expect(
+        create({ startTime: 0, endTime: endTime + 1 })
+      ).to.be.revertedWith("Pool ends after project");
+      await expect(
+        create({ startTime: endTime, endTime: 0 })
+      ).to.be.revertedWith("Pool must start before it ends");
+      await expect(
+        create({ startTime: startTime + 600, endTime: startTime + 600 })
+      ).to.be.revertedWith("Pool must start before it ends");
+
+      await factory.createProject(
+        rewardToken,
+        ethers.parseEther("360"),
+        startTime,
+        endTime,
+        EMPTY_METADATA,
+        emptyPools,
+        projectOwner.address,
+        CLAIM_AT_END
+      );
+      const projectId = (await factory.nextProjectId()) - 1n;
+      await expect(
+        factory
+          .connect(projectOwner)
+          .addPoolToProject(projectId, testToken, 1, 0, 0, 0, endTime + 1)
+      ).to.be.revertedWith("Pool ends after project");
+      await factory
+        .connect(projectOwner)
+        .addPoolToProject(
+          projectId,
+          testToken,
+          ethers.parseEther("360"),
+          0,
+          0,
+          startTime + 1800,
+          startTime + 2400
+        );
+      const [poolInfo] = await factory.getProjectPools(projectId);
+      expect([poolInfo.startTime, poolInfo.endTime]).to.deep.equal([
+        BigInt(startTime + 1800),
+        BigInt(startTime + 2400),
+      ]);
+      expect(poolInfo.rewardPerSecond).to.equal(ethers.parseEther("0.6"));
+    });
+
+    it("Should validate and store claim settings", async function () {
+      const now = await time.latest();
+      const startTime = now + 100;
+      const endTime = startTime + 3600;
+      const metadata = {
+        projectName: "Test Project",
+        website: "https://test.com",
+        logo: "https://test.com/logo.png",
+        discord: "https://discord.gg/test",
+        twitter: "https://twitter.com/test",
+        telegram: "https://t.me/test",
+        tokenInfo: "Test Token Info",
+      };
+      const create = (
+        policy: ClaimPolicy,
+        unlockTime: number,
+        vesting: Partial<ClaimSettings> = {}
+      ) =>
+        factory.createProject(
+          rewardToken,
+          ethers.parseEther("360"),
+          startTime,
+          endTime,
+          metadata,
+          emptyPools,
+          projectOwner.address,
+          { ...CLAIM_AT_END, policy, unlockTime, ...vesting }
+        );
+
+      await expect(
+        create(ClaimPolicy.AFTER_UNLOCK, startTime - 1)
+      ).to.be.revertedWith("Unlock time before start");
+      await expect(create(ClaimPolicy.ANYTIME, startTime)).to.be.revertedWith(
+        "Unlock time needs AFTER_UNLOCK"
+      );
+
+      await expect(
+        create(ClaimPolicy.ANYTIME, 0, { vestingDuration: 3600 })
+      ).to.be.revertedWith("Vesting needs AT_END claims");
+      await expect(
+        create(ClaimPolicy.AT_END, 0, {
+          vestingDuration: 3600,
+          tgeShareBps: 10001,
+        })
+      ).to.be.revertedWith("TGE share above 100%");
+      await expect(
+        create(ClaimPolicy.AT_END, 0, { tgeShareBps: 1000 })
+      ).to.be.revertedWith("TGE share needs vesting");
+
+      await create(ClaimPolicy.AT_END, 0, {
+        vestingCliff: 600,
+        vestingDuration: 3600,
+        tgeShareBps: 2500,
+      });
+      expect(
+        await factory.getClaimSettings((await factory.nextProjectId()) - 1n)
+      ).to.deep.equal([ClaimPolicy.AT_END, 0n, 600n, 3600n, 2500n]);
+
+      await create(ClaimPolicy.AFTER_UNLOCK, startTime + 600);
+      const projectId = (await factory.nextProjectId()) - 1n;
+      const claimSettings = await factory.getClaimSettings(projectId);
+      expect(claimSettings.policy).to.equal(ClaimPolicy.AFTER_UNLOCK);
+      expect(claimSettings.unlockTime).to.equal(startTime + 600);
+      expect(
+        (await factory.getProject(projectId)).claimSettings.unlockTime
+      ).to.equal(startTime + 600);
+      expect(await factory.isClaimOpen(projectId)).to.equal(false);
+    });
+
+    it("Should validate extra reward tokens", async function () {
+      const now = await time.latest();
+      await factory.createProject(
+        rewardToken,
+        ethers.parseEther("360"),
+        now + 100,
+        now + 3700,
+        EMPTY_METADATA,
+        [
+          {
+            stakedToken: testToken,
+            poolRewardAmount: ethers.parseEther("300"),
+            poolLimitPerUser: 0n,
+            minStakeAmount: 0n,
+            startTime: 0,
+            endTime: 0,
+          },
+          {
+            stakedToken: testToken,
+            poolRewardAmount: ethers.parseEther("60"),
+            poolLimitPerUser: 0n,
+            minStakeAmount: 0n,
+            startTime: 0,
+            endTime: 0,
+          },
+        ],
+        projectOwner.address,
+        CLAIM_AT_END
+      );
+      const projectId = (await factory.nextProjectId()) - 1n;
+      const MockToken = await ethers.getContractFactory("MockToken");
+      const partnerToken = await MockToken.deploy();
+      const addExtraRewardToken = (
+        token: MockToken,
+        poolRewardAmounts: bigint[]
+      ) =>
+        factory
+          .connect(projectOwner)
+          .addExtraRewardToken(
+            projectId,
+            token,
+            ethers.parseEther("100"),
+            poolRewardAmounts
+          );
+
+      await expect(
+        factory
+          .connect(user)
+          .addExtraRewardToken(projectId, partnerToken, 0n, [0n, 0n])
+      ).to.be.revertedWith("Only project owner");
+      await expect(
+        addExtraRewardToken(rewardToken, [
+          ethers.parseEther("50"),
+          ethers.parseEther("50"),
+        ])
+      ).to.be.revertedWith("Duplicate reward token");
+      await expect(
+        addExtraRewardToken(partnerToken, [ethers.parseEther("100")])
+      ).to.be.revertedWith("Pool reward amounts mismatch");
+      await expect(
+        addExtraRewardToken(partnerToken, [
+          ethers.parseEther("50"),
+          ethers.parseEther("40"),
+        ])
+      ).to.be.revertedWith("Total allocated rewards must match total");
+      await expect(
+        addExtraRewardToken(testToken, [
+          ethers.parseEther("50"),
+          ethers.parseEther("50"),
+        ])
+      ).to.be.revertedWith("Tokens must be different");
+
+      await expect(
+        addExtraRewardToken(partnerToken, [
+          ethers.parseEther("80"),
+          ethers.parseEther("20"),
+        ])
+      )
+        .to.emit(factory, "ExtraRewardTokenAdded")
+        .withArgs(projectId, partnerToken, ethers.parseEther("100"));
+      await expect(
+        addExtraRewardToken(partnerToken, [
+          ethers.parseEther("80"),
+          ethers.parseEther("20"),
+        ])
+      ).to.be.revertedWith("Duplicate reward token");
+      await expect(
+        factory
+          .connect(projectOwner)
+          .addPoolToProject(projectId, testToken, 0n, 0n, 0n, 0, 0)
+      ).to.be.revertedWith("Extra reward tokens added");
+
+      const project = await factory.getProject(projectId);
+      expect(project.rewardTokens).to.deep.equal([
+        [await rewardToken.getAddress(), ethers.parseEther("360")],
+        [await partnerToken.getAddress(), ethers.parseEther("100")],
+      ]);
+      expect(
+        project.poolInfos[1].rewards.map((reward) => reward.poolRewardAmount)
+      ).to.deep.equal([ethers.parseEther("60"), ethers.parseEther("20")]);
+
+      // fundPool pulls every reward token, so no more can be added after it
+      await rewardToken.mint(projectOwner.address, ethers.parseEther("300"));
+      await partnerToken.mint(projectOwner.address, ethers.parseEther("80"));
+      await rewardToken
+        .connect(projectOwner)
+        .approve(factory, ethers.parseEther("300"));
+      await partnerToken
+        .connect(projectOwner)
+        .approve(factory, ethers.parseEther("80"));
+      await factory
+        .connect(projectOwner)
+        .fundPool(projectId, project.pools[0], ethers.parseEther("300"));
+      expect(await partnerToken.balanceOf(project.pools[0])).to.equal(
+        ethers.parseEther("80")
+      );
+      await expect(
+        addExtraRewardToken(await MockToken.deploy(), [
+          ethers.parseEther("50"),
+          ethers.parseEther("50"),
+        ])
+      ).to.be.revertedWith("Pool already funded");
+    });
+
+    it("Should not add extra reward tokens once the project started", async function () {
+      const startTime = (await time.latest()) + 100;
+      await factory.createProject(
+        rewardToken,
+        ethers.parseEther("360"),
+        startTime,
+        startTime + 3600,
+        EMPTY_METADATA,
+        [
+          {
+            stakedToken: testToken,
+            poolRewardAmount: ethers.parseEther("360"),
+            poolLimitPerUser: 0n,
+            minStakeAmount: 0n,
+            startTime: 0,
+            endTime: 0,
+          },
+        ],
+        projectOwner.address,
+        CLAIM_AT_END
+      );
+      const projectId = (await factory.nextProjectId()) - 1n;
+      const [pool] = await factory.getProjectPools(projectId);
+      await rewardToken.mint(projectOwner.address, ethers.parseEther("360"));
+      await rewardToken
+        .connect(projectOwner)
+        .approve(factory, ethers.parseEther("360"));
+      await factory
+        .connect(projectOwner)
+        .fundPool(projectId, pool.poolAddress, ethers.parseEther("360"));
+
+      // Paused mid-campaign and drained, the project is back in STAGING with
+      // no funded pools
+      await time.increaseTo(startTime + 600);
+      await factory.connect(projectOwner).pauseProject(projectId);
+      const launchPool = await ethers.getContractAt(
+        "LaunchPool",
+        pool.poolAddress
+      );
+      await launchPool
+        .connect(projectOwner)
+        .emergencyRewardWithdraw(ethers.parseEther("360"));
+      await factory.connect(projectOwner).resumeProject(projectId);
+      expect(await factory.getProjectStatus(projectId)).to.equal("STAGING");
+      expect((await factory.projects(projectId)).fundedPoolCount).to.equal(0);
+
+      const MockToken = await ethers.getContractFactory("MockToken");
+      await expect(
+        factory
+          .connect(projectOwner)
+          .addExtraRewardToken(
+            projectId,
+            await MockToken.deploy(),
+            ethers.parseEther("100"),
+            [ethers.parseEther("100")]
+          )
+      ).to.be.revertedWith("Project already started");
+    });
   });
 
   describe("Project Management", function () {
@@ -319,6 +658,8 @@ describe("LaunchPoolFactoryUpgradeable (Business Logic)", function () {
           poolRewardAmount: ethers.parseEther("360"), // 0.1 tokens per second * 3600 seconds
           poolLimitPerUser: ethers.parseEther("100"),
           minStakeAmount: ethers.parseEther("10"),
+          startTime: 0,
+          endTime: 0,
         },
       ];
 
@@ -329,7 +670,8 @@ describe("LaunchPoolFactoryUpgradeable (Business Logic)", function () {
         endTime,
         metadata,
         initialPools,
-        projectOwner.address
+        projectOwner.address,
+        CLAIM_AT_END
       );
 
       projectId = (await factory.nextProjectId()) - 1n;
@@ -389,7 +731,8 @@ describe("LaunchPoolFactoryUpgradeable (Business Logic)", function () {
         endTime,
         metadata,
         emptyPools,
-        projectOwner.address
+        projectOwner.address,
+        CLAIM_AT_END
       );
 
       const projectId = (await factory.nextProjectId()) - 1n;
@@ -400,7 +743,9 @@ describe("LaunchPoolFactoryUpgradeable (Business Logic)", function () {
         testToken,
         ethers.parseEther("300"), // Main pool with 300 tokens
         ethers.parseEther("100"),
-        ethers.parseEther("10")
+        ethers.parseEther("10"),
+        0,
+        0
       );
 
       // Add second pool with 60 tokens reward
@@ -409,7 +754,9 @@ describe("LaunchPoolFactoryUpgradeable (Business Logic)", function () {
         testToken,
         ethers.parseEther("60"), // Small pool with 60 tokens
         ethers.parseEther("100"),
-        ethers.parseEther("10")
+        ethers.parseEther("10"),
+        0,
+        0
       );
 
       const poolInfos = await factory.getProjectPools(projectId);
@@ -660,6 +1007,8 @@ describe("LaunchPoolFactoryUpgradeable (Business Logic)", function () {
           poolRewardAmount: ethers.parseEther("360"),
           poolLimitPerUser: ethers.parseEther("100"),
           minStakeAmount: ethers.parseEther("10"),
+          startTime: 0,
+          endTime: 0,
         },
       ];
 
@@ -670,7 +1019,8 @@ describe("LaunchPoolFactoryUpgradeable (Business Logic)", function () {
         endTime,
         metadata,
         initialPools,
-        projectOwner.address
+        projectOwner.address,
+        CLAIM_AT_END
       );
 
       const projectId = (await factory.nextProjectId()) - 1n;
@@ -0,0 +1,133 @@
+import { expect } from "chai";
+import { ethers, ignition, upgrades } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import LaunchPoolFactoryModule from "../ignition/modules/LaunchPoolFactory";
+import LaunchPoolFactoryOwnershipModule from "../ignition/modules/LaunchPoolFactoryOwnership";
+import { importIgnitionDeployment } from "../scripts/utils/ignition";
+import { getNetworkMetadata } from "../scripts/utils/network";
+
+describe("LaunchPoolFactoryModule (Ignition)", function () {
+  async function deployModuleFixture() {
+    const [owner, newOwner] = await ethers.getSigners();
+    const deployment = await ignition.deploy(LaunchPoolFactoryModule);
+    return { ...deployment, owner, newOwner };
+  }
+
+  it("Should deploy the factory behind an initialized ERC1967 proxy", async function () {
+    const {
+      factory,
+      factoryProxy,
+      factoryImplementation,
+      launchPoolImplementation,
+      owner,
+    } = await loadFixture(deployModuleFixture);
+
+    expect(await factory.getAddress()).to.equal(
+      await factoryProxy.getAddress()
+    );
+    expect(
+      await upgrades.erc1967.getImplementationAddress(
+        await factory.getAddress()
+      )
+    ).to.equal(await factoryImplementation.getAddress());
+    expect(await factory.launchPoolImplementation()).to.equal(
+      await launchPoolImplementation.getAddress()
+    );
+    expect(await factory.owner()).to.equal(owner.address);
+    expect(await factory.nextProjectId()).to.equal(0);
+  });
+
+  it("Should not allow initializing the implementation or proxy again", async function () {
+    const { factory, factoryImplementation, launchPoolImplementation } =
+      await loadFixture(deployModuleFixture);
+
+    await expect(
+      factory.initialize(await launchPoolImplementation.getAddress())
+    ).to.be.revertedWith("Initializable: contract is already initialized");
+    await expect(
+      factoryImplementation.initialize(
+        await launchPoolImplementation.getAddress()
+      )
+    ).to.be.revertedWith("Initializable: contract is already initialized");
+  });
+
+  it("Should be upgradeable with the upgrades plugin once imported", async function () {
+    const { factory, factoryImplementation, owner } = await loadFixture(
+      deployModuleFixture
+    );
+    const factoryAddress = await factory.getAddress();
+
+    const Factory = await ethers.getContractFactory(
+      "LaunchPoolFactoryUpgradeable"
+    );
+    await upgrades.forceImport(factoryAddress, Factory, { kind: "uups" });
+    const FactoryV2 = await ethers.getContractFactory("LaunchPoolFactoryV2");
+    const upgraded = await upgrades.upgradeProxy(factoryAddress, FactoryV2, {
+      kind: "uups",
+    });
+
+    expect(
+      await upgrades.erc1967.getImplementationAddress(factoryAddress)
+    ).to.not.equal(await factoryImplementation.getAddress());
+    expect(await upgraded.owner()).to.equal(owner.address);
+  });
+
+  it("Should import the deployment for the upgrade scripts", async function () {
+    const { factory, factoryImplementation, launchPoolImplementation, owner } =
+      await loadFixture(deployModuleFixture);
+    const contracts = {
+      launchPoolImplementation: {
+        address: await launchPoolImplementation.getAddress(),
+      },
+      factoryImplementation: {
+        address: await factoryImplementation.getAddress(),
+      },
+      factoryProxy: { address: await factory.getAddress() },
+    };
+
+    const manifest = await importIgnitionDeployment(
+      { deployer: owner.address, contracts },
+      await getNetworkMetadata()
+    );
+    expect(manifest.chainId).to.equal(31337);
+    expect(manifest.deployer).to.equal(owner.address);
+    expect(manifest.contracts).to.deep.equal(contracts);
+    expect(manifest.upgrades).to.deep.equal([]);
+
+    // Validated against the imported layout
+    await upgrades.validateUpgrade(
+      contracts.factoryProxy.address,
+      await ethers.getContractFactory("LaunchPoolFactoryV2"),
+      { kind: "uups" }
+    );
+    await expect(
+      importIgnitionDeployment(
+        {
+          deployer: owner.address,
+          contracts: {
+            ...contracts,
+            factoryImplementation: contracts.launchPoolImplementation,
+          },
+        },
+        await getNetworkMetadata()
+      )
+    ).to.be.rejectedWith("not the implementation Ignition deployed");
+  });
+
+  it("Should start the ownership transfer to the configured owner", async function () {
+    const { newOwner } = await loadFixture(deployModuleFixture);
+    const deployment = await ignition.deploy(LaunchPoolFactoryOwnershipModule, {
+      parameters: {
+        LaunchPoolFactoryOwnershipModule: { owner: newOwner.address },
+      },
+    });
+    const factory = await ethers.getContractAt(
+      "LaunchPoolFactoryUpgradeable",
+      await deployment.factory.getAddress()
+    );
+
+    expect(await factory.pendingOwner()).to.equal(newOwner.address);
+    await factory.connect(newOwner).acceptOwnership();
+    expect(await factory.owner()).to.equal(newOwner.address);
+  });
+});
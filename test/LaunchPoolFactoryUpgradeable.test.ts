@@ -1,21 +1,34 @@
 import { expect } from "chai";
 import { ethers, upgrades } from "hardhat";
-import { time, loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  time,
+  loadFixture,
+  mine,
+} from "@nomicfoundation/hardhat-network-helpers";
 import {
   LaunchPool,
   LaunchPoolV2,
   LaunchPoolFactoryUpgradeable,
   LaunchPoolFactoryV2,
   LaunchPoolFactoryV3,
+  LegacyLaunchPool,
   MockToken,
 } from "../typechain-types";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { CLAIM_AT_END, LaunchPoolClient, pendingReward } from "../sdk";
+import { buildParticipantSnapshot, buildSettlementReport } from "../reports";
+import {
+  findPoolClones,
+  getMinimalProxyImplementation,
+} from "../scripts/utils/verify";
 
 type InitialPoolParams = {
   stakedToken: MockToken;
   poolRewardAmount: bigint;
   poolLimitPerUser: bigint;
   minStakeAmount: bigint;
+  startTime: number;
+  endTime: number;
 };
 
 describe("LaunchPoolFactoryUpgradeable (Upgrades)", function () {
@@ -122,7 +135,8 @@ describe("LaunchPoolFactoryUpgradeable (Upgrades)", function () {
         now + 3600,
         metadata,
         emptyPools,
-        projectOwner.address
+        projectOwner.address,
+        CLAIM_AT_END
       );
 
       await factoryV2.createProject(
@@ -132,7 +146,8 @@ describe("LaunchPoolFactoryUpgradeable (Upgrades)", function () {
         now + 3600,
         metadata,
         emptyPools,
-        projectOwner.address
+        projectOwner.address,
+        CLAIM_AT_END
       );
 
       // Third project should fail
@@ -144,7 +159,8 @@ describe("LaunchPoolFactoryUpgradeable (Upgrades)", function () {
           now + 3600,
           metadata,
           emptyPools,
-          projectOwner.address
+          projectOwner.address,
+          CLAIM_AT_END
         )
       ).to.be.revertedWith("Too many projects");
     });
@@ -228,7 +244,8 @@ describe("LaunchPoolFactoryUpgradeable (Upgrades)", function () {
         now + 3600,
         metadata,
         emptyPools,
-        projectOwner.address
+        projectOwner.address,
+        CLAIM_AT_END
       );
 
       // Second project with start time less than minProjectInterval should fail
@@ -240,7 +257,8 @@ describe("LaunchPoolFactoryUpgradeable (Upgrades)", function () {
           now + 3600,
           metadata,
           emptyPools,
-          projectOwner.address
+          projectOwner.address,
+          CLAIM_AT_END
         )
       ).to.be.revertedWith("Must wait before creating new project");
 
@@ -252,8 +270,475 @@ describe("LaunchPoolFactoryUpgradeable (Upgrades)", function () {
         now + 24 * 60 * 60 + 3600,
         metadata,
         emptyPools,
-        projectOwner.address
+        projectOwner.address,
+        CLAIM_AT_END
+      );
+    });
+  });
+  describe("Pools from before the upgrade", function () {
+    async function deployLegacyFixture() {
+      const [owner, projectOwner, user] = await ethers.getSigners();
+
+      const LegacyLaunchPool = await ethers.getContractFactory(
+        "LegacyLaunchPool"
+      );
+      const legacyPoolImpl = await LegacyLaunchPool.deploy();
+
+      // Clones version 1 pools, which lack the views added since
+      const LegacyFactory = await ethers.getContractFactory(
+        "LegacyLaunchPoolFactory"
+      );
+      const legacyFactory = await upgrades.deployProxy(
+        LegacyFactory,
+        [await legacyPoolImpl.getAddress()],
+        {
+          initializer: "initialize",
+          kind: "uups",
+        }
+      );
+
+      const MockToken = await ethers.getContractFactory("MockToken");
+      const rewardToken = await MockToken.deploy();
+      const testToken = await MockToken.deploy();
+      await rewardToken.mint(projectOwner.address, ethers.parseEther("2000"));
+      await testToken.mint(user.address, ethers.parseEther("1000"));
+
+      const now = await time.latest();
+      const startTime = now + 100;
+      const endTime = now + 3700;
+      const metadata = {
+        projectName: "Legacy",
+        website: "test.com",
+        logo: "test.com/logo.png",
+        discord: "discord.gg/test",
+        twitter: "twitter.com/test",
+        telegram: "t.me/test",
+        tokenInfo: "Test Token",
+      };
+      const pools: InitialPoolParams[] = [600, 400].map((amount) => ({
+        stakedToken: testToken,
+        poolRewardAmount: ethers.parseEther(`${amount}`),
+        poolLimitPerUser: 0n,
+        minStakeAmount: 0n,
+        startTime: 0,
+        endTime: 0,
+      }));
+      await legacyFactory.createProject(
+        rewardToken,
+        ethers.parseEther("1000"),
+        startTime,
+        endTime,
+        metadata,
+        pools,
+        projectOwner.address,
+        CLAIM_AT_END
+      );
+
+      const poolAddresses = (await legacyFactory.getProject(0)).pools;
+      await rewardToken
+        .connect(projectOwner)
+        .approve(await legacyFactory.getAddress(), ethers.parseEther("1000"));
+      await legacyFactory
+        .connect(projectOwner)
+        .fundPool(0, poolAddresses[0], ethers.parseEther("600"));
+      await legacyFactory
+        .connect(projectOwner)
+        .fundPool(0, poolAddresses[1], ethers.parseEther("400"));
+
+      // New pools are cloned from the current LaunchPool once initializeV2
+      // replaces the legacy implementation
+      const LaunchPool = await ethers.getContractFactory("LaunchPool");
+      const launchPoolImpl = await LaunchPool.deploy();
+      const Factory = await ethers.getContractFactory(
+        "LaunchPoolFactoryUpgradeable"
+      );
+      const factory = (await upgrades.upgradeProxy(
+        await legacyFactory.getAddress(),
+        Factory,
+        {
+          call: {
+            fn: "initializeV2",
+            args: [await launchPoolImpl.getAddress()],
+          },
+        }
+      )) as LaunchPoolFactoryUpgradeable;
+
+      const legacyPools = poolAddresses.map(
+        (address) =>
+          LegacyLaunchPool.attach(address) as unknown as LegacyLaunchPool
+      );
+
+      return {
+        factory,
+        launchPoolImpl,
+        legacyPools,
+        rewardToken,
+        testToken,
+        owner,
+        projectOwner,
+        user,
+        metadata,
+        startTime,
+        endTime,
+      };
+    }
+
+    it("Should clone new pools from the current LaunchPool after initializeV2", async function () {
+      const {
+        factory,
+        launchPoolImpl,
+        legacyPools,
+        rewardToken,
+        testToken,
+        owner,
+        projectOwner,
+        user,
+        metadata,
+        startTime,
+        endTime,
+      } = await loadFixture(deployLegacyFixture);
+
+      expect(await factory.launchPoolImplementation()).to.equal(
+        await launchPoolImpl.getAddress()
+      );
+      // It only runs once, with the upgrade
+      await expect(
+        factory.connect(owner).initializeV2(await launchPoolImpl.getAddress())
+      ).to.be.revertedWith("Initializable: contract is already initialized");
+
+      await factory.createProject(
+        rewardToken,
+        ethers.parseEther("1000"),
+        startTime + 50,
+        endTime,
+        metadata,
+        [
+          {
+            stakedToken: testToken,
+            poolRewardAmount: ethers.parseEther("600"),
+            poolLimitPerUser: 0n,
+            minStakeAmount: 0n,
+            startTime: 0,
+            endTime: 0,
+          },
+        ],
+        projectOwner.address,
+        CLAIM_AT_END
+      );
+      await factory
+        .connect(projectOwner)
+        .addPoolToProject(1, testToken, ethers.parseEther("400"), 0n, 0n, 0, 0);
+      const newPoolAddresses = (await factory.getProject(1)).pools;
+      expect(newPoolAddresses.length).to.equal(2);
+      for (const address of newPoolAddresses) {
+        expect(await factory.getPoolVersion(address)).to.equal(2);
+      }
+
+      await rewardToken
+        .connect(projectOwner)
+        .approve(await factory.getAddress(), ethers.parseEther("1000"));
+      await factory
+        .connect(projectOwner)
+        .fundPool(1, newPoolAddresses[0], ethers.parseEther("600"));
+      await factory
+        .connect(projectOwner)
+        .fundPool(1, newPoolAddresses[1], ethers.parseEther("400"));
+      expect(await factory.getProjectStatus(1)).to.equal("READY");
+      const newPoolAddress = newPoolAddresses[0];
+      const newPool = (await ethers.getContractAt(
+        "LaunchPool",
+        newPoolAddress
+      )) as LaunchPool;
+
+      // Stakers use both the legacy and the new pools
+      await time.increaseTo(startTime + 50);
+      await testToken
+        .connect(user)
+        .approve(await legacyPools[0].getAddress(), ethers.parseEther("100"));
+      await testToken
+        .connect(user)
+        .approve(newPoolAddress, ethers.parseEther("100"));
+      await legacyPools[0].connect(user).deposit(ethers.parseEther("100"));
+      await newPool.connect(user).deposit(ethers.parseEther("100"));
+      expect((await legacyPools[0].userInfo(user.address)).amount).to.equal(
+        ethers.parseEther("100")
       );
+      expect((await newPool.userInfo(user.address)).amount).to.equal(
+        ethers.parseEther("100")
+      );
+
+      await time.increaseTo(endTime);
+      await legacyPools[0].connect(user).claimReward();
+      await newPool.connect(user).claimReward();
+      // 600 from each, less the seconds before the deposits
+      expect(await rewardToken.balanceOf(user.address)).to.be.closeTo(
+        ethers.parseEther("1200"),
+        ethers.parseEther("20")
+      );
+      await legacyPools[0].connect(user).withdraw(ethers.parseEther("100"));
+      await newPool.connect(user).withdraw(ethers.parseEther("100"));
+      expect(await testToken.balanceOf(user.address)).to.equal(
+        ethers.parseEther("1000")
+      );
+    });
+
+    it("Should read legacy and current pools for the reward engine", async function () {
+      const {
+        factory,
+        legacyPools,
+        rewardToken,
+        testToken,
+        projectOwner,
+        user,
+        metadata,
+        startTime,
+        endTime,
+      } = await loadFixture(deployLegacyFixture);
+      await factory.createProject(
+        rewardToken,
+        ethers.parseEther("600"),
+        startTime,
+        endTime,
+        metadata,
+        [
+          {
+            stakedToken: testToken,
+            poolRewardAmount: ethers.parseEther("600"),
+            poolLimitPerUser: 0n,
+            minStakeAmount: 0n,
+            startTime: 0,
+            endTime: 0,
+          },
+        ],
+        projectOwner.address,
+        CLAIM_AT_END
+      );
+      const [newPoolAddress] = (await factory.getProject(1)).pools;
+      await rewardToken
+        .connect(projectOwner)
+        .approve(await factory.getAddress(), ethers.parseEther("600"));
+      await factory
+        .connect(projectOwner)
+        .fundPool(1, newPoolAddress, ethers.parseEther("600"));
+
+      await time.increaseTo(startTime + 100);
+      const legacyPoolAddress = await legacyPools[0].getAddress();
+      for (const address of [legacyPoolAddress, newPoolAddress]) {
+        await testToken
+          .connect(user)
+          .approve(address, ethers.parseEther("100"));
+      }
+      await legacyPools[0].connect(user).deposit(ethers.parseEther("40"));
+      const newPool = (await ethers.getContractAt(
+        "LaunchPool",
+        newPoolAddress
+      )) as LaunchPool;
+      await newPool.connect(user).deposit(ethers.parseEther("40"));
+      await time.increase(600);
+      await legacyPools[0].connect(user).deposit(ethers.parseEther("60"));
+      await time.increase(600);
+      await mine();
+
+      const legacy = new LaunchPoolClient(legacyPoolAddress, ethers.provider);
+      expect(await legacy.version()).to.equal(1);
+      const legacyUser = await legacy.userInfo(user.address);
+      expect(legacyUser.amount).to.equal(ethers.parseEther("100"));
+      expect(legacyUser.weight).to.equal(ethers.parseEther("100"));
+      const legacyState = await legacy.poolState();
+      expect(legacyState.totalWeight).to.equal(ethers.parseEther("100"));
+      expect([legacyState.startTime, legacyState.endTime]).to.deep.equal([
+        startTime,
+        endTime,
+      ]);
+      expect(legacyState.unlocks).to.deep.equal([]);
+      expect(await legacy.lockPositions(user.address)).to.deep.equal([]);
+
+      const current = new LaunchPoolClient(newPoolAddress, ethers.provider);
+      expect(await current.version()).to.equal(2);
+      expect((await current.poolState()).totalWeight).to.equal(
+        ethers.parseEther("40")
+      );
+
+      // The reward engine and the reports match pendingReward on both
+      const now = await time.latest();
+      for (const client of [legacy, current]) {
+        expect(
+          pendingReward(
+            await client.poolState(),
+            await client.userInfo(user.address),
+            now,
+            await client.lockPositions(user.address)
+          )
+        ).to.equal(await client.pendingReward(user.address));
+      }
+      for (const projectId of [0, 1]) {
+        const report = await buildSettlementReport(
+          ethers.provider,
+          await factory.getAddress(),
+          projectId
+        );
+        expect(report.users).to.have.length(1);
+        expect(report.users[0].discrepancies).to.deep.equal([]);
+        const snapshot = await buildParticipantSnapshot(
+          ethers.provider,
+          await factory.getAddress(),
+          { projectId },
+          { blockNumber: await ethers.provider.getBlockNumber() }
+        );
+        expect(snapshot.entries).to.have.length(1);
+      }
+    });
+
+    it("Should find pool clones and the implementation of each", async function () {
+      const {
+        factory,
+        launchPoolImpl,
+        legacyPools,
+        rewardToken,
+        testToken,
+        projectOwner,
+        metadata,
+        startTime,
+        endTime,
+      } = await loadFixture(deployLegacyFixture);
+      await factory.createProject(
+        rewardToken,
+        ethers.parseEther("100"),
+        startTime,
+        endTime,
+        metadata,
+        [
+          {
+            stakedToken: testToken,
+            poolRewardAmount: ethers.parseEther("100"),
+            poolLimitPerUser: 0n,
+            minStakeAmount: 0n,
+            startTime: 0,
+            endTime: 0,
+          },
+        ],
+        projectOwner.address,
+        CLAIM_AT_END
+      );
+      const [newPool] = (await factory.getProject(1)).pools;
+      const legacyImplementation = getMinimalProxyImplementation(
+        await ethers.provider.getCode(legacyPools[0])
+      );
+      expect(legacyImplementation).to.not.equal(undefined);
+      expect(legacyImplementation).to.not.equal(
+        await launchPoolImpl.getAddress()
+      );
+
+      const clones = await findPoolClones(await factory.getAddress(), 0);
+      expect(clones).to.deep.equal([
+        {
+          pool: await legacyPools[0].getAddress(),
+          projectId: 0n,
+          implementation: legacyImplementation,
+        },
+        {
+          pool: await legacyPools[1].getAddress(),
+          projectId: 0n,
+          implementation: legacyImplementation,
+        },
+        {
+          pool: newPool,
+          projectId: 1n,
+          implementation: await launchPoolImpl.getAddress(),
+        },
+      ]);
+      // The implementation itself isn't a minimal proxy
+      expect(
+        getMinimalProxyImplementation(
+          await ethers.provider.getCode(launchPoolImpl)
+        )
+      ).to.equal(undefined);
+    });
+
+    it("Should only let the owner replace the implementation", async function () {
+      const { launchPoolImpl, projectOwner } = await loadFixture(
+        deployLegacyFixture
+      );
+      const legacyFactory = await upgrades.deployProxy(
+        await ethers.getContractFactory("LegacyLaunchPoolFactory"),
+        [await launchPoolImpl.getAddress()],
+        { initializer: "initialize", kind: "uups" }
+      );
+      const factory = (await upgrades.upgradeProxy(
+        legacyFactory,
+        await ethers.getContractFactory("LaunchPoolFactoryUpgradeable")
+      )) as LaunchPoolFactoryUpgradeable;
+
+      await expect(
+        factory
+          .connect(projectOwner)
+          .initializeV2(await launchPoolImpl.getAddress())
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+      await expect(factory.initializeV2(ethers.ZeroAddress)).to.be.revertedWith(
+        "Invalid implementation"
+      );
+      await expect(factory.initializeV2(await launchPoolImpl.getAddress()))
+        .to.emit(factory, "LaunchPoolImplementationUpdated")
+        .withArgs(await launchPoolImpl.getAddress());
+    });
+
+    it("Should read pools in the project's window with rewardToken only", async function () {
+      const { factory, legacyPools, rewardToken, startTime, endTime } =
+        await loadFixture(deployLegacyFixture);
+
+      expect(await factory.CURRENT_VERSION()).to.equal(2);
+      expect(await factory.getPoolVersion(legacyPools[0])).to.equal(1);
+
+      const poolInfos = await factory.getProjectPools(0);
+      expect(poolInfos.length).to.equal(2);
+      for (const [i, poolRewardAmount] of [
+        ethers.parseEther("600"),
+        ethers.parseEther("400"),
+      ].entries()) {
+        const rewardPerSecond = poolRewardAmount / BigInt(endTime - startTime);
+        expect(poolInfos[i].poolAddress).to.equal(
+          await legacyPools[i].getAddress()
+        );
+        expect(poolInfos[i].startTime).to.equal(startTime);
+        expect(poolInfos[i].endTime).to.equal(endTime);
+        expect(poolInfos[i].rewardToken).to.equal(
+          await rewardToken.getAddress()
+        );
+        expect(poolInfos[i].rewardPerSecond).to.equal(rewardPerSecond);
+        expect(poolInfos[i].rewards.length).to.equal(1);
+        expect(poolInfos[i].rewards[0].poolRewardAmount).to.equal(
+          poolRewardAmount
+        );
+        expect(poolInfos[i].rewards[0].rewardPerSecond).to.equal(
+          rewardPerSecond
+        );
+      }
+      expect((await factory.getProject(0)).poolInfos.length).to.equal(2);
+    });
+
+    it("Should resume projects from their reward token balances", async function () {
+      const { factory, legacyPools, projectOwner } = await loadFixture(
+        deployLegacyFixture
+      );
+
+      await factory.connect(projectOwner).pauseProject(0);
+      await factory.connect(projectOwner).resumeProject(0);
+      expect(await factory.getProjectStatus(0)).to.equal("READY");
+
+      await factory.connect(projectOwner).pauseProject(0);
+      await expect(
+        factory.connect(projectOwner).updateProjectStatus(0, 0) // STAGING
+      ).to.be.revertedWith("Sufficient funds available, use READY instead");
+
+      await legacyPools[1].connect(projectOwner).emergencyRewardWithdraw(1n);
+      await expect(
+        factory.connect(projectOwner).updateProjectStatus(0, 1) // READY
+      ).to.be.revertedWith("Insufficient funds to resume to READY");
+
+      // Only the drained pool needs funding again
+      await factory.connect(projectOwner).resumeProject(0);
+      expect(await factory.getProjectStatus(0)).to.equal("STAGING");
+      expect((await factory.projects(0)).fundedPoolCount).to.equal(1);
     });
   });
 });
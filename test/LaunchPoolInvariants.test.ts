@@ -0,0 +1,137 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+  DEFAULT_INVARIANTS,
+  Invariant,
+  PoolObservation,
+  StepObservation,
+  formatFailure,
+  fuzz,
+  generateCase,
+  runCase,
+} from "../fuzz";
+
+describe("LaunchPool invariants", function () {
+  // Every claim policy, seed 7 vests AT_END rewards
+  const SEEDS = [1, 2, 4, 7, 12, 13];
+  const log = () => {};
+
+  for (const seed of SEEDS) {
+    it(`Should hold every invariant (seed ${seed})`, async function () {
+      const failure = await fuzz({ seeds: [seed], log });
+      expect(failure, failure && formatFailure(failure)).to.equal(undefined);
+    });
+  }
+
+  it("Should replay a seed identically", async function () {
+    const record = (observations: StepObservation[]): Invariant => ({
+      name: "record",
+      check: (observation) => {
+        observations.push(observation);
+        return undefined;
+      },
+    });
+    const first: StepObservation[] = [];
+    const second: StepObservation[] = [];
+    await runCase(generateCase(11, { steps: 30 }), [record(first)]);
+    await runCase(generateCase(11, { steps: 30 }), [record(second)]);
+
+    expect(first).to.have.length(30);
+    expect(second).to.deep.equal(first);
+    expect(first.some(({ revertReason }) => !revertReason)).to.equal(true);
+  });
+
+  it("Should shrink failures to a minimal sequence", async function () {
+    const limit = ethers.parseEther("1");
+    const capped: Invariant = {
+      name: "pool-0-under-1-eth",
+      check: ({ after }) =>
+        after[0].totalStaked >= limit
+          ? `${after[0].totalStaked} staked in pool 0`
+          : undefined,
+    };
+    const failure = await fuzz({
+      seeds: [1, 2, 3],
+      invariants: [capped],
+      log,
+    });
+
+    expect(failure?.invariant).to.equal("pool-0-under-1-eth");
+    const { actions } = failure!.case;
+    expect(actions).to.have.length(1);
+    expect(actions[0]).to.include({ type: "deposit", pool: 0, amount: limit });
+    expect(formatFailure(failure!)).to.contain(
+      "deposits 1.0 (1000000000000000000) in pool 0"
+    );
+  });
+
+  it("Should report broken accounting", async function () {
+    const pool = (users: [bigint, bigint][]): PoolObservation => ({
+      totalStaked: 10n,
+      stakedBalance: 10n,
+      rewardBalance: 100n,
+      poolRewardAmount: 100n,
+      distributedRewards: 100n,
+      claimed: 0n,
+      totalRewardsClaimed: 0n,
+      users: users.map(([amount, pendingReward]) => ({
+        amount,
+        pendingReward,
+        vested: pendingReward,
+        claimed: 0n,
+      })),
+    });
+    const check = (observation: Omit<StepObservation, "step">) =>
+      DEFAULT_INVARIANTS.map((invariant) =>
+        invariant.check({ step: 0, ...observation })
+      ).filter((message) => message !== undefined);
+
+    const before = [
+      pool([
+        [4n, 10n],
+        [6n, 20n],
+      ]),
+    ];
+    expect(
+      check({ action: { type: "advance", seconds: 1 }, before, after: before })
+    ).to.deep.equal([]);
+    expect(
+      check({
+        action: { type: "advance", seconds: 1 },
+        before,
+        after: [
+          pool([
+            [4n, 9n],
+            [5n, 20n],
+          ]),
+        ],
+      })
+    ).to.deep.equal([
+      "pool 0: totalStaked 10 != sum of userInfo.amount 9",
+      "pool 0: user 0 pendingReward fell from 10 to 9",
+    ]);
+    // Claims reset the claimant's pending reward
+    expect(
+      check({
+        action: { type: "claimReward", user: 0, pool: 0 },
+        before,
+        after: [
+          pool([
+            [4n, 0n],
+            [6n, 20n],
+          ]),
+        ],
+      })
+    ).to.deep.equal([]);
+    expect(
+      check({
+        action: { type: "pause" },
+        revertReason: "panic code 0x11 (Arithmetic operation overflowed)",
+        before,
+        after: before,
+      })
+    ).to.deep.equal([
+      "reverted with panic code 0x11 (Arithmetic operation overflowed)",
+    ]);
+  });
+});
@@ -0,0 +1,292 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import { time, loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { LaunchPoolFactoryUpgradeable } from "../typechain-types";
+import {
+  CLAIM_AT_END,
+  CurrentStatus,
+  ETH_ADDRESS,
+  LaunchPoolFactoryClient,
+  ProjectStatus,
+} from "../sdk";
+
+describe("LaunchPool SDK", function () {
+  async function deployFixture() {
+    const [owner, projectOwner, user1] = await ethers.getSigners();
+
+    // Deploy LaunchPool implementation and factory proxy
+    const LaunchPool = await ethers.getContractFactory("LaunchPool");
+    const launchPoolImpl = await LaunchPool.deploy();
+    await launchPoolImpl.waitForDeployment();
+    const Factory = await ethers.getContractFactory(
+      "LaunchPoolFactoryUpgradeable"
+    );
+    const factory = (await upgrades.deployProxy(
+      Factory,
+      [await launchPoolImpl.getAddress()],
+      {
+        initializer: "initialize",
+        kind: "uups",
+      }
+    )) as LaunchPoolFactoryUpgradeable;
+
+    // Deploy tokens
+    const MockToken = await ethers.getContractFactory("MockToken");
+    const rewardToken = await MockToken.deploy();
+    await rewardToken.waitForDeployment();
+    const testToken = await MockToken.deploy();
+    await testToken.waitForDeployment();
+
+    const now = await time.latest();
+    const startTime = now + 100;
+    const endTime = startTime + 3600;
+    const metadata = {
+      projectName: "SDK Project",
+      website: "https://test.com",
+      logo: "https://test.com/logo.png",
+      discord: "https://discord.gg/test",
+      twitter: "https://twitter.com/test",
+      telegram: "https://t.me/test",
+      tokenInfo: "Test Token Info",
+    };
+
+    // One ERC20 pool and one ETH pool
+    await factory.createProject(
+      rewardToken,
+      ethers.parseEther("720"),
+      startTime,
+      endTime,
+      metadata,
+      [
+        {
+          stakedToken: testToken,
+          poolRewardAmount: ethers.parseEther("360"),
+          poolLimitPerUser: ethers.parseEther("100"),
+          minStakeAmount: ethers.parseEther("10"),
+          startTime: 0,
+          endTime: 0,
+        },
+        {
+          stakedToken: ETH_ADDRESS,
+          poolRewardAmount: ethers.parseEther("360"),
+          poolLimitPerUser: ethers.parseEther("10"),
+          minStakeAmount: ethers.parseEther("0.1"),
+          startTime: 0,
+          endTime: 0,
+        },
+      ],
+      projectOwner.address,
+      CLAIM_AT_END
+    );
+    const projectId = Number((await factory.nextProjectId()) - 1n);
+
+    await testToken.mint(user1.address, ethers.parseEther("1000"));
+    await rewardToken.mint(projectOwner.address, ethers.parseEther("720"));
+    await rewardToken
+      .connect(projectOwner)
+      .approve(await factory.getAddress(), ethers.parseEther("720"));
+
+    const client = new LaunchPoolFactoryClient(
+      await factory.getAddress(),
+      user1
+    );
+    return {
+      factory,
+      client,
+      rewardToken,
+      testToken,
+      projectId,
+      owner,
+      projectOwner,
+      user1,
+      startTime,
+      endTime,
+      metadata,
+    };
+  }
+
+  async function fundedFixture() {
+    const fixture = await deployFixture();
+    const { factory, projectOwner, projectId } = fixture;
+    for (const pool of await factory.getProjectPools(projectId)) {
+      await factory
+        .connect(projectOwner)
+        .fundPool(projectId, pool.poolAddress, ethers.parseEther("360"));
+    }
+    return fixture;
+  }
+
+  it("Should decode getProject into plain objects", async function () {
+    const {
+      client,
+      rewardToken,
+      testToken,
+      projectId,
+      projectOwner,
+      startTime,
+      endTime,
+      metadata,
+    } = await loadFixture(deployFixture);
+
+    const project = await client.getProject(projectId);
+    expect(project.projectId).to.equal(projectId);
+    expect(project.rewardToken).to.equal(await rewardToken.getAddress());
+    expect(project.totalRewardAmount).to.equal(ethers.parseEther("720"));
+    expect(project.startTime).to.equal(startTime);
+    expect(project.endTime).to.equal(endTime);
+    expect(project.status).to.equal(ProjectStatus.STAGING);
+    expect(project.currentStatus).to.equal(CurrentStatus.STAGING);
+    expect(project.isActive).to.equal(false);
+    expect(project.owner).to.equal(projectOwner.address);
+    expect(project.metadata).to.deep.equal(metadata);
+    expect(project.claimSettings).to.deep.equal(CLAIM_AT_END);
+    expect(project.isClaimOpen).to.equal(false);
+    expect(project.rewardTokens).to.deep.equal([
+      {
+        rewardToken: await rewardToken.getAddress(),
+        totalRewardAmount: ethers.parseEther("720"),
+      },
+    ]);
+    expect(project.pools).to.have.length(2);
+
+    const [erc20Pool, ethPool] = project.poolInfos;
+    expect(erc20Pool.stakedToken).to.equal(await testToken.getAddress());
+    expect(erc20Pool.poolLimitPerUser).to.equal(ethers.parseEther("100"));
+    expect(erc20Pool.minStakeAmount).to.equal(ethers.parseEther("10"));
+    expect(erc20Pool.startTime).to.equal(startTime);
+    expect(ethPool.stakedToken).to.equal(ETH_ADDRESS);
+    expect(typeof ethPool.rewardPerSecond).to.equal("bigint");
+    expect(ethPool.rewards).to.deep.equal([
+      {
+        rewardToken: await rewardToken.getAddress(),
+        poolRewardAmount: ethers.parseEther("360"),
+        rewardPerSecond: ethPool.rewardPerSecond,
+      },
+    ]);
+    expect(await client.getProjectPools(projectId)).to.deep.equal(
+      project.poolInfos
+    );
+  });
+
+  it("Should track the current status through the project lifecycle", async function () {
+    const { client, projectId, startTime, endTime } = await loadFixture(
+      fundedFixture
+    );
+
+    expect(await client.getProjectStatus(projectId)).to.equal(
+      CurrentStatus.READY
+    );
+    await time.increaseTo(startTime);
+    expect(await client.getProjectStatus(projectId)).to.equal(
+      CurrentStatus.ACTIVE
+    );
+    expect((await client.getProject(projectId)).isActive).to.equal(true);
+    await time.increaseTo(endTime);
+    expect(await client.getProjectStatus(projectId)).to.equal(
+      CurrentStatus.ENDED
+    );
+  });
+
+  it("Should send ETH deposits as msg.value", async function () {
+    const { client, projectId, user1 } = await loadFixture(fundedFixture);
+    const [, ethPool] = await client.projectPools(projectId);
+
+    expect(await ethPool.isEthPool()).to.equal(true);
+    const amount = ethers.parseEther("1");
+    await expect(ethPool.deposit(amount)).to.changeEtherBalances(
+      [user1, ethPool.address],
+      [-amount, amount]
+    );
+    expect((await ethPool.userInfo(user1.address)).amount).to.equal(amount);
+  });
+
+  it("Should approve and deposit ERC20 tokens", async function () {
+    const { client, projectId, user1, testToken } = await loadFixture(
+      fundedFixture
+    );
+    const [erc20Pool] = await client.projectPools(projectId);
+    const amount = ethers.parseEther("50");
+
+    expect(await erc20Pool.isEthPool()).to.equal(false);
+    await expect(erc20Pool.deposit(amount)).to.be.revertedWith(
+      "ERC20: insufficient allowance"
+    );
+    await expect(
+      erc20Pool.deposit(amount, { approve: true })
+    ).to.changeTokenBalances(
+      testToken,
+      [user1, erc20Pool.address],
+      [-amount, amount]
+    );
+  });
+
+  it("Should accrue, withdraw and claim rewards", async function () {
+    const { client, projectId, user1, rewardToken, testToken, endTime } =
+      await loadFixture(fundedFixture);
+    const [erc20Pool] = await client.projectPools(projectId);
+    const amount = ethers.parseEther("50");
+    await erc20Pool.deposit(amount, { approve: true });
+
+    await time.increase(600);
+    expect(await erc20Pool.claimableReward(user1.address)).to.deep.equal({
+      claimable: 0n,
+      locked: await erc20Pool.pendingReward(user1.address),
+    });
+
+    await time.increaseTo(endTime);
+    const pending = await erc20Pool.pendingReward(user1.address);
+    expect(pending).to.be.closeTo(
+      ethers.parseEther("360"),
+      ethers.parseEther("0.001")
+    );
+    expect(await erc20Pool.pendingRewards(user1.address)).to.deep.equal([
+      { rewardToken: await rewardToken.getAddress(), amount: pending },
+    ]);
+    expect(await client.isClaimOpen(projectId)).to.equal(true);
+    expect(await erc20Pool.claimableReward(user1.address)).to.deep.equal({
+      claimable: pending,
+      locked: 0n,
+    });
+
+    await expect(erc20Pool.withdraw(amount)).to.changeTokenBalance(
+      testToken,
+      user1,
+      amount
+    );
+    await expect(erc20Pool.claimReward()).to.changeTokenBalance(
+      rewardToken,
+      user1,
+      pending
+    );
+    expect(await erc20Pool.pendingReward(user1.address)).to.equal(0);
+    expect(await erc20Pool.vestingInfo(user1.address)).to.deep.equal({
+      vested: pending,
+      claimed: pending,
+      locked: 0n,
+    });
+  });
+
+  it("Should emergency withdraw from a paused project", async function () {
+    const { client, factory, projectId, projectOwner, user1, startTime } =
+      await loadFixture(fundedFixture);
+    const [, ethPool] = await client.projectPools(projectId);
+    const amount = ethers.parseEther("2");
+    await time.increaseTo(startTime);
+    await ethPool.deposit(amount);
+
+    await factory.connect(projectOwner).pauseProject(projectId);
+    expect(await client.getProjectStatus(projectId)).to.equal(
+      CurrentStatus.PAUSED
+    );
+    await expect(ethPool.emergencyWithdraw()).to.changeEtherBalance(
+      user1,
+      amount
+    );
+    expect(await ethPool.userInfo(user1.address)).to.deep.equal({
+      amount: 0n,
+      rewardDebt: 0n,
+      pendingRewards: 0n,
+      weight: 0n,
+    });
+  });
+});
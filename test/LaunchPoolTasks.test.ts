@@ -0,0 +1,278 @@
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import hre, { ethers, upgrades } from "hardhat";
+import {
+  loadFixture,
+  mine,
+  time,
+} from "@nomicfoundation/hardhat-network-helpers";
+import { LaunchPoolFactoryUpgradeable } from "../typechain-types";
+
+describe("LaunchPool tasks", function () {
+  // Runs a task without its console output
+  async function run(name: string, args: Record<string, unknown>) {
+    const log = console.log;
+    console.log = () => {};
+    try {
+      return await hre.run(name, args);
+    } finally {
+      console.log = log;
+    }
+  }
+
+  async function deployFixture() {
+    const [owner, user] = await ethers.getSigners();
+    const LaunchPool = await ethers.getContractFactory("LaunchPool");
+    const launchPoolImpl = await LaunchPool.deploy();
+    const Factory = await ethers.getContractFactory(
+      "LaunchPoolFactoryUpgradeable"
+    );
+    const factory = (await upgrades.deployProxy(
+      Factory,
+      [await launchPoolImpl.getAddress()],
+      { initializer: "initialize", kind: "uups" }
+    )) as LaunchPoolFactoryUpgradeable;
+    const factoryAddress = await factory.getAddress();
+
+    const MockToken = await ethers.getContractFactory("MockToken");
+    const rewardToken = await MockToken.deploy();
+    const extraToken = await MockToken.deploy();
+    const stakedToken = await MockToken.deploy();
+    await rewardToken.mint(owner.address, ethers.parseEther("1000"));
+    await extraToken.mint(owner.address, ethers.parseEther("1000"));
+    await stakedToken.mint(user.address, ethers.parseEther("1000"));
+
+    const startTime = (await time.latest()) + 3600;
+    const endTime = startTime + 86400;
+    return {
+      owner,
+      user,
+      factory,
+      factoryAddress,
+      rewardToken,
+      extraToken,
+      stakedToken,
+      startTime,
+      endTime,
+    };
+  }
+
+  async function projectFixture() {
+    const fixture = await deployFixture();
+    const { factoryAddress, rewardToken, stakedToken, startTime, endTime } =
+      fixture;
+    await run("launchpool:create-project", {
+      factory: factoryAddress,
+      rewardToken: await rewardToken.getAddress(),
+      totalRewardAmount: ethers.parseEther("100"),
+      startTime,
+      endTime,
+      metadata: { projectName: "Bulba" },
+      pools: [
+        {
+          stakedToken: await stakedToken.getAddress(),
+          poolRewardAmount: ethers.parseEther("100").toString(),
+        },
+      ],
+    });
+    const [pool] = await fixture.factory.getProjectPools(0);
+    return { ...fixture, pool: pool.poolAddress };
+  }
+
+  async function readyFixture() {
+    const fixture = await projectFixture();
+    await run("launchpool:fund-pool", {
+      factory: fixture.factoryAddress,
+      projectId: 0,
+      pool: fixture.pool,
+      approve: true,
+    });
+    return fixture;
+  }
+
+  it("Should reject invalid arguments", async function () {
+    const { factoryAddress, rewardToken, startTime, endTime } =
+      await loadFixture(deployFixture);
+    const createArgs = {
+      factory: factoryAddress,
+      rewardToken: await rewardToken.getAddress(),
+      totalRewardAmount: ethers.parseEther("100"),
+      startTime,
+      endTime,
+    };
+    await expect(
+      run("launchpool:create-project", { ...createArgs, claimPolicy: "NEVER" })
+    ).to.be.rejectedWith("NEVER");
+    await expect(
+      run("launchpool:create-project", { ...createArgs, signer: "99" })
+    ).to.be.rejectedWith("Signer 99 is not one of the");
+    await expect(
+      run("launchpool:create-project", {
+        ...createArgs,
+        totalRewardAmount: "100",
+      })
+    ).to.be.rejectedWith("totalRewardAmount");
+
+    await expect(
+      run("launchpool:snapshot", { factory: factoryAddress })
+    ).to.be.rejectedWith("Pass either --project-id or --pool");
+    await expect(
+      run("launchpool:snapshot", {
+        factory: factoryAddress,
+        projectId: 0,
+        pool: factoryAddress,
+      })
+    ).to.be.rejectedWith("Pass either --project-id or --pool");
+    await expect(
+      run("launchpool:snapshot", {
+        factory: factoryAddress,
+        projectId: 0,
+        format: "xml",
+      })
+    ).to.be.rejectedWith("Unknown format xml");
+    await expect(
+      run("launchpool:snapshot", {
+        factory: factoryAddress,
+        projectId: 0,
+        format: "merkle",
+        merkleValue: "weight",
+      })
+    ).to.be.rejectedWith("Unknown Merkle value weight");
+    await expect(
+      run("launchpool:report", {
+        factory: factoryAddress,
+        projectId: 0,
+        format: "xml",
+      })
+    ).to.be.rejectedWith("Unknown format xml");
+  });
+
+  it("Should create a project and fund its pool", async function () {
+    const { owner, factory, factoryAddress, rewardToken, pool } =
+      await loadFixture(projectFixture);
+    const project = await factory.getProject(0);
+    expect(project.owner).to.equal(owner.address);
+    expect(project.metadata.projectName).to.equal("Bulba");
+    expect(await factory.getProjectStatus(0)).to.equal("STAGING");
+
+    // Funding needs an allowance, or --approve
+    await expect(
+      run("launchpool:fund-pool", {
+        factory: factoryAddress,
+        projectId: 0,
+        pool,
+      })
+    ).to.be.rejectedWith("Approve it first or pass --approve");
+
+    await run("launchpool:fund-pool", {
+      factory: factoryAddress,
+      projectId: 0,
+      pool,
+      approve: true,
+    });
+    expect(await rewardToken.balanceOf(pool)).to.equal(
+      ethers.parseEther("100")
+    );
+    expect(await factory.getProjectStatus(0)).to.equal("READY");
+    await run("launchpool:status", { factory: factoryAddress, projectId: 0 });
+  });
+
+  it("Should fund extra reward tokens with the pool", async function () {
+    const { factory, factoryAddress, extraToken, pool } = await loadFixture(
+      projectFixture
+    );
+    await run("launchpool:add-reward-token", {
+      factory: factoryAddress,
+      projectId: 0,
+      rewardToken: await extraToken.getAddress(),
+      totalRewardAmount: ethers.parseEther("50"),
+      poolRewardAmounts: [ethers.parseEther("50").toString()],
+    });
+    await run("launchpool:fund-pool", {
+      factory: factoryAddress,
+      projectId: 0,
+      pool,
+      approve: true,
+    });
+    expect(await extraToken.balanceOf(pool)).to.equal(ethers.parseEther("50"));
+    expect(await factory.getProjectStatus(0)).to.equal("READY");
+  });
+
+  it("Should pause, resume, end and delist a project", async function () {
+    const { factory, factoryAddress, startTime } = await loadFixture(
+      readyFixture
+    );
+    const args = { factory: factoryAddress, projectId: 0 };
+
+    await run("launchpool:pause", args);
+    expect(await factory.getProjectStatus(0)).to.equal("PAUSED");
+    await run("launchpool:resume", args);
+    expect(await factory.getProjectStatus(0)).to.equal("READY");
+
+    await time.increaseTo(startTime + 3600);
+    await run("launchpool:end", args);
+    expect(await factory.getProjectStatus(0)).to.equal("ENDED");
+    await expect(run("launchpool:resume", args)).to.be.revertedWith(
+      "Project not paused"
+    );
+
+    await run("launchpool:delist", args);
+    expect(await factory.getProjectStatus(0)).to.equal("DELISTED");
+    // Only the project owner can change its status
+    await expect(
+      run("launchpool:pause", { ...args, signer: "1" })
+    ).to.be.revertedWith("Only project owner");
+  });
+
+  it("Should write reports and snapshots", async function () {
+    const { user, factoryAddress, stakedToken, pool, startTime, endTime } =
+      await loadFixture(readyFixture);
+    await time.increaseTo(startTime);
+    await stakedToken.connect(user).approve(pool, ethers.parseEther("10"));
+    const launchPool = await ethers.getContractAt("LaunchPool", pool);
+    await launchPool.connect(user).deposit(ethers.parseEther("10"));
+    await time.increaseTo(endTime);
+    await mine();
+
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "launchpool-tasks-"));
+    await run("launchpool:report", {
+      factory: factoryAddress,
+      projectId: 0,
+      out: path.join(dir, "report"),
+    });
+    const report = JSON.parse(
+      fs.readFileSync(path.join(dir, "report.json"), "utf8")
+    );
+    expect(report.currentStatus).to.equal("ENDED");
+    expect(report.users).to.have.length(1);
+    expect(report.users[0].user).to.equal(user.address);
+
+    await run("launchpool:snapshot", {
+      factory: factoryAddress,
+      pool,
+      format: "json",
+      out: path.join(dir, "snapshot.json"),
+    });
+    const snapshot = JSON.parse(
+      fs.readFileSync(path.join(dir, "snapshot.json"), "utf8")
+    );
+    expect(snapshot.projectId).to.equal(0);
+    expect(snapshot.entries).to.have.length(1);
+    expect(snapshot.entries[0].amount).to.equal(
+      ethers.parseEther("10").toString()
+    );
+
+    // A minimum stake above the deposit leaves the user out
+    await run("launchpool:snapshot", {
+      factory: factoryAddress,
+      projectId: 0,
+      minStake: ethers.parseEther("11"),
+      out: path.join(dir, "snapshot.csv"),
+    });
+    expect(
+      fs.readFileSync(path.join(dir, "snapshot.csv"), "utf8")
+    ).to.not.contain(user.address);
+  });
+});
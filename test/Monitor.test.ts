@@ -0,0 +1,374 @@
+import { expect } from "chai";
+import http from "http";
+import { AddressInfo } from "net";
+import { ethers, upgrades } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { LaunchPoolFactoryUpgradeable } from "../typechain-types";
+import { CLAIM_AT_END, ProjectStatus } from "../sdk";
+import { Indexer } from "../indexer";
+import {
+  ALLOWED_TRANSITIONS,
+  AlertNotification,
+  Monitor,
+  WebhookNotifier,
+} from "../monitor";
+
+describe("Monitor", function () {
+  let webhook: http.Server | undefined;
+
+  afterEach(async function () {
+    await new Promise((resolve) => webhook?.close(resolve) ?? resolve(null));
+    webhook = undefined;
+  });
+
+  // Local stand-in for the alerting webhook, answers `failures` 500s first
+  async function startWebhook(failures = 0) {
+    const received: AlertNotification[] = [];
+    webhook = http.createServer((request, response) => {
+      let body = "";
+      request.on("data", (chunk) => (body += chunk));
+      request.on("end", () => {
+        if (failures > 0) {
+          failures--;
+          response.writeHead(500).end();
+          return;
+        }
+        received.push(JSON.parse(body));
+        response.writeHead(204).end();
+      });
+    });
+    await new Promise<void>((resolve) =>
+      webhook!.listen(0, "127.0.0.1", resolve)
+    );
+    const { port } = webhook.address() as AddressInfo;
+    return { url: `http://127.0.0.1:${port}/alerts`, received };
+  }
+
+  async function deployFixture() {
+    const [owner, projectOwner, user1] = await ethers.getSigners();
+
+    const LaunchPool = await ethers.getContractFactory("LaunchPool");
+    const launchPoolImpl = await LaunchPool.deploy();
+    await launchPoolImpl.waitForDeployment();
+    const Factory = await ethers.getContractFactory(
+      "LaunchPoolFactoryUpgradeable"
+    );
+    const factory = (await upgrades.deployProxy(
+      Factory,
+      [await launchPoolImpl.getAddress()],
+      {
+        initializer: "initialize",
+        kind: "uups",
+      }
+    )) as LaunchPoolFactoryUpgradeable;
+
+    const MockToken = await ethers.getContractFactory("MockToken");
+    const rewardToken = await MockToken.deploy();
+    await rewardToken.waitForDeployment();
+    const testToken = await MockToken.deploy();
+    await testToken.waitForDeployment();
+
+    const startTime = (await time.latest()) + 100;
+    const endTime = startTime + 3600;
+    const metadata = {
+      projectName: "Monitored Project",
+      website: "https://test.com",
+      logo: "https://test.com/logo.png",
+      discord: "https://discord.gg/test",
+      twitter: "https://twitter.com/test",
+      telegram: "https://t.me/test",
+      tokenInfo: "Test Token Info",
+    };
+    const pools = [
+      {
+        stakedToken: testToken,
+        poolRewardAmount: ethers.parseEther("360"),
+        poolLimitPerUser: ethers.parseEther("100"),
+        minStakeAmount: ethers.parseEther("1"),
+        startTime: 0,
+        endTime: 0,
+      },
+    ];
+    await factory.createProject(
+      rewardToken,
+      ethers.parseEther("360"),
+      startTime,
+      endTime,
+      metadata,
+      pools,
+      projectOwner.address,
+      CLAIM_AT_END
+    );
+    const [poolInfo] = await factory.getProjectPools(0);
+    const pool = await ethers.getContractAt("LaunchPool", poolInfo.poolAddress);
+    await rewardToken.mint(projectOwner.address, ethers.parseEther("360"));
+    await rewardToken
+      .connect(projectOwner)
+      .approve(await factory.getAddress(), ethers.parseEther("360"));
+    await factory
+      .connect(projectOwner)
+      .fundPool(0, pool, ethers.parseEther("360"));
+
+    await time.increaseTo(startTime);
+    await testToken.mint(user1.address, ethers.parseEther("100"));
+    await testToken
+      .connect(user1)
+      .approve(await pool.getAddress(), ethers.MaxUint256);
+    await pool.connect(user1).deposit(ethers.parseEther("50"));
+
+    return {
+      factory,
+      pool,
+      rewardToken,
+      testToken,
+      projectOwner,
+      user1,
+      startTime,
+      endTime,
+      metadata,
+      pools,
+    };
+  }
+
+  function createMonitor(
+    factory: LaunchPoolFactoryUpgradeable,
+    url: string,
+    options: Partial<ConstructorParameters<typeof Monitor>[0]> = {}
+  ) {
+    return new Monitor({
+      provider: ethers.provider,
+      indexer: new Indexer(ethers.provider, {
+        factory: factory.target as string,
+        confirmations: 0,
+      }),
+      notifier: new WebhookNotifier(url),
+      ...options,
+    });
+  }
+
+  it("Should stay quiet while every pool is solvent", async function () {
+    const { factory } = await loadFixture(deployFixture);
+    const { url, received } = await startWebhook();
+    const monitor = createMonitor(factory, url);
+
+    expect(await monitor.check()).to.deep.equal([]);
+    expect(received).to.deep.equal([]);
+  });
+
+  it("Should alert on reward shortfalls until they are fixed", async function () {
+    const { factory, pool, rewardToken, projectOwner } = await loadFixture(
+      deployFixture
+    );
+    const { url, received } = await startWebhook();
+    const monitor = createMonitor(factory, url);
+    await monitor.check();
+
+    // The project owner drains the rewards of a paused project
+    await factory.connect(projectOwner).pauseProject(0);
+    await pool
+      .connect(projectOwner)
+      .emergencyRewardWithdraw(ethers.parseEther("100"));
+    await monitor.check();
+    expect(received).to.have.length(1);
+    expect(received[0]).to.include({
+      kind: "REWARD_SHORTFALL",
+      severity: "critical",
+      status: "firing",
+      projectId: 0,
+      pool: await pool.getAddress(),
+    });
+    expect(BigInt(received[0].details.shortfall)).to.be.gt(0n);
+
+    // Still short: nothing new is sent
+    await monitor.check();
+    expect(received).to.have.length(1);
+
+    await rewardToken
+      .connect(projectOwner)
+      .transfer(await pool.getAddress(), ethers.parseEther("100"));
+    await monitor.check();
+    expect(received).to.have.length(2);
+    expect(received[1]).to.include({
+      kind: "REWARD_SHORTFALL",
+      status: "resolved",
+    });
+    expect(monitor.active.size).to.equal(0);
+  });
+
+  it("Should alert on shortfalls of extra reward tokens", async function () {
+    const { factory, rewardToken, testToken, projectOwner, user1, metadata } =
+      await loadFixture(deployFixture);
+    const { url, received } = await startWebhook();
+    const partnerToken = await (
+      await ethers.getContractFactory("MockToken")
+    ).deploy();
+    const startTime = (await time.latest()) + 100;
+    await factory.createProject(
+      rewardToken,
+      ethers.parseEther("360"),
+      startTime,
+      startTime + 3600,
+      metadata,
+      [
+        {
+          stakedToken: testToken,
+          poolRewardAmount: ethers.parseEther("360"),
+          poolLimitPerUser: 0n,
+          minStakeAmount: 0n,
+          startTime: 0,
+          endTime: 0,
+        },
+      ],
+      projectOwner.address,
+      CLAIM_AT_END
+    );
+    const [{ poolAddress }] = await factory.getProjectPools(1);
+    const pool = await ethers.getContractAt("LaunchPool", poolAddress);
+    await factory
+      .connect(projectOwner)
+      .addExtraRewardToken(1, partnerToken, ethers.parseEther("90"), [
+        ethers.parseEther("90"),
+      ]);
+    for (const token of [rewardToken, partnerToken]) {
+      await token.mint(projectOwner.address, ethers.parseEther("360"));
+      await token.connect(projectOwner).approve(factory, ethers.MaxUint256);
+    }
+    await factory
+      .connect(projectOwner)
+      .fundPool(1, pool, ethers.parseEther("360"));
+    await time.increaseTo(startTime);
+    await testToken.connect(user1).approve(pool, ethers.MaxUint256);
+    await pool.connect(user1).deposit(ethers.parseEther("10"));
+    const monitor = createMonitor(factory, url);
+    expect(await monitor.check()).to.deep.equal([]);
+
+    // Only the partner token is drained
+    await factory.connect(projectOwner).pauseProject(1);
+    await pool
+      .connect(projectOwner)
+      .emergencyExtraRewardWithdraw(0, ethers.parseEther("10"));
+    const [alert] = await monitor.check();
+    expect(received).to.have.length(1);
+    expect(received[0].status).to.equal("firing");
+    expect(alert).to.include({
+      kind: "REWARD_SHORTFALL",
+      severity: "critical",
+      projectId: 1,
+      pool: poolAddress,
+      key: `REWARD_SHORTFALL:${poolAddress}:${await partnerToken.getAddress()}`,
+    });
+    expect(alert.details).to.include({
+      rewardToken: await partnerToken.getAddress(),
+      balance: ethers.parseEther("80").toString(),
+    });
+
+    await partnerToken
+      .connect(projectOwner)
+      .transfer(poolAddress, ethers.parseEther("10"));
+    expect(await monitor.check()).to.deep.equal([]);
+    expect(received[1]).to.include({
+      kind: "REWARD_SHORTFALL",
+      status: "resolved",
+    });
+  });
+
+  it("Should alert when staked balances differ from totalStaked", async function () {
+    const { factory, pool, testToken, user1 } = await loadFixture(
+      deployFixture
+    );
+    const { url, received } = await startWebhook();
+    const monitor = createMonitor(factory, url);
+
+    await testToken
+      .connect(user1)
+      .transfer(await pool.getAddress(), ethers.parseEther("1"));
+    const [alert] = await monitor.check();
+    expect(alert).to.include({
+      kind: "STAKED_BALANCE_MISMATCH",
+      severity: "warning",
+    });
+    expect(alert.details).to.include({
+      balance: ethers.parseEther("51").toString(),
+      totalStaked: ethers.parseEther("50").toString(),
+    });
+    expect(received.map(({ key }) => key)).to.deep.equal([alert.key]);
+  });
+
+  it("Should alert on projects stuck in STAGING", async function () {
+    const { factory, rewardToken, projectOwner, metadata, pools } =
+      await loadFixture(deployFixture);
+    const { url, received } = await startWebhook();
+    const startTime = (await time.latest()) + 100;
+    await factory.createProject(
+      rewardToken,
+      ethers.parseEther("360"),
+      startTime,
+      startTime + 3600,
+      metadata,
+      pools,
+      projectOwner.address,
+      CLAIM_AT_END
+    );
+    const monitor = createMonitor(factory, url);
+    expect(await monitor.check()).to.deep.equal([]);
+
+    await time.increaseTo(startTime);
+    await monitor.check();
+    expect(received).to.have.length(1);
+    expect(received[0]).to.include({
+      kind: "STUCK_IN_STAGING",
+      projectId: 1,
+      severity: "warning",
+    });
+    expect(received[0].details).to.include({
+      fundedPoolCount: 0,
+      poolCount: 1,
+    });
+  });
+
+  it("Should alert on status transitions outside the allowed set", async function () {
+    const { factory, projectOwner } = await loadFixture(deployFixture);
+    const { url, received } = await startWebhook();
+    // Treat pausing as unexpected
+    const monitor = createMonitor(factory, url, {
+      allowedTransitions: ALLOWED_TRANSITIONS.filter(
+        ([from, to]) =>
+          !(from === ProjectStatus.READY && to === ProjectStatus.PAUSED)
+      ),
+    });
+    await monitor.check();
+    expect(received).to.deep.equal([]);
+
+    const tx = await factory.connect(projectOwner).pauseProject(0);
+    await monitor.check();
+    await monitor.check();
+    expect(received).to.have.length(1);
+    expect(received[0]).to.include({
+      kind: "UNEXPECTED_STATUS_TRANSITION",
+      severity: "critical",
+      projectId: 0,
+    });
+    expect(received[0].details).to.deep.equal({
+      from: "READY",
+      to: "PAUSED",
+      transactionHash: tx.hash,
+    });
+  });
+
+  it("Should retry notifications the webhook rejected", async function () {
+    const { factory, pool, testToken, user1 } = await loadFixture(
+      deployFixture
+    );
+    const { url, received } = await startWebhook(1);
+    const monitor = createMonitor(factory, url);
+    await testToken
+      .connect(user1)
+      .transfer(await pool.getAddress(), ethers.parseEther("1"));
+
+    expect(await monitor.check()).to.deep.equal([]);
+    expect(received).to.deep.equal([]);
+    const [alert] = await monitor.check();
+    expect(alert.kind).to.equal("STAKED_BALANCE_MISMATCH");
+    expect(received).to.have.length(1);
+  });
+});
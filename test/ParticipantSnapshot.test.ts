@@ -0,0 +1,269 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { LaunchPoolFactoryUpgradeable } from "../typechain-types";
+import { CLAIM_AT_END, ETH_ADDRESS } from "../sdk";
+import {
+  SnapshotOptions,
+  SnapshotTarget,
+  buildParticipantSnapshot,
+  snapshotToCsv,
+  snapshotToMerkleInput,
+} from "../reports";
+
+describe("Participant snapshot", function () {
+  async function deployFixture() {
+    const [owner, projectOwner, user1, user2, user3] =
+      await ethers.getSigners();
+
+    const LaunchPool = await ethers.getContractFactory("LaunchPool");
+    const launchPoolImpl = await LaunchPool.deploy();
+    await launchPoolImpl.waitForDeployment();
+    const Factory = await ethers.getContractFactory(
+      "LaunchPoolFactoryUpgradeable"
+    );
+    const factory = (await upgrades.deployProxy(
+      Factory,
+      [await launchPoolImpl.getAddress()],
+      {
+        initializer: "initialize",
+        kind: "uups",
+      }
+    )) as LaunchPoolFactoryUpgradeable;
+
+    const MockToken = await ethers.getContractFactory("MockToken");
+    const rewardToken = await MockToken.deploy();
+    await rewardToken.waitForDeployment();
+    const testToken = await MockToken.deploy();
+    await testToken.waitForDeployment();
+
+    const startTime = (await time.latest()) + 100;
+    const metadata = {
+      projectName: "Snapshot Project",
+      website: "https://test.com",
+      logo: "https://test.com/logo.png",
+      discord: "https://discord.gg/test",
+      twitter: "https://twitter.com/test",
+      telegram: "https://t.me/test",
+      tokenInfo: "Test Token Info",
+    };
+    await factory.createProject(
+      rewardToken,
+      ethers.parseEther("720"),
+      startTime,
+      startTime + 3600,
+      metadata,
+      [
+        {
+          stakedToken: testToken,
+          poolRewardAmount: ethers.parseEther("360"),
+          poolLimitPerUser: ethers.parseEther("100"),
+          minStakeAmount: ethers.parseEther("1"),
+          startTime: 0,
+          endTime: 0,
+        },
+        {
+          stakedToken: ETH_ADDRESS,
+          poolRewardAmount: ethers.parseEther("360"),
+          poolLimitPerUser: ethers.parseEther("10"),
+          minStakeAmount: ethers.parseEther("0.1"),
+          startTime: 0,
+          endTime: 0,
+        },
+      ],
+      projectOwner.address,
+      CLAIM_AT_END
+    );
+    const [tokenPool, ethPool] = await Promise.all(
+      (
+        await factory.getProjectPools(0)
+      ).map((info) => ethers.getContractAt("LaunchPool", info.poolAddress))
+    );
+    await rewardToken.mint(projectOwner.address, ethers.parseEther("720"));
+    await rewardToken
+      .connect(projectOwner)
+      .approve(await factory.getAddress(), ethers.parseEther("720"));
+    for (const pool of [tokenPool, ethPool]) {
+      await factory
+        .connect(projectOwner)
+        .fundPool(0, pool, ethers.parseEther("360"));
+    }
+    for (const user of [user1, user2, user3]) {
+      await testToken.mint(user.address, ethers.parseEther("100"));
+      await testToken
+        .connect(user)
+        .approve(await tokenPool.getAddress(), ethers.MaxUint256);
+    }
+
+    await time.increaseTo(startTime);
+    await tokenPool.connect(user1).deposit(ethers.parseEther("50"));
+    await ethPool
+      .connect(user1)
+      .deposit(ethers.parseEther("1"), { value: ethers.parseEther("1") });
+    await tokenPool.connect(user2).deposit(ethers.parseEther("5"));
+    await time.increase(1000);
+    // user2 leaves and comes back, their stake restarts
+    await tokenPool.connect(user2).withdraw(ethers.parseEther("5"));
+    await tokenPool.connect(user2).deposit(ethers.parseEther("20"));
+    await time.increase(100);
+    await tokenPool.connect(user3).deposit(ethers.parseEther("2"));
+    await time.increase(100);
+    const snapshotBlock = await ethers.provider.getBlockNumber();
+    // Not in a snapshot of the earlier block
+    await tokenPool.connect(user3).deposit(ethers.parseEther("30"));
+
+    return {
+      factory,
+      tokenPool,
+      ethPool,
+      testToken,
+      user1,
+      user2,
+      user3,
+      snapshotBlock,
+    };
+  }
+
+  function snapshot(
+    factory: LaunchPoolFactoryUpgradeable,
+    target: SnapshotTarget,
+    options: SnapshotOptions
+  ) {
+    return buildParticipantSnapshot(
+      ethers.provider,
+      factory.target as string,
+      target,
+      { chunkSize: 10, ...options }
+    );
+  }
+
+  it("Should read every participant at the block", async function () {
+    const { factory, tokenPool, ethPool, user1, user2, user3, snapshotBlock } =
+      await loadFixture(deployFixture);
+    const result = await snapshot(
+      factory,
+      { projectId: 0 },
+      { blockNumber: snapshotBlock }
+    );
+
+    expect(result.pools).to.deep.equal([
+      await tokenPool.getAddress(),
+      await ethPool.getAddress(),
+    ]);
+    expect(result.entries.map((entry) => entry.user)).to.deep.equal([
+      user1.address,
+      user2.address,
+      user3.address,
+      user1.address,
+    ]);
+    for (const entry of result.entries) {
+      const pool = await ethers.getContractAt("LaunchPool", entry.pool);
+      const userInfo = await pool.userInfo(entry.user, {
+        blockTag: snapshotBlock,
+      });
+      expect(entry.amount).to.equal(userInfo.amount);
+      expect(entry.pendingRewards).to.equal(userInfo.pendingRewards);
+      expect(entry.pendingReward).to.equal(
+        await pool.pendingReward(entry.user, { blockTag: snapshotBlock })
+      );
+    }
+    expect(result.entries[2].amount).to.equal(ethers.parseEther("2"));
+    expect(result.entries[1].pendingRewards).to.be.gt(0n);
+  });
+
+  it("Should filter on stake and stake duration", async function () {
+    const { factory, user1, user2, user3, snapshotBlock } = await loadFixture(
+      deployFixture
+    );
+    const byStake = await snapshot(
+      factory,
+      { projectId: 0 },
+      { blockNumber: snapshotBlock, minStake: ethers.parseEther("10") }
+    );
+    expect(byStake.entries.map((entry) => entry.user)).to.deep.equal([
+      user1.address,
+      user2.address,
+    ]);
+
+    // user2 re-staked 200s before the snapshot, user3 100s before
+    const byDuration = await snapshot(
+      factory,
+      { projectId: 0 },
+      { blockNumber: snapshotBlock, minDuration: 150 }
+    );
+    expect(byDuration.entries.map((entry) => entry.user)).to.deep.equal([
+      user1.address,
+      user2.address,
+      user1.address,
+    ]);
+    const byLongDuration = await snapshot(
+      factory,
+      { projectId: 0 },
+      { blockNumber: snapshotBlock, minDuration: 1000 }
+    );
+    expect(byLongDuration.entries.map((entry) => entry.user)).to.not.include(
+      user2.address
+    );
+    expect(byLongDuration.entries.map((entry) => entry.user)).to.not.include(
+      user3.address
+    );
+  });
+
+  it("Should snapshot a single pool", async function () {
+    const { factory, ethPool, user1, snapshotBlock } = await loadFixture(
+      deployFixture
+    );
+    const result = await snapshot(
+      factory,
+      { pool: await ethPool.getAddress() },
+      { blockNumber: snapshotBlock }
+    );
+    expect(result.projectId).to.equal(0);
+    expect(result.entries).to.have.length(1);
+    expect(result.entries[0]).to.include({
+      user: user1.address,
+      amount: ethers.parseEther("1"),
+    });
+    expect(snapshotToCsv(result).split("\n")[0]).to.equal(
+      "blockNumber,pool,stakedToken,user,amount,pendingRewards,pendingReward,stakedSince"
+    );
+  });
+
+  it("Should build Merkle tree inputs", async function () {
+    const { factory, tokenPool, user1, snapshotBlock } = await loadFixture(
+      deployFixture
+    );
+    const project = await snapshot(
+      factory,
+      { projectId: 0 },
+      { blockNumber: snapshotBlock }
+    );
+    const rewards = snapshotToMerkleInput(project, "pendingReward");
+    expect(rewards.token).to.equal(project.rewardToken);
+    expect(rewards.values).to.have.length(3);
+    const accounts = rewards.values.map(([account]) => account.toLowerCase());
+    expect(accounts).to.deep.equal([...accounts].sort());
+    const user1Total = project.entries
+      .filter((entry) => entry.user === user1.address)
+      .reduce((total, entry) => total + entry.pendingReward, 0n);
+    expect(rewards.values).to.deep.include([
+      user1.address,
+      user1Total.toString(),
+    ]);
+
+    expect(() => snapshotToMerkleInput(project, "amount")).to.throw(
+      /different tokens/
+    );
+    const pool = await snapshot(
+      factory,
+      { pool: await tokenPool.getAddress() },
+      { blockNumber: snapshotBlock }
+    );
+    const stakes = snapshotToMerkleInput(pool, "amount");
+    expect(stakes.leafEncoding).to.deep.equal(["address", "uint256"]);
+    expect(stakes.values).to.deep.include([
+      user1.address,
+      ethers.parseEther("50").toString(),
+    ]);
+  });
+});
@@ -0,0 +1,280 @@
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import hre, { ethers, upgrades } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { LaunchPoolFactoryUpgradeable } from "../typechain-types";
+import { ClaimPolicy, ETH_ADDRESS } from "../sdk";
+import { readProjectSpec, resolveProjectSpec } from "../tasks/projectSpec";
+
+describe("Project specs", function () {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "project-spec-"));
+
+  function writeSpec(name: string, content: string | object): string {
+    const specPath = path.join(dir, name);
+    fs.writeFileSync(
+      specPath,
+      typeof content === "string" ? content : JSON.stringify(content)
+    );
+    return specPath;
+  }
+
+  // Runs a task without its console output
+  async function run(name: string, args: Record<string, unknown>) {
+    const log = console.log;
+    console.log = () => {};
+    try {
+      return await hre.run(name, args);
+    } finally {
+      console.log = log;
+    }
+  }
+
+  function isoDate(timestamp: number): string {
+    return new Date(timestamp * 1000).toISOString();
+  }
+
+  async function deployFixture() {
+    const [owner] = await ethers.getSigners();
+    const LaunchPool = await ethers.getContractFactory("LaunchPool");
+    const launchPoolImpl = await LaunchPool.deploy();
+    const Factory = await ethers.getContractFactory(
+      "LaunchPoolFactoryUpgradeable"
+    );
+    const factory = (await upgrades.deployProxy(
+      Factory,
+      [await launchPoolImpl.getAddress()],
+      { initializer: "initialize", kind: "uups" }
+    )) as LaunchPoolFactoryUpgradeable;
+    const MockToken = await ethers.getContractFactory("MockToken");
+    const rewardToken = await MockToken.deploy();
+    const stakedToken = await MockToken.deploy();
+    await rewardToken.mint(owner.address, ethers.parseEther("1000"));
+
+    const startTime = (await time.latest()) + 86400;
+    const endTime = startTime + 7 * 86400;
+    // Valid as of the fixture's block
+    const spec = {
+      tokens: { MTK: await rewardToken.getAddress() },
+      rewardToken: "MTK",
+      totalRewardAmount: "1000",
+      startTime: isoDate(startTime),
+      endTime: isoDate(endTime),
+      metadata: { projectName: "Bulba" },
+      pools: [
+        {
+          stakedToken: "ETH",
+          poolRewardAmount: "600",
+          poolLimitPerUser: "10",
+          minStakeAmount: "0.01",
+        },
+        {
+          stakedToken: await stakedToken.getAddress(),
+          poolRewardAmount: "400",
+        },
+      ],
+    };
+    return {
+      owner,
+      factory,
+      rewardToken,
+      stakedToken,
+      startTime,
+      endTime,
+      spec,
+    };
+  }
+
+  it("Should resolve a spec to createProject arguments", async function () {
+    const { rewardToken, stakedToken, startTime, endTime } = await loadFixture(
+      deployFixture
+    );
+    const specPath = writeSpec(
+      "valid.yaml",
+      `tokens:
+  MTK: "${await rewardToken.getAddress()}"
+rewardToken: MTK
+totalRewardAmount: "1000"
+startTime: ${isoDate(startTime)}
+endTime: ${isoDate(endTime)}
+claimPolicy: AT_END
+vesting:
+  cliff: 3600
+  duration: 86400
+  tgeShareBps: 2000
+metadata:
+  projectName: Bulba
+pools:
+  - stakedToken: ETH
+    poolRewardAmount: "600"
+    poolLimitPerUser: "10"
+    minStakeAmount: "0.01"
+  - stakedToken: "${await stakedToken.getAddress()}"
+    poolRewardAmount: 400
+    endTime: ${isoDate(startTime + 86400)}
+`
+    );
+
+    const spec = await resolveProjectSpec(hre, readProjectSpec(specPath));
+    expect(spec.rewardToken).to.deep.equal({
+      address: await rewardToken.getAddress(),
+      symbol: "MTK",
+      decimals: 18,
+      totalSupply: ethers.parseEther("1000"),
+    });
+    expect(spec.totalRewardAmount).to.equal(ethers.parseEther("1000"));
+    expect(spec.startTime).to.equal(startTime);
+    expect(spec.endTime).to.equal(endTime);
+    expect(spec.claimSettings).to.deep.equal({
+      policy: ClaimPolicy.AT_END,
+      unlockTime: 0,
+      vestingCliff: 3600,
+      vestingDuration: 86400,
+      tgeShareBps: 2000,
+    });
+    expect(spec.metadata.projectName).to.equal("Bulba");
+    expect(spec.metadata.website).to.equal("");
+
+    const [ethPool, tokenPool] = spec.pools;
+    expect(ethPool.stakedToken.address).to.equal(ETH_ADDRESS);
+    expect(ethPool.poolRewardAmount).to.equal(ethers.parseEther("600"));
+    expect(ethPool.poolLimitPerUser).to.equal(ethers.parseEther("10"));
+    expect(ethPool.minStakeAmount).to.equal(ethers.parseEther("0.01"));
+    expect([ethPool.startTime, ethPool.endTime]).to.deep.equal([0, 0]);
+    expect(tokenPool.poolRewardAmount).to.equal(ethers.parseEther("400"));
+    expect(tokenPool.endTime).to.equal(startTime + 86400);
+  });
+
+  it("Should reject malformed specs", async function () {
+    const { rewardToken, spec } = await loadFixture(deployFixture);
+    const resolve = (name: string, content: string | object) =>
+      resolveProjectSpec(hre, readProjectSpec(writeSpec(name, content)));
+
+    expect(() => readProjectSpec(writeSpec("scalar.yaml", "MTK"))).to.throw(
+      "does not contain an object"
+    );
+    await expect(
+      resolve("unknown-token.json", { ...spec, rewardToken: "RWD" })
+    ).to.be.rejectedWith("rewardToken RWD is neither an address nor in tokens");
+    // The symbol has to match the token it points at
+    await expect(
+      resolve("wrong-token.json", {
+        ...spec,
+        tokens: { USDC: await rewardToken.getAddress() },
+        rewardToken: "USDC",
+      })
+    ).to.be.rejectedWith(
+      `rewardToken USDC resolves to ${await rewardToken.getAddress()}, a MTK`
+    );
+    await expect(
+      resolve("bad-amount.json", { ...spec, totalRewardAmount: "1,000" })
+    ).to.be.rejectedWith("totalRewardAmount 1,000 is not a MTK amount");
+    await expect(
+      resolve("bad-date.json", { ...spec, endTime: "next week" })
+    ).to.be.rejectedWith("endTime next week is not an ISO date");
+    await expect(
+      resolve("bad-policy.json", { ...spec, claimPolicy: "NEVER" })
+    ).to.be.rejectedWith("claimPolicy NEVER is not AT_END");
+    await expect(
+      resolve("bad-vesting.json", { ...spec, vesting: { cliff: -1 } })
+    ).to.be.rejectedWith("vesting.cliff -1 is not a whole number");
+    // YAML reads unquoted large amounts as floats
+    await expect(
+      resolve(
+        "float.yaml",
+        `rewardToken: "${await rewardToken.getAddress()}"
+totalRewardAmount: 1000000000000000000000
+startTime: ${spec.startTime}
+endTime: ${spec.endTime}
+pools: []
+`
+      )
+    ).to.be.rejectedWith("quote totalRewardAmount");
+
+    // The tasks fail the same way
+    const specPath = writeSpec("task.json", { ...spec, endTime: "never" });
+    await expect(
+      run("launchpool:lint-spec", { spec: specPath })
+    ).to.be.rejectedWith("endTime never is not an ISO date");
+    await expect(
+      run("launchpool:create-from-spec", {
+        factory: ethers.ZeroAddress,
+        spec: specPath,
+      })
+    ).to.be.rejectedWith("endTime never is not an ISO date");
+  });
+
+  it("Should lint specs against the latest block", async function () {
+    const { spec, startTime } = await loadFixture(deployFixture);
+    await run("launchpool:lint-spec", {
+      spec: writeSpec("lint-valid.json", spec),
+    });
+
+    await expect(
+      run("launchpool:lint-spec", {
+        spec: writeSpec("lint-sum.json", { ...spec, totalRewardAmount: "900" }),
+      })
+    ).to.be.rejectedWith("1 errors and 0 warnings");
+
+    // Starting within the funding lead time is only a warning
+    const soon = writeSpec("lint-soon.json", {
+      ...spec,
+      startTime: isoDate((await time.latest()) + 600),
+    });
+    await run("launchpool:lint-spec", { spec: soon });
+
+    await time.increaseTo(startTime);
+    await expect(
+      run("launchpool:lint-spec", {
+        spec: writeSpec("lint-started.json", spec),
+      })
+    ).to.be.rejectedWith("1 errors and 0 warnings");
+  });
+
+  it("Should create and fund a project from a spec", async function () {
+    const { factory, rewardToken, spec } = await loadFixture(deployFixture);
+    const factoryAddress = await factory.getAddress();
+
+    await expect(
+      run("launchpool:create-from-spec", {
+        factory: factoryAddress,
+        spec: writeSpec("create-sum.json", {
+          ...spec,
+          totalRewardAmount: "900",
+        }),
+      })
+    ).to.be.rejectedWith("1 problems in");
+    // The signer has to hold every reward to fund the pools
+    await expect(
+      run("launchpool:create-from-spec", {
+        factory: factoryAddress,
+        spec: writeSpec("create-large.json", {
+          ...spec,
+          totalRewardAmount: "2000",
+          pools: [{ ...spec.pools[0], poolRewardAmount: "2000" }],
+        }),
+        fund: true,
+      })
+    ).to.be.rejectedWith("not enough to fund every pool");
+    expect(await factory.nextProjectId()).to.equal(0);
+
+    await run("launchpool:create-from-spec", {
+      factory: factoryAddress,
+      spec: writeSpec("create.json", spec),
+      fund: true,
+    });
+    expect(await factory.getProjectStatus(0)).to.equal("READY");
+    const pools = await factory.getProjectPools(0);
+    expect(pools).to.have.length(2);
+    expect(await rewardToken.balanceOf(pools[0].poolAddress)).to.equal(
+      ethers.parseEther("600")
+    );
+    expect(await rewardToken.balanceOf(pools[1].poolAddress)).to.equal(
+      ethers.parseEther("400")
+    );
+    expect((await factory.getProject(0)).metadata.projectName).to.equal(
+      "Bulba"
+    );
+  });
+});
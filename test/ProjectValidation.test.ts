@@ -0,0 +1,357 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { LaunchPoolFactoryUpgradeable } from "../typechain-types";
+import {
+  CLAIM_AT_END,
+  ClaimPolicy,
+  ETH_ADDRESS,
+  ProjectParams,
+  getPoolRewardRate,
+  validateProject,
+} from "../sdk";
+import { EMPTY_METADATA } from "../tasks/helpers";
+
+const NOW = 1_700_000_000;
+const REWARD = "0x0000000000000000000000000000000000000001";
+const STAKED = "0x0000000000000000000000000000000000000002";
+
+function project(overrides: Partial<ProjectParams> = {}): ProjectParams {
+  return {
+    rewardToken: { address: REWARD, decimals: 18, symbol: "RWD" },
+    totalRewardAmount: ethers.parseEther("8640"),
+    startTime: NOW + 86400,
+    endTime: NOW + 2 * 86400,
+    pools: [
+      {
+        stakedToken: { address: ETH_ADDRESS, decimals: 18, symbol: "ETH" },
+        poolRewardAmount: ethers.parseEther("4320"),
+        poolLimitPerUser: ethers.parseEther("10"),
+        minStakeAmount: 0n,
+      },
+      {
+        stakedToken: { address: STAKED, decimals: 6, symbol: "USDC" },
+        poolRewardAmount: ethers.parseEther("4320"),
+        poolLimitPerUser: 0n,
+        minStakeAmount: 0n,
+      },
+    ],
+    ...overrides,
+  };
+}
+
+function kinds(params: ProjectParams, fundingLeadTime?: number) {
+  return validateProject(params, { now: NOW, fundingLeadTime }).map(
+    (issue) => `${issue.severity}:${issue.kind}`
+  );
+}
+
+describe("Project validation", function () {
+  it("Should accept a valid project", async function () {
+    expect(kinds(project())).to.deep.equal([]);
+  });
+
+  it("Should check start and end times", async function () {
+    expect(kinds(project({ startTime: NOW - 1 }))).to.deep.equal([
+      "error:START_IN_PAST",
+    ]);
+    expect(kinds(project({ startTime: NOW + 600 }))).to.deep.equal([
+      "warning:START_TOO_SOON",
+    ]);
+    expect(kinds(project({ startTime: NOW + 600 }), 300)).to.deep.equal([]);
+    expect(
+      kinds(project({ endTime: NOW + 86400, startTime: NOW + 86400 }))
+    ).to.deep.equal(["error:INVALID_TIMES"]);
+  });
+
+  it("Should check pool windows", async function () {
+    const startTime = NOW + 86400;
+    const endTime = NOW + 2 * 86400;
+    const windows = (...pools: { startTime?: number; endTime?: number }[]) => {
+      const params = project();
+      pools.forEach((window, i) => Object.assign(params.pools[i], window));
+      return params;
+    };
+    expect(
+      kinds(windows({ endTime: startTime + 3600 }, { startTime: endTime - 1 }))
+    ).to.deep.equal([]);
+    expect(
+      validateProject(
+        windows({ startTime: startTime - 1 }, { endTime: endTime + 1 }),
+        { now: NOW }
+      ).map((issue) => [issue.kind, issue.pool])
+    ).to.deep.equal([
+      ["INVALID_POOL_TIMES", 0],
+      ["INVALID_POOL_TIMES", 1],
+    ]);
+    expect(kinds(windows({ startTime: endTime }))).to.deep.equal([
+      "error:INVALID_POOL_TIMES",
+    ]);
+    // Rates are over the pool's window, 100 wei emit nothing over the day
+    const dust = windows({});
+    dust.pools[0].poolRewardAmount = 100n;
+    dust.totalRewardAmount = dust.pools[1].poolRewardAmount + 100n;
+    expect(kinds(dust)).to.deep.equal(["error:ZERO_REWARD_RATE"]);
+    dust.pools[0].endTime = startTime + 100;
+    expect(kinds(dust)).to.deep.equal([]);
+  });
+
+  it("Should check the claim unlock time", async function () {
+    const startTime = NOW + 86400;
+    const claimSettings = (policy: ClaimPolicy, unlockTime: number) => ({
+      claimSettings: { ...CLAIM_AT_END, policy, unlockTime },
+    });
+    expect(
+      kinds(project(claimSettings(ClaimPolicy.AFTER_UNLOCK, startTime)))
+    ).to.deep.equal([]);
+    expect(
+      kinds(project(claimSettings(ClaimPolicy.AFTER_UNLOCK, startTime - 1)))
+    ).to.deep.equal(["error:INVALID_UNLOCK_TIME"]);
+    expect(
+      kinds(project(claimSettings(ClaimPolicy.ANYTIME, startTime)))
+    ).to.deep.equal(["error:INVALID_UNLOCK_TIME"]);
+  });
+
+  it("Should check the vesting schedule", async function () {
+    const vesting = (
+      policy: ClaimPolicy,
+      vestingDuration: number,
+      tgeShareBps: number
+    ) => ({
+      claimSettings: { ...CLAIM_AT_END, policy, vestingDuration, tgeShareBps },
+    });
+    expect(
+      kinds(project(vesting(ClaimPolicy.AT_END, 3600, 1000)))
+    ).to.deep.equal([]);
+    expect(kinds(project(vesting(ClaimPolicy.ANYTIME, 3600, 0)))).to.deep.equal(
+      ["error:INVALID_VESTING"]
+    );
+    expect(
+      kinds(project(vesting(ClaimPolicy.AT_END, 3600, 10001)))
+    ).to.deep.equal(["error:INVALID_VESTING"]);
+    expect(kinds(project(vesting(ClaimPolicy.AT_END, 0, 1000)))).to.deep.equal([
+      "error:INVALID_VESTING",
+    ]);
+  });
+
+  it("Should check pool rewards add up to the total", async function () {
+    const issues = validateProject(
+      project({ totalRewardAmount: ethers.parseEther("9000") }),
+      { now: NOW }
+    );
+    expect(issues).to.have.length(1);
+    expect(issues[0].kind).to.equal("REWARD_SUM_MISMATCH");
+    expect(issues[0].message).to.contain("8640.0 RWD");
+    expect(issues[0].message).to.contain("never moves the project to READY");
+    expect(
+      kinds(project({ totalRewardAmount: ethers.parseEther("8000") }))
+    ).to.deep.equal(["error:REWARD_SUM_MISMATCH"]);
+  });
+
+  it("Should check staked tokens", async function () {
+    const params = project();
+    params.pools[1].stakedToken = { ...params.rewardToken };
+    params.pools.push({ ...params.pools[0] });
+    params.pools[0].poolRewardAmount /= 2n;
+    params.pools[2].poolRewardAmount /= 2n;
+    const issues = validateProject(params, { now: NOW });
+    expect(issues.map((issue) => [issue.kind, issue.pool])).to.deep.equal([
+      ["STAKED_IS_REWARD_TOKEN", 1],
+      ["DUPLICATE_STAKED_TOKEN", 2],
+    ]);
+  });
+
+  it("Should reject reward tokens with 36 decimals or more", async function () {
+    const params = project();
+    params.rewardToken.decimals = 36;
+    params.totalRewardAmount = 10n ** 40n;
+    params.pools[0].poolRewardAmount = params.pools[1].poolRewardAmount =
+      5n * 10n ** 39n;
+    expect(kinds(params)).to.deep.equal(["error:REWARD_DECIMALS"]);
+  });
+
+  it("Should report rounding loss", async function () {
+    // 6 decimals over 30 days: 38 base units per second leave 1.504 of 100 behind
+    const params = project({
+      rewardToken: { address: REWARD, decimals: 6, symbol: "RWD" },
+      totalRewardAmount: 200_000_000n,
+      endTime: NOW + 86400 + 30 * 86400,
+    });
+    params.pools[0].poolRewardAmount = 100_000_000n;
+    params.pools[1].poolRewardAmount = 100_000_000n;
+    const issues = validateProject(params, { now: NOW });
+    expect(issues.map((issue) => issue.kind)).to.deep.equal([
+      "ROUNDING_LOSS",
+      "ROUNDING_LOSS",
+    ]);
+    expect(issues[0].message).to.contain("1.504 RWD (150.4 bps)");
+    expect(
+      validateProject(params, { now: NOW, maxRoundingLossBps: 200 })
+    ).to.deep.equal([]);
+
+    params.pools[0].poolRewardAmount = 1_000_000n;
+    params.pools[1].poolRewardAmount = 199_000_000n;
+    expect(kinds(params)[0]).to.equal("error:ZERO_REWARD_RATE");
+  });
+
+  it("Should report accTokenPerShare overflow risks", async function () {
+    // A 0 decimal reward token has a precision factor of 1e36
+    const params = project({
+      rewardToken: { address: REWARD, decimals: 0, symbol: "RWD" },
+      totalRewardAmount: 2n * 86400n * 10n ** 12n,
+    });
+    params.pools[0].poolRewardAmount = 86400n * 10n ** 12n;
+    params.pools[1].poolRewardAmount = 86400n * 10n ** 12n;
+    // Limited to 10 ETH per user
+    expect(kinds(params)).to.deep.equal([]);
+    // Unlimited, the stake is bounded by the supply
+    params.pools[1].stakedToken.totalSupply = 10n ** 15n;
+    expect(kinds(params)).to.deep.equal([]);
+    params.pools[1].stakedToken.totalSupply = 10n ** 30n;
+    params.pools[0].poolLimitPerUser = ethers.parseEther("1000000000");
+    expect(
+      validateProject(params, { now: NOW }).map((issue) => [
+        issue.kind,
+        issue.pool,
+      ])
+    ).to.deep.equal([
+      ["ACC_TOKEN_PER_SHARE_OVERFLOW", 0],
+      ["ACC_TOKEN_PER_SHARE_OVERFLOW", 1],
+    ]);
+  });
+
+  describe("Against the contracts", function () {
+    async function deployFixture() {
+      const [owner] = await ethers.getSigners();
+      const LaunchPool = await ethers.getContractFactory("LaunchPool");
+      const launchPoolImpl = await LaunchPool.deploy();
+      const Factory = await ethers.getContractFactory(
+        "LaunchPoolFactoryUpgradeable"
+      );
+      const factory = (await upgrades.deployProxy(
+        Factory,
+        [await launchPoolImpl.getAddress()],
+        { initializer: "initialize", kind: "uups" }
+      )) as LaunchPoolFactoryUpgradeable;
+      const MockToken = await ethers.getContractFactory("MockToken");
+      const rewardToken = await MockToken.deploy();
+      return { owner, factory, rewardToken };
+    }
+
+    function create(
+      factory: LaunchPoolFactoryUpgradeable,
+      params: ProjectParams,
+      projectOwner: string
+    ) {
+      return factory.createProject(
+        params.rewardToken.address,
+        params.totalRewardAmount,
+        params.startTime,
+        params.endTime,
+        EMPTY_METADATA,
+        params.pools.map((pool) => ({
+          stakedToken: pool.stakedToken.address,
+          poolRewardAmount: pool.poolRewardAmount,
+          poolLimitPerUser: pool.poolLimitPerUser,
+          minStakeAmount: pool.minStakeAmount,
+          startTime: pool.startTime ?? 0,
+          endTime: pool.endTime ?? 0,
+        })),
+        projectOwner,
+        params.claimSettings ?? CLAIM_AT_END
+      );
+    }
+
+    it("Should match the pool reward rate", async function () {
+      const { owner, factory, rewardToken } = await loadFixture(deployFixture);
+      const now = await time.latest();
+      const params = project({
+        rewardToken: { address: await rewardToken.getAddress(), decimals: 18 },
+        totalRewardAmount: ethers.parseEther("100"),
+        startTime: now + 7200,
+        endTime: now + 7200 + 7 * 86400 + 13,
+      });
+      params.pools.pop();
+      params.pools[0].poolRewardAmount = ethers.parseEther("100");
+      const [issue] = validateProject(params, {
+        now,
+        maxRoundingLossBps: 0,
+      });
+      expect(issue.kind).to.equal("ROUNDING_LOSS");
+
+      await create(factory, params, owner.address);
+      const [pool] = await factory.getProjectPools(0);
+      const launchPool = await ethers.getContractAt(
+        "LaunchPool",
+        pool.poolAddress
+      );
+      const { rewardPerSecond, roundingLoss } = getPoolRewardRate(
+        params.pools[0].poolRewardAmount,
+        params.startTime,
+        params.endTime
+      );
+      expect(pool.rewardPerSecond).to.equal(rewardPerSecond);
+      expect(await launchPool.getTotalDistributedRewards()).to.equal(
+        params.pools[0].poolRewardAmount - roundingLoss
+      );
+    });
+
+    it("Should flag what createProject rejects", async function () {
+      const { owner, factory, rewardToken } = await loadFixture(deployFixture);
+      const now = await time.latest();
+      const base = project({
+        rewardToken: { address: await rewardToken.getAddress(), decimals: 18 },
+        startTime: now + 7200,
+        endTime: now + 7200 + 86400,
+      });
+
+      const past = { ...base, startTime: now - 10 };
+      expect(
+        validateProject(past, { now }).map((issue) => issue.kind)
+      ).to.include("START_IN_PAST");
+      await expect(create(factory, past, owner.address)).to.be.revertedWith(
+        "Start time must be future"
+      );
+
+      const over = { ...base, totalRewardAmount: ethers.parseEther("1") };
+      expect(
+        validateProject(over, { now }).map((issue) => issue.kind)
+      ).to.deep.equal(["REWARD_SUM_MISMATCH"]);
+      await expect(create(factory, over, owner.address)).to.be.revertedWith(
+        "Pool rewards exceed total"
+      );
+
+      const sameToken = project({
+        ...base,
+        pools: [
+          {
+            ...base.pools[0],
+            stakedToken: base.rewardToken,
+            poolRewardAmount: base.totalRewardAmount,
+          },
+        ],
+      });
+      expect(
+        validateProject(sameToken, { now }).map((issue) => issue.kind)
+      ).to.deep.equal(["STAKED_IS_REWARD_TOKEN"]);
+      await expect(
+        create(factory, sameToken, owner.address)
+      ).to.be.revertedWith("Tokens must be different");
+
+      const locked = {
+        ...base,
+        claimSettings: {
+          ...CLAIM_AT_END,
+          policy: ClaimPolicy.AFTER_UNLOCK,
+          unlockTime: base.startTime - 1,
+        },
+      };
+      expect(
+        validateProject(locked, { now }).map((issue) => issue.kind)
+      ).to.deep.equal(["INVALID_UNLOCK_TIME"]);
+      await expect(create(factory, locked, owner.address)).to.be.revertedWith(
+        "Unlock time before start"
+      );
+    });
+  });
+});
@@ -0,0 +1,321 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import type { ContractTransactionResponse } from "ethers";
+import { LaunchPoolFactoryUpgradeable } from "../typechain-types";
+import {
+  CLAIM_AT_END,
+  ClaimSettings,
+  LaunchPoolClient,
+  RewardEngine,
+  calculateVestedAmount,
+  getMultiplier,
+} from "../sdk";
+
+// Small deterministic PRNG so failing sequences can be replayed by seed
+function mulberry32(seed: number) {
+  return function () {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+describe("RewardEngine", function () {
+  describe("getMultiplier", function () {
+    it("Should clamp the range to the project times", function () {
+      expect(getMultiplier(0, 50, 100, 200)).to.equal(0n);
+      expect(getMultiplier(50, 150, 100, 200)).to.equal(50n);
+      expect(getMultiplier(120, 180, 100, 200)).to.equal(60n);
+      expect(getMultiplier(150, 250, 100, 200)).to.equal(50n);
+      expect(getMultiplier(200, 250, 100, 200)).to.equal(0n);
+      expect(getMultiplier(150, 150, 100, 200)).to.equal(0n);
+    });
+  });
+
+  describe("calculateVestedAmount", function () {
+    it("Should vest the TGE share at the end, the rest after the cliff", function () {
+      // 10% at 1000, the rest over 2000s after a 1000s cliff
+      const vesting: ClaimSettings = {
+        ...CLAIM_AT_END,
+        vestingCliff: 1000,
+        vestingDuration: 2000,
+        tgeShareBps: 1000,
+      };
+      expect(calculateVestedAmount(360n, 1000, vesting, 999)).to.equal(0n);
+      expect(calculateVestedAmount(360n, 1000, vesting, 1000)).to.equal(36n);
+      expect(calculateVestedAmount(360n, 1000, vesting, 2000)).to.equal(36n);
+      expect(calculateVestedAmount(360n, 1000, vesting, 3000)).to.equal(198n);
+      expect(calculateVestedAmount(360n, 1000, vesting, 3001)).to.equal(198n);
+      expect(calculateVestedAmount(360n, 1000, vesting, 4000)).to.equal(360n);
+      expect(calculateVestedAmount(360n, 1000, CLAIM_AT_END, 0)).to.equal(360n);
+    });
+  });
+
+  describe("Differential against LaunchPool", function () {
+    const SEEDS = [1, 7, 42, 1337];
+    const ACTIONS_PER_SEQUENCE = 40;
+
+    async function deploySequence(
+      random: () => number,
+      claimSettings: ClaimSettings = CLAIM_AT_END
+    ) {
+      const [, projectOwner, ...users] = await ethers.getSigners();
+      const stakers = users.slice(0, 3);
+
+      const LaunchPool = await ethers.getContractFactory("LaunchPool");
+      const launchPoolImpl = await LaunchPool.deploy();
+      const Factory = await ethers.getContractFactory(
+        "LaunchPoolFactoryUpgradeable"
+      );
+      const factory = (await upgrades.deployProxy(
+        Factory,
+        [await launchPoolImpl.getAddress()],
+        { initializer: "initialize", kind: "uups" }
+      )) as LaunchPoolFactoryUpgradeable;
+
+      const MockToken = await ethers.getContractFactory("MockToken");
+      const rewardToken = await MockToken.deploy();
+      const stakedToken = await MockToken.deploy();
+
+      // Odd reward amounts and durations exercise every rounding step
+      const duration = 600 + Math.floor(random() * 3000);
+      const startTime = (await time.latest()) + 20 + Math.floor(random() * 100);
+      const endTime = startTime + duration;
+      const rewardAmount =
+        ethers.parseEther("1000") + BigInt(Math.floor(random() * 1e12));
+
+      await factory.createProject(
+        rewardToken,
+        rewardAmount,
+        startTime,
+        endTime,
+        {
+          projectName: "Differential",
+          website: "",
+          logo: "",
+          discord: "",
+          twitter: "",
+          telegram: "",
+          tokenInfo: "",
+        },
+        [
+          {
+            stakedToken,
+            poolRewardAmount: rewardAmount,
+            poolLimitPerUser: 0,
+            minStakeAmount: 1,
+            startTime: 0,
+            endTime: 0,
+          },
+        ],
+        projectOwner.address,
+        claimSettings
+      );
+      const [poolInfo] = await factory.getProjectPools(0);
+      // Locking for the whole project boosts a deposit 2.5x
+      await (await ethers.getContractAt("LaunchPool", poolInfo.poolAddress))
+        .connect(projectOwner)
+        .updateMaxBoost(25000);
+      await rewardToken.mint(projectOwner.address, rewardAmount);
+      await rewardToken
+        .connect(projectOwner)
+        .approve(await factory.getAddress(), rewardAmount);
+      await factory
+        .connect(projectOwner)
+        .fundPool(0, poolInfo.poolAddress, rewardAmount);
+
+      for (const staker of stakers) {
+        await stakedToken.mint(staker.address, ethers.parseEther("1000000"));
+        await stakedToken
+          .connect(staker)
+          .approve(poolInfo.poolAddress, ethers.MaxUint256);
+      }
+
+      const client = new LaunchPoolClient(
+        poolInfo.poolAddress,
+        ethers.provider
+      );
+      return {
+        factory: factory.connect(projectOwner),
+        client,
+        stakers,
+        endTime,
+        engine: new RewardEngine(await client.poolState(), claimSettings),
+      };
+    }
+
+    async function blockTime(tx: ContractTransactionResponse) {
+      const receipt = await tx.wait();
+      const block = await ethers.provider.getBlock(receipt!.blockNumber);
+      return { blockNumber: block!.number, timestamp: block!.timestamp };
+    }
+
+    it("Should release vested rewards like LaunchPool", async function () {
+      const { client, stakers, endTime, engine } = await deploySequence(
+        mulberry32(5),
+        {
+          ...CLAIM_AT_END,
+          vestingCliff: 600,
+          vestingDuration: 1800,
+          tgeShareBps: 1500,
+        }
+      );
+      const pool = client.contract;
+
+      for (const [i, staker] of stakers.entries()) {
+        const amount = ethers.parseEther("10") * BigInt(i + 1) + 7n;
+        const { timestamp } = await blockTime(
+          await pool.connect(staker).deposit(amount)
+        );
+        engine.deposit(staker.address, amount, timestamp);
+      }
+
+      // At the end, in the cliff, along the linear part and after it
+      for (const offset of [0, 300, 601, 1000, 1777, 2500]) {
+        for (const [i, staker] of stakers.entries()) {
+          const now = endTime + offset + i;
+          await time.setNextBlockTimestamp(now);
+          const { vested, claimed } = engine.vestingInfo(staker.address, now);
+          if (vested === claimed) {
+            await expect(pool.connect(staker).claimReward()).to.be.revertedWith(
+              "No rewards to claim"
+            );
+            continue;
+          }
+          await expect(pool.connect(staker).claimReward())
+            .to.emit(pool, "RewardClaimed")
+            .withArgs(staker.address, engine.claimReward(staker.address, now));
+          expect(engine.user(staker.address)).to.deep.equal(
+            await client.userInfo(staker.address)
+          );
+          expect(engine.rewardsClaimed(staker.address)).to.equal(
+            await pool.rewardsClaimed(staker.address)
+          );
+        }
+      }
+      for (const staker of stakers) {
+        expect(
+          engine.vestingInfo(staker.address, await time.latest())
+        ).to.deep.equal(await client.vestingInfo(staker.address));
+      }
+    });
+
+    for (const seed of SEEDS) {
+      it(`Should match pendingReward to the wei (seed ${seed})`, async function () {
+        const random = mulberry32(seed);
+        const { factory, client, stakers, endTime, engine } =
+          await deploySequence(random);
+        const pool = client.contract;
+        let paused = false;
+
+        for (let step = 0; step < ACTIONS_PER_SEQUENCE; step++) {
+          // Let time pass, sometimes across the start or end of the project
+          if (random() < 0.6) {
+            await time.increase(1 + Math.floor(random() * 200));
+          }
+          const staker = stakers[Math.floor(random() * stakers.length)];
+          const stakerPool = pool.connect(staker);
+          const staked = engine.user(staker.address).amount;
+          const ended = (await time.latest()) + 1 >= endTime;
+          const roll = random();
+
+          let tx: ContractTransactionResponse;
+          let apply: (now: number) => void;
+          if (paused && roll < 0.3 && staked > 0n) {
+            tx = await stakerPool.emergencyWithdraw();
+            apply = () => engine.emergencyWithdraw(staker.address);
+          } else if (paused) {
+            tx = await factory.resumeProject(0);
+            apply = () => {
+              paused = false;
+            };
+          } else if (!ended && roll < 0.05) {
+            tx = await factory.pauseProject(0);
+            apply = () => {
+              paused = true;
+            };
+          } else if (roll > 0.93) {
+            const user = stakers[Math.floor(random() * stakers.length)];
+            tx = await stakerPool.poke(user);
+            // Updates the pool even when no lock is over
+            apply = (now) => engine.poke(user.address, now);
+          } else if (ended && roll < 0.4) {
+            if (engine.pendingReward(staker.address, endTime) === 0n) {
+              continue;
+            }
+            tx = await stakerPool.claimReward();
+            apply = (now) => engine.claimReward(staker.address, now);
+          } else if (staked > 0n && (ended || roll < 0.45)) {
+            const unlocked = staked - (await pool.lockedAmount(staker));
+            const amount =
+              random() < 0.3
+                ? unlocked
+                : (unlocked * BigInt(Math.floor(random() * 1000))) / 1000n;
+            tx = await stakerPool.withdraw(amount);
+            // Locks don't hold once the pool has ended
+            apply = (now) =>
+              engine.withdraw(staker.address, amount, now, ended);
+          } else if (!ended) {
+            const amount =
+              1n +
+              BigInt(Math.floor(random() * 1e6)) * 10n ** 12n +
+              BigInt(Math.floor(random() * 1e6));
+            if (random() < 0.3) {
+              const lockDuration = 1 + Math.floor(random() * 3600);
+              tx = await stakerPool.depositLocked(amount, lockDuration);
+              const [locked] = await pool.queryFilter(
+                pool.filters.Locked(staker.address),
+                (await tx.wait())!.blockNumber
+              );
+              apply = (now) =>
+                engine.deposit(staker.address, amount, now, {
+                  weight: locked.args.weight,
+                  unlockTime: Number(locked.args.unlockTime),
+                });
+            } else {
+              tx = await stakerPool.deposit(amount);
+              apply = (now) => engine.deposit(staker.address, amount, now);
+            }
+          } else {
+            continue;
+          }
+
+          const { blockNumber, timestamp } = await blockTime(tx);
+          apply(timestamp);
+
+          const onChainPool = await client.poolState();
+          expect(engine.pool.accTokenPerShare).to.equal(
+            onChainPool.accTokenPerShare,
+            `accTokenPerShare at step ${step}`
+          );
+          expect(engine.pool.lastRewardTime).to.equal(
+            onChainPool.lastRewardTime
+          );
+          expect(engine.pool.totalStaked).to.equal(onChainPool.totalStaked);
+          expect(engine.pool.totalWeight).to.equal(onChainPool.totalWeight);
+          expect(engine.pool.unlocks).to.deep.equal(onChainPool.unlocks);
+
+          // A few seconds later, without any transaction in between
+          await time.increase(1 + Math.floor(random() * 30));
+          const now = await time.latest();
+          for (const user of stakers) {
+            expect(engine.user(user.address)).to.deep.equal(
+              await client.userInfo(user.address)
+            );
+            expect(engine.lockPositions(user.address)).to.deep.equal(
+              await client.lockPositions(user.address)
+            );
+            expect(engine.pendingReward(user.address, now)).to.equal(
+              await pool.pendingReward(user.address, {
+                blockTag: await ethers.provider.getBlockNumber(),
+              }),
+              `pendingReward of ${user.address} at step ${step}, block ${blockNumber}`
+            );
+          }
+        }
+      });
+    }
+  });
+});
@@ -0,0 +1,166 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import path from "path";
+import {
+  Scenario,
+  ScenarioError,
+  checkScenario,
+  readScenario,
+  runScenario,
+} from "../scenario";
+
+describe("Scenario runner", function () {
+  const log = () => {};
+
+  function minimalScenario(steps: Scenario["steps"]): Scenario {
+    return {
+      name: "Minimal",
+      accounts: ["owner", "alice"],
+      tokens: ["RWD"],
+      mint: { owner: { RWD: "100" } },
+      project: {
+        rewardToken: "RWD",
+        totalRewardAmount: "100",
+        startIn: 100,
+        duration: 1000,
+        pools: [{ stakedToken: "ETH", poolRewardAmount: "100" }],
+      },
+      steps,
+    };
+  }
+
+  it("Should run the example scenarios", async function () {
+    const scenario = readScenario(
+      path.join(__dirname, "..", "scenario", "examples", "full-launch.yaml")
+    );
+    const lines: string[] = [];
+    const result = await runScenario(scenario, {
+      log: (line) => lines.push(line),
+    });
+
+    expect(lines[lines.length - 1]).to.contain("steps passed");
+    expect(lines.some((line) => line.includes("pool 0 pending"))).to.equal(
+      true
+    );
+    expect(await result.factory.getProjectStatus(result.projectId)).to.equal(
+      "ENDED"
+    );
+    const rewardToken = await ethers.getContractAt(
+      "MockToken",
+      result.tokens.RWD
+    );
+    // Everything was paid out or taken back, up to rounding dust
+    let paidOut = 0n;
+    for (const address of Object.values(result.accounts)) {
+      paidOut += await rewardToken.balanceOf(address);
+    }
+    expect(paidOut)
+      .to.be.lte(ethers.parseEther("1000"))
+      .and.gt(ethers.parseEther("999.999999"));
+  });
+
+  it("Should fail on expectations that don't hold", async function () {
+    const scenario = minimalScenario([
+      { action: "fund" },
+      { action: "advance", to: "start" },
+      { action: "deposit", user: "alice", pool: 0, amount: "1" },
+      { action: "advance", seconds: 100 },
+      {
+        action: "expect",
+        status: "ACTIVE",
+        positions: { alice: { 0: { pendingReward: ">= 1000" } } },
+      },
+    ]);
+    await expect(runScenario(scenario, { log })).to.be.rejectedWith(
+      ScenarioError,
+      /^Step 5: expect: Expectations failed: alice's pending reward in pool 0 is [\d.]+, expected >= 1000$/
+    );
+  });
+
+  it("Should fail on unexpected reverts and missing reverts", async function () {
+    await expect(
+      runScenario(
+        minimalScenario([
+          { action: "deposit", user: "alice", pool: 0, amount: "1" },
+        ]),
+        { log }
+      )
+    ).to.be.rejectedWith(
+      ScenarioError,
+      /Step 1: deposit alice 1 in pool 0: Unexpected revert: .*Pool must be active or ready/
+    );
+    await expect(
+      runScenario(
+        minimalScenario([
+          { action: "fund", expectRevert: "Pool already funded" },
+        ]),
+        { log }
+      )
+    ).to.be.rejectedWith(
+      ScenarioError,
+      'Expected a revert with "Pool already funded" but the transaction succeeded'
+    );
+    await expect(
+      runScenario(
+        minimalScenario([
+          { action: "fund" },
+          { action: "pause", from: "alice", expectRevert: "Only owner" },
+        ]),
+        { log }
+      )
+    ).to.be.rejectedWith(
+      ScenarioError,
+      /Expected a revert with "Only owner", got .*Only project owner/
+    );
+  });
+
+  it("Should rethrow failures that aren't reverts", async function () {
+    const send = ethers.provider.send;
+    const nonceError = new Error("Nonce too low. Expected nonce to be 5");
+    const fundPool = (
+      await ethers.getContractFactory("LaunchPoolFactoryUpgradeable")
+    ).interface.getFunction("fundPool")!.selector;
+    // The setup goes through, only the fund step fails
+    ethers.provider.send = async (method: string, params?: any[]) => {
+      if (
+        method === "eth_sendTransaction" &&
+        params?.[0].data?.startsWith(fundPool)
+      ) {
+        throw nonceError;
+      }
+      return send.call(ethers.provider, method, params);
+    };
+    try {
+      await expect(
+        runScenario(minimalScenario([{ action: "fund", expectRevert: true }]), {
+          log,
+        })
+      ).to.be.rejectedWith(nonceError);
+    } finally {
+      ethers.provider.send = send;
+    }
+  });
+
+  it("Should reject unknown accounts and tokens", async function () {
+    expect(() =>
+      checkScenario(
+        minimalScenario([
+          { action: "deposit", user: "bob", pool: 0, amount: "1" },
+        ])
+      )
+    ).to.throw(ScenarioError, "Unknown account bob in deposit");
+    const scenario = minimalScenario([]);
+    scenario.project.pools[0].stakedToken = "USDC";
+    expect(() => checkScenario(scenario)).to.throw(
+      ScenarioError,
+      "Unknown token USDC in project.pools[0]"
+    );
+    expect(() =>
+      checkScenario(
+        minimalScenario([
+          { action: "withdraw", user: "alice", pool: 1, amount: "1" },
+        ])
+      )
+    ).to.throw(ScenarioError, "Step 1: Unknown pool 1");
+  });
+});
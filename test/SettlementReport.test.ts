@@ -0,0 +1,343 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { LaunchPoolFactoryUpgradeable } from "../typechain-types";
+import { CLAIM_AT_END, CurrentStatus, ETH_ADDRESS } from "../sdk";
+import { buildSettlementReport, settlementToCsv } from "../reports";
+
+describe("Settlement report", function () {
+  async function deployFixture() {
+    const [owner, projectOwner, user1, user2, user3] =
+      await ethers.getSigners();
+
+    const LaunchPool = await ethers.getContractFactory("LaunchPool");
+    const launchPoolImpl = await LaunchPool.deploy();
+    await launchPoolImpl.waitForDeployment();
+    const Factory = await ethers.getContractFactory(
+      "LaunchPoolFactoryUpgradeable"
+    );
+    const factory = (await upgrades.deployProxy(
+      Factory,
+      [await launchPoolImpl.getAddress()],
+      {
+        initializer: "initialize",
+        kind: "uups",
+      }
+    )) as LaunchPoolFactoryUpgradeable;
+
+    const MockToken = await ethers.getContractFactory("MockToken");
+    const rewardToken = await MockToken.deploy();
+    await rewardToken.waitForDeployment();
+    const testToken = await MockToken.deploy();
+    await testToken.waitForDeployment();
+    const partnerToken = await MockToken.deploy();
+    await partnerToken.waitForDeployment();
+
+    const startTime = (await time.latest()) + 100;
+    const endTime = startTime + 3600;
+    const metadata = {
+      projectName: "Settled Project",
+      website: "https://test.com",
+      logo: "https://test.com/logo.png",
+      discord: "https://discord.gg/test",
+      twitter: "https://twitter.com/test",
+      telegram: "https://t.me/test",
+      tokenInfo: "Test Token Info",
+    };
+    await factory.createProject(
+      rewardToken,
+      ethers.parseEther("720"),
+      startTime,
+      endTime,
+      metadata,
+      [
+        {
+          stakedToken: testToken,
+          poolRewardAmount: ethers.parseEther("360"),
+          poolLimitPerUser: ethers.parseEther("100"),
+          minStakeAmount: ethers.parseEther("1"),
+          startTime: 0,
+          endTime: 0,
+        },
+        {
+          stakedToken: ETH_ADDRESS,
+          poolRewardAmount: ethers.parseEther("360"),
+          poolLimitPerUser: ethers.parseEther("10"),
+          minStakeAmount: ethers.parseEther("0.1"),
+          startTime: 0,
+          endTime: 0,
+        },
+      ],
+      projectOwner.address,
+      CLAIM_AT_END
+    );
+    const [tokenPool, ethPool] = await Promise.all(
+      (
+        await factory.getProjectPools(0)
+      ).map((info) => ethers.getContractAt("LaunchPool", info.poolAddress))
+    );
+    // A co-launch partner's token, half as much for the ETH pool
+    await factory
+      .connect(projectOwner)
+      .addExtraRewardToken(0, partnerToken, ethers.parseEther("150"), [
+        ethers.parseEther("100"),
+        ethers.parseEther("50"),
+      ]);
+    await rewardToken.mint(projectOwner.address, ethers.parseEther("720"));
+    await rewardToken
+      .connect(projectOwner)
+      .approve(await factory.getAddress(), ethers.parseEther("720"));
+    await partnerToken.mint(projectOwner.address, ethers.parseEther("150"));
+    await partnerToken
+      .connect(projectOwner)
+      .approve(await factory.getAddress(), ethers.parseEther("150"));
+    for (const pool of [tokenPool, ethPool]) {
+      await factory
+        .connect(projectOwner)
+        .fundPool(0, pool, ethers.parseEther("360"));
+    }
+    for (const user of [user1, user2, user3]) {
+      await testToken.mint(user.address, ethers.parseEther("100"));
+      await testToken
+        .connect(user)
+        .approve(await tokenPool.getAddress(), ethers.MaxUint256);
+    }
+
+    // Stake for a while, with a pause in which user3 leaves
+    await time.increaseTo(startTime + 10);
+    await tokenPool.connect(user1).deposit(ethers.parseEther("40"));
+    await tokenPool.connect(user2).deposit(ethers.parseEther("20"));
+    await tokenPool.connect(user3).deposit(ethers.parseEther("10"));
+    await ethPool
+      .connect(user1)
+      .deposit(ethers.parseEther("1"), { value: ethers.parseEther("1") });
+    await time.increase(600);
+    await tokenPool.connect(user2).withdraw(ethers.parseEther("5"));
+    await factory.connect(projectOwner).pauseProject(0);
+    await tokenPool.connect(user3).emergencyWithdraw();
+    await factory.connect(projectOwner).resumeProject(0);
+    await time.increase(600);
+    const beforeEnd = await ethers.provider.getBlockNumber();
+    await factory.connect(projectOwner).endProject(0);
+    await time.increase(1);
+
+    return {
+      factory,
+      tokenPool,
+      ethPool,
+      rewardToken,
+      partnerToken,
+      projectOwner,
+      user1,
+      user2,
+      user3,
+      beforeEnd,
+    };
+  }
+
+  async function report(
+    factory: LaunchPoolFactoryUpgradeable,
+    blockNumber?: number
+  ) {
+    return buildSettlementReport(ethers.provider, factory.target as string, 0, {
+      blockNumber,
+      chunkSize: 10,
+    });
+  }
+
+  it("Should reconcile an ended project", async function () {
+    const { factory, tokenPool, rewardToken, projectOwner, user1, user2 } =
+      await loadFixture(deployFixture);
+    await tokenPool.connect(user1).claimReward();
+    await tokenPool.connect(projectOwner).withdrawRemainingRewards();
+
+    const settlement = await report(factory);
+    expect(settlement.currentStatus).to.equal(CurrentStatus.ENDED);
+    expect(settlement.discrepancyCount).to.equal(0);
+
+    const pool = settlement.pools[0];
+    const tokenPoolAddress = await tokenPool.getAddress();
+    expect(pool.pool).to.equal(tokenPoolAddress);
+    expect(pool.funded).to.equal(ethers.parseEther("360"));
+    expect(pool.participantCount).to.equal(3);
+    expect(pool.totalStaked).to.equal(ethers.parseEther("55"));
+    expect(pool.rewardBalance).to.equal(
+      await rewardToken.balanceOf(tokenPoolAddress)
+    );
+    expect(pool.remainingRewardsWithdrawn).to.be.gt(0n);
+    expect(pool.withdrawableRemaining).to.equal(0n);
+    expect(pool.leftover).to.equal(pool.rewardBalance - pool.unclaimed);
+    expect(pool.accrued).to.equal(pool.claimed + pool.unclaimed);
+
+    const user = settlement.users.find(
+      (entry) => entry.pool === tokenPoolAddress && entry.user === user1.address
+    )!;
+    expect(user.claimed).to.be.gt(0n);
+    expect(user.unclaimed).to.equal(0n);
+    expect(user.staked).to.equal(ethers.parseEther("40"));
+    const user2Entry = settlement.users.find(
+      (entry) => entry.pool === tokenPoolAddress && entry.user === user2.address
+    )!;
+    expect(user2Entry.withdrawn).to.equal(ethers.parseEther("5"));
+    expect(user2Entry.unclaimed).to.equal(
+      await tokenPool.pendingReward(user2.address)
+    );
+    expect(user2Entry.history.map((event) => event.type)).to.deep.equal([
+      "Deposit",
+      "Withdraw",
+    ]);
+  });
+
+  it("Should report what withdrawRemainingRewards can return", async function () {
+    const { factory, tokenPool, projectOwner, rewardToken } = await loadFixture(
+      deployFixture
+    );
+    const [pool] = (await report(factory)).pools;
+    expect(pool.withdrawableRemaining).to.be.gt(0n);
+
+    const balance = await rewardToken.balanceOf(projectOwner.address);
+    await tokenPool.connect(projectOwner).withdrawRemainingRewards();
+    expect(
+      (await rewardToken.balanceOf(projectOwner.address)) - balance
+    ).to.equal(pool.withdrawableRemaining);
+  });
+
+  it("Should reconcile extra reward tokens", async function () {
+    const {
+      factory,
+      tokenPool,
+      ethPool,
+      partnerToken,
+      projectOwner,
+      user1,
+      user2,
+    } = await loadFixture(deployFixture);
+    await tokenPool.connect(user1).claimReward();
+    const tokenPoolAddress = await tokenPool.getAddress();
+    const partnerTokenAddress = await partnerToken.getAddress();
+
+    let settlement = await report(factory);
+    expect(settlement.discrepancyCount).to.equal(0);
+    const [pool] = settlement.pools;
+    expect(pool.extraRewards).to.have.length(1);
+    const [extra] = pool.extraRewards;
+    expect(extra).to.include({
+      rewardToken: partnerTokenAddress,
+      poolRewardAmount: ethers.parseEther("100"),
+      funded: ethers.parseEther("100"),
+      remainingRewardsWithdrawn: 0n,
+    });
+    expect(extra.claimed).to.equal(await partnerToken.balanceOf(user1.address));
+    expect(extra.rewardBalance).to.equal(
+      await partnerToken.balanceOf(tokenPoolAddress)
+    );
+    const user2Entry = settlement.users.find(
+      (entry) => entry.pool === tokenPoolAddress && entry.user === user2.address
+    )!;
+    const [, [, user2Pending]] = await tokenPool.getPendingRewards(
+      user2.address
+    );
+    expect(user2Entry.extraRewards).to.deep.equal([
+      {
+        rewardToken: partnerTokenAddress,
+        claimed: 0n,
+        unclaimed: user2Pending,
+      },
+    ]);
+    expect(extra.unclaimed).to.equal(
+      settlement.users
+        .filter((entry) => entry.pool === tokenPoolAddress)
+        .reduce((total, entry) => total + entry.extraRewards[0].unclaimed, 0n)
+    );
+
+    // The report says what withdrawRemainingRewards returns of each token
+    expect(extra.withdrawableRemaining).to.be.gt(0n);
+    const balance = await partnerToken.balanceOf(projectOwner.address);
+    await tokenPool.connect(projectOwner).withdrawRemainingRewards();
+    expect(
+      (await partnerToken.balanceOf(projectOwner.address)) - balance
+    ).to.equal(extra.withdrawableRemaining);
+
+    settlement = await report(factory);
+    expect(settlement.discrepancyCount).to.equal(0);
+    expect(settlement.pools[0].extraRewards[0]).to.include({
+      remainingRewardsWithdrawn: extra.withdrawableRemaining,
+      withdrawableRemaining: 0n,
+    });
+
+    // emergencyExtraRewardWithdraw emits nothing either
+    await factory.connect(projectOwner).pauseProject(0);
+    await ethPool
+      .connect(projectOwner)
+      .emergencyExtraRewardWithdraw(0, ethers.parseEther("1"));
+    const [, ethPoolSettlement] = (await report(factory)).pools;
+    expect(ethPoolSettlement.discrepancies).to.have.length(1);
+    expect(ethPoolSettlement.discrepancies[0]).to.match(
+      new RegExp(`^Reward balance \\d+ of ${partnerTokenAddress} differs`)
+    );
+  });
+
+  it("Should report at a past block", async function () {
+    const { factory, user3, beforeEnd } = await loadFixture(deployFixture);
+    const settlement = await report(factory, beforeEnd);
+    expect(settlement.blockNumber).to.equal(beforeEnd);
+    expect(settlement.currentStatus).to.equal(CurrentStatus.ACTIVE);
+    expect(settlement.discrepancyCount).to.equal(0);
+    const user = settlement.users.find(
+      (entry) => entry.user === user3.address
+    )!;
+    expect(user.emergencyWithdrawn).to.equal(ethers.parseEther("10"));
+    expect(user.staked).to.equal(0n);
+    expect(user.accrued).to.equal(0n);
+  });
+
+  it("Should flag reward balances the logs don't explain", async function () {
+    const { factory, ethPool, projectOwner } = await loadFixture(deployFixture);
+    // emergencyRewardWithdraw emits nothing
+    await factory.connect(projectOwner).pauseProject(0);
+    await ethPool
+      .connect(projectOwner)
+      .emergencyRewardWithdraw(ethers.parseEther("300"));
+
+    const settlement = await report(factory);
+    const [tokenPool, pool] = settlement.pools;
+    expect(tokenPool.discrepancies).to.deep.equal([]);
+    expect(pool.discrepancies).to.have.length(2);
+    expect(pool.discrepancies[0]).to.match(/^Reward balance .* differs/);
+    expect(pool.discrepancies[1]).to.match(/can't cover/);
+    expect(pool.leftover).to.be.lt(0n);
+    expect(settlement.discrepancyCount).to.equal(2);
+  });
+
+  it("Should export per-pool and per-user CSV", async function () {
+    const { factory } = await loadFixture(deployFixture);
+    const csv = settlementToCsv(await report(factory));
+    const [poolHeader, ...poolRows] = csv.pools.trim().split("\n");
+    expect(poolHeader.split(",")).to.include.members([
+      "projectId",
+      "pool",
+      "accrued",
+      "claimed",
+      "unclaimed",
+      "leftover",
+      "withdrawableRemaining",
+      "discrepancies",
+    ]);
+    expect(poolRows).to.have.length(2);
+    const [userHeader, ...userRows] = csv.users.trim().split("\n");
+    expect(userHeader.split(",")).to.not.include("history");
+    expect(userHeader.split(",")).to.not.include("extraRewards");
+    expect(userRows).to.have.length(4);
+    // One row per pool and per user for the partner token
+    const [extraHeader, ...extraRows] = csv.extraRewards.trim().split("\n");
+    expect(extraHeader.split(",")).to.include.members([
+      "pool",
+      "user",
+      "rewardToken",
+      "claimed",
+      "unclaimed",
+      "withdrawableRemaining",
+    ]);
+    expect(extraRows).to.have.length(6);
+  });
+});
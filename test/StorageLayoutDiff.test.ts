@@ -0,0 +1,202 @@
+import { expect } from "chai";
+import {
+  StorageItem,
+  StorageLayout,
+  diffStorageLayout,
+} from "../scripts/utils/preflight";
+
+describe("Storage layout diff", function () {
+  const CONTRACT = "contracts/LaunchPoolFactoryUpgradeable.sol:Factory";
+
+  function item(
+    label: string,
+    slot: number,
+    type: string,
+    offset = 0
+  ): StorageItem {
+    return {
+      astId: 0,
+      contract: CONTRACT,
+      label,
+      offset,
+      slot: `${slot}`,
+      type,
+    };
+  }
+
+  function struct(...members: [string, string][]) {
+    return {
+      encoding: "inplace" as const,
+      label: "struct Factory.Project",
+      numberOfBytes: `${32 * members.length}`,
+      members: members.map(([label, type], i) => item(label, i, type)),
+    };
+  }
+
+  const types = {
+    t_address: { encoding: "inplace" as const, label: "address" },
+    t_uint32: { encoding: "inplace" as const, label: "uint32" },
+    t_uint256: { encoding: "inplace" as const, label: "uint256" },
+  };
+
+  const previous: StorageLayout = {
+    storage: [
+      item("implementation", 0, "t_address"),
+      item("nextProjectId", 0, "t_uint32", 20),
+      item("totalRewards", 1, "t_uint256"),
+      item("treasury", 2, "t_address"),
+    ],
+    types,
+  };
+
+  function layout(storage: StorageItem[]): StorageLayout {
+    return { storage, types };
+  }
+
+  it("Should report no changes for the same layout", async function () {
+    expect(diffStorageLayout(previous, previous)).to.deep.equal({
+      unchanged: 4,
+      slots: [],
+      structs: [],
+    });
+  });
+
+  it("Should report appended and inserted slots", async function () {
+    const diff = diffStorageLayout(
+      previous,
+      layout([
+        ...previous.storage.slice(0, 2),
+        item("paused", 0, "t_uint32", 24),
+        ...previous.storage.slice(2),
+        item("poolVersions", 3, "t_uint256"),
+      ])
+    );
+    expect(diff.unchanged).to.equal(4);
+    expect(
+      diff.slots.map(({ slot, offset, label, change }) => [
+        slot,
+        offset,
+        label,
+        change,
+      ])
+    ).to.deep.equal([
+      ["0", 24, "paused", "inserted"],
+      ["3", 0, "poolVersions", "appended"],
+    ]);
+  });
+
+  it("Should report reordered slots", async function () {
+    const diff = diffStorageLayout(
+      previous,
+      layout([
+        previous.storage[0],
+        previous.storage[1],
+        item("treasury", 1, "t_address"),
+        item("totalRewards", 2, "t_uint256"),
+      ])
+    );
+    expect(diff.unchanged).to.equal(2);
+    expect(diff.slots).to.deep.equal([
+      {
+        slot: "1",
+        offset: 0,
+        label: "treasury",
+        type: "address",
+        change: "changed",
+        previous: { label: "totalRewards", type: "uint256" },
+      },
+      {
+        slot: "2",
+        offset: 0,
+        label: "totalRewards",
+        type: "uint256",
+        change: "changed",
+        previous: { label: "treasury", type: "address" },
+      },
+    ]);
+  });
+
+  it("Should report retyped slots", async function () {
+    const diff = diffStorageLayout(
+      previous,
+      layout([
+        ...previous.storage.slice(0, 2),
+        item("totalRewards", 1, "t_uint32"),
+        previous.storage[3],
+      ])
+    );
+    expect(diff.unchanged).to.equal(3);
+    expect(diff.slots).to.deep.equal([
+      {
+        slot: "1",
+        offset: 0,
+        label: "totalRewards",
+        type: "uint32",
+        change: "changed",
+        previous: { label: "totalRewards", type: "uint256" },
+      },
+    ]);
+  });
+
+  it("Should report removed slots", async function () {
+    const diff = diffStorageLayout(
+      previous,
+      layout([previous.storage[0], ...previous.storage.slice(2)])
+    );
+    expect(diff.unchanged).to.equal(3);
+    expect(diff.slots).to.deep.equal([
+      {
+        slot: "0",
+        offset: 20,
+        label: "nextProjectId",
+        type: "uint32",
+        change: "removed",
+      },
+    ]);
+  });
+
+  it("Should compare struct members", async function () {
+    const diff = diffStorageLayout(
+      {
+        ...previous,
+        types: {
+          ...types,
+          t_struct: struct(["owner", "t_address"], ["endTime", "t_uint32"]),
+        },
+      },
+      {
+        ...previous,
+        types: {
+          ...types,
+          t_struct: struct(
+            ["owner", "t_address"],
+            ["endTime", "t_uint256"],
+            ["pendingOwner", "t_address"]
+          ),
+        },
+      }
+    );
+    expect(diff.slots).to.deep.equal([]);
+    expect(diff.structs).to.deep.equal([
+      {
+        struct: "struct Factory.Project",
+        appendedMembers: ["pendingOwner: address"],
+        changedMembers: ["endTime: uint32"],
+      },
+    ]);
+  });
+
+  it("Should accept layouts without types", async function () {
+    // solc outputs null types for contracts without storage
+    const empty: StorageLayout = { storage: [], types: null };
+    const diff = diffStorageLayout(empty, previous);
+    expect(diff.unchanged).to.equal(0);
+    expect(diff.slots.map((slot) => slot.change)).to.deep.equal([
+      "appended",
+      "appended",
+      "appended",
+      "appended",
+    ]);
+    expect(diffStorageLayout(previous, empty).slots).to.have.length(4);
+  });
+});
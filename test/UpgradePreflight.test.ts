@@ -0,0 +1,183 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { CLAIM_AT_END } from "../sdk";
+import {
+  DeploymentManifest,
+  MANIFEST_VERSION,
+} from "../scripts/utils/manifest";
+import { diffSharedFields, runPreflight } from "../scripts/utils/preflight";
+import {
+  POOL_IMPLEMENTATION_PLACEHOLDER,
+  UpgradePlan,
+} from "../scripts/utils/upgradePlan";
+
+describe("Upgrade preflight", function () {
+  // Runs without the preflight's console output
+  async function quietly<T>(run: () => Promise<T>): Promise<T> {
+    const log = console.log;
+    console.log = () => {};
+    try {
+      return await run();
+    } finally {
+      console.log = log;
+    }
+  }
+
+  it("Should compare only the fields both versions return", async function () {
+    const before = {
+      project: { owner: "0x1", endTime: 10n, status: 1n },
+      pools: [{ poolAddress: "0x2", rewardPerSecond: 5n }],
+    };
+    expect(
+      diffSharedFields(before, {
+        project: { owner: "0x1", endTime: 10n, claimSettings: { policy: 0n } },
+        pools: [{ poolAddress: "0x2", rewardPerSecond: 5n, rewards: [] }],
+      })
+    ).to.deep.equal([]);
+    expect(
+      diffSharedFields(before, {
+        project: { owner: "0x1", endTime: 11n, status: 1n },
+        pools: [],
+      })
+    ).to.deep.equal([
+      { path: "project.endTime", before: 10n, after: 11n },
+      { path: "pools.length", before: 1, after: 0 },
+    ]);
+  });
+
+  async function legacyFactoryFixture() {
+    const [owner, projectOwner, user] = await ethers.getSigners();
+    const LegacyLaunchPool = await ethers.getContractFactory(
+      "LegacyLaunchPool"
+    );
+    const legacyPoolImpl = await LegacyLaunchPool.deploy();
+    const factory = await upgrades.deployProxy(
+      await ethers.getContractFactory("LegacyLaunchPoolFactory"),
+      [await legacyPoolImpl.getAddress()],
+      { initializer: "initialize", kind: "uups" }
+    );
+    const MockToken = await ethers.getContractFactory("MockToken");
+    const rewardToken = await MockToken.deploy();
+    const stakedToken = await MockToken.deploy();
+    await rewardToken.mint(projectOwner.address, ethers.parseEther("1000"));
+    await stakedToken.mint(user.address, ethers.parseEther("100"));
+
+    const startTime = (await time.latest()) + 100;
+    await factory.createProject(
+      rewardToken,
+      ethers.parseEther("1000"),
+      startTime,
+      startTime + 3600,
+      {
+        projectName: "Legacy",
+        website: "",
+        logo: "",
+        discord: "",
+        twitter: "",
+        telegram: "",
+        tokenInfo: "",
+      },
+      [
+        {
+          stakedToken,
+          poolRewardAmount: ethers.parseEther("1000"),
+          poolLimitPerUser: 0n,
+          minStakeAmount: 0n,
+          startTime: 0,
+          endTime: 0,
+        },
+      ],
+      projectOwner.address,
+      CLAIM_AT_END
+    );
+    const [pool] = (await factory.getProject(0)).pools;
+    await rewardToken
+      .connect(projectOwner)
+      .approve(factory, ethers.parseEther("1000"));
+    await factory
+      .connect(projectOwner)
+      .fundPool(0, pool, ethers.parseEther("1000"));
+    await time.increaseTo(startTime);
+    await stakedToken.connect(user).approve(pool, ethers.parseEther("100"));
+    const legacyPool = await ethers.getContractAt("LegacyLaunchPool", pool);
+    await legacyPool.connect(user).deposit(ethers.parseEther("100"));
+
+    const proxyAddress = await factory.getAddress();
+    const implementation = await upgrades.erc1967.getImplementationAddress(
+      proxyAddress
+    );
+    // What deploy.ts and upgrade.ts would have recorded for this proxy
+    const deployment: DeploymentManifest = {
+      manifestVersion: MANIFEST_VERSION,
+      network: "hardhat",
+      displayName: "Hardhat",
+      chainId: 31337,
+      deployer: owner.address,
+      deployedAt: new Date().toISOString(),
+      compiler: {
+        version: "0.8.28",
+        settings: { optimizer: { enabled: true, runs: 200 } },
+      },
+      contracts: {
+        launchPoolImplementation: {
+          address: await legacyPoolImpl.getAddress(),
+        },
+        factoryImplementation: { address: implementation },
+        factoryProxy: { address: proxyAddress },
+      },
+      upgrades: [
+        {
+          contractName: "LegacyLaunchPoolFactory",
+          previousImplementation: implementation,
+          newImplementation: implementation,
+          upgradedBy: owner.address,
+          upgradedAt: new Date().toISOString(),
+        },
+      ],
+    };
+    return { factory, proxyAddress, implementation, deployment };
+  }
+
+  it("Should dry-run the upgrade from the legacy factory", async function () {
+    const { factory, proxyAddress, implementation, deployment } =
+      await loadFixture(legacyFactoryFixture);
+    const plan: UpgradePlan = {
+      contractName: "LaunchPoolFactoryUpgradeable",
+      poolContractName: "LaunchPool",
+      reinitializer: "initializeV2",
+      reinitializerArgs: [POOL_IMPLEMENTATION_PLACEHOLDER],
+    };
+    const launchPoolImplementation = await factory.launchPoolImplementation();
+
+    await quietly(() => runPreflight(proxyAddress, plan, deployment));
+
+    // The dry run is reverted
+    expect(
+      await upgrades.erc1967.getImplementationAddress(proxyAddress)
+    ).to.equal(implementation);
+    expect(await factory.launchPoolImplementation()).to.equal(
+      launchPoolImplementation
+    );
+  });
+
+  it("Should name the contract to read the deployed state with", async function () {
+    const { proxyAddress, deployment } = await loadFixture(
+      legacyFactoryFixture
+    );
+    // LaunchPoolV2 has no getProject to decode it with
+    await expect(
+      quietly(() =>
+        runPreflight(
+          proxyAddress,
+          {
+            contractName: "LaunchPoolFactoryUpgradeable",
+            previousContractName: "LaunchPoolV2",
+            reinitializerArgs: [],
+          },
+          deployment
+        )
+      )
+    ).to.be.rejectedWith("--previous-contract");
+  });
+});